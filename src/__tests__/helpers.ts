@@ -0,0 +1,337 @@
+/**
+ * Shared helpers for unit tests
+ */
+
+import allowancesFixture from './fixtures/allowances.json' with { type: 'json' };
+import employeesFixture from './fixtures/employees.json' with { type: 'json' };
+import leavesFixture from './fixtures/leaves.json' with { type: 'json' };
+import leaveTypesFixture from './fixtures/leave-types.json' with { type: 'json' };
+import locationsFixture from './fixtures/locations.json' with { type: 'json' };
+import shiftsFixture from './fixtures/shifts.json' with { type: 'json' };
+import teamsFixture from './fixtures/teams.json' with { type: 'json' };
+import {
+  AllowanceSchema,
+  ApplicationSchema,
+  CandidateSchema,
+  CompanyHolidaySchema,
+  EmployeeSchema,
+  HiringStageSchema,
+  JobPostingSchema,
+  LeaveSchema,
+  LeaveTypeSchema,
+  LocationSchema,
+  ProjectSchema,
+  ProjectWorkerSchema,
+  ShiftSchema,
+  TeamSchema,
+  TrainingMembershipSchema,
+  TrainingSchema,
+  TrainingSessionSchema,
+  type Allowance,
+  type Application,
+  type Candidate,
+  type CompanyHoliday,
+  type Employee,
+  type HiringStage,
+  type JobPosting,
+  type Leave,
+  type LeaveType,
+  type Location,
+  type Project,
+  type ProjectWorker,
+  type Shift,
+  type Team,
+  type Training,
+  type TrainingMembership,
+  type TrainingSession,
+} from '../schemas.js';
+
+const timestamps = { created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-01T00:00:00Z' };
+
+/**
+ * Wrap items in a single page, as the list functions of the API return them
+ */
+export function page<T>(data: T[]) {
+  return Promise.resolve({ data, meta: { page: 1, limit: 100, hasNextPage: false } });
+}
+
+/**
+ * Leave types of the fixtures: 1 Vacation, 2 Sick Leave and 3 Personal
+ */
+export const leaveTypes: LeaveType[] = LeaveTypeSchema.array().parse(leaveTypesFixture.data);
+
+/**
+ * Build a leave from the approved full-day vacation of the fixtures
+ */
+export function leave(
+  id: number,
+  employeeId: number,
+  startOn: string,
+  finishOn: string,
+  overrides: Partial<Leave> = {}
+): Leave {
+  return LeaveSchema.parse({
+    ...leavesFixture.data[0],
+    id,
+    employee_id: employeeId,
+    start_on: startOn,
+    finish_on: finishOn,
+    ...overrides,
+  });
+}
+
+/**
+ * Build an employee from the first employee of the fixtures
+ */
+export function employee(id: number, overrides: Partial<Employee> = {}): Employee {
+  return EmployeeSchema.parse({ ...employeesFixture.data[0], id, ...overrides });
+}
+
+/**
+ * Build a team from the first team of the fixtures
+ */
+export function team(id: number, overrides: Partial<Team> = {}): Team {
+  return TeamSchema.parse({ ...teamsFixture.data[0], id, ...overrides });
+}
+
+/**
+ * Build an allowance of an employee from the first allowance of the fixtures
+ */
+export function allowance(
+  id: number,
+  employeeId: number,
+  overrides: Partial<Allowance> = {}
+): Allowance {
+  return AllowanceSchema.parse({
+    ...allowancesFixture.data[0],
+    id,
+    employee_id: employeeId,
+    ...overrides,
+  });
+}
+
+/**
+ * Build a location from the first location of the fixtures
+ */
+export function location(id: number, overrides: Partial<Location> = {}): Location {
+  return LocationSchema.parse({ ...locationsFixture.data[0], id, ...overrides });
+}
+
+/**
+ * Build a full-day company holiday
+ */
+export function companyHoliday(
+  id: number,
+  date: string,
+  overrides: Partial<CompanyHoliday> = {}
+): CompanyHoliday {
+  return CompanyHolidaySchema.parse({
+    id,
+    location_id: null,
+    summary: null,
+    description: null,
+    date,
+    half_day: null,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build a shift from the first shift of the fixtures
+ */
+export function shift(id: number, employeeId: number, overrides: Partial<Shift> = {}): Shift {
+  return ShiftSchema.parse({ ...shiftsFixture.data[0], id, employee_id: employeeId, ...overrides });
+}
+
+/**
+ * Build an active project
+ */
+export function project(id: number, name: string, overrides: Partial<Project> = {}): Project {
+  return ProjectSchema.parse({
+    id,
+    name,
+    code: null,
+    description: null,
+    status: 'active',
+    employees_assignment: 'manual',
+    company_id: 1,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build an assignment of an employee to a project
+ */
+export function projectWorker(
+  id: number,
+  projectId: number,
+  employeeId: number,
+  overrides: Partial<ProjectWorker> = {}
+): ProjectWorker {
+  return ProjectWorkerSchema.parse({
+    id,
+    project_id: projectId,
+    employee_id: employeeId,
+    company_labor_cost_cents: null,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build an active training
+ */
+export function training(id: number, name: string, overrides: Partial<Training> = {}): Training {
+  return TrainingSchema.parse({
+    id,
+    name,
+    description: null,
+    category_id: null,
+    status: 'active',
+    subsidized: false,
+    total_training_indirect_cost: null,
+    total_training_salary_cost: null,
+    company_id: 1,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build a session of a training
+ */
+export function trainingSession(
+  id: number,
+  trainingId: number,
+  overrides: Partial<TrainingSession> = {}
+): TrainingSession {
+  return TrainingSessionSchema.parse({
+    id,
+    training_id: trainingId,
+    name: null,
+    start_date: null,
+    end_date: null,
+    location: null,
+    max_attendees: null,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build an uncompleted enrollment of an employee in a training
+ */
+export function trainingMembership(
+  id: number,
+  trainingId: number,
+  employeeId: number,
+  overrides: Partial<TrainingMembership> = {}
+): TrainingMembership {
+  return TrainingMembershipSchema.parse({
+    id,
+    training_id: trainingId,
+    employee_id: employeeId,
+    session_id: null,
+    status: 'enrolled',
+    enrolled_at: '2024-01-01T00:00:00Z',
+    completed_at: null,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build a candidate with no details
+ */
+export function candidate(id: number, overrides: Partial<Candidate> = {}): Candidate {
+  return CandidateSchema.parse({
+    id,
+    first_name: null,
+    last_name: null,
+    full_name: null,
+    email: null,
+    phone: null,
+    source: null,
+    resume_url: null,
+    linkedin_url: null,
+    company_id: 1,
+    created_at: null,
+    updated_at: null,
+    ...overrides,
+  });
+}
+
+/**
+ * Build a published job posting
+ */
+export function jobPosting(
+  id: number,
+  title: string,
+  overrides: Partial<JobPosting> = {}
+): JobPosting {
+  return JobPostingSchema.parse({
+    id,
+    title,
+    description: null,
+    department: null,
+    location_id: null,
+    team_id: null,
+    status: 'published',
+    employment_type: null,
+    remote_status: null,
+    company_id: 1,
+    published_at: null,
+    closed_at: null,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build a hiring stage
+ */
+export function hiringStage(
+  id: number,
+  name: string,
+  overrides: Partial<HiringStage> = {}
+): HiringStage {
+  return HiringStageSchema.parse({
+    id,
+    name,
+    label: null,
+    ats_application_phase_id: null,
+    position: null,
+    company_id: 1,
+    ...timestamps,
+    ...overrides,
+  });
+}
+
+/**
+ * Build an open application with no stage
+ */
+export function application(
+  id: number,
+  candidateId: number,
+  jobPostingId: number,
+  overrides: Partial<Application> = {}
+): Application {
+  return ApplicationSchema.parse({
+    id,
+    job_posting_id: jobPostingId,
+    candidate_id: candidateId,
+    hiring_stage_id: null,
+    ats_application_phase_id: null,
+    status: null,
+    rating: null,
+    notes: null,
+    applied_at: null,
+    rejected_at: null,
+    hired_at: null,
+    created_at: null,
+    updated_at: null,
+    ...overrides,
+  });
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  getLocation: vi.fn(),
+  getTeam: vi.fn(),
+  listEmployees: vi.fn(),
+  listLeaves: vi.fn(),
+  listLeaveTypes: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import {
+  buildAbsenceCalendar,
+  cssColorName,
+  escapeIcsText,
+  foldIcsLine,
+} from '../../absence-calendar.js';
+import { employee, leave, leaveTypes, page, team } from '../helpers.js';
+
+/**
+ * Get the events of a calendar as unfolded content lines
+ */
+function events(ics: string): string[][] {
+  return ics
+    .replace(/\r\n /g, '')
+    .split('BEGIN:VEVENT\r\n')
+    .slice(1)
+    .map(event => event.split('\r\n'));
+}
+
+describe('Absence calendar', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getTeam).mockResolvedValue(team(1, { name: 'Backend' }));
+    vi.mocked(api.listEmployees).mockImplementation(() =>
+      page([employee(1, { full_name: 'Ana Ruiz' }), employee(2, { full_name: 'Ben Cole' })])
+    );
+    vi.mocked(api.listLeaveTypes).mockResolvedValue(
+      leaveTypes.map(type => (type.id === 2 ? { ...type, color: null } : type))
+    );
+    vi.mocked(api.listLeaves).mockImplementation(() =>
+      page([
+        leave(10, 1, '2026-06-01', '2026-06-05'),
+        leave(11, 2, '2026-06-03', '2026-06-03', { half_day: 'start', leave_type_id: 2 }),
+        leave(12, 2, '2026-06-08', '2026-06-09', { status: 'pending' }),
+        leave(13, 1, '2026-06-10', '2026-06-10', { status: 'declined' }),
+        leave(14, 3, '2026-06-01', '2026-06-02'),
+        leave(15, 1, '2026-08-01', '2026-08-02'),
+      ])
+    );
+  });
+
+  it('should render the approved leaves of a team as all-day events', async () => {
+    const calendar = await buildAbsenceCalendar({
+      team_id: 1,
+      from: '2026-06-01',
+      to: '2026-06-30',
+    });
+
+    expect(calendar).toMatchObject({ name: 'Absences - Backend', event_count: 2 });
+    expect(calendar.ics).toMatch(/^BEGIN:VCALENDAR\r\nVERSION:2\.0\r\n/);
+    expect(calendar.ics).toContain('X-WR-CALNAME:Absences - Backend\r\n');
+    expect(calendar.ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+
+    const [vacation, sick] = events(calendar.ics);
+    expect(vacation).toEqual(
+      expect.arrayContaining([
+        'UID:factorial-leave-10',
+        'LAST-MODIFIED:20241120T000000Z',
+        'DTSTART;VALUE=DATE:20260601',
+        'DTEND;VALUE=DATE:20260606',
+        'SUMMARY:Ana Ruiz - Vacation',
+        'CATEGORIES:Vacation',
+        'COLOR:mediumseagreen',
+        'STATUS:CONFIRMED',
+        'TRANSP:TRANSPARENT',
+      ])
+    );
+    expect(sick).toEqual(
+      expect.arrayContaining([
+        'DTSTART;VALUE=DATE:20260603',
+        'DTEND;VALUE=DATE:20260604',
+        'SUMMARY:Ben Cole - Sick Leave (half day)',
+      ])
+    );
+    expect(sick.some(line => line.startsWith('COLOR:'))).toBe(false);
+  });
+
+  it('should add pending leaves as tentative events', async () => {
+    const calendar = await buildAbsenceCalendar({
+      team_id: 1,
+      from: '2026-06-01',
+      to: '2026-06-30',
+      include_pending: true,
+    });
+
+    expect(calendar.event_count).toBe(3);
+    expect(events(calendar.ics)[2]).toEqual(
+      expect.arrayContaining(['SUMMARY:Ben Cole - Vacation (pending)', 'STATUS:TENTATIVE'])
+    );
+  });
+
+  it('should only add leave descriptions on request', async () => {
+    vi.mocked(api.listLeaves).mockImplementation(() =>
+      page([leave(10, 1, '2026-06-01', '2026-06-05', { description: 'Knee surgery' })])
+    );
+    const options = { team_id: 1, from: '2026-06-01', to: '2026-06-30' };
+
+    const [event] = events((await buildAbsenceCalendar(options)).ics);
+    expect(event).toContain('DESCRIPTION:Vacation of Ana Ruiz\\, approved.');
+
+    const [described] = events(
+      (await buildAbsenceCalendar({ ...options, include_descriptions: true })).ics
+    );
+    expect(described).toContain('DESCRIPTION:Vacation of Ana Ruiz\\, approved.\\nKnee surgery');
+  });
+
+  it('should map colors to the closest CSS3 color name', () => {
+    expect(cssColorName('#4caf50')).toBe('mediumseagreen');
+    expect(cssColorName('#F00')).toBe('red');
+    expect(cssColorName('1e88e5')).toBe('dodgerblue');
+    expect(cssColorName('Teal')).toBe('teal');
+    expect(cssColorName('rgb(0, 0, 0)')).toBeUndefined();
+  });
+
+  it('should cover the last month and the next year by default', async () => {
+    const calendar = await buildAbsenceCalendar({ today: '2026-07-15' });
+
+    expect(calendar).toMatchObject({
+      name: 'Absences - All employees',
+      from: '2026-06-15',
+      to: '2027-07-15',
+      event_count: 1,
+    });
+    expect(api.listLeaves).toHaveBeenCalledWith(
+      expect.objectContaining({ start_on_gte: '2025-06-14', start_on_lte: '2027-07-15' })
+    );
+  });
+
+  it('should refuse invalid ranges', async () => {
+    await expect(buildAbsenceCalendar({ from: '2026-06-30', to: '2026-06-01' })).rejects.toThrow(
+      'ends (2026-06-01) before it starts'
+    );
+    await expect(buildAbsenceCalendar({ from: 'June' })).rejects.toThrow('Invalid date "June"');
+  });
+
+  it('should escape text and fold long lines at 75 octets', () => {
+    expect(escapeIcsText('Vacation; Madrid, Spain\nBack on Monday')).toBe(
+      'Vacation\\; Madrid\\, Spain\\nBack on Monday'
+    );
+
+    const line = `DESCRIPTION:${'Vacaciones de verano en Málaga con la familia. '.repeat(4)}`;
+    const folded = foldIcsLine(line);
+    const parts = folded.split('\r\n');
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.every(part => Buffer.byteLength(part, 'utf8') <= 75)).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+});
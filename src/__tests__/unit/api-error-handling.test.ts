@@ -111,9 +111,6 @@ describe('API Error Handling and Edge Cases', () => {
   });
 
   describe('List operations with filters', () => {
-    // Note: team_id filtering is no longer supported because team_ids is not on Employee
-    // Team membership is stored on the Team object (employee_ids) not on Employee
-
     it('should filter employees by location ID', async () => {
       const employees = [
         {
@@ -50,8 +50,15 @@ describe('API Client', () => {
       expect(result.data[0].full_name).toBe('John Doe');
     });
 
-    // Note: team_id filtering is no longer supported because team_ids is not on Employee
-    // Team membership is stored on the Team object (employee_ids) not on Employee
+    it('should filter by team_id using the team members', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => employeesFixture })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: teamsFixture.data[1] }) });
+
+      const result = await listEmployees({ team_id: 2 });
+
+      expect(result.data.map(e => e.id)).toEqual([1, 3]);
+    });
 
     it('should filter by location_id client-side', async () => {
       mockFetch.mockResolvedValueOnce({
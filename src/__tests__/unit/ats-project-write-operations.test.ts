@@ -7,6 +7,17 @@ vi.stubGlobal('fetch', mockFetch);
 // Mock environment
 vi.stubEnv('FACTORIAL_API_KEY', 'test-api-key');
 
+/**
+ * Mock the pre-write snapshot fetch made by update and delete operations
+ */
+function mockSnapshot(data: Record<string, unknown> = { id: 1 }): void {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: async () => ({ data }),
+  });
+}
+
 // Import after mocking
 const {
   createProject,
@@ -72,6 +83,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a project', async () => {
+      mockSnapshot();
       const project = { id: 1, name: 'Updated Project', description: 'Updated', company_id: 1 };
 
       mockFetch.mockResolvedValueOnce({
@@ -86,6 +98,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a project', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -93,7 +106,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteProject(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should create a project task', async () => {
@@ -115,6 +128,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a project task', async () => {
+      mockSnapshot();
       const task = { id: 1, project_id: 1, title: 'Updated Task', description: 'Updated' };
 
       mockFetch.mockResolvedValueOnce({
@@ -129,6 +143,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a project task', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -136,7 +151,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteProjectTask(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should assign a project worker', async () => {
@@ -188,6 +203,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a time record', async () => {
+      mockSnapshot();
       const record = {
         id: 1,
         project_worker_id: 1,
@@ -207,6 +223,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a time record', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -214,7 +231,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteTimeRecord(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -234,6 +251,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a training', async () => {
+      mockSnapshot();
       const training = { id: 1, name: 'Updated Training', description: 'Updated', company_id: 1 };
 
       mockFetch.mockResolvedValueOnce({
@@ -248,6 +266,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a training', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -255,7 +274,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteTraining(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should create a training session', async () => {
@@ -277,6 +296,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a training session', async () => {
+      mockSnapshot();
       const session = { id: 1, training_id: 1, start_date: '2025-02-01', end_date: '2025-02-10' };
 
       mockFetch.mockResolvedValueOnce({
@@ -291,6 +311,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a training session', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -298,7 +319,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteTrainingSession(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should enroll in training', async () => {
@@ -343,6 +364,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a work area', async () => {
+      mockSnapshot();
       const workArea = { id: 1, name: 'Updated Area', location_id: 1, company_id: 1 };
 
       mockFetch.mockResolvedValueOnce({
@@ -401,6 +423,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a job posting', async () => {
+      mockSnapshot();
       const posting = { id: 1, title: 'Senior Software Engineer', status: 'open', company_id: 1 };
 
       mockFetch.mockResolvedValueOnce({
@@ -415,6 +438,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a job posting', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -422,7 +446,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteJobPosting(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should create a candidate', async () => {
@@ -449,6 +473,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update a candidate', async () => {
+      mockSnapshot();
       const candidate = {
         id: 1,
         first_name: 'Alice',
@@ -468,6 +493,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete a candidate', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -475,7 +501,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteCandidate(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should create an application', async () => {
@@ -493,6 +519,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should update an application', async () => {
+      mockSnapshot();
       const application = { id: 1, job_posting_id: 1, candidate_id: 1, status: 'reviewed' };
 
       mockFetch.mockResolvedValueOnce({
@@ -507,6 +534,7 @@ describe('ATS and Project Write Operations', () => {
     });
 
     it('should delete an application', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -514,7 +542,7 @@ describe('ATS and Project Write Operations', () => {
 
       await deleteApplication(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should advance an application', async () => {
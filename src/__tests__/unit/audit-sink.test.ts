@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditAction, type AuditEntry } from '../../audit.js';
+import {
+  GENESIS_HASH,
+  JsonlFileAuditSink,
+  hashAuditEntry,
+  verifyAuditChain,
+} from '../../audit-sink.js';
+
+function makeEntry(n: number): AuditEntry {
+  return {
+    id: `entry-${n}`,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, 0, n)).toISOString(),
+    actor: 'tester',
+    action: AuditAction.UPDATE,
+    entityType: 'employee',
+    entityId: n,
+    success: true,
+    durationMs: 5,
+  };
+}
+
+describe('Audit Sink', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'factorial-audit-'));
+    path = join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('JsonlFileAuditSink', () => {
+    it('should append one JSON line per entry', () => {
+      const sink = new JsonlFileAuditSink({ path, maxBytes: 1024 * 1024, maxFiles: 0 });
+
+      sink.write(makeEntry(1));
+      sink.write(makeEntry(2));
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(sink.read()).toEqual([makeEntry(1), makeEntry(2)]);
+    });
+
+    it('should chain each entry to the previous one', () => {
+      const sink = new JsonlFileAuditSink({ path, maxBytes: 1024 * 1024, maxFiles: 0 });
+
+      sink.write(makeEntry(1));
+      sink.write(makeEntry(2));
+
+      const [first, second] = sink.readChained();
+      expect(first.prevHash).toBe(GENESIS_HASH);
+      expect(first.hash).toBe(hashAuditEntry(GENESIS_HASH, makeEntry(1)));
+      expect(second.prevHash).toBe(first.hash);
+    });
+
+    it('should continue the chain after a restart', () => {
+      new JsonlFileAuditSink({ path, maxBytes: 1024 * 1024, maxFiles: 0 }).write(makeEntry(1));
+      const reopened = new JsonlFileAuditSink({ path, maxBytes: 1024 * 1024, maxFiles: 0 });
+      reopened.write(makeEntry(2));
+
+      expect(reopened.verify()).toEqual({ valid: true, entries: 2 });
+    });
+
+    it('should rotate files when the size limit is reached', () => {
+      const sink = new JsonlFileAuditSink({ path, maxBytes: 400, maxFiles: 0 });
+
+      for (let i = 1; i <= 6; i++) sink.write(makeEntry(i));
+
+      expect(existsSync(`${path}.1`)).toBe(true);
+      expect(existsSync(`${path}.2`)).toBe(true);
+      expect(sink.read().map(e => e.id)).toEqual([1, 2, 3, 4, 5, 6].map(n => `entry-${n}`));
+      expect(sink.verify().valid).toBe(true);
+    });
+
+    it('should prune old files beyond maxFiles', () => {
+      const sink = new JsonlFileAuditSink({ path, maxBytes: 400, maxFiles: 1 });
+
+      for (let i = 1; i <= 6; i++) sink.write(makeEntry(i));
+
+      expect(existsSync(`${path}.1`)).toBe(true);
+      expect(existsSync(`${path}.2`)).toBe(false);
+      expect(sink.read().at(-1)?.id).toBe('entry-6');
+      expect(sink.verify().valid).toBe(true);
+    });
+
+    it('should detect a modified entry', () => {
+      const sink = new JsonlFileAuditSink({ path, maxBytes: 1024 * 1024, maxFiles: 0 });
+      sink.write(makeEntry(1));
+      sink.write(makeEntry(2));
+
+      writeFileSync(path, readFileSync(path, 'utf8').replace('"entityId":2', '"entityId":99'));
+
+      const result = sink.verify();
+      expect(result.valid).toBe(false);
+      expect(result.brokenAtId).toBe('entry-2');
+      expect(result.reason).toContain('modified');
+    });
+
+    it('should detect a removed entry', () => {
+      const sink = new JsonlFileAuditSink({ path, maxBytes: 1024 * 1024, maxFiles: 0 });
+      for (let i = 1; i <= 3; i++) sink.write(makeEntry(i));
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n');
+      writeFileSync(path, `${lines[0]}\n${lines[2]}\n`);
+
+      const result = sink.verify();
+      expect(result.valid).toBe(false);
+      expect(result.brokenAtId).toBe('entry-3');
+      expect(result.reason).toContain('removed');
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    it('should accept an empty chain', () => {
+      expect(verifyAuditChain([])).toEqual({ valid: true, entries: 0 });
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AuditAction, auditedOperation, auditLogger } from '../../audit.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditAction, auditedOperation, auditLogger, type AuditEntry } from '../../audit.js';
+import type { AuditSink } from '../../audit-sink.js';
+import { runWithSession } from '../../context.js';
+import { AuditLogError } from '../../errors.js';
 
 describe('Audit Module', () => {
   beforeEach(() => {
@@ -111,6 +117,7 @@ describe('Audit Module', () => {
       expect(AuditAction.UNARCHIVE).toBe('UNARCHIVE');
       expect(AuditAction.ASSIGN).toBe('ASSIGN');
       expect(AuditAction.UNASSIGN).toBe('UNASSIGN');
+      expect(AuditAction.HIRE).toBe('HIRE');
     });
   });
 
@@ -170,5 +177,213 @@ describe('Audit Module', () => {
       expect(auditLogger.getLogsByEntityType('employee')).toHaveLength(0);
       expect(auditLogger.getLogsByEntityType('team')).toHaveLength(0);
     });
+
+    it('should assign an ID to every entry', async () => {
+      await auditedOperation(AuditAction.CREATE, 'employee', 1, vi.fn().mockResolvedValue({}));
+      await auditedOperation(AuditAction.CREATE, 'employee', 2, vi.fn().mockResolvedValue({}));
+
+      const [first, second] = auditLogger.getRecentLogs();
+      expect(first.id).toBeTruthy();
+      expect(first.id).not.toBe(second.id);
+    });
+
+    it('should record the actor from FACTORIAL_AUDIT_ACTOR', async () => {
+      vi.stubEnv('FACTORIAL_AUDIT_ACTOR', 'jane@example.com');
+
+      await auditedOperation(AuditAction.APPROVE, 'leave', 5, vi.fn().mockResolvedValue({}));
+
+      expect(auditLogger.getRecentLogs()[0].actor).toBe('jane@example.com');
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe('AuditLogger.query', () => {
+    beforeEach(async () => {
+      auditLogger.clear();
+      await auditedOperation(AuditAction.CREATE, 'employee', 1, vi.fn().mockResolvedValue({}));
+      await auditedOperation(AuditAction.APPROVE, 'leave', 10, vi.fn().mockResolvedValue({}));
+      await auditedOperation(AuditAction.UPDATE, 'employee', 1, vi.fn().mockResolvedValue({}));
+      await auditedOperation(
+        AuditAction.DELETE,
+        'team',
+        3,
+        vi.fn().mockRejectedValue(new Error('Not found'))
+      ).catch(() => undefined);
+    });
+
+    it('should return entries most recent first', () => {
+      const entries = auditLogger.query();
+
+      expect(entries.map(e => e.action)).toEqual([
+        AuditAction.DELETE,
+        AuditAction.UPDATE,
+        AuditAction.APPROVE,
+        AuditAction.CREATE,
+      ]);
+    });
+
+    it('should filter by action, entity and outcome', () => {
+      expect(auditLogger.query({ action: AuditAction.APPROVE })).toHaveLength(1);
+      expect(auditLogger.query({ entityType: 'employee', entityId: 1 })).toHaveLength(2);
+      expect(auditLogger.query({ success: false })[0].entityType).toBe('team');
+    });
+
+    it('should filter by time range', () => {
+      const future = new Date(Date.now() + 60_000).toISOString();
+      const past = new Date(Date.now() - 60_000).toISOString();
+
+      expect(auditLogger.query({ since: future })).toHaveLength(0);
+      expect(auditLogger.query({ since: past, until: future })).toHaveLength(4);
+    });
+
+    it('should apply the limit', () => {
+      const entries = auditLogger.query({ limit: 2 });
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0].action).toBe(AuditAction.DELETE);
+    });
+  });
+
+  describe('Company partitioning', () => {
+    it('should record the company and only return entries of the active company', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'audit-company-'));
+      const profilesPath = join(dir, 'profiles.json');
+      writeFileSync(
+        profilesPath,
+        JSON.stringify({ profiles: { 'acme-es': { apiKey: 'es' }, 'acme-fr': { apiKey: 'fr' } } })
+      );
+      vi.stubEnv('FACTORIAL_PROFILES_PATH', profilesPath);
+      auditLogger.clear();
+
+      const inCompany = (company: string, fn: () => Promise<unknown>) =>
+        runWithSession({ transport: 'sse', company }, fn);
+
+      await inCompany('acme-es', () =>
+        auditedOperation(AuditAction.UPDATE, 'employee', 1, vi.fn().mockResolvedValue({}))
+      );
+      await inCompany('acme-fr', () =>
+        auditedOperation(AuditAction.UPDATE, 'employee', 1, vi.fn().mockResolvedValue({}))
+      );
+
+      const [esEntries, frEntries] = await Promise.all([
+        inCompany('acme-es', () => Promise.resolve(auditLogger.query())),
+        inCompany('acme-fr', () => Promise.resolve(auditLogger.query())),
+      ]);
+      expect(esEntries).toHaveLength(1);
+      expect(esEntries[0].company).toBe('acme-es');
+      expect(frEntries).toHaveLength(1);
+      expect(
+        runWithSession({ transport: 'sse', company: 'acme-fr' }, () =>
+          auditLogger.findById(esEntries[0].id)
+        )
+      ).toBeUndefined();
+
+      vi.unstubAllEnvs();
+      rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Audit sinks', () => {
+    beforeEach(() => {
+      auditLogger.clear();
+      auditLogger.clearSinks();
+    });
+
+    it('should forward entries to sinks', async () => {
+      const written: AuditEntry[] = [];
+      auditLogger.addSink({ write: entry => written.push(entry) });
+
+      await auditedOperation(AuditAction.CREATE, 'team', 4, vi.fn().mockResolvedValue({}));
+
+      expect(written).toHaveLength(1);
+      expect(written[0].entityId).toBe(4);
+      auditLogger.clearSinks();
+    });
+
+    it('should report a failed sink and refuse writes until the entry is written', async () => {
+      const written: AuditEntry[] = [];
+      let full = true;
+      auditLogger.addSink({
+        write: entry => {
+          if (full) throw new Error('Disk full');
+          written.push(entry);
+        },
+      });
+
+      await expect(
+        auditedOperation(AuditAction.CREATE, 'team', 4, vi.fn().mockResolvedValue({ id: 4 }))
+      ).rejects.toThrow(
+        'The audit entry of completed CREATE team #4 could not be written to the audit log: Disk full'
+      );
+
+      const operation = vi.fn().mockResolvedValue({ id: 5 });
+      await expect(auditedOperation(AuditAction.CREATE, 'team', 5, operation)).rejects.toThrow(
+        AuditLogError
+      );
+      expect(operation).not.toHaveBeenCalled();
+
+      full = false;
+      await expect(auditedOperation(AuditAction.CREATE, 'team', 5, operation)).resolves.toEqual({
+        id: 5,
+      });
+      expect(written.map(entry => entry.entityId)).toEqual([4, 5]);
+      auditLogger.clearSinks();
+    });
+
+    it('should redact snapshots and changes', async () => {
+      const written: AuditEntry[] = [];
+      auditLogger.addSink({ write: entry => written.push(entry) });
+
+      await auditedOperation(
+        AuditAction.UPDATE,
+        'employee',
+        4,
+        vi.fn().mockResolvedValue({}),
+        { bank_number: { from: 'ES9121000418450200051332', to: 'ES7921000813610123456789' } },
+        undefined,
+        {
+          id: 4,
+          first_name: 'Ana',
+          bank_number: 'ES9121000418450200051332',
+          birthday_on: '1990-01-01',
+        }
+      );
+
+      expect(written[0]).toMatchObject({
+        changes: { bank_number: { from: 'ES****1332', to: 'ES****6789' } },
+        before: { id: 4, first_name: 'Ana', bank_number: 'ES****1332' },
+        redacted: ['bank_number', 'birthday_on'],
+      });
+      expect(written[0].before).not.toHaveProperty('birthday_on');
+      auditLogger.clearSinks();
+    });
+
+    it('should query and verify through a persistent sink', () => {
+      const stored: AuditEntry[] = [
+        {
+          id: 'a',
+          timestamp: new Date().toISOString(),
+          action: AuditAction.CREATE,
+          entityType: 'team',
+          entityId: 1,
+          success: true,
+          durationMs: 1,
+        },
+      ];
+      const sink: AuditSink = {
+        write: () => undefined,
+        read: () => stored,
+        verify: () => ({ valid: true, entries: 1 }),
+      };
+      auditLogger.addSink(sink);
+
+      expect(auditLogger.query()).toEqual(stored);
+      expect(auditLogger.verify()).toEqual({ valid: true, entries: 1 });
+      auditLogger.clearSinks();
+    });
+
+    it('should report no verification without a verifiable sink', () => {
+      expect(auditLogger.verify()).toBeUndefined();
+    });
   });
 });
@@ -3,6 +3,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 // Mock config before imports
 vi.mock('../../config.js', () => ({
   debug: vi.fn(),
+  getActiveCompany: vi.fn(),
 }));
 
 // Import after mocking
@@ -234,6 +235,37 @@ describe('Cache Module', () => {
     });
   });
 
+  describe('CacheManager partitions', () => {
+    it('should keep entries of different partitions apart', () => {
+      let company = 'acme-es';
+      const instance = new CacheManager(() => company);
+
+      instance.set('employees:all', ['es']);
+      company = 'acme-fr';
+      expect(instance.get('employees:all')).toBeUndefined();
+
+      instance.set('employees:all', ['fr']);
+      company = 'acme-es';
+      expect(instance.get('employees:all')).toEqual(['es']);
+
+      instance.destroy();
+    });
+
+    it('should only invalidate entries of the current partition', () => {
+      let company = 'acme-es';
+      const instance = new CacheManager(() => company);
+      instance.set('employees:all', ['es']);
+      company = 'acme-fr';
+      instance.set('employees:all', ['fr']);
+
+      expect(instance.invalidatePrefix('employees')).toBe(1);
+      company = 'acme-es';
+      expect(instance.get('employees:all')).toEqual(['es']);
+
+      instance.destroy();
+    });
+  });
+
   describe('cached helper', () => {
     it('should fetch data when not cached', async () => {
       const fetcher = vi.fn().mockResolvedValue({ data: 'fresh' });
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  createApplication: vi.fn(),
+  deleteApplication: vi.fn(),
+  deleteCandidate: vi.fn(),
+  getCandidate: vi.fn(),
+  listApplications: vi.fn(),
+  listCandidates: vi.fn(),
+  rejectApplication: vi.fn(),
+  updateApplication: vi.fn(),
+  updateCandidate: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import {
+  clusterCandidates,
+  findDuplicateCandidates,
+  normalizeEmail,
+  normalizeLinkedIn,
+  normalizeName,
+  normalizePhone,
+  planMerge,
+  runMerge,
+} from '../../candidates-dedup.js';
+import { application, candidate, page } from '../helpers.js';
+
+const ana = candidate(1, {
+  first_name: 'Ana',
+  last_name: 'García',
+  email: 'Ana.Garcia+jobs@gmail.com',
+  source: 'linkedin',
+});
+const anaAgain = candidate(2, {
+  first_name: 'Ana',
+  last_name: 'Garcia',
+  email: 'anagarcia@googlemail.com',
+  phone: '+34 612 345 678',
+  linkedin_url: 'https://www.linkedin.com/in/ana-garcia/',
+});
+const anaByPhone = candidate(3, { full_name: 'García Ana', phone: '612-345-678' });
+const otherAna = candidate(4, { first_name: 'Ana', last_name: 'Garcia', email: 'ana@example.com' });
+const bob = candidate(5, { first_name: 'Bob', last_name: 'Stone', email: 'bob@example.com' });
+
+describe('Candidate deduplication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('normalization', () => {
+    it('should normalize emails, phones, LinkedIn profiles and names', () => {
+      expect(normalizeEmail(' Ana.Garcia+jobs@GMAIL.com ')).toBe('anagarcia@gmail.com');
+      expect(normalizeEmail('a.b+x@example.com')).toBe('a.b@example.com');
+      expect(normalizeEmail('not-an-email')).toBeUndefined();
+      expect(normalizePhone('+34 612 345 678')).toBe(normalizePhone('612-345-678'));
+      expect(normalizePhone('123')).toBeUndefined();
+      expect(normalizeLinkedIn('linkedin.com/in/Ana-Garcia?trk=x')).toBe('ana-garcia');
+      expect(normalizeName('García,  Ana')).toBe('ana garcia');
+    });
+  });
+
+  describe('clusterCandidates', () => {
+    it('should cluster candidates matching on email, phone and names', () => {
+      const clusters = clusterCandidates([ana, anaAgain, anaByPhone, otherAna, bob]);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].candidates.map(c => c.id)).toEqual([1, 2, 3]);
+      expect(clusters[0].suggested_survivor_id).toBe(1);
+      expect(clusters[0].matches).toContainEqual(
+        expect.objectContaining({ candidate_ids: [1, 2], signals: ['email', 'name'] })
+      );
+      expect(clusters[0].matches).toContainEqual(
+        expect.objectContaining({ candidate_ids: [2, 3], signals: ['phone', 'name'] })
+      );
+    });
+
+    it('should only report name-only matches below the default confidence', () => {
+      const clusters = clusterCandidates([otherAna, bob, anaByPhone], 0.5);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0]).toMatchObject({ confidence: 0.6 });
+      expect(clusters[0].matches[0].signals).toEqual(['name']);
+    });
+
+    it('should match names with small typos', () => {
+      const [cluster] = clusterCandidates(
+        [
+          candidate(1, { first_name: 'Jonathan', last_name: 'Smith', phone: '600111222' }),
+          candidate(2, { first_name: 'Johnathan', last_name: 'Smith', phone: '600 111 222' }),
+        ],
+        0.7
+      );
+
+      expect(cluster.matches[0].signals).toEqual(['phone', 'name']);
+      expect(cluster.matches[0].name_similarity).toBeGreaterThan(0.9);
+    });
+
+    it('should filter clusters by candidate', async () => {
+      vi.mocked(api.listCandidates).mockImplementation(() => page([ana, anaAgain, bob]));
+
+      expect(await findDuplicateCandidates({ candidate_id: 5 })).toEqual([]);
+      expect(await findDuplicateCandidates({ candidate_id: 2 })).toHaveLength(1);
+    });
+  });
+
+  describe('merge', () => {
+    beforeEach(() => {
+      const candidates = new Map([ana, anaAgain, bob].map(c => [c.id, c]));
+      vi.mocked(api.getCandidate).mockImplementation(id => Promise.resolve(candidates.get(id)!));
+      vi.mocked(api.listApplications).mockImplementation(() =>
+        page([
+          application(10, 1, 7, { notes: 'Phone screen done' }),
+          application(20, 2, 7, { notes: 'Referred by Marta', rating: 5 }),
+          application(21, 2, 8, {
+            hiring_stage_id: 2,
+            notes: 'Strong portfolio',
+            rating: 4,
+            rejected_at: '2026-03-04T10:00:00Z',
+          }),
+        ])
+      );
+      vi.mocked(api.createApplication).mockResolvedValue(application(30, 1, 8));
+    });
+
+    it('should plan field fills, application moves and deletions', async () => {
+      const plan = await planMerge(1, [2, 2, 5]);
+
+      expect(plan.fills).toEqual({
+        phone: '+34 612 345 678',
+        linkedin_url: 'https://www.linkedin.com/in/ana-garcia/',
+      });
+      expect(plan.steps.map(step => [step.kind, step.application_id ?? step.candidate_id])).toEqual(
+        [
+          ['update_survivor', 1],
+          ['merge_application', 20],
+          ['move_application', 21],
+          ['delete_candidate', 2],
+          ['delete_candidate', 5],
+        ]
+      );
+      expect(plan.warnings).toEqual([
+        expect.stringContaining('Bob Stone (5) does not look like Ana García'),
+        expect.stringContaining(
+          'Application 21 is recreated on candidate 1, so its application date'
+        ),
+      ]);
+    });
+
+    it('should refuse merging a candidate into itself', async () => {
+      await expect(planMerge(1, [1, 2])).rejects.toThrow('both the survivor and a duplicate');
+    });
+
+    it('should recreate applications on the survivor before deleting duplicates', async () => {
+      const result = await runMerge(await planMerge(1, [2]));
+
+      expect(result).toMatchObject({ status: 'completed', deleted_candidate_ids: [2] });
+      expect(api.updateCandidate).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ phone: '+34 612 345 678' })
+      );
+      expect(api.createApplication).toHaveBeenCalledWith({
+        job_posting_id: 8,
+        candidate_id: 1,
+        notes: 'Strong portfolio',
+      });
+      expect(api.updateApplication).toHaveBeenCalledWith(30, { hiring_stage_id: 2, rating: 4 });
+      expect(api.rejectApplication).toHaveBeenCalledWith(30, {
+        reason: expect.stringContaining('Rejected on 2026-03-04'),
+      });
+      expect(api.deleteApplication).toHaveBeenCalledWith(21);
+      expect(api.deleteCandidate).toHaveBeenCalledWith(2);
+    });
+
+    it('should merge applications to a posting the survivor already applied to', async () => {
+      const result = await runMerge(await planMerge(1, [2]));
+
+      expect(result.status).toBe('completed');
+      expect(api.updateApplication).toHaveBeenCalledWith(10, {
+        notes: 'Phone screen done\n\nReferred by Marta',
+        rating: 5,
+      });
+      expect(api.deleteApplication).toHaveBeenCalledWith(20);
+    });
+
+    it('should keep a duplicate whose application notes do not fit the survivor', async () => {
+      vi.mocked(api.listApplications).mockImplementation(() =>
+        page([
+          application(10, 1, 7, { notes: 'a'.repeat(1500) }),
+          application(20, 2, 7, { notes: 'b'.repeat(1500) }),
+        ])
+      );
+
+      const plan = await planMerge(1, [2]);
+
+      expect(plan.steps.map(step => step.kind)).toEqual(['update_survivor']);
+      expect(plan.warnings).toContainEqual(
+        expect.stringContaining('Application 20 cannot be merged into application 10')
+      );
+    });
+
+    it('should fill in a copy left by an earlier run instead of creating another', async () => {
+      const plan = await planMerge(1, [2]);
+      vi.mocked(api.listApplications).mockImplementation(() =>
+        page([application(10, 1, 7), application(30, 1, 8, { hiring_stage_id: 2 })])
+      );
+
+      await runMerge(plan);
+
+      expect(api.createApplication).not.toHaveBeenCalled();
+      expect(api.updateApplication).toHaveBeenCalledWith(30, {
+        notes: 'Strong portfolio',
+        rating: 4,
+      });
+      expect(api.deleteApplication).toHaveBeenCalledWith(21);
+    });
+
+    it('should delete the copy when its rejection cannot be restored', async () => {
+      vi.mocked(api.rejectApplication).mockRejectedValueOnce(new Error('Server error'));
+
+      const result = await runMerge(await planMerge(1, [2]));
+
+      expect(result.status).toBe('partial');
+      expect(result.steps.find(step => step.kind === 'move_application')).toMatchObject({
+        status: 'failed',
+        error: 'Server error',
+      });
+      expect(api.deleteApplication).toHaveBeenCalledWith(30);
+      expect(api.deleteApplication).not.toHaveBeenCalledWith(21);
+      expect(api.deleteCandidate).not.toHaveBeenCalled();
+    });
+
+    it('should keep a duplicate whose applications could not be moved', async () => {
+      vi.mocked(api.createApplication).mockRejectedValueOnce(new Error('Server error'));
+
+      const result = await runMerge(await planMerge(1, [2]));
+
+      expect(result.status).toBe('partial');
+      expect(result.deleted_candidate_ids).toEqual([]);
+      expect(result.steps.map(step => step.status)).toEqual(['done', 'done', 'failed', 'not_run']);
+      expect(api.deleteCandidate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,10 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 
 // Mock fs and dotenv
 vi.mock('fs', () => ({
   existsSync: vi.fn(),
+  readFileSync: vi.fn(),
 }));
 
 vi.mock('dotenv', () => ({
@@ -12,6 +13,7 @@ vi.mock('dotenv', () => ({
 }));
 
 const mockExistsSync = vi.mocked(existsSync);
+const mockReadFileSync = vi.mocked(readFileSync);
 const mockDotenvConfig = vi.fn();
 
 vi.mock('dotenv', async () => {
@@ -23,8 +25,34 @@ vi.mock('dotenv', async () => {
 });
 
 // Import after mocking
-const { loadEnv, getApiKey, getApiVersion, getBaseUrl, getConfig, isDebugEnabled, debug } =
-  await import('../../config.js');
+const {
+  loadEnv,
+  getApiKey,
+  getApiVersion,
+  getBaseUrl,
+  getConfig,
+  getServerOptions,
+  getServerMode,
+  getHttpAuthTokens,
+  getActiveCompany,
+  getCompanyProfile,
+  listCompanyProfiles,
+  isDebugEnabled,
+  debug,
+} = await import('../../config.js');
+const { runWithSession } = await import('../../context.js');
+
+let profilesFileCount = 0;
+
+/**
+ * Point FACTORIAL_PROFILES_PATH at a new (mocked) profiles file
+ */
+function useProfilesFile(contents: unknown): void {
+  process.env.FACTORIAL_PROFILES_PATH = `/etc/factorial/profiles-${++profilesFileCount}.json`;
+  mockReadFileSync.mockReturnValue(
+    typeof contents === 'string' ? contents : JSON.stringify(contents)
+  );
+}
 
 describe('Config Module', () => {
   beforeEach(() => {
@@ -39,6 +67,14 @@ describe('Config Module', () => {
     delete process.env.ENV_FILE_PATH;
     delete process.env.HOME;
     delete process.env.USERPROFILE;
+    delete process.env.FACTORIAL_TRANSPORT;
+    delete process.env.FACTORIAL_HTTP_PORT;
+    delete process.env.FACTORIAL_HTTP_SESSION_TIMEOUT;
+    delete process.env.FACTORIAL_HTTP_HOST;
+    delete process.env.FACTORIAL_HTTP_AUTH_TOKENS;
+    delete process.env.FACTORIAL_PROFILES_PATH;
+    delete process.env.FACTORIAL_MODE;
+    delete process.env.FACTORIAL_API_KEY_FR;
   });
 
   afterEach(() => {
@@ -277,4 +313,146 @@ describe('Config Module', () => {
       );
     });
   });
+
+  describe('getServerOptions', () => {
+    it('should default to stdio', () => {
+      expect(getServerOptions([])).toEqual({
+        transport: 'stdio',
+        port: 3000,
+        host: '127.0.0.1',
+        sessionIdleTimeoutMs: 30 * 60 * 1000,
+      });
+    });
+
+    it('should parse command-line arguments', () => {
+      expect(
+        getServerOptions(['--transport', 'http', '--port', '8080', '--host', '0.0.0.0'])
+      ).toMatchObject({ transport: 'http', port: 8080, host: '0.0.0.0' });
+    });
+
+    it('should fall back to environment variables', () => {
+      process.env.FACTORIAL_TRANSPORT = 'http';
+      process.env.FACTORIAL_HTTP_PORT = '9000';
+      process.env.FACTORIAL_HTTP_SESSION_TIMEOUT = '5';
+
+      expect(getServerOptions([])).toMatchObject({
+        transport: 'http',
+        port: 9000,
+        sessionIdleTimeoutMs: 5 * 60 * 1000,
+      });
+      expect(getServerOptions(['--port', '9001']).port).toBe(9001);
+    });
+
+    it('should reject unknown transports and invalid ports', () => {
+      expect(() => getServerOptions(['--transport', 'websocket'])).toThrow('Unknown transport');
+      expect(() => getServerOptions(['--port', 'abc'])).toThrow('Invalid HTTP port');
+      process.env.FACTORIAL_HTTP_SESSION_TIMEOUT = '0';
+      expect(() => getServerOptions([])).toThrow('Invalid FACTORIAL_HTTP_SESSION_TIMEOUT');
+    });
+  });
+
+  describe('getServerMode', () => {
+    it('should default to readwrite', () => {
+      expect(getServerMode()).toBe('readwrite');
+    });
+
+    it('should read FACTORIAL_MODE', () => {
+      process.env.FACTORIAL_MODE = 'dry-run';
+      expect(getServerMode()).toBe('dry-run');
+    });
+
+    it('should reject unknown modes', () => {
+      process.env.FACTORIAL_MODE = 'safe';
+      expect(() => getServerMode()).toThrow('Unknown FACTORIAL_MODE "safe"');
+    });
+  });
+
+  describe('getHttpAuthTokens', () => {
+    it('should return no tokens when unset', () => {
+      expect(getHttpAuthTokens()).toEqual([]);
+    });
+
+    it('should parse plain and named tokens', () => {
+      process.env.FACTORIAL_HTTP_AUTH_TOKENS = 'abc123, alice:def456 ,';
+
+      expect(getHttpAuthTokens()).toEqual([
+        { token: 'abc123' },
+        { client: 'alice', token: 'def456' },
+      ]);
+    });
+  });
+
+  describe('company profiles', () => {
+    const profiles = {
+      default: 'acme-es',
+      profiles: {
+        'acme-es': { apiKey: 'es-key' },
+        'acme-fr': {
+          apiKeyEnv: 'FACTORIAL_API_KEY_FR',
+          baseUrl: 'https://fr.example.com/resources',
+        },
+      },
+    };
+
+    it('should not use profiles when FACTORIAL_PROFILES_PATH is unset', () => {
+      process.env.FACTORIAL_API_KEY = 'test-key';
+
+      expect(getActiveCompany()).toBeUndefined();
+      expect(listCompanyProfiles()).toEqual([]);
+      expect(getConfig().company).toBeUndefined();
+      expect(mockReadFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should route to the default profile', () => {
+      useProfilesFile(profiles);
+
+      expect(listCompanyProfiles().map(p => p.name)).toEqual(['acme-es', 'acme-fr']);
+      expect(getActiveCompany()).toBe('acme-es');
+      expect(getConfig()).toMatchObject({
+        company: 'acme-es',
+        apiKey: 'es-key',
+        baseUrl: 'https://api.factorialhr.com/api/2025-10-01/resources',
+      });
+    });
+
+    it('should route to the company selected for the session', () => {
+      useProfilesFile(profiles);
+      process.env.FACTORIAL_API_KEY_FR = 'fr-key';
+
+      const config = runWithSession({ transport: 'sse', company: 'acme-fr' }, () => getConfig());
+
+      expect(config).toMatchObject({
+        company: 'acme-fr',
+        apiKey: 'fr-key',
+        baseUrl: 'https://fr.example.com/resources',
+      });
+    });
+
+    it('should throw when the API key variable of a profile is not set', () => {
+      useProfilesFile(profiles);
+
+      expect(() =>
+        runWithSession({ transport: 'sse', company: 'acme-fr' }, () => getConfig())
+      ).toThrow('FACTORIAL_API_KEY_FR');
+    });
+
+    it('should reject unknown companies', () => {
+      useProfilesFile(profiles);
+
+      expect(() => getCompanyProfile('acme-de')).toThrow(
+        'Unknown company "acme-de". Available companies: acme-es, acme-fr.'
+      );
+    });
+
+    it('should reject invalid profiles files', () => {
+      useProfilesFile({ profiles: { 'acme-es': {} } });
+      expect(() => getActiveCompany()).toThrow('apiKey or apiKeyEnv is required');
+
+      useProfilesFile({ default: 'acme-de', profiles: { 'acme-es': { apiKey: 'k' } } });
+      expect(() => getActiveCompany()).toThrow('default profile "acme-de" is not defined');
+
+      useProfilesFile('{ not json');
+      expect(() => getActiveCompany()).toThrow('Cannot read company profiles');
+    });
+  });
 });
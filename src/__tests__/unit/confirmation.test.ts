@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { confirmationManager, requestConfirmation } from '../../confirmation.js';
+import { runWithSession } from '../../context.js';
 
 describe('Confirmation Module', () => {
   beforeEach(() => {
@@ -79,6 +80,30 @@ describe('Confirmation Module', () => {
       expect(() => confirmationManager.confirm('invalid-token')).toThrow();
     });
 
+    it('should only confirm a token in the session that created it', () => {
+      const preview = {
+        operation: 'delete' as const,
+        entityType: 'team',
+        entityId: 1,
+        warnings: [],
+      };
+      const token = runWithSession({ sessionId: 'a', transport: 'streamable-http' }, () =>
+        confirmationManager.createConfirmation('delete_team', { id: 1 }, preview)
+      );
+
+      expect(() =>
+        runWithSession({ sessionId: 'b', transport: 'streamable-http' }, () =>
+          confirmationManager.confirm(token)
+        )
+      ).toThrow('Confirmation token has expired or is invalid');
+      expect(() => confirmationManager.confirm(token)).toThrow('has expired or is invalid');
+
+      const pending = runWithSession({ sessionId: 'a', transport: 'streamable-http' }, () =>
+        confirmationManager.confirm(token)
+      );
+      expect(pending.session).toBe('a');
+    });
+
     it('should expire tokens after TTL', () => {
       const token = confirmationManager.createConfirmation(
         'delete_team',
@@ -22,6 +22,7 @@ const {
   listLeaveTypes,
   getLeaveType,
   listAllowances,
+  listCompanyHolidays,
   listShifts,
   getShift,
   listFolders,
@@ -401,6 +402,26 @@ describe('Core Read Operations', () => {
       expect(result.data).toHaveLength(2);
       expect(result.data[0].balance).toBe(15);
     });
+
+    it('should list and cache company holidays', async () => {
+      const holidays = [
+        { id: 1, location_id: 3, summary: 'Labour Day', date: '2026-05-01' },
+        { id: 2, location_id: null, summary: 'Company Day', date: '2026-06-15' },
+      ];
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: holidays }),
+      });
+
+      const result = await listCompanyHolidays();
+      await listCompanyHolidays();
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch.mock.calls[0][0]).toContain('/holidays/company_holidays');
+      expect(result.map(holiday => holiday.date)).toEqual(['2026-05-01', '2026-06-15']);
+    });
   });
 
   describe('Shift Read Operations', () => {
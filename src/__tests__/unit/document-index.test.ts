@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  listDocuments: vi.fn(),
+}));
+
+vi.mock('../../documents.js', () => ({
+  extractDocumentContent: vi.fn(),
+}));
+
+import { listDocuments } from '../../api.js';
+import { DocumentIndex, tokenize } from '../../document-index.js';
+import { extractDocumentContent } from '../../documents.js';
+import { TimeoutError } from '../../errors.js';
+import type { Document } from '../../schemas.js';
+
+/**
+ * Build document metadata
+ */
+function doc(id: number, overrides: Partial<Document> = {}): Document {
+  return {
+    id,
+    name: `doc-${id}.pdf`,
+    folder_id: 1,
+    employee_id: 10,
+    author_id: null,
+    company_id: 1,
+    public: false,
+    space: null,
+    file_url: `/files/${id}`,
+    mime_type: 'application/pdf',
+    size_bytes: 100,
+    created_at: '2025-01-15T00:00:00Z',
+    updated_at: '2025-01-15T00:00:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Serve a single page of documents, each with the given page texts
+ */
+function serveDocuments(documents: Document[], texts: Record<number, string[]>): void {
+  vi.mocked(listDocuments).mockResolvedValue({
+    data: documents,
+    meta: { page: 1, limit: 100, hasNextPage: false },
+  });
+  vi.mocked(extractDocumentContent).mockImplementation(async document => ({
+    kind: 'text',
+    document_id: document.id,
+    name: document.name,
+    mime_type: 'application/pdf',
+    page_count: texts[document.id]?.length ?? 0,
+    chunks: (texts[document.id] ?? []).map((text, i) => ({ index: i, page: i + 1, text })),
+  }));
+}
+
+describe('Document Index', () => {
+  let index: DocumentIndex;
+
+  beforeEach(() => {
+    vi.mocked(listDocuments).mockReset();
+    vi.mocked(extractDocumentContent).mockReset();
+    index = new DocumentIndex();
+  });
+
+  it('should tokenize ignoring case, accents and short words', () => {
+    expect(tokenize('Período de PRUEBA: 6 meses, a')).toEqual(['periodo', 'de', 'prueba', 'meses']);
+  });
+
+  it('should index documents and rank matches with snippets', async () => {
+    serveDocuments([doc(1), doc(2, { employee_id: 11 }), doc(3)], {
+      1: ['Cover page', 'The notice period is thirty days for both parties.'],
+      2: ['Notice period: notice must be given in writing. Notice period applies.'],
+      3: ['Certificate of first aid training'],
+    });
+
+    const sync = await index.sync();
+    const results = index.search('notice period');
+
+    expect(sync).toMatchObject({ indexed: 3, unchanged: 0, removed: 0 });
+    expect(results.map(result => result.document_id)).toEqual([2, 1]);
+    expect(results[1]).toMatchObject({
+      employee_id: 10,
+      folder_id: 1,
+      page: 2,
+      snippet: 'The notice period is thirty days for both parties.',
+    });
+  });
+
+  it('should only download new and changed documents', async () => {
+    serveDocuments([doc(1), doc(2)], { 1: ['alpha'], 2: ['beta'] });
+    await index.sync();
+    vi.mocked(extractDocumentContent).mockClear();
+
+    serveDocuments([doc(1), doc(2, { updated_at: '2025-02-01T00:00:00Z' })], {
+      1: ['alpha'],
+      2: ['gamma'],
+    });
+    const sync = await index.sync();
+
+    expect(sync).toMatchObject({ indexed: 1, unchanged: 1 });
+    expect(extractDocumentContent).toHaveBeenCalledTimes(1);
+    expect(index.search('beta')).toEqual([]);
+    expect(index.search('gamma')).toHaveLength(1);
+  });
+
+  it('should drop deleted documents on a full sync only', async () => {
+    serveDocuments([doc(1), doc(2)], { 1: ['alpha'], 2: ['alpha'] });
+    await index.sync();
+
+    serveDocuments([doc(1)], { 1: ['alpha'] });
+    await index.sync({ folder_id: 1 });
+    expect(index.size).toBe(2);
+
+    const sync = await index.sync();
+    expect(sync.removed).toBe(1);
+    expect(index.search('alpha').map(result => result.document_id)).toEqual([1]);
+  });
+
+  it('should limit downloads per sync and retry failed downloads', async () => {
+    serveDocuments([doc(1), doc(2), doc(3)], { 1: ['alpha'], 2: ['alpha'], 3: ['alpha'] });
+    vi.mocked(extractDocumentContent).mockRejectedValueOnce(new TimeoutError(1000));
+
+    const first = await index.sync({}, 2);
+    expect(first).toMatchObject({ indexed: 1, failed: 1, pending: 1 });
+
+    const second = await index.sync({}, 2);
+    expect(second).toMatchObject({ indexed: 2, unchanged: 1, pending: 0 });
+  });
+
+  it('should keep documents without text so they are not downloaded again', async () => {
+    serveDocuments([doc(1, { mime_type: 'application/zip' })], {});
+    vi.mocked(extractDocumentContent).mockRejectedValueOnce(new Error('Cannot read'));
+
+    expect(await index.sync()).toMatchObject({ skipped: 1 });
+    expect(await index.sync()).toMatchObject({ unchanged: 1 });
+  });
+
+  it('should match quoted phrases exactly and apply filters', async () => {
+    serveDocuments(
+      [
+        doc(1, { created_at: '2024-06-01T00:00:00Z' }),
+        doc(2, { employee_id: 11, folder_id: 2 }),
+        doc(3),
+      ],
+      {
+        1: ['Non-compete clause: twelve months.'],
+        2: ['The non-compete clause does not apply.'],
+        3: ['Clause on non exclusive compete terms'],
+      }
+    );
+    await index.sync();
+
+    expect(
+      index
+        .search('"non-compete clause"')
+        .map(result => result.document_id)
+        .sort()
+    ).toEqual([1, 2]);
+    expect(index.search('"non compete"', { employee_ids: [11] })[0].snippet).toBe(
+      'The non-compete clause does not apply.'
+    );
+    expect(index.search('clause', { folder_id: 2 }).map(result => result.document_id)).toEqual([2]);
+    expect(
+      index.search('clause', { created_from: '2025-01-01' }).map(result => result.document_id)
+    ).not.toContain(1);
+    expect(
+      index.search('clause', { created_to: '2024-12-31' }).map(result => result.document_id)
+    ).toEqual([1]);
+  });
+
+  it('should skip listing when the employee filter is empty', async () => {
+    expect(await index.sync({ employee_ids: [] })).toMatchObject({ indexed: 0 });
+    expect(listDocuments).not.toHaveBeenCalled();
+  });
+
+  it('should reject queries without words', () => {
+    expect(() => index.search('a !')).toThrow('at least one word');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+vi.stubEnv('FACTORIAL_API_KEY', 'test-api-key');
+
+const { chunkText, inferMimeType, loadDocumentFile, readDocumentContent } =
+  await import('../../documents.js');
+const { ConfigurationError } = await import('../../errors.js');
+const { clearCache } = await import('../../api.js');
+
+/**
+ * Mock the document metadata request and the file download
+ */
+function mockDocument(document: Record<string, unknown>, file: Buffer, contentType = ''): void {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      data: { id: 7, name: 'notes.txt', updated_at: '2025-01-15T00:00:00Z', ...document },
+    }),
+  });
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    headers: new Headers(contentType ? { 'Content-Type': contentType } : {}),
+    arrayBuffer: async () => file,
+  });
+}
+
+describe('Document files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'factorial-documents-'));
+    mkdirSync(join(dir, 'uploads'));
+    writeFileSync(join(dir, 'uploads', 'contract.pdf'), '%PDF-1.4');
+    writeFileSync(join(dir, 'outside.pdf'), '%PDF-1.4');
+    vi.stubEnv('FACTORIAL_UPLOAD_DIR', join(dir, 'uploads'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should infer the mime type from the extension', () => {
+    expect(inferMimeType('cv.PDF')).toBe('application/pdf');
+    expect(inferMimeType('photo.jpeg')).toBe('image/jpeg');
+    expect(inferMimeType('archive.zip')).toBeUndefined();
+  });
+
+  it('should load a file from the upload directory', () => {
+    const file = loadDocumentFile({ file_path: 'contract.pdf' });
+
+    expect(file).toMatchObject({
+      field: 'file',
+      name: 'contract.pdf',
+      mimeType: 'application/pdf',
+    });
+    expect(file.content.toString()).toBe('%PDF-1.4');
+  });
+
+  it('should refuse files outside the upload directory', () => {
+    expect(() => loadDocumentFile({ file_path: '../outside.pdf' })).toThrow(
+      /outside the upload directory/
+    );
+  });
+
+  it('should refuse local files when no upload directory is configured', () => {
+    vi.stubEnv('FACTORIAL_UPLOAD_DIR', '');
+
+    expect(() => loadDocumentFile({ file_path: 'contract.pdf' })).toThrow(ConfigurationError);
+  });
+
+  it('should decode base64 content', () => {
+    const file = loadDocumentFile({
+      content_base64: Buffer.from('hello').toString('base64'),
+      file_name: 'notes.txt',
+    });
+
+    expect(file.mimeType).toBe('text/plain');
+    expect(file.content.toString()).toBe('hello');
+  });
+
+  it('should require exactly one source', () => {
+    expect(() => loadDocumentFile({})).toThrow('Provide either file_path or content_base64.');
+    expect(() =>
+      loadDocumentFile({ file_path: 'contract.pdf', content_base64: 'aGk=', file_name: 'a.txt' })
+    ).toThrow('Provide either file_path or content_base64.');
+    expect(() => loadDocumentFile({ content_base64: 'aGk=' })).toThrow(/file_name is required/);
+  });
+
+  it('should reject unsupported mime types and empty files', () => {
+    expect(() => loadDocumentFile({ content_base64: 'aGk=', file_name: 'tool.exe' })).toThrow(
+      /Invalid document file: mime_type/
+    );
+    expect(() => loadDocumentFile({ content_base64: '', file_name: 'empty.txt' })).toThrow(
+      'Provide either file_path or content_base64.'
+    );
+  });
+
+  it('should reject files over the size limit', () => {
+    const large = Buffer.alloc(25 * 1024 * 1024 + 1).toString('base64');
+
+    expect(() => loadDocumentFile({ content_base64: large, file_name: 'big.pdf' })).toThrow(
+      /size_bytes/
+    );
+  });
+});
+
+describe('Document content', () => {
+  beforeEach(() => {
+    vi.stubEnv('FACTORIAL_API_KEY', 'test-api-key');
+    mockFetch.mockReset();
+    clearCache();
+  });
+
+  it('should split text into chunks at line breaks', () => {
+    expect(chunkText('aaaa\nbbbb\ncccc', 10)).toEqual(['aaaa\nbbbb', 'cccc']);
+    expect(chunkText('x'.repeat(25), 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+    expect(chunkText('  \n ')).toEqual([]);
+  });
+
+  it('should return the text of a text document in chunks', async () => {
+    mockDocument(
+      { mime_type: 'text/plain', file_url: 'https://files.example.com/7' },
+      Buffer.from('Notice period: 30 days')
+    );
+
+    const content = await readDocumentContent(7);
+
+    expect(content).toMatchObject({
+      kind: 'text',
+      mime_type: 'text/plain',
+      page_count: undefined,
+      chunks: [{ index: 0, text: 'Notice period: 30 days' }],
+    });
+    // The API key is not sent to another host
+    expect(mockFetch.mock.calls[1][1]).toMatchObject({ headers: {} });
+  });
+
+  it('should return images as base64 data', async () => {
+    const png = Buffer.from('89504e470d0a1a0a', 'hex');
+    mockDocument({ name: 'badge', mime_type: null, file_url: '/files/7' }, png);
+
+    const content = await readDocumentContent(7);
+
+    expect(content).toEqual({
+      kind: 'image',
+      document_id: 7,
+      name: 'badge',
+      mime_type: 'image/png',
+      data: png.toString('base64'),
+    });
+  });
+
+  it('should cache the content until the document changes', async () => {
+    mockDocument({ mime_type: 'text/plain', file_url: '/files/7' }, Buffer.from('v1'));
+    await readDocumentContent(7);
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        data: {
+          id: 7,
+          name: 'notes.txt',
+          file_url: '/files/7',
+          updated_at: '2025-01-15T00:00:00Z',
+        },
+      }),
+    });
+    const cached = await readDocumentContent(7);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(cached).toMatchObject({ chunks: [{ text: 'v1' }] });
+  });
+
+  it('should refuse documents that are too large or not supported', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({ data: { id: 7, file_url: '/files/7', size_bytes: 30 * 1024 * 1024 } }),
+    });
+    await expect(readDocumentContent(7)).rejects.toThrow('too large to read');
+
+    mockDocument({ name: 'data.xlsx', file_url: '/files/7' }, Buffer.from('PK'));
+    await expect(readDocumentContent(7)).rejects.toThrow('Cannot read the content of');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { buildDryRunRequest, collectDryRunRequests, recordDryRunRequest } from '../../dry-run.js';
+
+const BASE = 'https://api.example.com/resources';
+
+describe('Dry Run', () => {
+  describe('buildDryRunRequest', () => {
+    it('should validate creates against the create schema', () => {
+      const request = buildDryRunRequest('POST', '/teams/teams', `${BASE}/teams/teams`, {
+        name: 'Platform',
+      });
+
+      expect(request).toEqual({
+        dryRun: true,
+        method: 'POST',
+        url: `${BASE}/teams/teams`,
+        body: { name: 'Platform' },
+        validation: { schema: 'CreateTeamInputSchema', valid: true },
+      });
+    });
+
+    it('should report validation errors', () => {
+      const request = buildDryRunRequest('POST', '/timeoff/leaves', `${BASE}/timeoff/leaves`, {
+        employee_id: 1,
+        start_on: '01/02/2026',
+      });
+
+      expect(request.validation.valid).toBe(false);
+      expect(request.validation.schema).toBe('CreateLeaveInputSchema');
+      expect(request.validation.errors).toEqual(
+        expect.arrayContaining([expect.stringContaining('start_on')])
+      );
+    });
+
+    it('should pick the update and action schemas from the endpoint', () => {
+      expect(
+        buildDryRunRequest('PATCH', '/ats/candidates/4', `${BASE}/ats/candidates/4`, {
+          first_name: 'Ana',
+        }).validation.schema
+      ).toBe('UpdateCandidateInputSchema');
+      expect(
+        buildDryRunRequest(
+          'POST',
+          '/timeoff/leaves/9/approve',
+          `${BASE}/timeoff/leaves/9/approve`,
+          {}
+        ).validation.schema
+      ).toBe('LeaveDecisionInputSchema');
+    });
+
+    it('should describe the uploaded file of multipart requests', () => {
+      const request = buildDryRunRequest(
+        'POST',
+        '/documents/documents',
+        `${BASE}/documents/documents`,
+        { folder_id: 3 },
+        { field: 'file', name: 'cv.pdf', mimeType: 'application/pdf', content: Buffer.from('%PDF') }
+      );
+
+      expect(request.file).toEqual({
+        field: 'file',
+        name: 'cv.pdf',
+        mimeType: 'application/pdf',
+        sizeBytes: 4,
+      });
+      expect(request.validation).toEqual({ schema: 'UploadDocumentInputSchema', valid: true });
+    });
+
+    it('should not validate requests without a schema', () => {
+      const request = buildDryRunRequest('DELETE', '/teams/teams/3', `${BASE}/teams/teams/3`);
+
+      expect(request.validation).toEqual({ valid: true });
+      expect(request.body).toBeUndefined();
+    });
+  });
+
+  describe('collectDryRunRequests', () => {
+    it('should collect the requests recorded during the operation', async () => {
+      const request = buildDryRunRequest('DELETE', '/teams/teams/3', `${BASE}/teams/teams/3`);
+
+      const { result, requests } = await collectDryRunRequests(async () => {
+        recordDryRunRequest(request);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(requests).toEqual([request]);
+    });
+
+    it('should ignore requests recorded outside a collection', () => {
+      expect(() =>
+        recordDryRunRequest(buildDryRunRequest('DELETE', '/teams/teams/3', `${BASE}/teams/teams/3`))
+      ).not.toThrow();
+    });
+  });
+});
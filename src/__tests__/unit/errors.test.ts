@@ -16,6 +16,8 @@ import {
   SchemaValidationError,
   OperationCancelledError,
   ConfirmationExpiredError,
+  ConfirmationMismatchError,
+  RevertError,
   isRetryableError,
   getUserMessage,
   formatValidationErrors,
@@ -344,6 +346,33 @@ describe('Error Classes', () => {
       expect(error.isRetryable).toBe(false);
     });
   });
+
+  describe('ConfirmationMismatchError', () => {
+    it('should create confirmation mismatch error', () => {
+      const error = new ConfirmationMismatchError(
+        'delete_team',
+        'token was issued for "delete_location"'
+      );
+
+      expect(error.name).toBe('ConfirmationMismatchError');
+      expect(error.operation).toBe('delete_team');
+      expect(error.message).toContain('delete_team');
+      expect(error.message).toContain('delete_location');
+      expect(error.isRetryable).toBe(false);
+    });
+  });
+
+  describe('RevertError', () => {
+    it('should create revert error', () => {
+      const error = new RevertError('abc', 'no snapshot of the previous state was recorded');
+
+      expect(error.name).toBe('RevertError');
+      expect(error.auditEntryId).toBe('abc');
+      expect(error.message).toContain('"abc"');
+      expect(error.message).toContain('no snapshot');
+      expect(error.isRetryable).toBe(false);
+    });
+  });
 });
 
 describe('Error Utility Functions', () => {
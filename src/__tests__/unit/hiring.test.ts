@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  createEmployee: vi.fn(),
+  getApplication: vi.fn(),
+  getCandidate: vi.fn(),
+  getEmployee: vi.fn(),
+  getJobPosting: vi.fn(),
+  listApplications: vi.fn(),
+  listEmployees: vi.fn(),
+  listHiringStages: vi.fn(),
+  updateApplication: vi.fn(),
+  updateJobPosting: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { AuditAction, auditLogger } from '../../audit.js';
+import { planHire, runHire } from '../../hiring.js';
+import {
+  application as buildApplication,
+  candidate,
+  employee,
+  hiringStage,
+  jobPosting,
+  page,
+} from '../helpers.js';
+
+const application = buildApplication(70, 15, 8, { hiring_stage_id: 2 });
+
+const ada = candidate(15, {
+  first_name: 'Ada',
+  last_name: 'Lovelace',
+  full_name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  phone: '+34 600 000 000',
+});
+
+const stages = [
+  hiringStage(2, 'Interview'),
+  hiringStage(3, 'hired', { label: 'Hired' }),
+  hiringStage(4, 'Not hired'),
+];
+
+describe('Hiring', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    auditLogger.clear();
+    vi.mocked(api.getApplication).mockResolvedValue(application);
+    vi.mocked(api.getCandidate).mockResolvedValue(ada);
+    vi.mocked(api.getJobPosting).mockResolvedValue(
+      jobPosting(8, 'Backend Engineer', { team_id: 30, location_id: 4 })
+    );
+    vi.mocked(api.listHiringStages).mockResolvedValue(stages);
+    vi.mocked(api.listEmployees).mockImplementation(() =>
+      page([employee(5, { email: 'barbara@example.com' })])
+    );
+    vi.mocked(api.listApplications).mockImplementation(() =>
+      page([application, buildApplication(71, 16, 8, { hired_at: '2026-05-01' })])
+    );
+    vi.mocked(api.createEmployee).mockResolvedValue(
+      employee(99, { full_name: 'Ada Lovelace', email: 'ada@example.com' })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('planHire', () => {
+    it('should pre-fill the employee from the candidate and the posting', async () => {
+      const plan = await planHire(70, { start_date: '2026-07-01' });
+
+      expect(plan.employee).toEqual({
+        first_name: 'Ada',
+        last_name: 'Lovelace',
+        email: 'ada@example.com',
+        phone_number: '+34 600 000 000',
+        start_date: '2026-07-01',
+        role: 'Backend Engineer',
+        team_ids: [30],
+        location_id: 4,
+      });
+      expect(plan.stage.id).toBe(3);
+      expect(plan.steps.map(step => step.kind)).toEqual(['create_employee', 'mark_hired']);
+    });
+
+    it('should let options override the posting', async () => {
+      const plan = await planHire(70, { role: 'Engineer', team_id: 31, hired_stage_id: 4 });
+
+      expect(plan.employee).toMatchObject({ role: 'Engineer', team_ids: [31] });
+      expect(plan.stage.id).toBe(4);
+    });
+
+    it('should close the posting once the headcount is filled', async () => {
+      expect((await planHire(70, { headcount: 3 })).steps).toHaveLength(2);
+
+      const plan = await planHire(70, { headcount: 2 });
+      expect(plan.steps[2]).toMatchObject({ kind: 'close_posting', status: 'pending' });
+    });
+
+    it('should refuse hired applications and unusable candidates', async () => {
+      vi.mocked(api.getApplication).mockResolvedValueOnce({
+        ...application,
+        hired_at: '2026-05-01',
+      });
+      await expect(planHire(70)).rejects.toThrow('already hired');
+
+      vi.mocked(api.getCandidate).mockResolvedValue(
+        candidate(15, { first_name: 'Ada', email: 'BARBARA@example.com' })
+      );
+      const error = await planHire(70).catch((e: unknown) => e as Error);
+      expect(error.message).toContain('no first and last name');
+      expect(error.message).toContain('already used by employee 5');
+    });
+
+    it('should count applications in the hired stage towards the headcount', async () => {
+      vi.mocked(api.listApplications).mockImplementation(() =>
+        page([application, buildApplication(72, 17, 8, { hiring_stage_id: 3 })])
+      );
+
+      expect((await planHire(70, { headcount: 2 })).steps[2]).toMatchObject({
+        kind: 'close_posting',
+      });
+    });
+
+    it('should link an existing employee of the candidate', async () => {
+      vi.mocked(api.getEmployee).mockResolvedValue(
+        employee(99, { full_name: 'Ada Lovelace', email: 'Ada@example.com' })
+      );
+      vi.mocked(api.listEmployees).mockImplementation(() =>
+        page([employee(99, { email: 'ada@example.com' })])
+      );
+      await expect(planHire(70)).rejects.toThrow('pass employee_id: 99 to finish that hire');
+
+      const plan = await planHire(70, { employee_id: 99 });
+      expect(plan.steps.map(step => step.kind)).toEqual(['link_employee', 'mark_hired']);
+
+      vi.mocked(api.getEmployee).mockResolvedValue(employee(5, { email: 'barbara@example.com' }));
+      await expect(planHire(70, { employee_id: 5 })).rejects.toThrow(
+        "Employee 5 has the email barbara@example.com, not the candidate's ada@example.com"
+      );
+    });
+
+    it('should require a hired stage when none is named "Hired"', async () => {
+      vi.mocked(api.listHiringStages).mockResolvedValue([stages[0]]);
+
+      await expect(planHire(70)).rejects.toThrow('hired_stage_id');
+    });
+  });
+
+  describe('runHire', () => {
+    it('should create the employee, mark the application and link them', async () => {
+      const result = await runHire(await planHire(70, { headcount: 2 }));
+
+      expect(result).toMatchObject({ employee_id: 99, status: 'completed' });
+      expect(api.updateApplication).toHaveBeenCalledWith(70, {
+        hiring_stage_id: 3,
+        hired_at: expect.any(String),
+      });
+      expect(api.updateJobPosting).toHaveBeenCalledWith(8, { status: 'closed' });
+      expect(auditLogger.getRecentLogs(1)[0]).toMatchObject({
+        action: AuditAction.HIRE,
+        entityType: 'candidate',
+        entityId: 15,
+        changes: {
+          employee_id: { to: 99 },
+          application_id: { to: 70 },
+          job_posting_id: { to: 8 },
+        },
+      });
+    });
+
+    it('should not close the posting when the application cannot be updated', async () => {
+      vi.mocked(api.updateApplication).mockRejectedValue(new Error('Stage is locked'));
+
+      const result = await runHire(await planHire(70, { headcount: 2 }));
+
+      expect(result.status).toBe('partial');
+      expect(result.steps.map(step => step.status)).toEqual(['done', 'failed', 'not_run']);
+      expect(api.updateJobPosting).not.toHaveBeenCalled();
+    });
+
+    it('should finish a partial hire with the employee it created', async () => {
+      vi.mocked(api.getEmployee).mockResolvedValue(employee(99, { email: 'ada@example.com' }));
+
+      const result = await runHire(await planHire(70, { employee_id: 99 }));
+
+      expect(result).toMatchObject({ employee_id: 99, status: 'completed' });
+      expect(api.createEmployee).not.toHaveBeenCalled();
+      expect(api.updateApplication).toHaveBeenCalledWith(70, {
+        hiring_stage_id: 3,
+        hired_at: expect.any(String),
+      });
+      expect(auditLogger.getRecentLogs(1)[0]).toMatchObject({
+        action: AuditAction.HIRE,
+        changes: { employee_id: { to: 99 } },
+      });
+    });
+
+    it('should stop when the employee cannot be created', async () => {
+      vi.mocked(api.createEmployee).mockRejectedValue(new Error('Email taken'));
+
+      const result = await runHire(await planHire(70));
+
+      expect(result.status).toBe('failed');
+      expect(api.updateApplication).not.toHaveBeenCalled();
+      expect(auditLogger.getRecentLogs(1)).toEqual([]);
+    });
+
+    it('should not link the candidate in dry-run mode', async () => {
+      vi.stubEnv('FACTORIAL_MODE', 'dry-run');
+      vi.mocked(api.createEmployee).mockResolvedValue({ dryRun: true } as never);
+
+      const result = await runHire(await planHire(70));
+
+      expect(result.status).toBe('completed');
+      expect(result.employee_id).toBeUndefined();
+      expect(api.updateApplication).toHaveBeenCalled();
+      expect(auditLogger.getRecentLogs(1)).toEqual([]);
+    });
+  });
+});
@@ -8,8 +8,16 @@ vi.stubGlobal('fetch', mockFetch);
 vi.stubEnv('FACTORIAL_API_KEY', 'test-api-key');
 
 // Import after mocking
-const { factorialRequest, fetchOne, fetchList, postOne, patchOne, deleteOne, postAction } =
-  await import('../../http-client.js');
+const {
+  factorialRequest,
+  fetchOne,
+  fetchList,
+  fetchFile,
+  postOne,
+  patchOne,
+  deleteOne,
+  postAction,
+} = await import('../../http-client.js');
 
 // Import error types for assertions
 const {
@@ -535,4 +543,102 @@ describe('HTTP Client', () => {
       );
     });
   });
+
+  describe('Server modes', () => {
+    afterEach(() => {
+      vi.stubEnv('FACTORIAL_MODE', '');
+    });
+
+    it('should refuse write requests in readonly mode', async () => {
+      vi.stubEnv('FACTORIAL_MODE', 'readonly');
+
+      await expect(postOne('/teams/teams', { name: 'Team' })).rejects.toThrow('readonly mode');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should still send reads in readonly mode', async () => {
+      vi.stubEnv('FACTORIAL_MODE', 'readonly');
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [] }),
+      });
+
+      await expect(fetchList('/teams/teams')).resolves.toEqual([]);
+    });
+
+    it('should return the request instead of sending it in dry-run mode', async () => {
+      vi.stubEnv('FACTORIAL_MODE', 'dry-run');
+
+      const result = await patchOne('/employees/employees/5', { email: 'not-an-email' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        dryRun: true,
+        method: 'PATCH',
+        url: expect.stringContaining('/employees/employees/5'),
+        body: { email: 'not-an-email' },
+        validation: { schema: 'UpdateEmployeeInputSchema', valid: false },
+      });
+    });
+  });
+  describe('fetchFile', () => {
+    const API_FILE = 'https://api.factorialhr.com/files/7';
+
+    /**
+     * Mock a file download response
+     */
+    function fileResponse(body: string, headers: Record<string, string> = {}, status = 200) {
+      return {
+        ok: status < 300,
+        status,
+        headers: new Headers(headers),
+        arrayBuffer: async () => Buffer.from(body),
+      };
+    }
+
+    it('should send the API key only to the API host', async () => {
+      mockFetch.mockResolvedValueOnce(fileResponse('%PDF', { 'Content-Type': 'application/pdf' }));
+      mockFetch.mockResolvedValueOnce(fileResponse('text'));
+
+      const file = await fetchFile(API_FILE, { maxBytes: 100 });
+      await fetchFile('https://storage.example.com/7', { maxBytes: 100 });
+
+      expect(file).toEqual({ content: Buffer.from('%PDF'), mimeType: 'application/pdf' });
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({ 'x-api-key': 'test-api-key' });
+      expect(mockFetch.mock.calls[1][1].headers).toEqual({});
+    });
+
+    it('should not forward the API key on redirects to another host', async () => {
+      mockFetch.mockResolvedValueOnce(
+        fileResponse('', { Location: 'https://storage.example.com/signed' }, 302)
+      );
+      mockFetch.mockResolvedValueOnce(fileResponse('content'));
+
+      const file = await fetchFile(API_FILE, { maxBytes: 100 });
+
+      expect(file.content.toString()).toBe('content');
+      expect(mockFetch.mock.calls[1][0]).toBe('https://storage.example.com/signed');
+      expect(mockFetch.mock.calls[1][1].headers).toEqual({});
+    });
+
+    it('should refuse files larger than the limit', async () => {
+      mockFetch.mockResolvedValueOnce(fileResponse('x', { 'Content-Length': '500' }));
+      await expect(fetchFile(API_FILE, { maxBytes: 100 })).rejects.toThrow('File is too large');
+
+      mockFetch.mockResolvedValueOnce(fileResponse('x'.repeat(101)));
+      await expect(fetchFile(API_FILE, { maxBytes: 100 })).rejects.toThrow('File is too large');
+    });
+
+    it('should throw API errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        text: async () => 'Not found',
+      });
+
+      await expect(fetchFile(API_FILE, { maxBytes: 100 })).rejects.toThrow(NotFoundError);
+    });
+  });
 });
@@ -0,0 +1,265 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { getSessionContext } from '../../context.js';
+import { McpHttpServer } from '../../http-server.js';
+
+/**
+ * Minimal MCP server exposing the session context of the caller
+ */
+function createTestServer(): McpServer {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  server.registerTool('whoami', { description: 'Return the session context' }, () => ({
+    content: [{ type: 'text', text: JSON.stringify(getSessionContext() ?? null) }],
+  }));
+  if (getSessionContext()?.client === 'alice') {
+    server.registerTool('alice_only', { description: 'Only registered for alice' }, () => ({
+      content: [{ type: 'text', text: 'hi alice' }],
+    }));
+  }
+  return server;
+}
+
+function bearer(token: string): RequestInit {
+  return { headers: { Authorization: `Bearer ${token}` } };
+}
+
+async function callWhoami(client: Client): Promise<Record<string, unknown>> {
+  const result = await client.callTool({ name: 'whoami', arguments: {} });
+  const [content] = result.content as { type: 'text'; text: string }[];
+  return JSON.parse(content.text) as Record<string, unknown>;
+}
+
+describe('McpHttpServer', () => {
+  let server: McpHttpServer;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    server = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authTokens: [
+        { client: 'alice', token: 'alice-token' },
+        { client: 'bob', token: 'bob-token' },
+      ],
+      createServer: createTestServer,
+    });
+    const address = await server.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.allSettled(clients.splice(0).map(client => client.close()));
+    await server.close();
+  });
+
+  async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport) {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    clients.push(client);
+    await client.connect(transport);
+    return client;
+  }
+
+  it('should serve /healthz without authentication', async () => {
+    const response = await fetch(`${baseUrl}/healthz`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+    const wrong = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      body: '{}',
+      ...bearer('nope'),
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should serve tools over Streamable HTTP within the client session', async () => {
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: bearer('alice-token'),
+      })
+    );
+
+    const context = await callWhoami(client);
+
+    expect(context.client).toBe('alice');
+    expect(context.transport).toBe('streamable-http');
+    expect(context.sessionId).toBeTruthy();
+    expect(server.sessionCount).toBe(1);
+  });
+
+  it('should keep sessions separate per client', async () => {
+    const alice = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: bearer('alice-token'),
+      })
+    );
+    const bob = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: bearer('bob-token'),
+      })
+    );
+
+    const [aliceContext, bobContext] = await Promise.all([callWhoami(alice), callWhoami(bob)]);
+
+    expect(aliceContext.client).toBe('alice');
+    expect(bobContext.client).toBe('bob');
+    expect(aliceContext.sessionId).not.toBe(bobContext.sessionId);
+    expect(server.sessionCount).toBe(2);
+  });
+
+  it('should create the server of a session within its context', async () => {
+    const alice = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: bearer('alice-token'),
+      })
+    );
+    const bob = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: bearer('bob-token'),
+      })
+    );
+
+    const [aliceTools, bobTools] = await Promise.all([alice.listTools(), bob.listTools()]);
+
+    expect(aliceTools.tools.map(tool => tool.name)).toContain('alice_only');
+    expect(bobTools.tools.map(tool => tool.name)).not.toContain('alice_only');
+  });
+
+  it("should not let a client use another client's session", async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: bearer('alice-token'),
+    });
+    await connect(transport);
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer bob-token',
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': transport.sessionId ?? '',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should require an initialize request to open a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer alice-token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject invalid JSON', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer alice-token', 'Content-Type': 'application/json' },
+      body: '{not json',
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+  });
+
+  it('should fall back to the HTTP+SSE transport', async () => {
+    const client = await connect(
+      new SSEClientTransport(new URL(`${baseUrl}/sse`), {
+        requestInit: bearer('bob-token'),
+        eventSourceInit: {
+          fetch: (url, init) =>
+            fetch(url, {
+              ...init,
+              headers: {
+                ...(init?.headers as Record<string, string>),
+                ...bearer('bob-token').headers,
+              },
+            }),
+        },
+      })
+    );
+
+    const context = await callWhoami(client);
+
+    expect(context.client).toBe('bob');
+    expect(context.transport).toBe('sse');
+  });
+
+  it('should close the server of an SSE session when the client disconnects', async () => {
+    const servers: McpServer[] = [];
+    const local = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authTokens: [],
+      createServer: () => {
+        const created = createTestServer();
+        servers.push(created);
+        return created;
+      },
+    });
+    const { port } = await local.listen();
+
+    try {
+      const client = await connect(new SSEClientTransport(new URL(`http://127.0.0.1:${port}/sse`)));
+      await callWhoami(client);
+      const closed = vi.spyOn(servers[0], 'close');
+
+      await client.close();
+      await vi.waitFor(() => expect(closed).toHaveBeenCalled());
+      expect(local.sessionCount).toBe(0);
+    } finally {
+      await local.close();
+    }
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const local = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authTokens: [],
+      createServer: createTestServer,
+      sessionIdleTimeoutMs: 100,
+    });
+    const { port } = await local.listen();
+
+    try {
+      const client = await connect(
+        new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`))
+      );
+      await callWhoami(client);
+      expect(local.sessionCount).toBe(1);
+
+      await vi.waitFor(() => expect(local.sessionCount).toBe(0), { timeout: 1000 });
+      await expect(callWhoami(client)).rejects.toThrow();
+    } finally {
+      await local.close();
+    }
+  });
+
+  it('should refuse to listen on a public interface without tokens', () => {
+    expect(
+      () =>
+        new McpHttpServer({
+          host: '0.0.0.0',
+          port: 0,
+          authTokens: [],
+          createServer: createTestServer,
+        })
+    ).toThrow('without authentication');
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  getEmployee: vi.fn(),
+  listAllowances: vi.fn(),
+  listCompanyHolidays: vi.fn(),
+  listLeaves: vi.fn(),
+  listLeaveTypes: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { checkLeaveBalance, forecastAllowances } from '../../leave-balance.js';
+import {
+  allowance as buildAllowance,
+  companyHoliday,
+  employee,
+  leave,
+  leaveTypes,
+  page,
+} from '../helpers.js';
+
+const allowance = buildAllowance(50, 1, {
+  balance_days: 23,
+  consumed_days: 5,
+  available_days: 18,
+  valid_from: null,
+  valid_to: null,
+});
+
+describe('Leave balance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getEmployee).mockResolvedValue(employee(1, { location_id: 3 }));
+    vi.mocked(api.listLeaveTypes).mockResolvedValue(leaveTypes);
+    vi.mocked(api.listCompanyHolidays).mockResolvedValue([
+      companyHoliday(1, '2026-05-01', { location_id: 3 }),
+      companyHoliday(2, '2026-12-07', { location_id: 4 }),
+      companyHoliday(3, '2026-12-08'),
+    ]);
+    vi.mocked(api.listAllowances).mockImplementation(() => page([allowance]));
+    vi.mocked(api.listLeaves).mockImplementation(() =>
+      page([
+        leave(60, 1, '2026-03-02', '2026-03-06'),
+        leave(61, 1, '2026-07-06', '2026-07-10', { status: 'pending' }),
+        leave(62, 1, '2026-09-07', '2026-09-11', { status: 'declined' }),
+        leave(63, 1, '2026-10-05', '2026-10-09', { leave_type_id: 2 }),
+        leave(64, 1, '2026-12-07', '2026-12-18', { status: 'pending' }),
+      ])
+    );
+  });
+
+  describe('checkLeaveBalance', () => {
+    it('should subtract approved and pending leaves from the allowance', async () => {
+      const check = await checkLeaveBalance({
+        employee_id: 1,
+        leave_type_id: 1,
+        start_on: '2026-12-07',
+        finish_on: '2026-12-18',
+        leave_id: 64,
+      });
+
+      expect(check).toMatchObject({
+        working_days: 9,
+        allowance_id: 50,
+        period: { from: '2026-01-01', to: '2026-12-31' },
+        approved_days: 5,
+        pending_days: 5,
+        balance_after: 4,
+        warnings: [],
+      });
+    });
+
+    it('should warn when the balance would go negative', async () => {
+      vi.mocked(api.listAllowances).mockImplementation(() =>
+        page([{ ...allowance, balance_days: 15 }])
+      );
+
+      const check = await checkLeaveBalance({
+        employee_id: 1,
+        leave_type_id: 1,
+        start_on: '2026-12-07',
+        finish_on: '2026-12-18',
+        leave_id: 64,
+      });
+
+      expect(check.balance_after).toBe(-4);
+      expect(check.warnings).toEqual([
+        'The leave takes 9 working day(s), but only 5 Vacation day(s) are left from 2026-01-01 to 2026-12-31 (5 approved and 5 pending). The balance would be -4.',
+      ]);
+    });
+
+    it('should not check leave types without an allowance', async () => {
+      vi.mocked(api.listCompanyHolidays).mockRejectedValueOnce(new Error('Forbidden'));
+
+      const check = await checkLeaveBalance({
+        employee_id: 1,
+        leave_type_id: 2,
+        start_on: '2026-12-07',
+        finish_on: '2026-12-08',
+      });
+
+      expect(check).toMatchObject({ working_days: 2, allowance_id: null, balance_after: null });
+      expect(check.warnings).toEqual([
+        expect.stringContaining('Company holidays could not be read'),
+        'No Sick Leave allowance covers 2026-12-07; the balance was not checked.',
+      ]);
+    });
+  });
+
+  describe('forecastAllowances', () => {
+    it('should project the year-end balance from taken, planned and pending days', async () => {
+      vi.mocked(api.listLeaves).mockImplementation(() =>
+        page([
+          leave(60, 1, '2026-03-02', '2026-03-06'),
+          leave(61, 1, '2026-07-06', '2026-07-10', { status: 'pending' }),
+          leave(65, 1, '2026-08-03', '2026-08-07'),
+          leave(66, 1, '2026-06-12', '2026-06-16'),
+        ])
+      );
+
+      const { forecasts } = await forecastAllowances(1, { today: '2026-06-15' });
+
+      expect(forecasts).toHaveLength(1);
+      expect(forecasts[0]).toMatchObject({
+        leave_type: 'Vacation',
+        taken_days: 6,
+        planned_days: 7,
+        pending_days: 5,
+        projected_balance: 5,
+        projected_balance_without_pending: 10,
+        factorial_available_days: 18,
+      });
+      expect(forecasts[0].leaves.map(l => l.id)).toEqual([60, 66, 61, 65]);
+    });
+
+    it('should only include allowances valid during the year', async () => {
+      const lastYear = await forecastAllowances(1, { year: 2025, today: '2026-06-15' });
+      expect(lastYear.forecasts[0].period).toEqual({ from: '2025-01-01', to: '2025-12-31' });
+
+      vi.mocked(api.listAllowances).mockImplementation(() =>
+        page([{ ...allowance, valid_from: '2025-01-01', valid_to: '2025-12-31' }])
+      );
+      const thisYear = await forecastAllowances(1, { year: 2026, today: '2026-06-15' });
+      expect(thisYear.forecasts).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../api.js', () => ({
+  listCompanyHolidays: vi.fn(),
+  listEmployees: vi.fn(),
+  listLeaves: vi.fn(),
+  listShifts: vi.fn(),
+  listTeams: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { checkLeaveCoverage } from '../../leave-coverage.js';
+import { employee, leave, page, shift, team } from '../helpers.js';
+
+const employees = [
+  employee(1, { full_name: 'Ana Ruiz' }),
+  employee(2, { full_name: 'Ben Cole' }),
+  employee(3, { full_name: 'Cleo Park' }),
+  employee(4, { full_name: 'Dan Moss' }),
+];
+
+// Monday to Friday
+const request = { employee_id: 1, start_on: '2026-06-01', finish_on: '2026-06-05', leave_id: 15 };
+
+describe('Leave coverage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.listCompanyHolidays).mockResolvedValue([]);
+    vi.mocked(api.listTeams).mockImplementation(() =>
+      page([
+        team(1, { name: 'Backend', employee_ids: [1, 2, 3] }),
+        team(2, { name: 'Design', employee_ids: [1, 4] }),
+        team(3, { name: 'Sales', employee_ids: [2, 4] }),
+      ])
+    );
+    vi.mocked(api.listEmployees).mockImplementation(() => page(employees));
+    vi.mocked(api.listLeaves).mockImplementation(() =>
+      page([
+        leave(10, 2, '2026-06-02', '2026-06-03'),
+        leave(11, 4, '2026-06-04', '2026-06-04', { status: 'pending' }),
+        leave(12, 3, '2026-06-10', '2026-06-12'),
+        leave(13, 1, '2026-06-05', '2026-06-08'),
+        leave(14, 2, '2026-06-01', '2026-06-05', { status: 'declined' }),
+        leave(15, 1, '2026-06-01', '2026-06-05', { status: 'pending' }),
+      ])
+    );
+    vi.mocked(api.listShifts).mockImplementation(() =>
+      page([shift(20, 1, { clock_in: '2026-06-03T09:00:00Z', clock_out: '2026-06-03T17:30:00Z' })])
+    );
+  });
+
+  it("should report teammates' leaves, understaffed days, own leaves and shifts", async () => {
+    const report = await checkLeaveCoverage(request);
+
+    expect(report.conflicts.map(conflict => conflict.message)).toEqual([
+      'Design would have 0 member(s) available (minimum 1) on 2026-06-04.',
+      'Ben Cole (Backend) is also away from 2026-06-02 to 2026-06-03 (approved).',
+      'Dan Moss (Design) is also away on 2026-06-04 (pending).',
+      'Ana Ruiz already has leave 13 from 2026-06-05 to 2026-06-08 (approved).',
+      'Ana Ruiz has shift 20 on 2026-06-03 at 09:00.',
+    ]);
+    expect(report.facts).toEqual({
+      coverage_conflicts: 5,
+      overlapping_team_leaves: 2,
+      understaffed_days: 1,
+      own_leave_overlaps: 1,
+      shift_conflicts: 1,
+    });
+    expect(report.teams.map(team => [team.team, team.members, team.lowest_available])).toEqual([
+      ['Backend', 3, 1],
+      ['Design', 2, 0],
+    ]);
+  });
+
+  describe('with team minimums in the policy file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'coverage-'));
+      const path = join(dir, 'policy.yaml');
+      writeFileSync(path, ['coverage:', '  teams:', '    "1": 2'].join('\n'));
+      vi.stubEnv('FACTORIAL_POLICY_PATH', path);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should not count terminated members as available', async () => {
+      vi.mocked(api.listEmployees).mockImplementation(() =>
+        page(
+          employees.map(employee =>
+            employee.id === 3 ? { ...employee, terminated_on: '2026-06-03' } : employee
+          )
+        )
+      );
+
+      const report = await checkLeaveCoverage(request);
+
+      expect(report.teams[0]).toMatchObject({
+        team: 'Backend',
+        members: 2,
+        min_available: 2,
+        understaffed_days: ['2026-06-02', '2026-06-03', '2026-06-04', '2026-06-05'],
+      });
+    });
+  });
+
+  it('should refuse invalid dates', async () => {
+    await expect(
+      checkLeaveCoverage({ employee_id: 1, start_on: '2026-06-05', finish_on: '2026-06-01' })
+    ).rejects.toThrow('ends (2026-06-01) before it starts');
+  });
+});
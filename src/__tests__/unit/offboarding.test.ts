@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  cancelLeave: vi.fn(),
+  getEmployee: vi.fn(),
+  listEmployees: vi.fn(),
+  listLeaves: vi.fn(),
+  listProjectWorkers: vi.fn(),
+  listTeams: vi.fn(),
+  listTrainingEnrollments: vi.fn(),
+  listTrainingSessions: vi.fn(),
+  removeProjectWorker: vi.fn(),
+  removeTeamMember: vi.fn(),
+  terminateEmployee: vi.fn(),
+  unenrollFromTraining: vi.fn(),
+  updateEmployee: vi.fn(),
+}));
+
+vi.mock('../../http-client.js', () => ({
+  fetchOne: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { NotFoundError } from '../../errors.js';
+import { fetchOne } from '../../http-client.js';
+import {
+  getOffboardingRun,
+  planOffboarding,
+  resumeOffboarding,
+  startOffboarding,
+} from '../../offboarding.js';
+import {
+  employee,
+  leave,
+  page,
+  projectWorker,
+  team,
+  trainingMembership,
+  trainingSession,
+} from '../helpers.js';
+
+const employees = [
+  employee(1, { full_name: 'Ada Lovelace', manager_id: null }),
+  employee(2, { full_name: 'Grace Hopper', manager_id: 1 }),
+  employee(3, { full_name: 'Alan Turing', manager_id: 1 }),
+  employee(4, { full_name: 'Old Report', manager_id: 1, terminated_on: '2024-01-01' }),
+  employee(5, { full_name: 'Barbara Liskov', manager_id: null }),
+];
+
+const leaves = [
+  leave(10, 1, '2026-07-01', '2026-07-10'),
+  leave(11, 1, '2026-05-25', '2026-06-05'),
+  leave(12, 1, '2026-08-01', '2026-08-02', { status: 'declined' }),
+  leave(13, 1, '2026-03-01', '2026-03-02'),
+];
+
+const teams = [
+  team(30, { name: 'Engineering', employee_ids: [1, 2], lead_ids: [1] }),
+  team(31, { name: 'Design', employee_ids: [5], lead_ids: [] }),
+];
+
+const enrollments = [
+  trainingMembership(40, 7, 1, { session_id: 50 }),
+  trainingMembership(41, 7, 1, { session_id: 51 }),
+  trainingMembership(42, 8, 2, { session_id: 50 }),
+];
+
+describe('Offboarding', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.getEmployee).mockImplementation(id =>
+      Promise.resolve(employees.find(e => e.id === id)!)
+    );
+    vi.mocked(api.listEmployees).mockImplementation(() => page(employees));
+    vi.mocked(api.listLeaves).mockImplementation(() => page(leaves));
+    vi.mocked(api.listProjectWorkers).mockImplementation(() =>
+      page([projectWorker(20, 3, 1), projectWorker(21, 3, 2)])
+    );
+    vi.mocked(api.listTrainingEnrollments).mockImplementation(() => page(enrollments));
+    vi.mocked(api.listTrainingSessions).mockImplementation(() =>
+      page([
+        trainingSession(50, 7, { name: 'Security', start_date: '2026-09-01' }),
+        trainingSession(51, 7, { name: 'Kickoff', start_date: '2026-04-01' }),
+      ])
+    );
+    vi.mocked(api.listTeams).mockImplementation(() => page(teams));
+    vi.mocked(fetchOne).mockImplementation(endpoint =>
+      Promise.resolve(teams.find(team => endpoint.endsWith(`/${team.id}`)))
+    );
+  });
+
+  describe('planOffboarding', () => {
+    it('should plan every step with termination last', async () => {
+      const plan = await planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 5 });
+
+      expect(plan.steps.map(step => [step.kind, step.target_id])).toEqual([
+        ['cancel_leave', 10],
+        ['remove_project_worker', 20],
+        ['unenroll_training', 40],
+        ['remove_team_member', 30],
+        ['reassign_report', 2],
+        ['reassign_report', 3],
+        ['terminate', 1],
+      ]);
+      expect(plan.steps.every(step => step.status === 'pending')).toBe(true);
+      expect(plan.warnings).toEqual([expect.stringContaining('Leave 11')]);
+    });
+
+    it('should require a new manager for active direct reports', async () => {
+      await expect(planOffboarding(1, { terminated_on: '2026-05-31' })).rejects.toThrow(
+        'Provide new_manager_id'
+      );
+      await expect(
+        planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 1 })
+      ).rejects.toThrow('different employee');
+    });
+
+    it('should not reassign the new manager to themselves', async () => {
+      const plan = await planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 2 });
+
+      expect(plan.steps.filter(step => step.kind === 'reassign_report')).toEqual([
+        expect.objectContaining({ target_id: 3 }),
+      ]);
+      expect(plan.warnings).toContainEqual(expect.stringContaining('Grace Hopper'));
+    });
+  });
+
+  describe('runs', () => {
+    it('should run all steps and terminate', async () => {
+      const run = await startOffboarding(
+        await planOffboarding(1, {
+          terminated_on: '2026-05-31',
+          reason: 'Resigned',
+          new_manager_id: 5,
+        })
+      );
+
+      expect(run.status).toBe('completed');
+      expect(api.cancelLeave).toHaveBeenCalledWith(10);
+      expect(api.removeProjectWorker).toHaveBeenCalledWith(20);
+      expect(api.unenrollFromTraining).toHaveBeenCalledWith(40);
+      expect(api.removeTeamMember).toHaveBeenCalledWith(30, 1);
+      expect(api.updateEmployee).toHaveBeenCalledWith(2, { manager_id: 5 });
+      expect(api.terminateEmployee).toHaveBeenCalledWith(1, '2026-05-31', 'Resigned');
+    });
+
+    it('should stop at a failed step and resume from it', async () => {
+      vi.mocked(api.updateEmployee).mockRejectedValueOnce(new Error('Server error'));
+      const plan = await planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 5 });
+
+      const failed = await startOffboarding(plan);
+      expect(failed.status).toBe('failed');
+      expect(failed.steps.find(step => step.status === 'failed')).toMatchObject({
+        kind: 'reassign_report',
+        target_id: 2,
+        error: 'Server error',
+      });
+      expect(api.terminateEmployee).not.toHaveBeenCalled();
+
+      const resumed = await resumeOffboarding(failed.id);
+      expect(resumed.status).toBe('completed');
+      expect(api.cancelLeave).toHaveBeenCalledTimes(1);
+      expect(api.updateEmployee).toHaveBeenCalledTimes(3);
+      expect(api.terminateEmployee).toHaveBeenCalledTimes(1);
+      await expect(resumeOffboarding(failed.id)).rejects.toThrow('only failed runs');
+    });
+
+    it('should skip changes already made elsewhere', async () => {
+      vi.mocked(api.cancelLeave).mockRejectedValueOnce(new NotFoundError('/timeoff/leaves/10'));
+      vi.mocked(fetchOne).mockResolvedValueOnce({ id: 30, employee_ids: [2], lead_ids: [] });
+
+      const run = await startOffboarding(
+        await planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 5 })
+      );
+
+      expect(run.status).toBe('completed');
+      expect(run.steps.filter(step => step.status === 'skipped').map(step => step.kind)).toEqual([
+        'cancel_leave',
+        'remove_team_member',
+      ]);
+      expect(api.removeTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to run an offboarding twice at the same time', async () => {
+      vi.mocked(api.updateEmployee).mockRejectedValueOnce(new Error('Server error'));
+      const plan = await planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 5 });
+      const failed = await startOffboarding(plan);
+
+      let release = (): void => undefined;
+      vi.mocked(api.updateEmployee).mockImplementationOnce(
+        () => new Promise(resolve => (release = () => resolve(employees[1]!)))
+      );
+      const resuming = resumeOffboarding(failed.id);
+      await vi.waitFor(() => expect(api.updateEmployee).toHaveBeenCalledTimes(2));
+
+      await expect(resumeOffboarding(failed.id)).rejects.toThrow('is still running');
+      await expect(
+        startOffboarding(
+          await planOffboarding(1, { terminated_on: '2026-05-31', new_manager_id: 5 })
+        )
+      ).rejects.toThrow(`Employee 1 is already being offboarded by run ${failed.id}`);
+
+      release();
+      expect((await resuming).status).toBe('completed');
+    });
+
+    it('should forget finished runs after their retention time', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(api.terminateEmployee).mockRejectedValueOnce(new Error('Server error'));
+        const failed = await startOffboarding(
+          await planOffboarding(5, { terminated_on: '2026-05-31' })
+        );
+        const completed = await startOffboarding(
+          await planOffboarding(5, { terminated_on: '2026-05-31' })
+        );
+        expect([failed.status, completed.status]).toEqual(['failed', 'completed']);
+
+        vi.advanceTimersByTime(25 * 60 * 60 * 1000);
+        expect(() => getOffboardingRun(completed.id)).toThrow('not found');
+        expect(getOffboardingRun(failed.id).status).toBe('failed');
+
+        vi.advanceTimersByTime(7 * 24 * 60 * 60 * 1000);
+        expect(() => getOffboardingRun(failed.id)).toThrow('not found');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should report unknown runs', () => {
+      expect(() => getOffboardingRun('missing')).toThrow('not found');
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../api.js', () => ({
+  addTeamMember: vi.fn(),
+  assignProjectWorker: vi.fn(),
+  createEmployee: vi.fn(),
+  createShift: vi.fn(),
+  enrollInTraining: vi.fn(),
+  getEmployee: vi.fn(),
+  getLocation: vi.fn(),
+  getProject: vi.fn(),
+  getTeam: vi.fn(),
+  getTraining: vi.fn(),
+  getTrainingSession: vi.fn(),
+  listEmployees: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { ConfigurationError, NotFoundError } from '../../errors.js';
+import {
+  applyOnboardingTemplate,
+  loadOnboardingTemplates,
+  prepareOnboarding,
+  runOnboarding,
+  type OnboardingPlan,
+} from '../../onboarding.js';
+import {
+  employee,
+  page,
+  project,
+  projectWorker,
+  shift,
+  team,
+  training,
+  trainingMembership,
+  trainingSession,
+} from '../helpers.js';
+
+const plan: OnboardingPlan = {
+  employee: {
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    email: 'ada@example.com',
+    start_date: '2026-06-01',
+    manager_id: 5,
+  },
+  team_ids: [30],
+  project_ids: [3],
+  trainings: [{ training_id: 7, session_id: 50 }],
+  shifts: [{ clock_in: '2026-06-01T09:00:00Z', clock_out: '2026-06-01T17:00:00Z' }],
+};
+
+describe('Onboarding', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const manager = employee(5, { full_name: 'Barbara Liskov', email: 'barbara@example.com' });
+    vi.mocked(api.listEmployees).mockImplementation(() => page([manager]));
+    vi.mocked(api.getEmployee).mockResolvedValue(manager);
+    vi.mocked(api.getTeam).mockResolvedValue(team(30, { name: 'Engineering' }));
+    vi.mocked(api.getProject).mockResolvedValue(project(3, 'Apollo'));
+    vi.mocked(api.getTraining).mockResolvedValue(training(7, 'Security'));
+    vi.mocked(api.getTrainingSession).mockResolvedValue(
+      trainingSession(50, 7, { name: 'June', start_date: '2026-06-03' })
+    );
+    vi.mocked(api.createEmployee).mockResolvedValue(
+      employee(99, { full_name: 'Ada Lovelace', email: 'ada@example.com' })
+    );
+    vi.mocked(api.addTeamMember).mockResolvedValue(team(30, { employee_ids: [99] }));
+    vi.mocked(api.assignProjectWorker).mockResolvedValue(projectWorker(20, 3, 99));
+    vi.mocked(api.enrollInTraining).mockResolvedValue(trainingMembership(40, 7, 99));
+    vi.mocked(api.createShift).mockResolvedValue(shift(60, 99));
+  });
+
+  describe('prepareOnboarding', () => {
+    it('should list the steps in order', async () => {
+      const prepared = await prepareOnboarding(plan);
+
+      expect(prepared.steps.map(step => step.description)).toEqual([
+        'Create employee Ada Lovelace <ada@example.com>, reporting to Barbara Liskov',
+        'Add to team Engineering',
+        'Assign to project Apollo',
+        'Enroll in training Security, session June',
+        'Create shift from 2026-06-01T09:00:00Z to 2026-06-01T17:00:00Z',
+      ]);
+      expect(prepared.warnings).toEqual([]);
+    });
+
+    it('should report every problem before creating anything', async () => {
+      vi.mocked(api.getTeam).mockRejectedValue(new NotFoundError('/teams/30'));
+      vi.mocked(api.getTrainingSession).mockResolvedValue(trainingSession(50, 8));
+
+      const error = await prepareOnboarding({
+        ...plan,
+        employee: { ...plan.employee, email: 'BARBARA@example.com' },
+      }).catch((e: unknown) => e as Error);
+
+      expect(error.message).toContain('Team 30');
+      expect(error.message).toContain('belongs to training 8');
+      expect(error.message).toContain('already used by employee 5');
+      expect(api.createEmployee).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid shifts', async () => {
+      await expect(
+        prepareOnboarding({ ...plan, shifts: [{ clock_in: 'tomorrow morning' }] })
+      ).rejects.toThrow('shifts.0.clock_in');
+    });
+  });
+
+  describe('runOnboarding', () => {
+    it('should run every step for the new employee', async () => {
+      const result = await runOnboarding(await prepareOnboarding(plan));
+
+      expect(result).toMatchObject({ employee_id: 99, status: 'completed' });
+      expect(api.createEmployee).toHaveBeenCalledWith(plan.employee);
+      expect(api.addTeamMember).toHaveBeenCalledWith(30, 99);
+      expect(api.assignProjectWorker).toHaveBeenCalledWith({ project_id: 3, employee_id: 99 });
+      expect(api.enrollInTraining).toHaveBeenCalledWith({
+        training_id: 7,
+        session_id: 50,
+        employee_id: 99,
+      });
+      expect(api.createShift).toHaveBeenCalledWith(
+        expect.objectContaining({ employee_id: 99, clock_in: '2026-06-01T09:00:00Z' })
+      );
+      expect(result.steps.map(step => step.result_id)).toEqual([99, 30, 20, 40, 60]);
+    });
+
+    it('should keep going after a failed step and report it', async () => {
+      vi.mocked(api.assignProjectWorker).mockRejectedValue(new Error('Project is archived'));
+
+      const result = await runOnboarding(await prepareOnboarding(plan));
+
+      expect(result.status).toBe('partial');
+      expect(result.steps.map(step => step.status)).toEqual([
+        'done',
+        'done',
+        'failed',
+        'done',
+        'done',
+      ]);
+      expect(result.steps[2].error).toBe('Project is archived');
+    });
+
+    it('should not run other steps when the employee cannot be created', async () => {
+      vi.mocked(api.createEmployee).mockRejectedValue(new Error('Email taken'));
+
+      const result = await runOnboarding(await prepareOnboarding(plan));
+
+      expect(result.status).toBe('failed');
+      expect(result.employee_id).toBeUndefined();
+      expect(result.steps.slice(1).every(step => step.status === 'not_run')).toBe(true);
+      expect(api.addTeamMember).not.toHaveBeenCalled();
+    });
+
+    it('should only create the employee in dry-run mode', async () => {
+      vi.stubEnv('FACTORIAL_MODE', 'dry-run');
+      vi.mocked(api.createEmployee).mockResolvedValue({ dryRun: true } as never);
+
+      const result = await runOnboarding(await prepareOnboarding(plan));
+      vi.unstubAllEnvs();
+
+      expect(result.status).toBe('dry_run');
+      expect(result.steps.slice(1).every(step => step.status === 'not_run')).toBe(true);
+      expect(api.addTeamMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('templates', () => {
+    let dir: string;
+
+    /**
+     * Write a templates file and point FACTORIAL_ONBOARDING_PATH at it
+     */
+    function useTemplates(contents: string, name = 'onboarding.yaml'): void {
+      const path = join(dir, name);
+      writeFileSync(path, contents);
+      vi.stubEnv('FACTORIAL_ONBOARDING_PATH', path);
+    }
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'onboarding-'));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should merge a template into the plan', () => {
+      useTemplates(
+        [
+          'templates:',
+          '  default:',
+          '    manager_id: 8',
+          '    role: Engineer',
+          '    team_ids: [30, 31]',
+          '    trainings:',
+          '      - training_id: 7',
+          '      - training_id: 9',
+        ].join('\n')
+      );
+
+      const merged = applyOnboardingTemplate(plan, 'default');
+
+      expect(merged.employee).toMatchObject({ manager_id: 5, role: 'Engineer' });
+      expect(merged.team_ids).toEqual([30, 31]);
+      expect(merged.project_ids).toEqual([3]);
+      expect(merged.trainings).toEqual([{ training_id: 7, session_id: 50 }, { training_id: 9 }]);
+    });
+
+    it('should only offer templates of the active company', () => {
+      useTemplates(
+        JSON.stringify({ templates: { acme: { company: 'acme', team_ids: [1] } } }),
+        'onboarding.json'
+      );
+
+      expect(() => applyOnboardingTemplate(plan, 'acme')).toThrow(
+        'Unknown onboarding template "acme". No templates are configured'
+      );
+    });
+
+    it('should reject invalid template files', () => {
+      useTemplates('templates:\n  default:\n    teams: [1]\n');
+
+      expect(() => loadOnboardingTemplates()).toThrow(ConfigurationError);
+      expect(() => loadOnboardingTemplates()).toThrow('default');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runWithSession } from '../../context.js';
+import {
+  assertToolAllowed,
+  getActivePermissionProfile,
+  getPermissionProfile,
+  getToolDenialReason,
+  isToolAllowed,
+} from '../../permissions.js';
+
+describe('Permissions', () => {
+  let dir: string;
+  let fileCount = 0;
+
+  /**
+   * Write a permissions file and point FACTORIAL_PERMISSIONS_PATH at it
+   */
+  function usePermissionsFile(contents: unknown): void {
+    const path = join(dir, `permissions-${++fileCount}.json`);
+    writeFileSync(path, JSON.stringify(contents));
+    vi.stubEnv('FACTORIAL_PERMISSIONS_PATH', path);
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'permissions-'));
+    vi.stubEnv('FACTORIAL_PERMISSIONS_PATH', '');
+    vi.stubEnv('FACTORIAL_ROLE', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('built-in profiles', () => {
+    it('should allow every tool when no role applies', () => {
+      expect(getActivePermissionProfile()).toBeUndefined();
+      expect(isToolAllowed('terminate_employee')).toBe(true);
+      expect(isToolAllowed('list_tax_identifiers')).toBe(true);
+    });
+
+    it('should keep viewers to non-sensitive reads', () => {
+      const viewer = getPermissionProfile('viewer');
+
+      expect(getToolDenialReason(viewer, 'list_employees')).toBeUndefined();
+      expect(getToolDenialReason(viewer, 'update_team')).toBe('the profile is read-only');
+      expect(getToolDenialReason(viewer, 'get_employee_contracts')).toBe(
+        'the profile cannot access contracts data'
+      );
+      expect(getToolDenialReason(viewer, 'read_document_content')).toBe(
+        'the profile cannot access documents data'
+      );
+      expect(getToolDenialReason(viewer, 'search_document_content')).toBe(
+        'the profile cannot access documents data'
+      );
+      expect(getToolDenialReason(viewer, 'list_documents')).toBeUndefined();
+    });
+
+    it('should limit managers to medium-risk writes', () => {
+      const manager = getPermissionProfile('manager');
+
+      expect(getToolDenialReason(manager, 'approve_leave')).toBeUndefined();
+      expect(getToolDenialReason(manager, 'get_employee_with_contract')).toBeUndefined();
+      expect(getToolDenialReason(manager, 'terminate_employee')).toContain(
+        "high-risk operations exceed the profile's maximum (medium)"
+      );
+      expect(getToolDenialReason(manager, 'list_payroll_supplements')).toBeDefined();
+    });
+
+    it('should limit recruiters to recruiting tools', () => {
+      const recruiter = getPermissionProfile('recruiter');
+
+      expect(getToolDenialReason(recruiter, 'delete_candidate')).toBeUndefined();
+      expect(getToolDenialReason(recruiter, 'advance_application')).toBeUndefined();
+      expect(getToolDenialReason(recruiter, 'ats_pipeline_report')).toBeUndefined();
+      expect(getToolDenialReason(recruiter, 'create_team')).toBe('the tool is not in the profile');
+      expect(getToolDenialReason(recruiter, 'hire_candidate')).toBe(
+        'the tool is not in the profile'
+      );
+      expect(getToolDenialReason(recruiter, 'merge_candidates')).toBe(
+        'the tool is not in the profile'
+      );
+      expect(getToolDenialReason(recruiter, 'search_document_content')).toBe(
+        'the profile cannot access documents data'
+      );
+    });
+
+    it('should only let payroll and admin reveal redacted fields', () => {
+      expect(getToolDenialReason(getPermissionProfile('admin'), 'reveal_sensitive_fields')).toBe(
+        undefined
+      );
+      expect(getToolDenialReason(getPermissionProfile('payroll'), 'reveal_sensitive_fields')).toBe(
+        undefined
+      );
+      expect(getToolDenialReason(getPermissionProfile('manager'), 'reveal_sensitive_fields')).toBe(
+        'the profile cannot reveal redacted fields'
+      );
+    });
+
+    it('should use FACTORIAL_ROLE', () => {
+      vi.stubEnv('FACTORIAL_ROLE', 'viewer');
+
+      expect(isToolAllowed('create_employee')).toBe(false);
+      expect(() => assertToolAllowed('create_employee')).toThrow(
+        'Permission denied: role "viewer" cannot use "create_employee"'
+      );
+    });
+
+    it('should reject unknown roles', () => {
+      vi.stubEnv('FACTORIAL_ROLE', 'intern');
+
+      expect(() => getActivePermissionProfile()).toThrow('Unknown role "intern"');
+    });
+  });
+
+  describe('permissions file', () => {
+    it('should assign roles to HTTP clients and fall back to the default', () => {
+      usePermissionsFile({ default: 'viewer', clients: { alice: 'admin' } });
+
+      const asClient = (client: string) =>
+        runWithSession({ transport: 'streamable-http', client }, () =>
+          getActivePermissionProfile()
+        );
+
+      expect(asClient('alice')?.name).toBe('admin');
+      expect(asClient('bob')?.name).toBe('viewer');
+      expect(getActivePermissionProfile()?.name).toBe('viewer');
+    });
+
+    it('should override built-in profiles and define new ones', () => {
+      usePermissionsFile({
+        profiles: {
+          manager: { maxRisk: 'high' },
+          auditor: { tools: ['list_audit_entries', 'get_entity_history'], sensitive: ['payroll'] },
+        },
+      });
+
+      const manager = getPermissionProfile('manager');
+      expect(manager.maxRisk).toBe('high');
+      expect(manager.sensitive).toEqual(['contracts']);
+      expect(getToolDenialReason(manager, 'terminate_employee')).toBeUndefined();
+
+      const auditor = getPermissionProfile('auditor');
+      expect(getToolDenialReason(auditor, 'list_audit_entries')).toBeUndefined();
+      expect(getToolDenialReason(auditor, 'list_employees')).toBe('the tool is not in the profile');
+    });
+
+    it('should reject invalid files', () => {
+      usePermissionsFile({ profiles: { viewer: { maxRisk: 'extreme' } } });
+      expect(() => getActivePermissionProfile()).toThrow('Invalid permissions file');
+
+      usePermissionsFile({ clients: { alice: 'superuser' } });
+      expect(() => getActivePermissionProfile()).toThrow('unknown role "superuser"');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  listApplications: vi.fn(),
+  listCandidates: vi.fn(),
+  listHiringStages: vi.fn(),
+  listJobPostings: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { buildFunnel, buildPipelineReport } from '../../pipeline-report.js';
+import { application, candidate, hiringStage, jobPosting, page } from '../helpers.js';
+
+const stages = [
+  hiringStage(3, 'hired', { label: 'Hired', position: 3 }),
+  hiringStage(1, 'new', { label: 'New', position: 1 }),
+  hiringStage(2, 'interview', { label: 'Interview', position: 2 }),
+];
+
+/** Applications to job posting 8, applied on 1 May and unchanged since */
+const applied = {
+  applied_at: '2026-05-01T00:00:00Z',
+  created_at: '2026-05-01T00:00:00Z',
+  updated_at: '2026-05-01T00:00:00Z',
+};
+
+const applications = [
+  application(1, 1, 8, { ...applied, hiring_stage_id: 1 }),
+  application(2, 2, 8, { ...applied, hiring_stage_id: 1, rejected_at: '2026-05-03T00:00:00Z' }),
+  application(3, 3, 8, { ...applied, hiring_stage_id: 2, updated_at: '2026-05-06T00:00:00Z' }),
+  application(4, 4, 8, { ...applied, hiring_stage_id: 2, rejected_at: '2026-05-08T00:00:00Z' }),
+  application(5, 5, 8, { ...applied, hiring_stage_id: 3, hired_at: '2026-05-11T00:00:00Z' }),
+  application(6, 6, 8, { ...applied, hiring_stage_id: 3, hired_at: '2026-05-21T00:00:00Z' }),
+  application(7, 7, 8, applied),
+];
+
+const sources = new Map([
+  [1, 'linkedin'],
+  [2, 'linkedin'],
+  [5, 'linkedin'],
+  [6, 'referral'],
+]);
+
+describe('Pipeline report', () => {
+  describe('buildFunnel', () => {
+    const funnel = buildFunnel(applications, stages, sources, new Date('2026-05-11T00:00:00Z'));
+
+    it('should count applications reaching each stage in order', () => {
+      expect(funnel.stages.map(s => [s.stage, s.current, s.reached, s.conversion_to_next])).toEqual(
+        [
+          ['New', 2, 6, 0.667],
+          ['Interview', 2, 4, 0.5],
+          ['Hired', 2, 2, null],
+        ]
+      );
+      expect(funnel.without_stage).toBe(1);
+    });
+
+    it('should compute outcomes, time in stage and time to hire', () => {
+      expect(funnel).toMatchObject({
+        applications: 7,
+        active: 3,
+        hired: 2,
+        rejected: 2,
+        hire_rate: 0.286,
+        rejection_rate: 0.286,
+        avg_days_to_hire: 15,
+        median_days_to_hire: 15,
+      });
+      expect(funnel.stages.map(s => s.avg_days_in_stage)).toEqual([10, 5, null]);
+    });
+
+    it('should break down outcomes by candidate source', () => {
+      expect(Object.keys(funnel.by_source)).toEqual(['linkedin', 'referral', 'unknown']);
+      expect(funnel.by_source.linkedin).toMatchObject({
+        applications: 3,
+        hired: 1,
+        rejected: 1,
+        avg_days_to_hire: 10,
+      });
+      expect(funnel.by_source.unknown.applications).toBe(3);
+    });
+  });
+
+  describe('buildPipelineReport', () => {
+    beforeEach(() => {
+      vi.mocked(api.listJobPostings).mockImplementation(() =>
+        page([jobPosting(8, 'Backend Engineer'), jobPosting(9, 'Designer', { status: 'closed' })])
+      );
+      vi.mocked(api.listApplications).mockImplementation(() =>
+        page([
+          ...applications,
+          application(20, 20, 9, {
+            ...applied,
+            hiring_stage_id: 1,
+            applied_at: '2026-04-01T00:00:00Z',
+          }),
+        ])
+      );
+      vi.mocked(api.listCandidates).mockImplementation(() =>
+        page([candidate(6, { source: 'Referral ' })])
+      );
+      vi.mocked(api.listHiringStages).mockResolvedValue(stages);
+    });
+
+    it('should compare postings with the most applications first', async () => {
+      const report = await buildPipelineReport();
+
+      expect(report.comparison.map(row => [row.title, row.applications])).toEqual([
+        ['Backend Engineer', 7],
+        ['Designer', 1],
+      ]);
+      expect(report.total.applications).toBe(8);
+      expect(report.postings[0].by_source).toHaveProperty('Referral');
+    });
+
+    it('should filter postings and application dates', async () => {
+      const report = await buildPipelineReport({
+        posting_status: 'closed',
+        applied_to: '2026-04-30',
+      });
+
+      expect(report.postings.map(p => p.job_posting_id)).toEqual([9]);
+      expect(report.total.applications).toBe(1);
+
+      const may = await buildPipelineReport({ applied_from: '2026-05-01' });
+      expect(may.total.applications).toBe(7);
+    });
+
+    it('should report unknown postings', async () => {
+      await expect(buildPipelineReport({ job_posting_ids: [8, 99] })).rejects.toThrow(
+        'Job posting(s) not found: 99'
+      );
+    });
+  });
+});
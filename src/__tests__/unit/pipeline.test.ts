@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  getApplication: vi.fn(),
+  getCandidate: vi.fn(),
+  getJobPosting: vi.fn(),
+  listHiringStages: vi.fn(),
+  rejectApplication: vi.fn(),
+  updateApplication: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { AuditAction, auditLogger } from '../../audit.js';
+import { NotFoundError } from '../../errors.js';
+import {
+  getStageHistory,
+  moveApplicationToStage,
+  planRejections,
+  planStageMove,
+  rejectApplications,
+} from '../../pipeline.js';
+import { application, candidate, hiringStage, jobPosting } from '../helpers.js';
+
+const stages = [
+  hiringStage(1, 'new', { label: 'New' }),
+  hiringStage(2, 'interview', { label: 'Interview' }),
+  hiringStage(3, 'offer', { label: 'Offer' }),
+  hiringStage(9, 'interview', { label: 'Interview', company_id: 2 }),
+];
+
+describe('Hiring pipeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    auditLogger.clear();
+    vi.mocked(api.listHiringStages).mockResolvedValue(stages);
+    vi.mocked(api.getJobPosting).mockResolvedValue(jobPosting(8, 'Backend Engineer'));
+    vi.mocked(api.getApplication).mockImplementation(id =>
+      Promise.resolve(application(id, id + 100, 8, { hiring_stage_id: 1 }))
+    );
+    vi.mocked(api.getCandidate).mockImplementation(id =>
+      Promise.resolve(candidate(id, { full_name: `Candidate ${id}` }))
+    );
+  });
+
+  describe('planStageMove', () => {
+    it('should find the stage by name in the posting pipeline', async () => {
+      const move = await planStageMove(70, 'interview');
+
+      expect(move.from?.id).toBe(1);
+      expect(move.to.id).toBe(2);
+      expect(api.listHiringStages).toHaveBeenCalledTimes(1);
+
+      await moveApplicationToStage(move);
+      expect(api.updateApplication).toHaveBeenCalledWith(70, { hiring_stage_id: 2 });
+    });
+
+    it('should refuse stages of another pipeline', async () => {
+      await expect(planStageMove(70, 9)).rejects.toThrow(
+        'Hiring stage 9 is not part of the pipeline of job posting 8. Available stages: New (1), Interview (2), Offer (3).'
+      );
+      await expect(planStageMove(70, 'Hired')).rejects.toThrow('No hiring stage named "Hired"');
+    });
+
+    it('should refuse moving to the current stage', async () => {
+      await expect(planStageMove(70, 1)).rejects.toThrow('already in stage New');
+    });
+  });
+
+  describe('bulk rejection', () => {
+    it('should skip unknown, rejected, hired and duplicate applications', async () => {
+      vi.mocked(api.getApplication).mockImplementation(id => {
+        const base = { hiring_stage_id: 1 };
+        if (id === 72) {
+          return Promise.resolve(application(id, 172, 8, { ...base, rejected_at: '2026-05-01' }));
+        }
+        if (id === 73) {
+          return Promise.resolve(application(id, 173, 8, { ...base, hired_at: '2026-05-02' }));
+        }
+        if (id === 74) return Promise.reject(new NotFoundError('/ats/applications/74'));
+        return Promise.resolve(application(id, id + 100, 8, base));
+      });
+
+      const plan = await planRejections([70, 71, 70, 72, 73, 74]);
+
+      expect(plan.targets.map(target => target.name)).toEqual([
+        'Candidate 170 for Backend Engineer',
+        'Candidate 171 for Backend Engineer',
+      ]);
+      expect(plan.skipped.map(s => s.application_id).sort()).toEqual([72, 73, 74]);
+    });
+
+    it('should reject every application and report failures', async () => {
+      vi.mocked(api.rejectApplication).mockRejectedValueOnce(new Error('Server error'));
+
+      const results = await rejectApplications(
+        await planRejections([70, 71]),
+        'Not enough experience'
+      );
+
+      expect(results.map(result => result.status)).toEqual(['failed', 'rejected']);
+      expect(api.rejectApplication).toHaveBeenCalledWith(71, { reason: 'Not enough experience' });
+    });
+  });
+
+  describe('getStageHistory', () => {
+    it('should list stage changes and rejections from the audit log', async () => {
+      const log = (action: AuditAction, changes: Record<string, { from?: unknown; to: unknown }>) =>
+        auditLogger.log({
+          timestamp: new Date().toISOString(),
+          action,
+          entityType: 'application',
+          entityId: 70,
+          changes,
+          success: true,
+          durationMs: 1,
+        });
+      log(AuditAction.UPDATE, { hiring_stage_id: { from: 1, to: 2 } });
+      log(AuditAction.UPDATE, { rating: { from: null, to: 4 } });
+      log(AuditAction.REJECT, { reason: { to: 'Position filled' } });
+
+      const history = await getStageHistory(70);
+
+      expect(history).toEqual([
+        expect.objectContaining({ event: 'stage', from_stage: 'New', to_stage: 'Interview' }),
+        expect.objectContaining({ event: 'rejected', reason: 'Position filled' }),
+      ]);
+    });
+  });
+});
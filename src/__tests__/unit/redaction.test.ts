@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../api.js', () => ({
+  getEmployee: vi.fn(),
+  getTaxIdentifier: vi.fn(),
+}));
+
+import { getEmployee } from '../../api.js';
+import { AuditAction, auditLogger } from '../../audit.js';
+import {
+  hashValue,
+  maskValue,
+  redactSensitiveFields,
+  revealSensitiveFields,
+} from '../../redaction.js';
+
+describe('Redaction', () => {
+  let dir: string;
+  let fileCount = 0;
+
+  /**
+   * Write a redaction policy file and point FACTORIAL_REDACTION_PATH at it
+   */
+  function useRedactionFile(contents: unknown): void {
+    const path = join(dir, `redaction-${++fileCount}.json`);
+    writeFileSync(path, JSON.stringify(contents));
+    vi.stubEnv('FACTORIAL_REDACTION_PATH', path);
+  }
+
+  const employee = {
+    id: 1,
+    full_name: 'Ana García',
+    identifier: '12345678Z',
+    bank_number: 'ES9121000418450200051332',
+    personal_email: 'ana@example.com',
+    birthday_on: '1990-05-01',
+    manager_id: null,
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'redaction-'));
+    vi.stubEnv('FACTORIAL_REDACTION_PATH', '');
+    auditLogger.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('maskValue', () => {
+    it('should keep the ends of long values', () => {
+      expect(maskValue('ES9121000418450200051332')).toBe('ES****1332');
+    });
+
+    it('should hide more of shorter values', () => {
+      expect(maskValue('12345678Z')).toBe('****8Z');
+      expect(maskValue('ABC123')).toBe('****');
+    });
+  });
+
+  describe('hashValue', () => {
+    it('should hash equal values to the same digest', () => {
+      expect(hashValue('ana@example.com')).toBe(hashValue('ana@example.com'));
+      expect(hashValue('ana@example.com')).not.toBe(hashValue('bob@example.com'));
+      expect(hashValue('ana@example.com')).toMatch(/^hash:[0-9a-f]{16}$/);
+    });
+  });
+
+  describe('redactSensitiveFields', () => {
+    it('should apply the built-in policy to nested payloads', () => {
+      const output = JSON.parse(JSON.stringify({ data: [employee] }, redactSensitiveFields)) as {
+        data: Record<string, unknown>[];
+      };
+
+      expect(output.data[0]).toEqual({
+        id: 1,
+        full_name: 'Ana García',
+        identifier: '****8Z',
+        bank_number: 'ES****1332',
+        personal_email: hashValue('ana@example.com'),
+        manager_id: null,
+      });
+    });
+
+    it('should remove contract salaries', () => {
+      const contract = {
+        id: 3,
+        job_title: 'Engineer',
+        salary_amount: 4500000,
+        salary_frequency: 'yearly',
+      };
+
+      expect(JSON.parse(JSON.stringify({ contract }, redactSensitiveFields))).toEqual({
+        contract: { id: 3, job_title: 'Engineer', salary_frequency: 'yearly' },
+      });
+    });
+
+    it('should apply overrides from the redaction file', () => {
+      useRedactionFile({ fields: { full_name: 'hash', bank_number: 'none' } });
+
+      const output = JSON.parse(JSON.stringify(employee, redactSensitiveFields)) as Record<
+        string,
+        unknown
+      >;
+
+      expect(output.full_name).toBe(hashValue('Ana García'));
+      expect(output.bank_number).toBe(employee.bank_number);
+      expect(output.birthday_on).toBeUndefined();
+    });
+
+    it('should reject invalid files', () => {
+      useRedactionFile({ fields: { bank_number: 'scramble' } });
+
+      expect(() => JSON.stringify(employee, redactSensitiveFields)).toThrow(
+        'Invalid redaction policy'
+      );
+    });
+  });
+
+  describe('revealSensitiveFields', () => {
+    it('should return the real values and log the reveal', async () => {
+      vi.mocked(getEmployee).mockResolvedValue(employee as never);
+
+      const revealed = await revealSensitiveFields(
+        'employee',
+        1,
+        ['bank_number', 'birthday_on'],
+        'Payroll correction'
+      );
+
+      expect(revealed).toEqual({ bank_number: employee.bank_number, birthday_on: '1990-05-01' });
+      const [entry] = auditLogger.getRecentLogs(1);
+      expect(entry).toMatchObject({
+        action: AuditAction.REVEAL,
+        entityType: 'employee',
+        entityId: 1,
+        success: true,
+        changes: {
+          fields: { to: ['bank_number', 'birthday_on'] },
+          reason: { to: 'Payroll correction' },
+        },
+      });
+    });
+
+    it('should log failed reveals', async () => {
+      vi.mocked(getEmployee).mockRejectedValue(new Error('Not found'));
+
+      await expect(revealSensitiveFields('employee', 99, ['bank_number'], 'Check')).rejects.toThrow(
+        'Not found'
+      );
+      expect(auditLogger.getRecentLogs(1)[0]).toMatchObject({ success: false, error: 'Not found' });
+    });
+  });
+});
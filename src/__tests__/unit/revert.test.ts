@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AuditEntry } from '../../audit.js';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+// Mock environment
+vi.stubEnv('FACTORIAL_API_KEY', 'test-api-key');
+
+// Import after mocking
+const { AuditAction } = await import('../../audit.js');
+const { clearCache } = await import('../../api.js');
+const { planRevert, findConflictingFields, executeRevert } = await import('../../revert.js');
+const { RevertError } = await import('../../errors.js');
+
+function makeEntry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    id: 'entry-1',
+    timestamp: '2026-01-01T00:00:00Z',
+    action: AuditAction.UPDATE,
+    entityType: 'team',
+    entityId: 7,
+    success: true,
+    durationMs: 10,
+    ...overrides,
+  };
+}
+
+const teamSnapshot = {
+  id: 7,
+  name: 'Engineering',
+  description: null,
+  company_id: 1,
+  employee_ids: [1, 2],
+  lead_ids: [1],
+};
+
+describe('Revert', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearCache();
+  });
+
+  describe('planRevert', () => {
+    it('should restore the previous values of the changed fields', () => {
+      const plan = planRevert(
+        makeEntry({
+          changes: { name: { from: 'Engineering', to: 'Platform' } },
+          before: teamSnapshot,
+        })
+      );
+
+      expect(plan.kind).toBe('restore');
+      expect(plan.values).toEqual({ name: 'Engineering' });
+    });
+
+    it('should recreate a deleted team from its snapshot', () => {
+      const plan = planRevert(makeEntry({ action: AuditAction.DELETE, before: teamSnapshot }));
+
+      expect(plan.kind).toBe('recreate');
+      expect(plan.values).toEqual({ name: 'Engineering', employee_ids: [1, 2], lead_ids: [1] });
+    });
+
+    it('should restore the members of a team membership change', () => {
+      const plan = planRevert(
+        makeEntry({
+          action: AuditAction.UNASSIGN,
+          changes: { employee_ids: { from: [1, 2], to: [1] } },
+          before: teamSnapshot,
+        })
+      );
+
+      expect(plan.kind).toBe('restore');
+      expect(plan.values).toEqual({ employee_ids: [1, 2] });
+    });
+
+    it('should not restore values that were redacted in the audit log', () => {
+      const entry = makeEntry({
+        entityType: 'employee',
+        changes: {
+          social_security_number: { from: 'ES****1234', to: 'ES****5678' },
+          first_name: { from: 'Ana', to: 'Anna' },
+        },
+        before: { social_security_number: 'ES****1234', first_name: 'Ana' },
+        redacted: ['social_security_number'],
+      });
+
+      expect(() => planRevert(entry)).toThrow(
+        'the previous value of social_security_number was redacted'
+      );
+    });
+
+    it('should reject failed operations', () => {
+      expect(() => planRevert(makeEntry({ success: false, before: teamSnapshot }))).toThrow(
+        RevertError
+      );
+    });
+
+    it('should reject entries without a snapshot', () => {
+      expect(() => planRevert(makeEntry({ changes: { name: { from: 'A', to: 'B' } } }))).toThrow(
+        /no snapshot/
+      );
+    });
+
+    it('should reject deletes of entity types that cannot be recreated', () => {
+      const entry = makeEntry({ action: AuditAction.DELETE, entityType: 'leave', before: {} });
+
+      expect(() => planRevert(entry)).toThrow(/cannot be recreated/);
+    });
+
+    it('should reject unsupported actions and entity types', () => {
+      expect(() => planRevert(makeEntry({ action: AuditAction.APPROVE, before: {} }))).toThrow(
+        /APPROVE operations cannot be reverted/
+      );
+      expect(() => planRevert(makeEntry({ entityType: 'payroll', before: {} }))).toThrow(
+        /not supported/
+      );
+    });
+  });
+
+  describe('findConflictingFields', () => {
+    it('should report fields changed again since the operation', () => {
+      const plan = planRevert(
+        makeEntry({
+          changes: {
+            name: { from: 'Engineering', to: 'Platform' },
+            lead_ids: { from: [1], to: [2] },
+          },
+          before: teamSnapshot,
+        })
+      );
+
+      expect(findConflictingFields(plan, { name: 'Platform', lead_ids: [3] })).toEqual([
+        'lead_ids',
+      ]);
+    });
+  });
+
+  describe('executeRevert', () => {
+    it('should patch the entity with the previous values', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { ...teamSnapshot } }),
+      });
+      const plan = planRevert(
+        makeEntry({
+          changes: { name: { from: 'Engineering', to: 'Platform' } },
+          before: teamSnapshot,
+        })
+      );
+
+      await executeRevert(plan);
+
+      const [url, init] = mockFetch.mock.calls.at(-1) as [string, RequestInit];
+      expect(url).toContain('/teams/7');
+      expect(init.method).toBe('PATCH');
+      expect(JSON.parse(init.body as string)).toEqual({ name: 'Engineering' });
+    });
+
+    it('should recreate a deleted entity', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: async () => ({ data: { ...teamSnapshot, id: 12 } }),
+      });
+      const plan = planRevert(makeEntry({ action: AuditAction.DELETE, before: teamSnapshot }));
+
+      const result = await executeRevert(plan);
+
+      const [, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(init.method).toBe('POST');
+      expect(result).toMatchObject({ id: 12, name: 'Engineering' });
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { average, median, rate, round } from '../../statistics.js';
+
+describe('Statistics', () => {
+  it('should round to a number of decimals', () => {
+    expect(round(2 / 3, 3)).toBe(0.667);
+    expect(round(14.25, 1)).toBe(14.3);
+  });
+
+  it('should compute rates without dividing by zero', () => {
+    expect(rate(2, 7)).toBe(0.286);
+    expect(rate(0, 0)).toBeNull();
+  });
+
+  it('should average and take the median of values', () => {
+    expect(average([10, 20, 0])).toBe(10);
+    expect(median([20, 10])).toBe(15);
+    expect(median([3, 1, 2])).toBe(2);
+    expect(average([])).toBeNull();
+    expect(median([])).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync, deflateSync } from 'zlib';
+import { extractDocxPages, extractPdfPages, readZipEntry } from '../../text-extraction.js';
+
+/**
+ * Build a PDF file from object bodies (object N is bodies[N - 1])
+ */
+function buildPdf(bodies: (string | Buffer)[]): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n')];
+  bodies.forEach((body, i) => {
+    parts.push(Buffer.from(`${i + 1} 0 obj\n`), Buffer.from(body), Buffer.from('\nendobj\n'));
+  });
+  parts.push(Buffer.from('trailer\n<< /Root 1 0 R >>\n%%EOF\n'));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Build a stream object, compressed unless `raw` is set
+ */
+function stream(content: string, dict = '', raw = false): Buffer {
+  const data = raw ? Buffer.from(content, 'latin1') : deflateSync(Buffer.from(content, 'latin1'));
+  const filter = raw ? '' : ' /Filter /FlateDecode';
+  return Buffer.concat([
+    Buffer.from(`<< /Length ${data.length}${filter}${dict} >>\nstream\n`),
+    data,
+    Buffer.from('\nendstream'),
+  ]);
+}
+
+/**
+ * Build a ZIP archive of deflated entries
+ */
+function buildZip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const data = deflateRawSync(Buffer.from(content));
+    const nameBytes = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('Text Extraction', () => {
+  describe('extractPdfPages', () => {
+    it('should extract the text of each page in page order', () => {
+      const pdf = buildPdf([
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [4 0 R 3 0 R] /Count 2 /Resources << /Font << >> >> >>',
+        '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>',
+        '<< /Type /Page /Parent 2 0 R /Contents [6 0 R] >>',
+        stream('BT /F1 12 Tf 72 700 Td (Second page) Tj ET'),
+        stream(
+          'BT /F1 12 Tf 72 700 Td (Notice period:) Tj 0 -14 Td [(thirty ) -50 (days)] TJ T* (\\(signed\\)) Tj ET',
+          '',
+          true
+        ),
+      ]);
+
+      expect(extractPdfPages(pdf)).toEqual([
+        'Notice period:\nthirty days\n(signed)',
+        'Second page',
+      ]);
+    });
+
+    it('should decode text with a ToUnicode font map', () => {
+      const cmap = [
+        'begincmap',
+        '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+        '2 beginbfchar <0001> <0048> <0002> <00ED> endbfchar',
+        '1 beginbfrange <0003> <0004> <0061> endbfrange',
+        'endcmap',
+      ].join('\n');
+      const pdf = buildPdf([
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 6 0 R >>',
+        '<< /Type /Font /Subtype /Type0 /ToUnicode 5 0 R >>',
+        stream(cmap),
+        stream('BT /F1 11 Tf <0001000200030004> Tj ET'),
+      ]);
+
+      expect(extractPdfPages(pdf)).toEqual(['Híab']);
+    });
+
+    it('should read pages stored in compressed object streams', () => {
+      const pages = '<< /Type /Pages /Kids [11 0 R] /Count 1 >>';
+      const header = `10 0 11 ${pages.length} `;
+      const pdf = buildPdf([
+        '<< /Type /Catalog /Pages 10 0 R >>',
+        stream(
+          `${header}${pages}<< /Type /Page /Contents 3 0 R >>`,
+          ` /Type /ObjStm /N 2 /First ${header.length}`
+        ),
+        stream('BT (Compressed) Tj ET'),
+      ]);
+
+      expect(extractPdfPages(pdf)).toEqual(['Compressed']);
+    });
+
+    it('should stop when the streams decompress to more than the budget', () => {
+      const text = `BT (${'x'.repeat(600)}) Tj ET`;
+      const pdf = buildPdf([
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /Contents [4 0 R 5 0 R] >>',
+        stream(text),
+        stream(text),
+      ]);
+
+      expect(extractPdfPages(pdf, 2000)).toHaveLength(1);
+      expect(() => extractPdfPages(pdf, 1000)).toThrow(
+        'PDF is too large to read: its streams decompress to more than'
+      );
+    });
+
+    it('should return empty pages when there is no text layer', () => {
+      const pdf = buildPdf([
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+        stream('q 100 0 0 100 0 0 cm /Im1 Do Q'),
+      ]);
+
+      expect(extractPdfPages(pdf)).toEqual(['']);
+    });
+  });
+
+  describe('extractDocxPages', () => {
+    const paragraph = (body: string): string => `<w:p><w:pPr/>${body}</w:p>`;
+
+    it('should extract paragraphs split at recorded page breaks', () => {
+      const xml = `<w:document><w:body>${[
+        paragraph('<w:r><w:t>Employment contract</w:t></w:r>'),
+        paragraph(
+          '<w:r><w:t xml:space="preserve">Notice &amp; </w:t><w:tab/><w:t>term</w:t></w:r>'
+        ),
+        paragraph('<w:r><w:lastRenderedPageBreak/><w:t>Signatures</w:t></w:r>'),
+      ].join('')}</w:body></w:document>`;
+      const docx = buildZip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': xml });
+
+      expect(extractDocxPages(docx)).toEqual([
+        'Employment contract\nNotice & \tterm',
+        'Signatures',
+      ]);
+    });
+
+    it('should fall back to explicit page breaks', () => {
+      const xml = [
+        paragraph('<w:r><w:t>One</w:t></w:r>'),
+        paragraph('<w:r><w:br w:type="page"/><w:t>Two</w:t></w:r>'),
+      ].join('');
+      const docx = buildZip({ 'word/document.xml': xml });
+
+      expect(extractDocxPages(docx)).toEqual(['One', 'Two']);
+    });
+
+    it('should reject files that are not DOCX documents', () => {
+      expect(() => extractDocxPages(buildZip({ 'other.xml': '<x/>' }))).toThrow(
+        'Invalid DOCX document'
+      );
+      expect(() => extractDocxPages(Buffer.from('not a zip file at all, clearly'))).toThrow(
+        'Invalid ZIP archive'
+      );
+    });
+  });
+
+  describe('readZipEntry', () => {
+    it('should return undefined for missing entries', () => {
+      expect(readZipEntry(buildZip({ 'a.txt': 'a' }), 'b.txt')).toBeUndefined();
+      expect(readZipEntry(buildZip({ 'a.txt': 'hello' }), 'a.txt')?.toString()).toBe('hello');
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../api.js', () => ({
+  listCompanyHolidays: vi.fn(),
+  listEmployees: vi.fn(),
+  listLeaves: vi.fn(),
+  listLeaveTypes: vi.fn(),
+  listLocations: vi.fn(),
+  listTeams: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import {
+  buildTimeoffAnalytics,
+  formatTimeoffAnalytics,
+  renderHeatmap,
+} from '../../timeoff-analytics.js';
+import { companyHoliday, employee, leave, leaveTypes, location, page, team } from '../helpers.js';
+
+// Requested a month before June
+const createdAt = '2026-05-01T09:00:00.000Z';
+
+const leaves = [
+  leave(10, 1, '2026-06-01', '2026-06-05', { created_at: createdAt }),
+  leave(11, 2, '2026-06-03', '2026-06-03', {
+    half_day: 'start',
+    leave_type_id: 2,
+    created_at: '2026-06-03T07:00:00.000Z',
+  }),
+  leave(12, 3, '2026-06-03', '2026-06-04', { created_at: '2026-05-24T10:00:00.000Z' }),
+  leave(13, 2, '2026-06-08', '2026-06-09', {
+    status: 'pending',
+    created_at: '2026-05-20T10:00:00.000Z',
+  }),
+  leave(14, 1, '2026-06-04', '2026-06-04', { status: 'declined', created_at: createdAt }),
+  leave(15, 4, '2026-06-01', '2026-06-02', { created_at: createdAt }),
+];
+
+describe('Time off analytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(api.listCompanyHolidays).mockResolvedValue([
+      companyHoliday(1, '2026-06-04', { location_id: 5, summary: 'Corpus Christi' }),
+    ]);
+    vi.mocked(api.listEmployees).mockImplementation(() =>
+      page([
+        employee(1, { full_name: 'Ana Ruiz', location_id: 3 }),
+        employee(2, { full_name: 'Ben Cole', location_id: 3 }),
+        employee(3, { full_name: 'Carla Diaz', location_id: 5 }),
+        employee(4, { full_name: 'Dan Eng', location_id: 3, terminated_on: '2026-01-31' }),
+      ])
+    );
+    vi.mocked(api.listTeams).mockImplementation(() =>
+      page([
+        team(1, { name: 'Backend', employee_ids: [1, 2] }),
+        team(2, { name: 'Support', employee_ids: [3, 4] }),
+        team(3, { name: 'Empty', employee_ids: [] }),
+      ])
+    );
+    vi.mocked(api.listLocations).mockImplementation(() =>
+      page([location(3, { name: 'Madrid' }), location(5, { name: 'Sevilla' })])
+    );
+    vi.mocked(api.listLeaveTypes).mockResolvedValue(leaveTypes);
+    vi.mocked(api.listLeaves).mockImplementation(params =>
+      page(params?.status ? leaves.filter(l => l.status === params.status) : leaves)
+    );
+  });
+
+  it('should count employees away per day, team and location', async () => {
+    const report = await buildTimeoffAnalytics({
+      from: '2026-06-01',
+      to: '2026-06-07',
+      today: '2026-06-10',
+    });
+
+    expect(report).toMatchObject({ headcount: 3, leaves: 3, absence_days: 6.5 });
+    expect(report.peak_days[0]).toEqual({
+      date: '2026-06-03',
+      absent: 2.5,
+      share: 0.833,
+      employees: ['Ana Ruiz', 'Ben Cole', 'Carla Diaz'],
+    });
+
+    const [backend, support] = report.teams;
+    expect(report.teams).toHaveLength(2);
+    expect(backend).toMatchObject({
+      name: 'Backend',
+      headcount: 2,
+      absence_days: 5.5,
+      avg_absent_per_day: 1.1,
+      peak: { date: '2026-06-03', absent: 1.5, share: 0.75 },
+    });
+    // The holiday in Sevilla is not an absence
+    expect(support).toMatchObject({ name: 'Support', headcount: 1, absence_days: 1 });
+    expect(support.daily.map(day => day.date)).toEqual([
+      '2026-06-01',
+      '2026-06-02',
+      '2026-06-03',
+      '2026-06-05',
+    ]);
+    expect(report.locations.map(group => [group.name, group.absence_days])).toEqual([
+      ['Madrid', 5.5],
+      ['Sevilla', 1],
+    ]);
+  });
+
+  it('should summarize leave types, lead times and the pending backlog', async () => {
+    const report = await buildTimeoffAnalytics({
+      from: '2026-06-01',
+      to: '2026-06-07',
+      today: '2026-06-10',
+    });
+
+    expect(report.leave_types).toEqual([
+      {
+        leave_type_id: 1,
+        leave_type: 'Vacation',
+        leaves: 2,
+        absence_days: 6,
+        share: 0.923,
+        avg_lead_time_days: 20.5,
+      },
+      {
+        leave_type_id: 2,
+        leave_type: 'Sick Leave',
+        leaves: 1,
+        absence_days: 0.5,
+        share: 0.077,
+        avg_lead_time_days: 0,
+      },
+    ]);
+    expect(report.lead_time).toEqual({ leaves: 3, avg_days: 13.7, median_days: 10 });
+    expect(report.pending_backlog).toMatchObject({
+      count: 1,
+      avg_age_days: 21,
+      max_age_days: 21,
+      started: 1,
+      oldest: [{ leave_id: 13, employee: 'Ben Cole', start_on: '2026-06-08', age_days: 21 }],
+    });
+  });
+
+  it('should count pending leaves on request', async () => {
+    const report = await buildTimeoffAnalytics({
+      from: '2026-06-08',
+      to: '2026-06-14',
+      include_pending: true,
+    });
+
+    expect(report).toMatchObject({ leaves: 1, absence_days: 2, include_pending: true });
+  });
+
+  it('should refuse invalid and overlong ranges', async () => {
+    await expect(buildTimeoffAnalytics({ from: '2026-06-30', to: '2026-06-01' })).rejects.toThrow(
+      'ends (2026-06-01) before it starts'
+    );
+    await expect(buildTimeoffAnalytics({ from: '2026-01-01', to: '2027-01-02' })).rejects.toThrow(
+      'The range covers 367 days; the maximum is 366.'
+    );
+    await expect(buildTimeoffAnalytics({ from: '2026-01-01', to: '9999-12-31' })).rejects.toThrow(
+      'The range covers 2912443 days'
+    );
+    await expect(buildTimeoffAnalytics({ to: 'June' })).rejects.toThrow('Invalid date "June"');
+  });
+
+  it('should render Markdown tables and a heatmap', async () => {
+    const report = await buildTimeoffAnalytics({
+      from: '2026-06-01',
+      to: '2026-06-07',
+      today: '2026-06-10',
+    });
+
+    const text = formatTimeoffAnalytics(report);
+    expect(text).toContain('| 2026-06-03 | 2.5 | 83.3% | Ana Ruiz, Ben Cole, Carla Diaz |');
+    expect(text).toContain('| Backend | 2 | 5.5 | 1.1 | 2026-06-03 | 1.5 (75%) |');
+    expect(text).toContain('| Sick Leave | 1 | 0.5 | 7.7% | 0 |');
+    expect(text).toContain('- Leave 13 of Ben Cole from 2026-06-08, waiting 21 day(s)');
+
+    expect(renderHeatmap(report.teams, report.from, report.to).split('\n').slice(0, 3)).toEqual([
+      '             |      ',
+      'Backend (2)  11211  ',
+      'Support (1)  ..1 .  ',
+    ]);
+  });
+
+  it('should show long ranges by week', () => {
+    const heatmap = renderHeatmap(
+      [
+        {
+          id: 1,
+          name: 'Backend',
+          headcount: 12,
+          absence_days: 14,
+          avg_absent_per_day: 0.1,
+          peak: null,
+          daily: [
+            { date: '2026-06-03', absent: 2, share: null },
+            { date: '2026-07-01', absent: 12, share: null },
+            { date: '2026-07-08', absent: 0, share: null },
+          ],
+        },
+      ],
+      '2026-06-01',
+      '2026-08-09'
+    );
+
+    expect(heatmap.split('\n').slice(0, 2)).toEqual([
+      '              |   |   | ',
+      'Backend (12)  2   +.    ',
+    ]);
+    expect(heatmap).toContain('One column per week (from Monday)');
+  });
+});
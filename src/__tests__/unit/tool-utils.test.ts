@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { confirmationManager } from '../../confirmation.js';
+import { runWithSession } from '../../context.js';
+import {
+  isConfirmationPreview,
+  wrapHighRiskToolHandler,
+  wrapToolHandler,
+  textResponse,
+  formatToolError,
+  type PreviewDetails,
+} from '../../tool-utils.js';
+
+/**
+ * Extract the confirmation token from a preview response
+ */
+function extractToken(text: string): string {
+  const match = /confirmation_token: "([a-f0-9]+)"/.exec(text);
+  if (!match) throw new Error(`No token in: ${text}`);
+  return match[1];
+}
+
+describe('Tool Utilities', () => {
+  describe('formatToolError', () => {
+    it('should format errors as tool error responses', () => {
+      const result = formatToolError(new Error('Boom'));
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Error: Boom');
+    });
+
+    it('should handle non-Error values', () => {
+      expect(formatToolError('nope').content[0].text).toBe('Error: Unknown error');
+    });
+  });
+
+  describe('wrapToolHandler', () => {
+    it('should convert thrown errors into error responses', async () => {
+      const wrapped = wrapToolHandler(async () => {
+        throw new Error('Failed');
+      });
+
+      const result = await wrapped({});
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Failed');
+    });
+  });
+
+  describe('wrapHighRiskToolHandler', () => {
+    const describeTeam = vi.fn(
+      async ({ id }: { id: number }): Promise<PreviewDetails> => ({
+        operation: 'delete',
+        entityType: 'team',
+        entityId: id,
+        entityName: 'Engineering',
+        warnings: ['5 member(s) will lose their association with this team.'],
+      })
+    );
+    const handler = vi.fn(async ({ id }: { id: number; confirmation_token?: string }) =>
+      textResponse(`Team ${id} deleted successfully.`)
+    );
+
+    beforeEach(() => {
+      confirmationManager.clear();
+      describeTeam.mockClear();
+      handler.mockClear();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should return a preview with a token on the first call without executing', async () => {
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const result = await wrapped({ id: 7 });
+      const text = result.content[0].text;
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(describeTeam).toHaveBeenCalledWith({ id: 7 });
+      expect(text).toContain('Engineering');
+      expect(text).toContain('5 member(s)');
+      expect(text).toContain('expiresAt');
+      expect(confirmationManager.getPendingCount()).toBe(1);
+    });
+
+    it('should execute the operation with a valid token', async () => {
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const preview = await wrapped({ id: 7 });
+      const token = extractToken(preview.content[0].text);
+      const result = await wrapped({ id: 7, confirmation_token: token });
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(handler).toHaveBeenCalledWith({ id: 7, confirmation_token: token });
+      expect(result.content[0].text).toBe('Team 7 deleted successfully.');
+    });
+
+    it('should execute the previewed payload when only the token is supplied', async () => {
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const preview = await wrapped({ id: 7 });
+      const token = extractToken(preview.content[0].text);
+      await wrapped({ confirmation_token: token } as { id: number; confirmation_token: string });
+
+      expect(handler).toHaveBeenCalledWith({ id: 7, confirmation_token: token });
+    });
+
+    it('should hand what the preview was built from to the handler', async () => {
+      const plan = { steps: ['Remove 5 members', 'Delete team'] };
+      const wrapped = wrapHighRiskToolHandler(
+        'delete_team',
+        async (args: { id: number }) => ({ ...(await describeTeam(args)), previewed: plan }),
+        handler
+      );
+
+      const preview = await wrapped({ id: 7 });
+      expect(preview.content[0].text).not.toContain('Remove 5 members');
+      const token = extractToken(preview.content[0].text);
+      await wrapped({ id: 7, confirmation_token: token });
+
+      expect(handler).toHaveBeenCalledWith({ id: 7, confirmation_token: token }, plan);
+    });
+
+    it('should only accept a token once', async () => {
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const preview = await wrapped({ id: 7 });
+      const token = extractToken(preview.content[0].text);
+      await wrapped({ id: 7, confirmation_token: token });
+      const second = await wrapped({ id: 7, confirmation_token: token });
+
+      expect(handler).toHaveBeenCalledOnce();
+      expect(second.isError).toBe(true);
+      expect(second.content[0].text).toContain('expired or is invalid');
+    });
+
+    it('should reject an expired token', async () => {
+      vi.useFakeTimers();
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const preview = await wrapped({ id: 7 });
+      const token = extractToken(preview.content[0].text);
+      vi.advanceTimersByTime(5 * 60 * 1000 + 1000);
+      const result = await wrapped({ id: 7, confirmation_token: token });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+    });
+
+    it('should reject a token issued for a different operation', async () => {
+      const deleteTeam = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+      const deleteLocation = wrapHighRiskToolHandler('delete_location', describeTeam, handler);
+
+      const preview = await deleteTeam({ id: 7 });
+      const token = extractToken(preview.content[0].text);
+      const result = await deleteLocation({ id: 7, confirmation_token: token });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('delete_team');
+    });
+
+    it('should reject a token when the arguments changed', async () => {
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const preview = await wrapped({ id: 7 });
+      const token = extractToken(preview.content[0].text);
+      const result = await wrapped({ id: 8, confirmation_token: token });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('argument "id" changed');
+    });
+
+    it('should reject a token issued for a different company', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'tool-utils-company-'));
+      const profilesPath = join(dir, 'profiles.json');
+      writeFileSync(
+        profilesPath,
+        JSON.stringify({ profiles: { 'acme-es': { apiKey: 'es' }, 'acme-fr': { apiKey: 'fr' } } })
+      );
+      vi.stubEnv('FACTORIAL_PROFILES_PATH', profilesPath);
+      const wrapped = wrapHighRiskToolHandler('delete_team', describeTeam, handler);
+
+      const preview = await runWithSession({ transport: 'sse', company: 'acme-es' }, () =>
+        wrapped({ id: 7 })
+      );
+      const token = extractToken(preview.content[0].text);
+      const result = await runWithSession({ transport: 'sse', company: 'acme-fr' }, () =>
+        wrapped({ id: 7, confirmation_token: token })
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('company "acme-es"');
+
+      vi.unstubAllEnvs();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return preview errors as tool errors', async () => {
+      const failingDescribe = vi.fn(async (): Promise<PreviewDetails> => {
+        throw new Error('Team not found');
+      });
+      const wrapped = wrapHighRiskToolHandler('delete_team', failingDescribe, handler);
+
+      const result = await wrapped({ id: 7 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Team not found');
+      expect(confirmationManager.getPendingCount()).toBe(0);
+    });
+
+    it('should execute directly when the policy does not require confirmation', async () => {
+      const wrapped = wrapHighRiskToolHandler('update_team', describeTeam, handler);
+
+      await wrapped({ id: 7 });
+
+      expect(describeTeam).not.toHaveBeenCalled();
+      expect(handler).toHaveBeenCalledOnce();
+    });
+
+    describe('with conditional policy rules', () => {
+      let dir: string;
+
+      beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'policy-'));
+        const path = join(dir, 'policy.yaml');
+        writeFileSync(
+          path,
+          [
+            'rules:',
+            '  - operation: approve_leave',
+            '    when: { field: days, gt: 10 }',
+            '    requiresConfirmation: true',
+            '    description: Leaves over 10 days need a second look.',
+            '  - operation: approve_leave',
+            '    when: { field: understaffed_days, gt: 0 }',
+            '    blocked: true',
+            '    description: The team would be understaffed.',
+          ].join('\n')
+        );
+        vi.stubEnv('FACTORIAL_POLICY_PATH', path);
+      });
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+        rmSync(dir, { recursive: true, force: true });
+      });
+
+      it('should require confirmation when a rule matches the facts of the call', async () => {
+        const facts = vi.fn(async ({ id }: { id: number }) => ({ days: id === 1 ? 12 : 3 }));
+        const wrapped = wrapHighRiskToolHandler('approve_leave', describeTeam, handler, facts);
+
+        const preview = await wrapped({ id: 1 });
+        expect(handler).not.toHaveBeenCalled();
+        expect(isConfirmationPreview(preview)).toBe(true);
+        expect(preview.content[0].text).toContain('Leaves over 10 days need a second look.');
+
+        const result = await wrapped({
+          id: 1,
+          confirmation_token: extractToken(preview.content[0].text),
+        });
+        expect(isConfirmationPreview(result)).toBe(false);
+        expect(handler).toHaveBeenCalledOnce();
+      });
+
+      it('should refuse calls a rule blocks, also when confirming', async () => {
+        const facts = vi.fn(async () => ({ days: 12, understaffed_days: 2 }));
+        const wrapped = wrapHighRiskToolHandler('approve_leave', describeTeam, handler, facts);
+
+        const result = await wrapped({ id: 1 });
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain(
+          '"approve_leave" blocked by the operation policy: The team would be understaffed.'
+        );
+
+        facts.mockResolvedValueOnce({ days: 12, understaffed_days: 0 });
+        const preview = await wrapped({ id: 1 });
+        const confirmed = await wrapped({
+          id: 1,
+          confirmation_token: extractToken(preview.content[0].text),
+        });
+        expect(confirmed.isError).toBe(true);
+        expect(handler).not.toHaveBeenCalled();
+      });
+
+      it('should run directly when no rule matches', async () => {
+        const facts = vi.fn(async () => ({ days: 3 }));
+        const wrapped = wrapHighRiskToolHandler('approve_leave', describeTeam, handler, facts);
+
+        await wrapped({ id: 2 });
+
+        expect(describeTeam).not.toHaveBeenCalled();
+        expect(handler).toHaveBeenCalledOnce();
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+vi.mock('../../api.js', () => ({
+  getEmployee: vi.fn(),
+  listCompanyHolidays: vi.fn(),
+}));
+
+import * as api from '../../api.js';
+import { ConfigurationError } from '../../errors.js';
+import type { CompanyHoliday, Employee } from '../../schemas.js';
+import {
+  countWorkingDays,
+  describeDayOff,
+  getEmployeeCalendar,
+  getWorkCalendar,
+  listHolidays,
+  loadWorkCalendars,
+  nextWorkingDay,
+  parseIcsHolidays,
+} from '../../work-calendar.js';
+
+const SPAIN_ICS = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20260501',
+  'DTEND;VALUE=DATE:20260502',
+  'SUMMARY:Día del Trabajador',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20261224',
+  'DTEND;VALUE=DATE:20261226',
+  'SUMMARY:Nochebuena\\, Navidad',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20200106',
+  'RRULE:FREQ=YEARLY',
+  'SUMMARY:Epifanía del',
+  '  Señor',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20260601',
+  'RRULE:FREQ=MONTHLY',
+  'SUMMARY:Monthly meeting',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'STATUS:CANCELLED',
+  'DTSTART;VALUE=DATE:20260302',
+  'SUMMARY:Cancelled',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('Work calendars', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), 'calendars-'));
+    vi.mocked(api.listCompanyHolidays).mockResolvedValue([
+      { id: 1, location_id: null, date: '2026-01-01', summary: 'Año Nuevo', half_day: null },
+      { id: 2, location_id: 3, date: '2026-05-15', summary: 'San Isidro', half_day: null },
+      { id: 3, location_id: 3, date: '2026-12-24', summary: 'Nochebuena', half_day: 'morning' },
+    ] as CompanyHoliday[]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write the calendars file and its holiday files
+   */
+  function writeCalendars(calendars: string): void {
+    writeFileSync(join(dir, 'es.ics'), SPAIN_ICS);
+    writeFileSync(
+      join(dir, 'mx.json'),
+      JSON.stringify({
+        holidays: [
+          { date: '2026-11-16', name: 'Día de la Revolución' },
+          { date: '2026-12-24', name: 'Nochebuena', half_day: true },
+        ],
+      })
+    );
+    writeFileSync(join(dir, 'calendars.yaml'), calendars);
+    vi.stubEnv('FACTORIAL_CALENDARS_PATH', join(dir, 'calendars.yaml'));
+  }
+
+  describe('parseIcsHolidays', () => {
+    it('should read all-day, multi-day and yearly events', () => {
+      const { holidays, recurring } = parseIcsHolidays(SPAIN_ICS, 'es.ics');
+
+      expect(holidays.map(holiday => [holiday.date, holiday.name])).toEqual([
+        ['2026-05-01', 'Día del Trabajador'],
+        ['2026-12-24', 'Nochebuena, Navidad'],
+        ['2026-12-25', 'Nochebuena, Navidad'],
+      ]);
+      expect(recurring).toEqual([
+        {
+          month_day: '01-06',
+          name: 'Epifanía del Señor',
+          from: '2020-01-06',
+          until: undefined,
+          source: 'es.ics',
+        },
+      ]);
+    });
+  });
+
+  describe('with a calendars file', () => {
+    beforeEach(() => {
+      writeCalendars(
+        [
+          'default:',
+          '  holidays:',
+          "    - { date: '2026-12-25', name: Christmas }",
+          'locations:',
+          "  '3':",
+          '    files: [es.ics]',
+          "  '7':",
+          '    working_week: [mon, tue, wed, thu, fri, sat]',
+          '    factorial_holidays: false',
+          '    files: [mx.json]',
+        ].join('\n')
+      );
+    });
+
+    it("should combine Factorial holidays with the location's files", async () => {
+      const calendar = await getWorkCalendar(3);
+
+      expect(
+        listHolidays(calendar, '2026-01-01', '2026-12-31').map(holiday => holiday.date)
+      ).toEqual([
+        '2026-01-01',
+        '2026-01-06',
+        '2026-05-01',
+        '2026-05-15',
+        '2026-12-24',
+        '2026-12-25',
+      ]);
+      // Full-day holiday from the file wins over Factorial's half day
+      expect(calendar.holidays.get('2026-12-24')).toMatchObject({ half_day: false });
+      expect(countWorkingDays(calendar, '2026-04-27', '2026-05-17')).toBe(13);
+    });
+
+    it('should find the next and previous working days', async () => {
+      const calendar = await getWorkCalendar(3);
+
+      expect(nextWorkingDay(calendar, '2026-04-30')).toBe('2026-05-04');
+      expect(nextWorkingDay(calendar, '2026-05-04', -1)).toBe('2026-04-30');
+      expect(nextWorkingDay(calendar, '2026-05-02', 0)).toBe('2026-05-04');
+      expect(nextWorkingDay(calendar, '2027-01-05')).toBe('2027-01-07');
+    });
+
+    it('should use the working week and half-day holidays of a location', async () => {
+      const calendar = await getWorkCalendar(7);
+
+      expect(api.listCompanyHolidays).not.toHaveBeenCalled();
+      expect(countWorkingDays(calendar, '2026-11-16', '2026-11-21')).toBe(5);
+      expect(countWorkingDays(calendar, '2026-12-21', '2026-12-26')).toBe(4.5);
+      expect(countWorkingDays(calendar, '2026-12-21', '2026-12-26', 'finish')).toBe(4);
+      expect(describeDayOff(calendar, '2026-12-24')).toBe(
+        '2026-12-24 is a half-day holiday (Nochebuena)'
+      );
+      expect(describeDayOff(calendar, '2026-12-27')).toBe('2026-12-27 is not a working day (sun)');
+      expect(describeDayOff(calendar, '2026-12-26')).toBeUndefined();
+    });
+  });
+
+  it("should use the default calendar for an employee's location and warn without Factorial", async () => {
+    vi.mocked(api.getEmployee).mockResolvedValue({ id: 1, location_id: 9 } as Employee);
+    vi.mocked(api.listCompanyHolidays).mockRejectedValueOnce(new Error('Forbidden'));
+
+    const calendar = await getEmployeeCalendar(1);
+
+    expect(calendar).toMatchObject({
+      location_id: 9,
+      working_week: ['mon', 'tue', 'wed', 'thu', 'fri'],
+    });
+    expect(calendar.warnings).toEqual([
+      expect.stringContaining('Company holidays could not be read from Factorial'),
+    ]);
+    expect(countWorkingDays(calendar, '2026-01-01', '2026-01-04')).toBe(2);
+    expect(() => countWorkingDays(calendar, '2026-13-01', '2026-13-02')).toThrow(
+      'Invalid date "2026-13-01"'
+    );
+    expect(() => countWorkingDays(calendar, '2026-01-01', '9999-12-31')).toThrow(
+      'The range covers 2912443 days; the maximum is 3660'
+    );
+  });
+
+  it('should refuse invalid calendars files', () => {
+    writeCalendars('default:\n  working_week: [funday]\n');
+    expect(() => loadWorkCalendars()).toThrow(ConfigurationError);
+
+    writeFileSync(join(dir, 'broken.yaml'), "locations:\n  '3':\n    files: [missing.ics]\n");
+    vi.stubEnv('FACTORIAL_CALENDARS_PATH', join(dir, 'broken.yaml'));
+    expect(() => loadWorkCalendars()).toThrow('Cannot read holiday file');
+  });
+});
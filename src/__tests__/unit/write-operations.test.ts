@@ -7,6 +7,17 @@ vi.stubGlobal('fetch', mockFetch);
 // Mock environment
 vi.stubEnv('FACTORIAL_API_KEY', 'test-api-key');
 
+/**
+ * Mock the pre-write snapshot fetch made by update and delete operations
+ */
+function mockSnapshot(data: Record<string, unknown> = { id: 1 }): void {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: async () => ({ data }),
+  });
+}
+
 // Import after mocking
 const {
   createEmployee,
@@ -15,6 +26,9 @@ const {
   createTeam,
   updateTeam,
   deleteTeam,
+  addTeamMember,
+  removeTeamMember,
+  assignTeamLead,
   createLocation,
   updateLocation,
   deleteLocation,
@@ -26,8 +40,13 @@ const {
   createShift,
   updateShift,
   deleteShift,
+  uploadDocument,
+  updateDocument,
+  deleteDocument,
+  rejectApplication,
   clearCache,
 } = await import('../../api.js');
+const { auditLogger } = await import('../../audit.js');
 
 describe('Write Operations', () => {
   beforeEach(() => {
@@ -85,6 +104,7 @@ describe('Write Operations', () => {
     });
 
     it('should update an employee', async () => {
+      mockSnapshot();
       const updatedEmployee = {
         id: 1,
         first_name: 'John',
@@ -116,7 +136,7 @@ describe('Write Operations', () => {
 
       const result = await updateEmployee(1, { role: 'Senior Developer' });
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(result.role).toBe('Senior Developer');
     });
 
@@ -186,6 +206,7 @@ describe('Write Operations', () => {
     });
 
     it('should update a team', async () => {
+      mockSnapshot();
       const updatedTeam = {
         id: 1,
         name: 'Engineering - Updated',
@@ -205,11 +226,12 @@ describe('Write Operations', () => {
 
       const result = await updateTeam(1, { name: 'Engineering - Updated' });
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(result.name).toBe('Engineering - Updated');
     });
 
     it('should delete a team', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -217,7 +239,96 @@ describe('Write Operations', () => {
 
       await deleteTeam(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    describe('membership', () => {
+      const team = {
+        id: 1,
+        name: 'Engineering',
+        description: null,
+        company_id: 1,
+        employee_ids: [1, 2],
+        lead_ids: [1],
+        created_at: null,
+        updated_at: null,
+      };
+
+      /**
+       * Mock the team fetch and the PATCH, returning the body that was sent
+       */
+      function mockMembershipUpdate(): () => Record<string, unknown> {
+        mockSnapshot(team);
+        mockFetch.mockImplementationOnce(async (_url: string, init: RequestInit) => ({
+          ok: true,
+          status: 200,
+          json: async () => ({ data: { ...team, ...JSON.parse(init.body as string) } }),
+        }));
+        return () => JSON.parse(mockFetch.mock.calls[1][1].body as string);
+      }
+
+      it('should add a member and audit the change', async () => {
+        const sentBody = mockMembershipUpdate();
+
+        const result = await addTeamMember(1, 3);
+
+        expect(sentBody()).toEqual({ employee_ids: [1, 2, 3] });
+        expect(result.employee_ids).toEqual([1, 2, 3]);
+        const [entry] = auditLogger.getRecentLogs(1);
+        expect(entry).toMatchObject({
+          action: 'ASSIGN',
+          entityType: 'team',
+          entityId: 1,
+          changes: { employee_ids: { from: [1, 2], to: [1, 2, 3] } },
+          before: team,
+        });
+      });
+
+      it('should add a member as a lead', async () => {
+        const sentBody = mockMembershipUpdate();
+
+        await addTeamMember(1, 3, true);
+
+        expect(sentBody()).toEqual({ employee_ids: [1, 2, 3], lead_ids: [1, 3] });
+      });
+
+      it('should not write when the employee is already a member', async () => {
+        mockSnapshot(team);
+
+        const result = await addTeamMember(1, 2);
+
+        expect(mockFetch).toHaveBeenCalledOnce();
+        expect(result).toEqual(team);
+      });
+
+      it('should remove a member from the members and leads', async () => {
+        const sentBody = mockMembershipUpdate();
+
+        await removeTeamMember(1, 1);
+
+        expect(sentBody()).toEqual({ employee_ids: [2], lead_ids: [] });
+        expect(auditLogger.getRecentLogs(1)[0].action).toBe('UNASSIGN');
+      });
+
+      it('should refuse to remove an employee who is not a member', async () => {
+        mockSnapshot(team);
+
+        await expect(removeTeamMember(1, 9)).rejects.toThrow(
+          'Employee 9 is not a member of team 1.'
+        );
+      });
+
+      it('should add or transfer team leads', async () => {
+        let sentBody = mockMembershipUpdate();
+        await assignTeamLead(1, 2);
+        expect(sentBody()).toEqual({ lead_ids: [1, 2] });
+
+        mockFetch.mockReset();
+        clearCache();
+        sentBody = mockMembershipUpdate();
+        await assignTeamLead(1, 4, true);
+        expect(sentBody()).toEqual({ employee_ids: [1, 2, 4], lead_ids: [4] });
+      });
     });
   });
 
@@ -255,6 +366,7 @@ describe('Write Operations', () => {
     });
 
     it('should update a location', async () => {
+      mockSnapshot();
       const updatedLocation = {
         id: 1,
         name: 'San Francisco HQ - Updated',
@@ -278,11 +390,12 @@ describe('Write Operations', () => {
 
       const result = await updateLocation(1, { name: 'San Francisco HQ - Updated' });
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(result.name).toBe('San Francisco HQ - Updated');
     });
 
     it('should delete a location', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -290,7 +403,7 @@ describe('Write Operations', () => {
 
       await deleteLocation(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -330,6 +443,7 @@ describe('Write Operations', () => {
     });
 
     it('should update a leave request', async () => {
+      mockSnapshot();
       const updatedLeave = {
         id: 1,
         employee_id: 1,
@@ -353,11 +467,12 @@ describe('Write Operations', () => {
 
       const result = await updateLeave(1, { finish_on: '2025-02-07' });
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(result.finish_on).toBe('2025-02-07');
     });
 
     it('should cancel a leave request', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -365,7 +480,7 @@ describe('Write Operations', () => {
 
       await cancelLeave(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     });
 
     it('should approve a leave request', async () => {
@@ -459,6 +574,7 @@ describe('Write Operations', () => {
     });
 
     it('should update a shift', async () => {
+      mockSnapshot();
       const updatedShift = {
         id: 1,
         employee_id: 1,
@@ -483,11 +599,12 @@ describe('Write Operations', () => {
         notes: 'Worked late',
       });
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(result.notes).toBe('Worked late');
     });
 
     it('should delete a shift', async () => {
+      mockSnapshot();
       mockFetch.mockResolvedValueOnce({
         ok: true,
         status: 204,
@@ -495,7 +612,163 @@ describe('Write Operations', () => {
 
       await deleteShift(1);
 
-      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Application Write Operations', () => {
+    it('should reject an application with a reason', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { id: 70, rejected_at: '2026-05-01T00:00:00Z' } }),
+      });
+
+      const result = await rejectApplication(70, { reason: 'Position filled' });
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('/ats/applications/70/reject');
+      expect(JSON.parse(init.body as string)).toEqual({ reason: 'Position filled' });
+      expect(result.rejected_at).toBe('2026-05-01T00:00:00Z');
+      expect(auditLogger.getRecentLogs(1)[0]).toMatchObject({
+        action: 'REJECT',
+        entityType: 'application',
+        entityId: 70,
+        changes: { reason: { to: 'Position filled' } },
+      });
+    });
+  });
+
+  describe('Document Write Operations', () => {
+    const document = {
+      id: 7,
+      name: 'contract.pdf',
+      folder_id: 3,
+      employee_id: 1,
+      author_id: null,
+      company_id: 1,
+      public: false,
+      space: null,
+      file_url: null,
+      mime_type: 'application/pdf',
+      size_bytes: 4,
+      created_at: '2025-01-15T00:00:00Z',
+      updated_at: '2025-01-15T00:00:00Z',
+    };
+
+    it('should upload a document as multipart form data', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 201,
+        json: async () => ({ data: document }),
+      });
+
+      const result = await uploadDocument(
+        { folder_id: 3, employee_id: 1, public: false },
+        {
+          field: 'file',
+          name: 'contract.pdf',
+          mimeType: 'application/pdf',
+          content: Buffer.from('%PDF'),
+        }
+      );
+
+      expect(result.id).toBe(7);
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toContain('/documents/documents');
+      expect(init.method).toBe('POST');
+      expect(init.headers).not.toHaveProperty('Content-Type');
+      const form = init.body as FormData;
+      expect(form.get('folder_id')).toBe('3');
+      expect(form.get('employee_id')).toBe('1');
+      expect(form.get('public')).toBe('false');
+      const file = form.get('file') as File;
+      expect(file.name).toBe('contract.pdf');
+      expect(file.type).toBe('application/pdf');
+      expect(file.size).toBe(4);
+    });
+
+    it('should rename and move a document', async () => {
+      mockSnapshot(document);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { ...document, name: 'signed.pdf', folder_id: 4 } }),
+      });
+
+      const result = await updateDocument(7, { name: 'signed.pdf', folder_id: 4 });
+
+      expect(result.folder_id).toBe(4);
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({
+        method: 'PATCH',
+        body: JSON.stringify({ name: 'signed.pdf', folder_id: 4 }),
+      });
+    });
+
+    it('should delete a document', async () => {
+      mockSnapshot(document);
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 204,
+      });
+
+      await deleteDocument(7);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({ method: 'DELETE' });
+    });
+  });
+
+  describe('Audit Snapshots', () => {
+    beforeEach(() => {
+      auditLogger.clear();
+    });
+
+    it('should record the previous state and from/to changes of an update', async () => {
+      mockSnapshot({ id: 1, name: 'Engineering', description: 'Builds things' });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { id: 1, name: 'Platform' } }),
+      });
+
+      await updateTeam(1, { name: 'Platform' });
+
+      const [entry] = auditLogger.getLogsByEntity('team', 1);
+      expect(entry.before).toEqual({ id: 1, name: 'Engineering', description: 'Builds things' });
+      expect(entry.changes).toEqual({ name: { from: 'Engineering', to: 'Platform' } });
+    });
+
+    it('should record the deleted entity', async () => {
+      mockSnapshot({ id: 3, name: 'Madrid Office' });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await deleteLocation(3);
+
+      expect(auditLogger.getLogsByEntity('location', 3)[0].before).toEqual({
+        id: 3,
+        name: 'Madrid Office',
+      });
+    });
+
+    it('should still write when the snapshot cannot be fetched', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        text: async () => 'Not found',
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: { id: 1, name: 'Platform' } }),
+      });
+
+      const result = await updateTeam(1, { name: 'Platform' });
+
+      expect(result.name).toBe('Platform');
+      const [entry] = auditLogger.getLogsByEntity('team', 1);
+      expect(entry.before).toBeUndefined();
+      expect(entry.changes).toEqual({ name: { from: undefined, to: 'Platform' } });
     });
   });
 });
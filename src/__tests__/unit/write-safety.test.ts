@@ -1,10 +1,26 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import {
   OperationRisk,
   OPERATION_POLICIES,
   requiresConfirmation,
   getWarningMessage,
+  isWriteOperation,
+  OperationRateGuard,
+  getOperationPolicy,
+  getMatchingPolicyRules,
+  loadOperationPolicies,
+  getCoverageMinimum,
 } from '../../write-safety.js';
+import { getActiveCompany } from '../../config.js';
+import { OperationRateLimitError } from '../../errors.js';
+
+vi.mock('../../config.js', () => ({
+  debug: vi.fn(),
+  getActiveCompany: vi.fn(),
+}));
 
 describe('Write Safety Module', () => {
   describe('OperationRisk enum', () => {
@@ -24,6 +40,11 @@ describe('Write Safety Module', () => {
       expect(OPERATION_POLICIES.terminate_employee.requiresPreview).toBe(true);
     });
 
+    it('should require confirmation to revert operations', () => {
+      expect(OPERATION_POLICIES.revert_operation.risk).toBe(OperationRisk.HIGH);
+      expect(OPERATION_POLICIES.revert_operation.requiresConfirmation).toBe(true);
+    });
+
     it('should have policies for delete operations', () => {
       expect(OPERATION_POLICIES.delete_team).toBeDefined();
       expect(OPERATION_POLICIES.delete_team.risk).toBe(OperationRisk.HIGH);
@@ -151,7 +172,7 @@ describe('Write Safety Module', () => {
       for (const key of Object.keys(OPERATION_POLICIES)) {
         // Operation names should be verb_entity format
         expect(key).toMatch(
-          /^(create|update|delete|cancel|approve|reject|assign|archive|enroll|advance|terminate|add|remove|upload)_[a-z_]+$/
+          /^(create|update|delete|cancel|approve|reject|assign|archive|enroll|advance|terminate|add|remove|upload|revert|onboard|offboard|hire|move|merge)_[a-z_]+$/
         );
       }
     });
@@ -198,7 +219,7 @@ describe('Write Safety Module', () => {
       expect(message).toBeTruthy();
       expect(message).toContain('**Warning:**');
       expect(message).toContain('high-risk');
-      expect(message).toContain('confirm: true');
+      expect(message).toContain('confirmation_token');
     });
 
     it('should return warning message for critical-risk operations', () => {
@@ -232,7 +253,7 @@ describe('Write Safety Module', () => {
       const message = getWarningMessage('delete_team');
 
       expect(message).toBeTruthy();
-      expect(message).toContain('confirm: true');
+      expect(message).toContain('confirmation_token');
     });
 
     it('should return null for unknown operations (default policy)', () => {
@@ -240,4 +261,231 @@ describe('Write Safety Module', () => {
       expect(message).toBeNull();
     });
   });
+
+  describe('isWriteOperation', () => {
+    it('should classify write tools', () => {
+      expect(isWriteOperation('create_employee')).toBe(true);
+      expect(isWriteOperation('approve_leave')).toBe(true);
+      expect(isWriteOperation('unenroll_from_training')).toBe(true);
+      expect(isWriteOperation('revert_operation')).toBe(true);
+    });
+
+    it('should not classify read tools as writes', () => {
+      expect(isWriteOperation('list_employees')).toBe(false);
+      expect(isWriteOperation('get_employee')).toBe(false);
+      expect(isWriteOperation('search_employee_documents')).toBe(false);
+      expect(isWriteOperation('verify_audit_log')).toBe(false);
+      expect(isWriteOperation('select_company')).toBe(false);
+    });
+  });
+
+  describe('OperationRateGuard', () => {
+    let guard: OperationRateGuard;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+      guard = new OperationRateGuard();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should refuse a repeated operation within its cooldown', () => {
+      guard.check('terminate_employee');
+      guard.record('terminate_employee');
+
+      vi.advanceTimersByTime(10_000);
+      expect(() => guard.check('terminate_employee')).toThrow(
+        'The next call is allowed at 2026-01-01T10:00:30.000Z (in 20s)'
+      );
+
+      vi.advanceTimersByTime(20_000);
+      expect(() => guard.check('terminate_employee')).not.toThrow();
+    });
+
+    it('should keep the cooldown per record', () => {
+      guard.check('terminate_employee', { id: 4 });
+      guard.record('terminate_employee', { id: 4 });
+
+      expect(() => guard.check('terminate_employee', { id: 4 })).toThrow(
+        'it already ran on this record less than 30s ago'
+      );
+      expect(() => guard.check('terminate_employee', { id: 5 })).not.toThrow();
+      expect(() => guard.check('offboard_employee', { employee_id: 4 })).not.toThrow();
+
+      guard.record('terminate_employee', { id: 5 });
+      guard.record('terminate_employee', { id: 6 });
+      // The batch limit still counts every employee
+      expect(() => guard.check('terminate_employee', { id: 7 })).toThrow(
+        'it already ran 3 times in the last 60s (limit 3)'
+      );
+    });
+
+    it('should refuse more than maxBatchSize executions per minute', () => {
+      for (let i = 0; i < 5; i++) {
+        guard.check('delete_team');
+        guard.record('delete_team');
+        vi.advanceTimersByTime(1_000);
+      }
+
+      expect(() => guard.check('delete_team')).toThrow(
+        'it already ran 5 times in the last 60s (limit 5)'
+      );
+      expect(() => guard.check('delete_location')).not.toThrow();
+
+      vi.advanceTimersByTime(55_000);
+      expect(() => guard.check('delete_team')).not.toThrow();
+    });
+
+    it('should count each item of a bulk operation', () => {
+      const ids = (count: number) => ({
+        application_ids: Array.from({ length: count }, (_, i) => i + 1),
+      });
+
+      expect(() => guard.check('reject_applications', ids(51))).toThrow(OperationRateLimitError);
+      expect(() => guard.check('reject_applications', ids(51))).toThrow(
+        '51 items exceed the limit of 50 per 60s. Split them into smaller calls.'
+      );
+
+      guard.check('reject_applications', ids(30));
+      guard.record('reject_applications', ids(30));
+      vi.advanceTimersByTime(10_000);
+      guard.record('reject_applications', ids(10));
+
+      expect(() => guard.check('reject_applications', ids(11))).toThrow(
+        'it already ran 40 times in the last 60s (limit 50) and this call has 11 items. The next call is allowed at 2026-01-01T10:01:00.000Z'
+      );
+      expect(() => guard.check('reject_applications', ids(10))).not.toThrow();
+    });
+
+    it('should not limit operations without cooldown or batch size', () => {
+      for (let i = 0; i < 20; i++) {
+        guard.record('update_employee');
+      }
+      expect(() => guard.check('update_employee')).not.toThrow();
+    });
+
+    it('should count executions separately per company', () => {
+      vi.mocked(getActiveCompany).mockReturnValue('acme-es');
+      guard.record('terminate_employee');
+      expect(() => guard.check('terminate_employee')).toThrow();
+
+      vi.mocked(getActiveCompany).mockReturnValue('acme-fr');
+      expect(() => guard.check('terminate_employee')).not.toThrow();
+    });
+  });
+
+  describe('policy file', () => {
+    let dir: string;
+    let fileCount = 0;
+
+    /**
+     * Write a policy file and point FACTORIAL_POLICY_PATH at it
+     */
+    function usePolicyFile(contents: string, extension = 'yaml'): void {
+      const path = join(dir, `policy-${++fileCount}.${extension}`);
+      writeFileSync(path, contents);
+      vi.stubEnv('FACTORIAL_POLICY_PATH', path);
+    }
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'policy-'));
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should override built-in policies from YAML', () => {
+      usePolicyFile(
+        [
+          'operations:',
+          '  delete_team:',
+          '    risk: critical',
+          '    maxBatchSize: 2',
+          '  create_team:',
+          '    requiresConfirmation: true',
+          '    impactDescription: Teams are managed by HR',
+        ].join('\n')
+      );
+
+      expect(getOperationPolicy('delete_team')).toMatchObject({
+        risk: OperationRisk.CRITICAL,
+        requiresConfirmation: true,
+        maxBatchSize: 2,
+      });
+      expect(requiresConfirmation('create_team')).toBe(true);
+      expect(getOperationPolicy('create_team').impactDescription).toBe('Teams are managed by HR');
+      expect(getOperationPolicy('update_team').risk).toBe(OperationRisk.LOW);
+    });
+
+    it('should apply conditional rules to matching calls', () => {
+      usePolicyFile(
+        JSON.stringify({
+          rules: [
+            {
+              operation: 'update_employee',
+              when: { changes: ['manager_id'] },
+              requiresConfirmation: true,
+              risk: 'high',
+              description: 'Manager changes move reporting lines.',
+            },
+          ],
+        }),
+        'json'
+      );
+
+      expect(requiresConfirmation('update_employee', { id: 1, role: 'Lead' })).toBe(false);
+      expect(requiresConfirmation('update_employee', { id: 1, manager_id: 2 })).toBe(true);
+      expect(getOperationPolicy('update_employee', { id: 1, manager_id: 2 }).risk).toBe(
+        OperationRisk.HIGH
+      );
+      expect(
+        getMatchingPolicyRules('update_employee', { manager_id: 2 }).map(rule => rule.description)
+      ).toEqual(['Manager changes move reporting lines.']);
+      // Without a call context, only the base policy applies
+      expect(requiresConfirmation('update_employee')).toBe(false);
+    });
+
+    it('should compare numeric fields', () => {
+      usePolicyFile(
+        [
+          'rules:',
+          '  - operation: approve_leave',
+          '    when: { field: days, gt: 10 }',
+          '    requiresConfirmation: true',
+        ].join('\n')
+      );
+
+      expect(requiresConfirmation('approve_leave', { id: 1, days: 11 })).toBe(true);
+      expect(requiresConfirmation('approve_leave', { id: 1, days: 10 })).toBe(false);
+      expect(requiresConfirmation('approve_leave', { id: 1 })).toBe(false);
+    });
+
+    it('should read coverage minimums per team', () => {
+      expect(getCoverageMinimum(4)).toBe(1);
+
+      usePolicyFile(['coverage:', '  min_available: 2', '  teams:', '    "4": 3'].join('\n'));
+
+      expect(getCoverageMinimum(4)).toBe(3);
+      expect(getCoverageMinimum(5)).toBe(2);
+    });
+
+    it('should reject invalid files', () => {
+      usePolicyFile('operations:\n  delete_team:\n    risk: extreme\n');
+      expect(() => loadOperationPolicies()).toThrow('Invalid policy file');
+
+      usePolicyFile('rules:\n  - operation: approve_leave\n    when: { field: days }\n');
+      expect(() => loadOperationPolicies()).toThrow('"field" needs an operator');
+
+      usePolicyFile('operations:\n  list_employees:\n    risk: low\n');
+      expect(() => loadOperationPolicies()).toThrow('"list_employees" is not a write operation');
+
+      usePolicyFile('operations: [', 'yml');
+      expect(() => loadOperationPolicies()).toThrow('Cannot read operation policies');
+    });
+  });
 });
@@ -0,0 +1,333 @@
+/**
+ * iCalendar export of absences for MCP FactorialHR
+ *
+ * Renders leaves as an iCalendar (RFC 5545) feed that calendar clients can
+ * import or subscribe to: one all-day VEVENT per leave, named after the
+ * employee and the leave type, with the CSS3 color name closest to the leave
+ * type's color (RFC 7986 COLOR only takes names). Approved leaves are
+ * confirmed events and pending leaves tentative ones. The employee's own
+ * description of a leave can be personal (e.g. a medical reason), so it is
+ * only added on request.
+ * All-day events cannot cover half a day, so half-day leaves are marked in
+ * the event summary. Events are transparent, so absences of others do not
+ * show the subscriber as busy.
+ */
+
+import { getLocation, getTeam, listEmployees, listLeaves, listLeaveTypes } from './api.js';
+import { fetchAllPages } from './pagination.js';
+import type { Employee, Leave, LeaveType } from './schemas.js';
+import { addDays } from './work-calendar.js';
+
+/**
+ * Days before today exported when no start date is given
+ */
+export const DEFAULT_PAST_DAYS = 30;
+
+/**
+ * Days after today exported when no end date is given
+ */
+export const DEFAULT_FUTURE_DAYS = 365;
+
+/**
+ * CSS3 color names an event color is mapped to, with their RGB values
+ */
+const CSS_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  gray: [128, 128, 128],
+  silver: [192, 192, 192],
+  lightgray: [211, 211, 211],
+  slategray: [112, 128, 144],
+  maroon: [128, 0, 0],
+  darkred: [139, 0, 0],
+  red: [255, 0, 0],
+  crimson: [220, 20, 60],
+  tomato: [255, 99, 71],
+  coral: [255, 127, 80],
+  salmon: [250, 128, 114],
+  orange: [255, 165, 0],
+  darkorange: [255, 140, 0],
+  gold: [255, 215, 0],
+  goldenrod: [218, 165, 32],
+  yellow: [255, 255, 0],
+  khaki: [240, 230, 140],
+  beige: [245, 245, 220],
+  tan: [210, 180, 140],
+  chocolate: [210, 105, 30],
+  sienna: [160, 82, 45],
+  brown: [165, 42, 42],
+  olive: [128, 128, 0],
+  yellowgreen: [154, 205, 50],
+  lime: [0, 255, 0],
+  limegreen: [50, 205, 50],
+  lightgreen: [144, 238, 144],
+  mediumseagreen: [60, 179, 113],
+  seagreen: [46, 139, 87],
+  forestgreen: [34, 139, 34],
+  green: [0, 128, 0],
+  darkgreen: [0, 100, 0],
+  teal: [0, 128, 128],
+  turquoise: [64, 224, 208],
+  aqua: [0, 255, 255],
+  cadetblue: [95, 158, 160],
+  lightblue: [173, 216, 230],
+  skyblue: [135, 206, 235],
+  dodgerblue: [30, 144, 255],
+  steelblue: [70, 130, 180],
+  royalblue: [65, 105, 225],
+  blue: [0, 0, 255],
+  darkblue: [0, 0, 139],
+  navy: [0, 0, 128],
+  slateblue: [106, 90, 205],
+  mediumpurple: [147, 112, 219],
+  indigo: [75, 0, 130],
+  purple: [128, 0, 128],
+  lavender: [230, 230, 250],
+  plum: [221, 160, 221],
+  violet: [238, 130, 238],
+  orchid: [218, 112, 214],
+  fuchsia: [255, 0, 255],
+  deeppink: [255, 20, 147],
+  hotpink: [255, 105, 180],
+  pink: [255, 192, 203],
+};
+
+/**
+ * Filters of an absence calendar
+ */
+export interface AbsenceCalendarOptions {
+  team_id?: number;
+  location_id?: number;
+  /** First day (YYYY-MM-DD); leaves ending before it are left out */
+  from?: string;
+  /** Last day (YYYY-MM-DD); leaves starting after it are left out */
+  to?: string;
+  /** Include pending leaves as tentative events (default false) */
+  include_pending?: boolean;
+  /** Add the employee's description of each leave to its event (default false) */
+  include_descriptions?: boolean;
+  /** Date the default range is computed from (defaults to today) */
+  today?: string;
+}
+
+/**
+ * Rendered absence calendar
+ */
+export interface AbsenceCalendar {
+  name: string;
+  from: string;
+  to: string;
+  event_count: number;
+  ics: string;
+}
+
+/**
+ * Escape an iCalendar text value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, as RFC 5545 requires
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as an iCalendar DATE value
+ */
+function icsDate(date: string): string {
+  return date.slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Format a timestamp as an iCalendar UTC DATE-TIME value
+ */
+function icsTimestamp(timestamp: string): string {
+  return new Date(timestamp)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * CSS3 color name closest to a hex color (`#4caf50` or `#4c5`)
+ *
+ * @returns The color name, or undefined if the value is neither a hex color
+ * nor a color name this calendar uses
+ */
+export function cssColorName(color: string): string | undefined {
+  const value = color.trim().toLowerCase();
+  if (value in CSS_COLORS) {
+    return value;
+  }
+  const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/.exec(value)?.[1];
+  if (!hex) {
+    return undefined;
+  }
+  const digits = hex.length === 3 ? [...hex].map(digit => digit + digit).join('') : hex;
+  const rgb = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16));
+
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+  for (const [name, reference] of Object.entries(CSS_COLORS)) {
+    const distance = reference.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+    if (distance < closestDistance) {
+      closest = name;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Label of a half-day leave for the event summary
+ */
+function halfDayLabel(leave: Leave): string {
+  if (leave.half_day !== 'start' && leave.half_day !== 'finish') {
+    return '';
+  }
+  if (leave.start_on === leave.finish_on) {
+    return ' (half day)';
+  }
+  return leave.half_day === 'start'
+    ? ' (half day on the first day)'
+    : ' (half day on the last day)';
+}
+
+/**
+ * Render one leave as a VEVENT
+ */
+function renderEvent(
+  leave: Leave,
+  employee: Employee | undefined,
+  leaveType: LeaveType | undefined,
+  stamp: string,
+  includeDescription: boolean
+): string[] {
+  const person = employee?.full_name ?? `Employee ${leave.employee_id}`;
+  const typeName = leaveType?.name ?? `Leave type ${leave.leave_type_id}`;
+  const pending = leave.status === 'pending';
+  const description = [
+    `${typeName} of ${person}, ${leave.status}.`,
+    ...(includeDescription && leave.description ? [leave.description] : []),
+  ].join('\n');
+  const color = leaveType?.color ? cssColorName(leaveType.color) : undefined;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:factorial-leave-${leave.id}`,
+    `DTSTAMP:${stamp}`,
+    ...(leave.updated_at ? [`LAST-MODIFIED:${icsTimestamp(leave.updated_at)}`] : []),
+    `DTSTART;VALUE=DATE:${icsDate(leave.start_on)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDays(leave.finish_on.slice(0, 10), 1))}`,
+    `SUMMARY:${escapeIcsText(`${person} - ${typeName}${halfDayLabel(leave)}${pending ? ' (pending)' : ''}`)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `CATEGORIES:${escapeIcsText(typeName)}`,
+    ...(color ? [`COLOR:${color}`] : []),
+    `STATUS:${pending ? 'TENTATIVE' : 'CONFIRMED'}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Build the absence calendar of a team, a location or the whole company
+ *
+ * Covers DEFAULT_PAST_DAYS before today to DEFAULT_FUTURE_DAYS after today
+ * unless dates are given. Declined and deleted leaves are left out.
+ *
+ * @throws Error if a date is invalid or the range ends before it starts
+ */
+export async function buildAbsenceCalendar(
+  options: AbsenceCalendarOptions = {}
+): Promise<AbsenceCalendar> {
+  const today = options.today ?? new Date().toISOString().slice(0, 10);
+  const from = options.from ?? addDays(today, -DEFAULT_PAST_DAYS);
+  const to = options.to ?? addDays(today, DEFAULT_FUTURE_DAYS);
+  for (const date of [from, to]) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      throw new Error(`Invalid date "${date}". Use YYYY-MM-DD.`);
+    }
+  }
+  if (to < from) {
+    throw new Error(`The range ends (${to}) before it starts (${from}).`);
+  }
+
+  const [team, location, employees, leaves, leaveTypes] = await Promise.all([
+    options.team_id !== undefined ? getTeam(options.team_id) : undefined,
+    options.location_id !== undefined ? getLocation(options.location_id) : undefined,
+    fetchAllPages(params =>
+      listEmployees({ ...params, team_id: options.team_id, location_id: options.location_id })
+    ),
+    // Leaves rarely run for more than a year
+    fetchAllPages(params =>
+      listLeaves({ ...params, start_on_gte: addDays(from, -366), start_on_lte: to })
+    ),
+    listLeaveTypes(),
+  ]);
+
+  const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+  const typesById = new Map(leaveTypes.map(type => [type.id, type]));
+  const selected = leaves
+    .filter(
+      leave =>
+        employeesById.has(leave.employee_id) &&
+        !leave.deleted_at &&
+        (leave.status === 'approved' || (options.include_pending && leave.status === 'pending')) &&
+        leave.start_on.slice(0, 10) <= to &&
+        leave.finish_on.slice(0, 10) >= from
+    )
+    .sort((a, b) => a.start_on.localeCompare(b.start_on) || a.id - b.id);
+
+  const name = `Absences - ${[team?.name, location?.name].filter(Boolean).join(', ') || 'All employees'}`;
+  const stamp = icsTimestamp(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//mcp-factorial//Absence Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `NAME:${escapeIcsText(name)}`,
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+    ...selected.flatMap(leave =>
+      renderEvent(
+        leave,
+        employeesById.get(leave.employee_id),
+        typesById.get(leave.leave_type_id),
+        stamp,
+        options.include_descriptions ?? false
+      )
+    ),
+    'END:VCALENDAR',
+  ];
+
+  return {
+    name,
+    from,
+    to,
+    event_count: selected.length,
+    ics: `${lines.map(foldIcsLine).join('\r\n')}\r\n`,
+  };
+}
@@ -4,7 +4,16 @@
  * Provides access to FactorialHR API endpoints with caching, pagination, and retry logic.
  */
 
-import { fetchList, fetchOne, postOne, patchOne, deleteOne, postAction } from './http-client.js';
+import {
+  fetchList,
+  fetchOne,
+  postOne,
+  patchOne,
+  deleteOne,
+  postAction,
+  postMultipart,
+  type UploadFile,
+} from './http-client.js';
 import { cache, cached, CACHE_TTL, CacheManager } from './cache.js';
 import { debug } from './config.js';
 import {
@@ -22,6 +31,7 @@ import {
   type Leave,
   type LeaveType,
   type Allowance,
+  type CompanyHoliday,
   type Shift,
   type Folder,
   type Document,
@@ -73,6 +83,9 @@ import {
   type UpdateCandidateInput,
   type CreateApplicationInput,
   type UpdateApplicationInput,
+  type RejectApplicationInput,
+  type UploadDocumentInput,
+  type UpdateDocumentInput,
 } from './schemas.js';
 import { AuditAction, auditedOperation } from './audit.js';
 import { validateId } from './utils.js';
@@ -109,8 +122,11 @@ export async function listEmployees(
     );
 
     let filtered = allEmployees;
-    // Note: team_id filtering requires fetching teams separately (not on Employee object)
-    // TODO: Implement team filtering via teams endpoint if needed
+    // Team membership is stored on the team (employee_ids), not on the employee
+    if (options.team_id) {
+      const members = new Set((await getTeam(options.team_id)).employee_ids);
+      filtered = filtered.filter(e => members.has(e.id));
+    }
     if (options.location_id) {
       filtered = filtered.filter(e => e.location_id === options.location_id);
     }
@@ -550,6 +566,17 @@ export async function listAllowances(
   return paginateResponse(allowances, params.page, params.limit);
 }
 
+/**
+ * List company holidays of all locations
+ */
+export async function listCompanyHolidays(): Promise<CompanyHoliday[]> {
+  return cached(
+    'company-holidays:all',
+    () => fetchList<CompanyHoliday>(ENDPOINTS.companyHolidays),
+    CACHE_TTL.default
+  );
+}
+
 // ============================================================================
 // Attendance / Shifts endpoints
 // ============================================================================
@@ -584,7 +611,7 @@ export async function getShift(id: number): Promise<Shift> {
 }
 
 // ============================================================================
-// Document endpoints (Read-only)
+// Document endpoints
 // ============================================================================
 
 /**
@@ -748,6 +775,40 @@ export function invalidateCache(resourceType: string): void {
   cache.invalidatePrefix(resourceType);
 }
 
+// ============================================================================
+// WRITE OPERATIONS - Snapshots
+// ============================================================================
+
+/**
+ * Fetch the current state of an entity before it is updated or deleted
+ *
+ * The snapshot is stored on the audit entry so the write can be reverted.
+ * Reads bypass the cache, and failures are tolerated: the write still proceeds.
+ */
+async function fetchSnapshot<T extends object>(endpoint: string): Promise<T | undefined> {
+  try {
+    return await fetchOne<T>(endpoint);
+  } catch (error) {
+    debug(`Could not capture snapshot of ${endpoint}`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Build the from/to changes of an update from the entity snapshot
+ */
+function diffChanges(
+  before: object | undefined,
+  input: object
+): Record<string, { from?: unknown; to: unknown }> {
+  const previous = before as Record<string, unknown> | undefined;
+  return Object.fromEntries(
+    Object.entries(input as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, { from: previous?.[key], to: value }])
+  );
+}
+
 // ============================================================================
 // WRITE OPERATIONS - Employee endpoints
 // ============================================================================
@@ -775,12 +836,22 @@ export async function createEmployee(input: CreateEmployeeInput): Promise<Employ
 export async function updateEmployee(id: number, input: UpdateEmployeeInput): Promise<Employee> {
   validateId(id, 'employee');
 
-  return auditedOperation(AuditAction.UPDATE, 'employee', id, async () => {
-    const employee = await patchOne<Employee>(endpointWithId(ENDPOINTS.employees, id), input);
-    cache.invalidate(`employee:${id}`);
-    cache.invalidatePrefix('employees');
-    return employee;
-  });
+  const before = await fetchSnapshot<Employee>(endpointWithId(ENDPOINTS.employees, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'employee',
+    id,
+    async () => {
+      const employee = await patchOne<Employee>(endpointWithId(ENDPOINTS.employees, id), input);
+      cache.invalidate(`employee:${id}`);
+      cache.invalidatePrefix('employees');
+      return employee;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -830,12 +901,22 @@ export async function createTeam(input: CreateTeamInput): Promise<Team> {
 export async function updateTeam(id: number, input: UpdateTeamInput): Promise<Team> {
   validateId(id, 'team');
 
-  return auditedOperation(AuditAction.UPDATE, 'team', id, async () => {
-    const team = await patchOne<Team>(endpointWithId(ENDPOINTS.teams, id), input);
-    cache.invalidate(`team:${id}`);
-    cache.invalidatePrefix('teams');
-    return team;
-  });
+  const before = await fetchSnapshot<Team>(endpointWithId(ENDPOINTS.teams, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'team',
+    id,
+    async () => {
+      const team = await patchOne<Team>(endpointWithId(ENDPOINTS.teams, id), input);
+      cache.invalidate(`team:${id}`);
+      cache.invalidatePrefix('teams');
+      return team;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -844,10 +925,123 @@ export async function updateTeam(id: number, input: UpdateTeamInput): Promise<Te
 export async function deleteTeam(id: number): Promise<void> {
   validateId(id, 'team');
 
-  return auditedOperation(AuditAction.DELETE, 'team', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.teams, id));
-    cache.invalidate(`team:${id}`);
-    cache.invalidatePrefix('teams');
+  const before = await fetchSnapshot<Team>(endpointWithId(ENDPOINTS.teams, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'team',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.teams, id));
+      cache.invalidate(`team:${id}`);
+      cache.invalidatePrefix('teams');
+    },
+    undefined,
+    undefined,
+    before
+  );
+}
+
+/**
+ * Write new member and lead lists of a team
+ *
+ * Only the lists that change are sent. The previous team is stored on the
+ * audit entry so the change can be reverted.
+ */
+async function updateTeamMembership(
+  action: AuditAction,
+  before: Team,
+  membership: Pick<Team, 'employee_ids' | 'lead_ids'>
+): Promise<Team> {
+  const input: UpdateTeamInput = {};
+  if (membership.employee_ids.join() !== before.employee_ids.join()) {
+    input.employee_ids = membership.employee_ids;
+  }
+  if (membership.lead_ids.join() !== before.lead_ids.join()) {
+    input.lead_ids = membership.lead_ids;
+  }
+  if (Object.keys(input).length === 0) {
+    return before;
+  }
+
+  return auditedOperation(
+    action,
+    'team',
+    before.id,
+    async () => {
+      const team = await patchOne<Team>(endpointWithId(ENDPOINTS.teams, before.id), input);
+      cache.invalidate(`team:${before.id}`);
+      cache.invalidatePrefix('teams');
+      cache.invalidatePrefix('employees');
+      return team;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
+}
+
+/**
+ * Add an employee to a team, optionally as a team lead
+ */
+export async function addTeamMember(
+  teamId: number,
+  employeeId: number,
+  lead = false
+): Promise<Team> {
+  validateId(teamId, 'team');
+  validateId(employeeId, 'employee');
+
+  const team = await fetchOne<Team>(endpointWithId(ENDPOINTS.teams, teamId));
+  return updateTeamMembership(AuditAction.ASSIGN, team, {
+    employee_ids: team.employee_ids.includes(employeeId)
+      ? team.employee_ids
+      : [...team.employee_ids, employeeId],
+    lead_ids:
+      lead && !team.lead_ids.includes(employeeId) ? [...team.lead_ids, employeeId] : team.lead_ids,
+  });
+}
+
+/**
+ * Remove an employee from a team (and from its leads)
+ */
+export async function removeTeamMember(teamId: number, employeeId: number): Promise<Team> {
+  validateId(teamId, 'team');
+  validateId(employeeId, 'employee');
+
+  const team = await fetchOne<Team>(endpointWithId(ENDPOINTS.teams, teamId));
+  if (!team.employee_ids.includes(employeeId) && !team.lead_ids.includes(employeeId)) {
+    throw new Error(`Employee ${employeeId} is not a member of team ${teamId}.`);
+  }
+  return updateTeamMembership(AuditAction.UNASSIGN, team, {
+    employee_ids: team.employee_ids.filter(id => id !== employeeId),
+    lead_ids: team.lead_ids.filter(id => id !== employeeId),
+  });
+}
+
+/**
+ * Make an employee a lead of a team, adding them as a member if needed
+ *
+ * @param transfer - Replace the current leads instead of adding another one
+ */
+export async function assignTeamLead(
+  teamId: number,
+  employeeId: number,
+  transfer = false
+): Promise<Team> {
+  validateId(teamId, 'team');
+  validateId(employeeId, 'employee');
+
+  const team = await fetchOne<Team>(endpointWithId(ENDPOINTS.teams, teamId));
+  return updateTeamMembership(AuditAction.ASSIGN, team, {
+    employee_ids: team.employee_ids.includes(employeeId)
+      ? team.employee_ids
+      : [...team.employee_ids, employeeId],
+    lead_ids: transfer
+      ? [employeeId]
+      : team.lead_ids.includes(employeeId)
+        ? team.lead_ids
+        : [...team.lead_ids, employeeId],
   });
 }
 
@@ -872,12 +1066,22 @@ export async function createLocation(input: CreateLocationInput): Promise<Locati
 export async function updateLocation(id: number, input: UpdateLocationInput): Promise<Location> {
   validateId(id, 'location');
 
-  return auditedOperation(AuditAction.UPDATE, 'location', id, async () => {
-    const location = await patchOne<Location>(endpointWithId(ENDPOINTS.locations, id), input);
-    cache.invalidate(`location:${id}`);
-    cache.invalidatePrefix('locations');
-    return location;
-  });
+  const before = await fetchSnapshot<Location>(endpointWithId(ENDPOINTS.locations, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'location',
+    id,
+    async () => {
+      const location = await patchOne<Location>(endpointWithId(ENDPOINTS.locations, id), input);
+      cache.invalidate(`location:${id}`);
+      cache.invalidatePrefix('locations');
+      return location;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -886,11 +1090,21 @@ export async function updateLocation(id: number, input: UpdateLocationInput): Pr
 export async function deleteLocation(id: number): Promise<void> {
   validateId(id, 'location');
 
-  return auditedOperation(AuditAction.DELETE, 'location', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.locations, id));
-    cache.invalidate(`location:${id}`);
-    cache.invalidatePrefix('locations');
-  });
+  const before = await fetchSnapshot<Location>(endpointWithId(ENDPOINTS.locations, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'location',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.locations, id));
+      cache.invalidate(`location:${id}`);
+      cache.invalidatePrefix('locations');
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 // ============================================================================
@@ -913,10 +1127,20 @@ export async function createLeave(input: CreateLeaveInput): Promise<Leave> {
 export async function updateLeave(id: number, input: UpdateLeaveInput): Promise<Leave> {
   validateId(id, 'leave');
 
-  return auditedOperation(AuditAction.UPDATE, 'leave', id, async () => {
-    const leave = await patchOne<Leave>(endpointWithId(ENDPOINTS.leaves, id), input);
-    return leave;
-  });
+  const before = await fetchSnapshot<Leave>(endpointWithId(ENDPOINTS.leaves, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'leave',
+    id,
+    async () => {
+      const leave = await patchOne<Leave>(endpointWithId(ENDPOINTS.leaves, id), input);
+      return leave;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -925,9 +1149,19 @@ export async function updateLeave(id: number, input: UpdateLeaveInput): Promise<
 export async function cancelLeave(id: number): Promise<void> {
   validateId(id, 'leave');
 
-  return auditedOperation(AuditAction.DELETE, 'leave', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.leaves, id));
-  });
+  const before = await fetchSnapshot<Leave>(endpointWithId(ENDPOINTS.leaves, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'leave',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.leaves, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -980,10 +1214,20 @@ export async function createShift(input: CreateShiftInput): Promise<Shift> {
 export async function updateShift(id: number, input: UpdateShiftInput): Promise<Shift> {
   validateId(id, 'shift');
 
-  return auditedOperation(AuditAction.UPDATE, 'shift', id, async () => {
-    const shift = await patchOne<Shift>(endpointWithId(ENDPOINTS.shifts, id), input);
-    return shift;
-  });
+  const before = await fetchSnapshot<Shift>(endpointWithId(ENDPOINTS.shifts, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'shift',
+    id,
+    async () => {
+      const shift = await patchOne<Shift>(endpointWithId(ENDPOINTS.shifts, id), input);
+      return shift;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -992,9 +1236,93 @@ export async function updateShift(id: number, input: UpdateShiftInput): Promise<
 export async function deleteShift(id: number): Promise<void> {
   validateId(id, 'shift');
 
-  return auditedOperation(AuditAction.DELETE, 'shift', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.shifts, id));
-  });
+  const before = await fetchSnapshot<Shift>(endpointWithId(ENDPOINTS.shifts, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'shift',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.shifts, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
+}
+
+// ============================================================================
+// WRITE OPERATIONS - Document endpoints
+// ============================================================================
+
+/**
+ * Upload a document into a folder
+ *
+ * @param file - The file, as prepared by loadDocumentFile
+ */
+export async function uploadDocument(
+  input: UploadDocumentInput,
+  file: UploadFile
+): Promise<Document> {
+  validateId(input.folder_id, 'folder');
+
+  return auditedOperation(
+    AuditAction.CREATE,
+    'document',
+    undefined,
+    async () => {
+      const document = await postMultipart<Document>(ENDPOINTS.documents, input, file);
+      return document;
+    },
+    {
+      name: { to: file.name },
+      mime_type: { to: file.mimeType },
+      size_bytes: { to: file.content.length },
+    }
+  );
+}
+
+/**
+ * Update a document (rename, move to another folder, change visibility)
+ */
+export async function updateDocument(id: number, input: UpdateDocumentInput): Promise<Document> {
+  validateId(id, 'document');
+
+  const before = await fetchSnapshot<Document>(endpointWithId(ENDPOINTS.documents, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'document',
+    id,
+    async () => {
+      const document = await patchOne<Document>(endpointWithId(ENDPOINTS.documents, id), input);
+      return document;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
+}
+
+/**
+ * Delete a document
+ */
+export async function deleteDocument(id: number): Promise<void> {
+  validateId(id, 'document');
+
+  const before = await fetchSnapshot<Document>(endpointWithId(ENDPOINTS.documents, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'document',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.documents, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 // ============================================================================
@@ -1122,12 +1450,22 @@ export async function createProject(input: CreateProjectInput): Promise<Project>
 export async function updateProject(id: number, input: UpdateProjectInput): Promise<Project> {
   validateId(id, 'project');
 
-  return auditedOperation(AuditAction.UPDATE, 'project', id, async () => {
-    const project = await patchOne<Project>(endpointWithId(ENDPOINTS.projects, id), input);
-    cache.invalidate(`project:${id}`);
-    cache.invalidatePrefix('projects');
-    return project;
-  });
+  const before = await fetchSnapshot<Project>(endpointWithId(ENDPOINTS.projects, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'project',
+    id,
+    async () => {
+      const project = await patchOne<Project>(endpointWithId(ENDPOINTS.projects, id), input);
+      cache.invalidate(`project:${id}`);
+      cache.invalidatePrefix('projects');
+      return project;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1136,11 +1474,21 @@ export async function updateProject(id: number, input: UpdateProjectInput): Prom
 export async function deleteProject(id: number): Promise<void> {
   validateId(id, 'project');
 
-  return auditedOperation(AuditAction.DELETE, 'project', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.projects, id));
-    cache.invalidate(`project:${id}`);
-    cache.invalidatePrefix('projects');
-  });
+  const before = await fetchSnapshot<Project>(endpointWithId(ENDPOINTS.projects, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'project',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.projects, id));
+      cache.invalidate(`project:${id}`);
+      cache.invalidatePrefix('projects');
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1161,9 +1509,19 @@ export async function updateProjectTask(
 ): Promise<ProjectTask> {
   validateId(id, 'task');
 
-  return auditedOperation(AuditAction.UPDATE, 'project_task', id, async () => {
-    return patchOne<ProjectTask>(endpointWithId(ENDPOINTS.projectTasks, id), input);
-  });
+  const before = await fetchSnapshot<ProjectTask>(endpointWithId(ENDPOINTS.projectTasks, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'project_task',
+    id,
+    async () => {
+      return patchOne<ProjectTask>(endpointWithId(ENDPOINTS.projectTasks, id), input);
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1172,9 +1530,19 @@ export async function updateProjectTask(
 export async function deleteProjectTask(id: number): Promise<void> {
   validateId(id, 'task');
 
-  return auditedOperation(AuditAction.DELETE, 'project_task', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.projectTasks, id));
-  });
+  const before = await fetchSnapshot<ProjectTask>(endpointWithId(ENDPOINTS.projectTasks, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'project_task',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.projectTasks, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1215,9 +1583,19 @@ export async function updateTimeRecord(
 ): Promise<TimeRecord> {
   validateId(id, 'time record');
 
-  return auditedOperation(AuditAction.UPDATE, 'time_record', id, async () => {
-    return patchOne<TimeRecord>(endpointWithId(ENDPOINTS.timeRecords, id), input);
-  });
+  const before = await fetchSnapshot<TimeRecord>(endpointWithId(ENDPOINTS.timeRecords, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'time_record',
+    id,
+    async () => {
+      return patchOne<TimeRecord>(endpointWithId(ENDPOINTS.timeRecords, id), input);
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1226,9 +1604,19 @@ export async function updateTimeRecord(
 export async function deleteTimeRecord(id: number): Promise<void> {
   validateId(id, 'time record');
 
-  return auditedOperation(AuditAction.DELETE, 'time_record', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.timeRecords, id));
-  });
+  const before = await fetchSnapshot<TimeRecord>(endpointWithId(ENDPOINTS.timeRecords, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'time_record',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.timeRecords, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 // ============================================================================
@@ -1333,12 +1721,22 @@ export async function createTraining(input: CreateTrainingInput): Promise<Traini
 export async function updateTraining(id: number, input: UpdateTrainingInput): Promise<Training> {
   validateId(id, 'training');
 
-  return auditedOperation(AuditAction.UPDATE, 'training', id, async () => {
-    const training = await patchOne<Training>(endpointWithId(ENDPOINTS.trainings, id), input);
-    cache.invalidate(`training:${id}`);
-    cache.invalidatePrefix('trainings');
-    return training;
-  });
+  const before = await fetchSnapshot<Training>(endpointWithId(ENDPOINTS.trainings, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'training',
+    id,
+    async () => {
+      const training = await patchOne<Training>(endpointWithId(ENDPOINTS.trainings, id), input);
+      cache.invalidate(`training:${id}`);
+      cache.invalidatePrefix('trainings');
+      return training;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1347,11 +1745,21 @@ export async function updateTraining(id: number, input: UpdateTrainingInput): Pr
 export async function deleteTraining(id: number): Promise<void> {
   validateId(id, 'training');
 
-  return auditedOperation(AuditAction.DELETE, 'training', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.trainings, id));
-    cache.invalidate(`training:${id}`);
-    cache.invalidatePrefix('trainings');
-  });
+  const before = await fetchSnapshot<Training>(endpointWithId(ENDPOINTS.trainings, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'training',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.trainings, id));
+      cache.invalidate(`training:${id}`);
+      cache.invalidatePrefix('trainings');
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1374,9 +1782,21 @@ export async function updateTrainingSession(
 ): Promise<TrainingSession> {
   validateId(id, 'session');
 
-  return auditedOperation(AuditAction.UPDATE, 'training_session', id, async () => {
-    return patchOne<TrainingSession>(endpointWithId(ENDPOINTS.trainingSessions, id), input);
-  });
+  const before = await fetchSnapshot<TrainingSession>(
+    endpointWithId(ENDPOINTS.trainingSessions, id)
+  );
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'training_session',
+    id,
+    async () => {
+      return patchOne<TrainingSession>(endpointWithId(ENDPOINTS.trainingSessions, id), input);
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1385,9 +1805,21 @@ export async function updateTrainingSession(
 export async function deleteTrainingSession(id: number): Promise<void> {
   validateId(id, 'session');
 
-  return auditedOperation(AuditAction.DELETE, 'training_session', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.trainingSessions, id));
-  });
+  const before = await fetchSnapshot<TrainingSession>(
+    endpointWithId(ENDPOINTS.trainingSessions, id)
+  );
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'training_session',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.trainingSessions, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1458,12 +1890,22 @@ export async function createWorkArea(input: CreateWorkAreaInput): Promise<WorkAr
 export async function updateWorkArea(id: number, input: UpdateWorkAreaInput): Promise<WorkArea> {
   validateId(id, 'work area');
 
-  return auditedOperation(AuditAction.UPDATE, 'work_area', id, async () => {
-    const workArea = await patchOne<WorkArea>(endpointWithId(ENDPOINTS.workAreas, id), input);
-    cache.invalidate(`work_area:${id}`);
-    cache.invalidatePrefix('work_areas');
-    return workArea;
-  });
+  const before = await fetchSnapshot<WorkArea>(endpointWithId(ENDPOINTS.workAreas, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'work_area',
+    id,
+    async () => {
+      const workArea = await patchOne<WorkArea>(endpointWithId(ENDPOINTS.workAreas, id), input);
+      cache.invalidate(`work_area:${id}`);
+      cache.invalidatePrefix('work_areas');
+      return workArea;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1616,12 +2058,22 @@ export async function updateJobPosting(
 ): Promise<JobPosting> {
   validateId(id, 'job posting');
 
-  return auditedOperation(AuditAction.UPDATE, 'job_posting', id, async () => {
-    const posting = await patchOne<JobPosting>(endpointWithId(ENDPOINTS.jobPostings, id), input);
-    cache.invalidate(`job_posting:${id}`);
-    cache.invalidatePrefix('job_postings');
-    return posting;
-  });
+  const before = await fetchSnapshot<JobPosting>(endpointWithId(ENDPOINTS.jobPostings, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'job_posting',
+    id,
+    async () => {
+      const posting = await patchOne<JobPosting>(endpointWithId(ENDPOINTS.jobPostings, id), input);
+      cache.invalidate(`job_posting:${id}`);
+      cache.invalidatePrefix('job_postings');
+      return posting;
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1630,11 +2082,21 @@ export async function updateJobPosting(
 export async function deleteJobPosting(id: number): Promise<void> {
   validateId(id, 'job posting');
 
-  return auditedOperation(AuditAction.DELETE, 'job_posting', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.jobPostings, id));
-    cache.invalidate(`job_posting:${id}`);
-    cache.invalidatePrefix('job_postings');
-  });
+  const before = await fetchSnapshot<JobPosting>(endpointWithId(ENDPOINTS.jobPostings, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'job_posting',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.jobPostings, id));
+      cache.invalidate(`job_posting:${id}`);
+      cache.invalidatePrefix('job_postings');
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1652,9 +2114,19 @@ export async function createCandidate(input: CreateCandidateInput): Promise<Cand
 export async function updateCandidate(id: number, input: UpdateCandidateInput): Promise<Candidate> {
   validateId(id, 'candidate');
 
-  return auditedOperation(AuditAction.UPDATE, 'candidate', id, async () => {
-    return patchOne<Candidate>(endpointWithId(ENDPOINTS.candidates, id), input);
-  });
+  const before = await fetchSnapshot<Candidate>(endpointWithId(ENDPOINTS.candidates, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'candidate',
+    id,
+    async () => {
+      return patchOne<Candidate>(endpointWithId(ENDPOINTS.candidates, id), input);
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1663,9 +2135,19 @@ export async function updateCandidate(id: number, input: UpdateCandidateInput):
 export async function deleteCandidate(id: number): Promise<void> {
   validateId(id, 'candidate');
 
-  return auditedOperation(AuditAction.DELETE, 'candidate', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.candidates, id));
-  });
+  const before = await fetchSnapshot<Candidate>(endpointWithId(ENDPOINTS.candidates, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'candidate',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.candidates, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1686,9 +2168,19 @@ export async function updateApplication(
 ): Promise<Application> {
   validateId(id, 'application');
 
-  return auditedOperation(AuditAction.UPDATE, 'application', id, async () => {
-    return patchOne<Application>(endpointWithId(ENDPOINTS.applications, id), input);
-  });
+  const before = await fetchSnapshot<Application>(endpointWithId(ENDPOINTS.applications, id));
+
+  return auditedOperation(
+    AuditAction.UPDATE,
+    'application',
+    id,
+    async () => {
+      return patchOne<Application>(endpointWithId(ENDPOINTS.applications, id), input);
+    },
+    diffChanges(before, input),
+    undefined,
+    before
+  );
 }
 
 /**
@@ -1697,9 +2189,42 @@ export async function updateApplication(
 export async function deleteApplication(id: number): Promise<void> {
   validateId(id, 'application');
 
-  return auditedOperation(AuditAction.DELETE, 'application', id, async () => {
-    await deleteOne(endpointWithId(ENDPOINTS.applications, id));
-  });
+  const before = await fetchSnapshot<Application>(endpointWithId(ENDPOINTS.applications, id));
+
+  return auditedOperation(
+    AuditAction.DELETE,
+    'application',
+    id,
+    async () => {
+      await deleteOne(endpointWithId(ENDPOINTS.applications, id));
+    },
+    undefined,
+    undefined,
+    before
+  );
+}
+
+/**
+ * Reject an application
+ */
+export async function rejectApplication(
+  id: number,
+  input: RejectApplicationInput
+): Promise<Application> {
+  validateId(id, 'application');
+
+  return auditedOperation(
+    AuditAction.REJECT,
+    'application',
+    id,
+    async () => {
+      return postAction<Application>(
+        endpointWithAction(ENDPOINTS.applications, id, 'reject'),
+        input
+      );
+    },
+    { reason: { to: input.reason } }
+  );
 }
 
 /**
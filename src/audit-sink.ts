@@ -0,0 +1,241 @@
+/**
+ * Persistent audit sinks for MCP FactorialHR
+ *
+ * Writes audit entries to an append-only JSONL file with size-based rotation.
+ * Every line carries the hash of the previous line, forming a tamper-evident chain.
+ */
+
+import { createHash } from 'crypto';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
+import { dirname } from 'path';
+import type { AuditEntry } from './audit.js';
+
+/**
+ * Destination for audit entries
+ */
+export interface AuditSink {
+  /** Persist a single entry */
+  write(entry: AuditEntry): void;
+  /** Read back all persisted entries, oldest first (if the sink supports it) */
+  read?(): AuditEntry[];
+  /** Verify the integrity of persisted entries (if the sink supports it) */
+  verify?(): AuditChainVerification;
+}
+
+/**
+ * Audit entry as stored on disk, with its position in the hash chain
+ */
+export interface ChainedAuditEntry extends AuditEntry {
+  prevHash: string;
+  hash: string;
+}
+
+/**
+ * Result of verifying the hash chain of an audit log
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  entries: number;
+  /** Entry ID where the chain first breaks */
+  brokenAtId?: string;
+  /** Reason the chain is invalid */
+  reason?: string;
+}
+
+/**
+ * Options for the JSONL file sink
+ */
+export interface JsonlFileAuditSinkOptions {
+  /** Path of the active log file */
+  path: string;
+  /** Rotate the active file once it would exceed this size */
+  maxBytes: number;
+  /** Number of rotated files to keep (0 keeps all of them) */
+  maxFiles: number;
+}
+
+/**
+ * Hash used as the previous hash of the very first entry
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Compute the chain hash of an entry
+ */
+export function hashAuditEntry(prevHash: string, entry: AuditEntry): string {
+  return createHash('sha256').update(prevHash).update(JSON.stringify(entry)).digest('hex');
+}
+
+/**
+ * Parse a stored line into the entry and its chain fields
+ */
+function parseLine(line: string): ChainedAuditEntry {
+  return JSON.parse(line) as ChainedAuditEntry;
+}
+
+/**
+ * Verify a sequence of chained entries, oldest first
+ *
+ * The first entry is trusted as the anchor of the chain, so verification still
+ * works after old rotated files have been pruned.
+ */
+export function verifyAuditChain(entries: ChainedAuditEntry[]): AuditChainVerification {
+  let expectedPrev: string | undefined;
+
+  for (const chained of entries) {
+    const { prevHash, hash, ...entry } = chained;
+
+    if (expectedPrev !== undefined && prevHash !== expectedPrev) {
+      return {
+        valid: false,
+        entries: entries.length,
+        brokenAtId: entry.id,
+        reason: 'Previous hash does not match the preceding entry (entry removed or reordered)',
+      };
+    }
+
+    if (hashAuditEntry(prevHash, entry) !== hash) {
+      return {
+        valid: false,
+        entries: entries.length,
+        brokenAtId: entry.id,
+        reason: 'Entry hash does not match its content (entry modified)',
+      };
+    }
+
+    expectedPrev = hash;
+  }
+
+  return { valid: true, entries: entries.length };
+}
+
+/**
+ * Append-only JSONL audit sink with size-based rotation and a hash chain
+ *
+ * Rotated files are named `<path>.1` (most recent) to `<path>.N` (oldest).
+ */
+export class JsonlFileAuditSink implements AuditSink {
+  private readonly options: JsonlFileAuditSinkOptions;
+  private lastHash: string | undefined;
+
+  constructor(options: JsonlFileAuditSinkOptions) {
+    this.options = options;
+    mkdirSync(dirname(options.path), { recursive: true });
+  }
+
+  /**
+   * Append an entry, rotating the file first if needed
+   */
+  write(entry: AuditEntry): void {
+    const prevHash = this.getLastHash();
+    const chained: ChainedAuditEntry = {
+      ...entry,
+      prevHash,
+      hash: hashAuditEntry(prevHash, entry),
+    };
+    const line = `${JSON.stringify(chained)}\n`;
+
+    if (this.shouldRotate(Buffer.byteLength(line))) {
+      this.rotate();
+    }
+
+    appendFileSync(this.options.path, line, { encoding: 'utf8', mode: 0o600 });
+    this.lastHash = chained.hash;
+  }
+
+  /**
+   * Read all entries across rotated files, oldest first
+   */
+  read(): AuditEntry[] {
+    return this.readChained().map(({ prevHash: _prevHash, hash: _hash, ...entry }) => entry);
+  }
+
+  /**
+   * Read all entries with their chain fields, oldest first
+   */
+  readChained(): ChainedAuditEntry[] {
+    const entries: ChainedAuditEntry[] = [];
+    for (const file of this.listFiles()) {
+      const lines = readFileSync(file, 'utf8').split('\n');
+      for (const line of lines) {
+        if (line.trim()) {
+          entries.push(parseLine(line));
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Verify the hash chain across all files
+   */
+  verify(): AuditChainVerification {
+    return verifyAuditChain(this.readChained());
+  }
+
+  /**
+   * Log files from oldest to newest
+   */
+  private listFiles(): string[] {
+    const files: string[] = [];
+    for (let i = 1; existsSync(`${this.options.path}.${i}`); i++) {
+      files.unshift(`${this.options.path}.${i}`);
+    }
+    if (existsSync(this.options.path)) {
+      files.push(this.options.path);
+    }
+    return files;
+  }
+
+  /**
+   * Hash of the most recent entry on disk (or the genesis hash)
+   */
+  private getLastHash(): string {
+    if (this.lastHash === undefined) {
+      const files = this.listFiles();
+      this.lastHash = GENESIS_HASH;
+      for (let i = files.length - 1; i >= 0; i--) {
+        const lines = readFileSync(files[i], 'utf8').trim().split('\n').filter(Boolean);
+        if (lines.length > 0) {
+          this.lastHash = parseLine(lines[lines.length - 1]).hash;
+          break;
+        }
+      }
+    }
+    return this.lastHash;
+  }
+
+  private shouldRotate(incomingBytes: number): boolean {
+    if (!existsSync(this.options.path)) return false;
+    const size = statSync(this.options.path).size;
+    return size > 0 && size + incomingBytes > this.options.maxBytes;
+  }
+
+  /**
+   * Shift rotated files up by one and move the active file to `.1`
+   */
+  private rotate(): void {
+    const { path, maxFiles } = this.options;
+
+    let highest = 0;
+    while (existsSync(`${path}.${highest + 1}`)) highest++;
+
+    for (let i = highest; i >= 1; i--) {
+      if (maxFiles > 0 && i >= maxFiles) {
+        unlinkSync(`${path}.${i}`);
+      } else {
+        renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+      }
+    }
+
+    renameSync(path, `${path}.1`);
+  }
+}
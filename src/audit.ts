@@ -2,10 +2,22 @@
  * Audit logging for write operations
  *
  * Logs all write operations for compliance and debugging.
- * In production, this could be extended to log to external systems.
+ * Entries are kept in memory and can additionally be persisted through audit sinks.
+ * Each entry records the company it was made for, and queries only see the
+ * entries of the active company.
  */
 
-import { debug } from './config.js';
+import { randomUUID } from 'crypto';
+import {
+  debug,
+  getActiveCompany,
+  getAuditActor,
+  getAuditLogConfig,
+  getServerMode,
+} from './config.js';
+import { JsonlFileAuditSink, type AuditChainVerification, type AuditSink } from './audit-sink.js';
+import { AuditLogError } from './errors.js';
+import { redactSensitiveFields } from './redaction.js';
 
 /**
  * Audit action types for write operations
@@ -21,37 +33,138 @@ export enum AuditAction {
   UNARCHIVE = 'UNARCHIVE',
   ASSIGN = 'ASSIGN',
   UNASSIGN = 'UNASSIGN',
+  REVEAL = 'REVEAL',
+  HIRE = 'HIRE',
 }
 
 /**
  * Audit log entry structure
  */
 export interface AuditEntry {
+  id: string;
   timestamp: string;
+  actor?: string;
+  /** Company profile the operation was made for (when profiles are configured) */
+  company?: string;
   action: AuditAction;
   entityType: string;
   entityId?: number;
   changes?: Record<string, { from?: unknown; to: unknown }>;
+  /** State of the entity before an update or delete, used to revert it */
+  before?: Record<string, unknown>;
+  /** Fields whose values in `before` and `changes` were redacted */
+  redacted?: string[];
   success: boolean;
   error?: string;
   durationMs: number;
   idempotencyKey?: string;
 }
 
+/**
+ * Audit entry as provided by callers (ID, actor and company are assigned by the logger)
+ */
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'actor' | 'company' | 'redacted'>;
+
+/**
+ * Filters for querying audit entries
+ */
+export interface AuditQuery {
+  action?: AuditAction;
+  entityType?: string;
+  entityId?: number;
+  success?: boolean;
+  /** Only entries at or after this ISO timestamp */
+  since?: string;
+  /** Only entries at or before this ISO timestamp */
+  until?: string;
+  /** Maximum number of entries to return (most recent first) */
+  limit?: number;
+}
+
+/**
+ * Apply the redaction policy to the values recorded by an entry
+ *
+ * Snapshots and changes would otherwise keep identifiers and bank numbers in
+ * the persistent log. Redacted fields are listed so a revert skips them.
+ */
+function redactEntry(input: AuditEntryInput): Omit<AuditEntry, 'id' | 'actor' | 'company'> {
+  const redacted = new Set<string>();
+  const redact = (field: string, value: unknown): unknown => {
+    if (value === undefined) return undefined;
+    const result = (
+      JSON.parse(JSON.stringify({ [field]: value }, redactSensitiveFields)) as Record<
+        string,
+        unknown
+      >
+    )[field];
+    if (JSON.stringify(result) !== JSON.stringify(value)) redacted.add(field);
+    return result;
+  };
+
+  const before = input.before
+    ? Object.fromEntries(
+        Object.entries(input.before)
+          .map(([field, value]): [string, unknown] => [field, redact(field, value)])
+          .filter(([, value]) => value !== undefined)
+      )
+    : undefined;
+  const changes = input.changes
+    ? Object.fromEntries(
+        Object.entries(input.changes).map(
+          ([field, { from, to }]): [string, { from?: unknown; to: unknown }] => [
+            field,
+            { ...(from !== undefined ? { from: redact(field, from) } : {}), to: redact(field, to) },
+          ]
+        )
+      )
+    : undefined;
+
+  return {
+    ...input,
+    ...(before ? { before } : {}),
+    ...(changes ? { changes } : {}),
+    ...(redacted.size > 0 ? { redacted: [...redacted] } : {}),
+  };
+}
+
 /**
  * Audit logger class
  *
- * Maintains an in-memory log of recent write operations for debugging.
- * In production, this could be extended to persist logs to external systems.
+ * Maintains an in-memory log of recent write operations and forwards every
+ * entry to the configured sinks (e.g., a persistent JSONL file). Entries a
+ * sink fails to write are kept and written before the next entry.
  */
 class AuditLogger {
   private logs: AuditEntry[] = [];
   private readonly maxEntries = 1000; // Keep last 1000 entries in memory
+  private sinks: { sink: AuditSink; backlog: AuditEntry[] }[] = [];
+
+  /**
+   * Add a sink that receives every subsequent entry
+   */
+  addSink(sink: AuditSink): void {
+    this.sinks.push({ sink, backlog: [] });
+  }
+
+  /**
+   * Remove all sinks (useful for testing)
+   */
+  clearSinks(): void {
+    this.sinks = [];
+  }
 
   /**
    * Log an audit entry
+   *
+   * @throws AuditLogError if a sink cannot write the entry (it is kept and retried)
    */
-  log(entry: AuditEntry): void {
+  log(input: AuditEntryInput): AuditEntry {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      actor: getAuditActor(),
+      company: getActiveCompany(),
+      ...redactEntry(input),
+    };
     this.logs.push(entry);
 
     // Trim old entries
@@ -69,6 +182,109 @@ class AuditLogger {
         error: entry.error,
       }
     );
+
+    for (const target of this.sinks) {
+      target.backlog.push(entry);
+    }
+    const failure = this.persist();
+    if (failure) {
+      throw new AuditLogError(
+        `The audit entry of ${entry.success ? 'completed' : 'failed'} ${entry.action} ${entry.entityType}${entityRef}`,
+        failure
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Write the entries that earlier sink failures left behind
+   *
+   * Called before a write operation, so nothing changes while the audit log
+   * cannot record it.
+   *
+   * @throws AuditLogError if a sink still fails
+   */
+  flush(): void {
+    const pending = Math.max(0, ...this.sinks.map(target => target.backlog.length));
+    const failure = this.persist();
+    if (failure) {
+      throw new AuditLogError(
+        `${pending} earlier audit entr${pending === 1 ? 'y' : 'ies'}`,
+        failure
+      );
+    }
+  }
+
+  /**
+   * Write the backlog of every sink, oldest first
+   *
+   * @returns The first failure, if a sink could not write its backlog
+   */
+  private persist(): string | undefined {
+    let failure: string | undefined;
+    for (const target of this.sinks) {
+      try {
+        while (target.backlog.length > 0) {
+          target.sink.write(target.backlog[0]);
+          target.backlog.shift();
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        debug(`[AUDIT] Failed to write ${target.backlog.length} entr(ies) to a sink: ${reason}`);
+        failure ??= reason;
+      }
+    }
+    return failure;
+  }
+
+  /**
+   * Query audit entries, most recent first
+   *
+   * Reads from the first persistent sink when one is configured, so the
+   * full history survives restarts; otherwise uses the in-memory log.
+   * Only entries of the active company are returned.
+   */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const source = this.readAll();
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+
+    const matches = source.filter(entry => {
+      const time = Date.parse(entry.timestamp);
+      return (
+        (filter.action === undefined || entry.action === filter.action) &&
+        (filter.entityType === undefined || entry.entityType === filter.entityType) &&
+        (filter.entityId === undefined || entry.entityId === filter.entityId) &&
+        (filter.success === undefined || entry.success === filter.success) &&
+        (since === undefined || time >= since) &&
+        (until === undefined || time <= until)
+      );
+    });
+
+    matches.reverse();
+    return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+  }
+
+  /**
+   * Find an audit entry of the active company by its ID
+   */
+  findById(id: string): AuditEntry | undefined {
+    return this.readAll().find(entry => entry.id === id);
+  }
+
+  /**
+   * Verify the integrity of the persistent audit log
+   *
+   * @returns The verification result, or undefined if no sink supports verification
+   */
+  verify(): AuditChainVerification | undefined {
+    for (const { sink } of this.sinks) {
+      if (sink.verify) {
+        return sink.verify();
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -92,6 +308,21 @@ class AuditLogger {
     return this.logs.filter(log => log.entityType === entityType && log.entityId === entityId);
   }
 
+  /**
+   * Entries of the active company, oldest first, from the first persistent sink or from memory
+   */
+  private readAll(): AuditEntry[] {
+    const company = getActiveCompany();
+    let source = this.logs;
+    for (const { sink } of this.sinks) {
+      if (sink.read) {
+        source = sink.read();
+        break;
+      }
+    }
+    return source.filter(entry => entry.company === company);
+  }
+
   /**
    * Clear all logs (useful for testing)
    */
@@ -103,6 +334,27 @@ class AuditLogger {
 // Singleton instance
 export const auditLogger = new AuditLogger();
 
+/**
+ * Attach the persistent audit sink configured through environment variables
+ *
+ * @returns The file sink, or undefined if persistence is not configured
+ */
+export function configureAuditLog(): JsonlFileAuditSink | undefined {
+  const config = getAuditLogConfig();
+  if (!config.path) {
+    return undefined;
+  }
+
+  const sink = new JsonlFileAuditSink({
+    path: config.path,
+    maxBytes: config.maxBytes,
+    maxFiles: config.maxFiles,
+  });
+  auditLogger.addSink(sink);
+  debug(`Audit log persisted to ${config.path}`);
+  return sink;
+}
+
 /**
  * Helper to wrap write operations with audit logging
  *
@@ -112,7 +364,13 @@ export const auditLogger = new AuditLogger();
  * @param operation - The async operation to execute
  * @param changes - Optional changes being made
  * @param idempotencyKey - Optional idempotency key
+ * @param before - Optional snapshot of the entity before the write
  * @returns The result of the operation
+ *
+ * Nothing is logged in dry-run mode, since no data is changed. The operation
+ * is refused while earlier entries could not be written to the audit log.
+ *
+ * @throws AuditLogError if the audit log cannot be written
  */
 export async function auditedOperation<T>(
   action: AuditAction,
@@ -120,38 +378,52 @@ export async function auditedOperation<T>(
   entityId: number | undefined,
   operation: () => Promise<T>,
   changes?: Record<string, { from?: unknown; to: unknown }>,
-  idempotencyKey?: string
+  idempotencyKey?: string,
+  before?: object
 ): Promise<T> {
+  if (getServerMode() === 'dry-run') {
+    return operation();
+  }
+
+  auditLogger.flush();
   const startTime = Date.now();
 
+  let result: T;
   try {
-    const result = await operation();
-
-    auditLogger.log({
-      timestamp: new Date().toISOString(),
-      action,
-      entityType,
-      entityId,
-      changes,
-      success: true,
-      durationMs: Date.now() - startTime,
-      idempotencyKey,
-    });
-
-    return result;
+    result = await operation();
   } catch (error) {
-    auditLogger.log({
-      timestamp: new Date().toISOString(),
-      action,
-      entityType,
-      entityId,
-      changes,
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      durationMs: Date.now() - startTime,
-      idempotencyKey,
-    });
-
+    try {
+      auditLogger.log({
+        timestamp: new Date().toISOString(),
+        action,
+        entityType,
+        entityId,
+        changes,
+        before: before as Record<string, unknown> | undefined,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startTime,
+        idempotencyKey,
+      });
+    } catch {
+      // Nothing changed, so the operation's own error is the one to report;
+      // the entry is kept and the next write is refused until it is written
+    }
     throw error;
   }
+
+  // Throws if the entry cannot be written, so the change does not go unreported
+  auditLogger.log({
+    timestamp: new Date().toISOString(),
+    action,
+    entityType,
+    entityId,
+    changes,
+    before: before as Record<string, unknown> | undefined,
+    success: true,
+    durationMs: Date.now() - startTime,
+    idempotencyKey,
+  });
+
+  return result;
 }
@@ -2,9 +2,10 @@
  * Simple in-memory TTL cache for MCP FactorialHR
  *
  * Reduces API calls by caching frequently accessed data.
+ * Entries are partitioned per company so data never crosses between accounts.
  */
 
-import { debug } from './config.js';
+import { debug, getActiveCompany } from './config.js';
 
 /**
  * Cache entry with data and expiration
@@ -24,6 +25,7 @@ export const CACHE_TTL = {
   contracts: 3 * 60 * 1000, // 3 minutes
   leaves: 2 * 60 * 1000, // 2 minutes
   shifts: 1 * 60 * 1000, // 1 minute
+  documents: 30 * 60 * 1000, // 30 minutes
   default: 5 * 60 * 1000, // 5 minutes default
 } as const;
 
@@ -39,7 +41,10 @@ export class CacheManager {
   private cache = new Map<string, CacheEntry<unknown>>();
   private cleanupInterval: ReturnType<typeof setInterval> | null = null;
 
-  constructor() {
+  /**
+   * @param partition - Returns the partition (e.g., company) keys are scoped to, if any
+   */
+  constructor(private readonly partition?: () => string | undefined) {
     // Run cleanup every minute
     this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
   }
@@ -66,6 +71,7 @@ export class CacheManager {
    * @returns The cached value or undefined if not found/expired
    */
   get<T>(key: string): T | undefined {
+    key = this.scoped(key);
     const entry = this.cache.get(key);
     if (!entry) {
       return undefined;
@@ -88,6 +94,7 @@ export class CacheManager {
    * @param ttlMs - Time to live in milliseconds
    */
   set<T>(key: string, data: T, ttlMs: number = CACHE_TTL.default): void {
+    key = this.scoped(key);
     this.cache.set(key, {
       data,
       expiresAt: Date.now() + ttlMs,
@@ -99,6 +106,7 @@ export class CacheManager {
    * Invalidate a specific cache entry
    */
   invalidate(key: string): boolean {
+    key = this.scoped(key);
     const deleted = this.cache.delete(key);
     if (deleted) {
       debug(`Cache invalidated: ${key}`);
@@ -110,6 +118,7 @@ export class CacheManager {
    * Invalidate all cache entries matching a prefix
    */
   invalidatePrefix(prefix: string): number {
+    prefix = this.scoped(prefix);
     let count = 0;
     for (const key of this.cache.keys()) {
       if (key.startsWith(prefix)) {
@@ -124,7 +133,7 @@ export class CacheManager {
   }
 
   /**
-   * Clear all cache entries
+   * Clear all cache entries (of every partition)
    */
   clear(): void {
     const size = this.cache.size;
@@ -142,6 +151,14 @@ export class CacheManager {
     };
   }
 
+  /**
+   * Prefix a key with the current partition
+   */
+  private scoped(key: string): string {
+    const partition = this.partition?.();
+    return partition ? `${partition}::${key}` : key;
+  }
+
   /**
    * Remove expired entries
    */
@@ -171,9 +188,9 @@ export class CacheManager {
 }
 
 /**
- * Global cache instance
+ * Global cache instance, partitioned by the active company
  */
-export const cache = new CacheManager();
+export const cache = new CacheManager(() => getActiveCompany());
 
 /**
  * Helper to get cached data or fetch it
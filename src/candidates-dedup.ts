@@ -0,0 +1,635 @@
+/**
+ * Candidate deduplication for MCP FactorialHR
+ *
+ * Finds candidates that are likely the same person, e.g. when someone applies
+ * twice or comes in through different sources, and merges them into one.
+ *
+ * Candidates are matched on normalized email (case, "+tag" and Gmail dots
+ * ignored), phone (digits only, compared on the last nine digits so country
+ * prefixes do not matter), LinkedIn profile and a fuzzy name comparison. Each
+ * matching signal adds to the confidence of a pair, and pairs at or above the
+ * minimum confidence are grouped into clusters.
+ *
+ * Applications cannot be moved to another candidate in FactorialHR, so a
+ * merge recreates each application of a duplicate on the surviving candidate
+ * (with its notes, stage, rating, hire date and rejection) and deletes the
+ * original. When the survivor already applied to the same posting, the
+ * duplicate's notes, stage, rating and hire date fill in the survivor's
+ * application instead.
+ */
+
+import {
+  createApplication,
+  deleteApplication,
+  deleteCandidate,
+  getCandidate,
+  listApplications,
+  listCandidates,
+  rejectApplication,
+  updateApplication,
+  updateCandidate,
+} from './api.js';
+import { getServerMode } from './config.js';
+import { fetchAllPages } from './pagination.js';
+import {
+  UpdateCandidateInputSchema,
+  type Application,
+  type Candidate,
+  type UpdateApplicationInput,
+  type UpdateCandidateInput,
+} from './schemas.js';
+
+/**
+ * Confidence a single matching signal gives a pair
+ */
+const SIGNAL_WEIGHTS = {
+  email: 0.95,
+  linkedin: 0.95,
+  phone: 0.85,
+  name: 0.6,
+} as const;
+
+/**
+ * Lowest name similarity counted as a name match
+ */
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/**
+ * Default minimum confidence of a reported pair; a name alone stays below it
+ */
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+
+/**
+ * Longest application notes FactorialHR accepts
+ */
+const MAX_APPLICATION_NOTES_LENGTH = 2000;
+
+/**
+ * Candidate fields a merge fills in on the survivor when they are empty
+ */
+const MERGED_FIELDS = [
+  'first_name',
+  'last_name',
+  'email',
+  'phone',
+  'source',
+  'linkedin_url',
+] as const;
+
+export type MatchSignal = keyof typeof SIGNAL_WEIGHTS;
+
+/**
+ * Two candidates that look like the same person
+ */
+export interface DuplicateMatch {
+  candidate_ids: [number, number];
+  confidence: number;
+  signals: MatchSignal[];
+  /** Similarity of the names, from 0 to 1 */
+  name_similarity: number;
+}
+
+/**
+ * A group of candidates that look like the same person
+ */
+export interface DuplicateCluster {
+  /** Lowest confidence among the matches linking the cluster */
+  confidence: number;
+  /** The oldest candidate, which usually carries the most history */
+  suggested_survivor_id: number;
+  candidates: Pick<
+    Candidate,
+    'id' | 'full_name' | 'email' | 'phone' | 'source' | 'linkedin_url' | 'created_at'
+  >[];
+  matches: DuplicateMatch[];
+}
+
+/**
+ * Options of a duplicate search
+ */
+export interface DuplicateSearchOptions {
+  /** Only clusters containing this candidate */
+  candidate_id?: number;
+  /** Minimum confidence of a match, from 0 to 1 */
+  min_confidence?: number;
+}
+
+/**
+ * A step of a merge
+ */
+export interface MergeStep {
+  kind: 'update_survivor' | 'move_application' | 'merge_application' | 'delete_candidate';
+  candidate_id: number;
+  application_id?: number;
+  description: string;
+  /** 'not_run' when an earlier step the step depends on failed */
+  status: 'pending' | 'done' | 'failed' | 'not_run';
+  error?: string;
+}
+
+/**
+ * A checked merge, ready to run
+ */
+export interface MergePlan {
+  survivor: Candidate;
+  duplicates: Candidate[];
+  /** Empty fields of the survivor filled in from the duplicates */
+  fills: UpdateCandidateInput;
+  /** Applications of the duplicates, by ID */
+  applications: Map<number, Application>;
+  steps: MergeStep[];
+  warnings: string[];
+}
+
+/**
+ * Outcome of a merge
+ */
+export interface MergeResult {
+  survivor_id: number;
+  /** 'partial' when a step failed; duplicates with unmoved applications are kept */
+  status: 'completed' | 'partial';
+  deleted_candidate_ids: number[];
+  steps: MergeStep[];
+  warnings: string[];
+}
+
+/**
+ * Normalized identity of a candidate
+ */
+interface CandidateKeys {
+  email?: string;
+  phone?: string;
+  linkedin?: string;
+  name?: string;
+}
+
+/**
+ * Normalize an email: lowercase, without "+tag", and without dots for Gmail
+ */
+export function normalizeEmail(email: string | null): string | undefined {
+  const trimmed = email?.trim().toLowerCase();
+  const at = trimmed?.lastIndexOf('@') ?? -1;
+  if (!trimmed || at <= 0) return undefined;
+
+  let local = trimmed.slice(0, at).split('+')[0];
+  let domain = trimmed.slice(at + 1);
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return local ? `${local}@${domain}` : undefined;
+}
+
+/**
+ * Normalize a phone number to its last nine digits, ignoring country prefixes
+ */
+export function normalizePhone(phone: string | null): string | undefined {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  return digits.length >= 7 ? digits.slice(-9) : undefined;
+}
+
+/**
+ * Normalize a LinkedIn URL to the profile slug
+ */
+export function normalizeLinkedIn(url: string | null): string | undefined {
+  const slug = url?.match(/linkedin\.com\/in\/([^/?#\s]+)/i)?.[1];
+  if (!slug) return undefined;
+  try {
+    return decodeURIComponent(slug).toLowerCase();
+  } catch {
+    return slug.toLowerCase();
+  }
+}
+
+/**
+ * Normalize a name: lowercase, without accents or punctuation, words sorted
+ * so that swapped first and last names still match
+ */
+export function normalizeName(name: string | null): string | undefined {
+  const words = (name ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort();
+  return words.length > 0 ? words.join(' ') : undefined;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, based on their edit distance
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Display name of a candidate
+ */
+function candidateName(candidate: Candidate): string {
+  return (
+    candidate.full_name?.trim() ||
+    [candidate.first_name, candidate.last_name].filter(Boolean).join(' ') ||
+    `Candidate ${candidate.id}`
+  );
+}
+
+/**
+ * Normalized identity of a candidate
+ */
+function candidateKeys(candidate: Candidate): CandidateKeys {
+  return {
+    email: normalizeEmail(candidate.email),
+    phone: normalizePhone(candidate.phone),
+    linkedin: normalizeLinkedIn(candidate.linkedin_url),
+    name: normalizeName(
+      [candidate.first_name, candidate.last_name].filter(Boolean).join(' ') || candidate.full_name
+    ),
+  };
+}
+
+/**
+ * Score two candidates; the confidence combines the matching signals
+ */
+function scorePair(
+  a: CandidateKeys,
+  b: CandidateKeys
+): Omit<DuplicateMatch, 'candidate_ids'> | undefined {
+  const signals: MatchSignal[] = [];
+  if (a.email && a.email === b.email) signals.push('email');
+  if (a.linkedin && a.linkedin === b.linkedin) signals.push('linkedin');
+  if (a.phone && a.phone === b.phone) signals.push('phone');
+
+  const nameSimilarity = a.name && b.name ? similarity(a.name, b.name) : 0;
+  let unmatched = signals.reduce((rest, signal) => rest * (1 - SIGNAL_WEIGHTS[signal]), 1);
+  if (nameSimilarity >= NAME_SIMILARITY_THRESHOLD) {
+    signals.push('name');
+    unmatched *= 1 - SIGNAL_WEIGHTS.name * nameSimilarity;
+  }
+  if (signals.length === 0) return undefined;
+
+  return {
+    confidence: Math.round((1 - unmatched) * 100) / 100,
+    signals,
+    name_similarity: Math.round(nameSimilarity * 100) / 100,
+  };
+}
+
+/**
+ * Group candidates that look like the same person, most confident first
+ *
+ * Only candidates sharing an email, phone, LinkedIn profile or name word are
+ * compared, so large candidate pools stay cheap to scan.
+ */
+export function clusterCandidates(
+  candidates: Candidate[],
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): DuplicateCluster[] {
+  const keys = candidates.map(candidateKeys);
+
+  const blocks = new Map<string, number[]>();
+  keys.forEach((key, i) => {
+    const blockKeys = [
+      key.email && `email:${key.email}`,
+      key.phone && `phone:${key.phone}`,
+      key.linkedin && `linkedin:${key.linkedin}`,
+      ...(key.name?.split(' ') ?? []).filter(word => word.length > 1).map(word => `name:${word}`),
+    ];
+    for (const blockKey of blockKeys) {
+      if (blockKey) blocks.set(blockKey, [...(blocks.get(blockKey) ?? []), i]);
+    }
+  });
+
+  const parent = candidates.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  const matches: { pair: [number, number]; match: DuplicateMatch }[] = [];
+  const compared = new Set<string>();
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const [i, j] = [members[x], members[y]];
+        const pairKey = `${i}:${j}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const score = scorePair(keys[i], keys[j]);
+        if (!score || score.confidence < minConfidence) continue;
+        matches.push({
+          pair: [i, j],
+          match: { candidate_ids: [candidates[i].id, candidates[j].id], ...score },
+        });
+        parent[root(i)] = root(j);
+      }
+    }
+  }
+
+  const matched = new Set(matches.flatMap(({ pair }) => pair));
+  const groups = new Map<number, number[]>();
+  for (const i of [...matched].sort((a, b) => a - b)) {
+    groups.set(root(i), [...(groups.get(root(i)) ?? []), i]);
+  }
+
+  return [...groups.entries()]
+    .map(([groupRoot, members]) => {
+      const groupMatches = matches
+        .filter(({ pair }) => root(pair[0]) === groupRoot)
+        .map(({ match }) => match);
+      const group = members.map(i => candidates[i]);
+      const oldest = [...group].sort(
+        (a, b) => (a.created_at ?? '\uffff').localeCompare(b.created_at ?? '\uffff') || a.id - b.id
+      )[0];
+      return {
+        confidence: Math.min(...groupMatches.map(match => match.confidence)),
+        suggested_survivor_id: oldest.id,
+        candidates: group.map(c => ({
+          id: c.id,
+          full_name: candidateName(c),
+          email: c.email,
+          phone: c.phone,
+          source: c.source,
+          linkedin_url: c.linkedin_url,
+          created_at: c.created_at,
+        })),
+        matches: groupMatches,
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence || b.candidates.length - a.candidates.length);
+}
+
+/**
+ * Find clusters of duplicate candidates across all candidates
+ */
+export async function findDuplicateCandidates(
+  options: DuplicateSearchOptions = {}
+): Promise<DuplicateCluster[]> {
+  const candidates = await fetchAllPages(params => listCandidates(params));
+  const clusters = clusterCandidates(candidates, options.min_confidence);
+  return options.candidate_id === undefined
+    ? clusters
+    : clusters.filter(cluster => cluster.candidates.some(c => c.id === options.candidate_id));
+}
+
+/**
+ * Check a merge of duplicates into a surviving candidate
+ *
+ * @throws Error if the survivor is listed as a duplicate or no duplicate is given
+ */
+export async function planMerge(survivorId: number, duplicateIds: number[]): Promise<MergePlan> {
+  const ids = [...new Set(duplicateIds)];
+  if (ids.includes(survivorId)) {
+    throw new Error(`Candidate ${survivorId} cannot be both the survivor and a duplicate.`);
+  }
+  if (ids.length === 0) {
+    throw new Error('Pass at least one duplicate candidate to merge.');
+  }
+
+  const [survivor, ...duplicates] = await Promise.all(
+    [survivorId, ...ids].map(id => getCandidate(id))
+  );
+  const allApplications = await fetchAllPages(params => listApplications(undefined, params));
+  const warnings: string[] = [];
+
+  const survivorKeys = candidateKeys(survivor);
+  for (const duplicate of duplicates) {
+    const score = scorePair(survivorKeys, candidateKeys(duplicate));
+    if (!score || score.confidence < DEFAULT_MIN_CONFIDENCE) {
+      warnings.push(
+        `${candidateName(duplicate)} (${duplicate.id}) does not look like ${candidateName(survivor)}: ${score ? `only the ${score.signals.join(', ')} match` : 'no email, phone, LinkedIn profile or name matches'}.`
+      );
+    }
+  }
+
+  const fills: UpdateCandidateInput = {};
+  for (const field of MERGED_FIELDS) {
+    if (survivor[field]?.trim()) continue;
+    const value = duplicates
+      .map(duplicate => duplicate[field]?.trim())
+      .find(
+        candidate =>
+          candidate && UpdateCandidateInputSchema.safeParse({ [field]: candidate }).success
+      );
+    if (value) fills[field] = value;
+  }
+
+  const steps: MergeStep[] = [];
+  if (Object.keys(fills).length > 0) {
+    steps.push({
+      kind: 'update_survivor',
+      candidate_id: survivor.id,
+      description: `Fill in ${Object.keys(fills).join(', ')} on ${candidateName(survivor)} (${survivor.id})`,
+      status: 'pending',
+    });
+  }
+
+  const applications = new Map<number, Application>();
+  // Application the survivor has (or gets) on each posting
+  const postings = new Map<number, Application>();
+  for (const application of allApplications.filter(a => a.candidate_id === survivor.id)) {
+    postings.set(application.job_posting_id, application);
+  }
+  for (const duplicate of duplicates) {
+    const duplicateSteps: MergeStep[] = [];
+    let kept = false;
+    for (const application of allApplications.filter(a => a.candidate_id === duplicate.id)) {
+      applications.set(application.id, application);
+      const existing = postings.get(application.job_posting_id);
+      if (existing) {
+        if (!mergedApplicationFields(existing, application)) {
+          warnings.push(
+            `Application ${application.id} cannot be merged into application ${existing.id}: their notes together are longer than ${MAX_APPLICATION_NOTES_LENGTH} characters. ${candidateName(duplicate)} (${duplicate.id}) is kept.`
+          );
+          kept = true;
+          continue;
+        }
+        duplicateSteps.push({
+          kind: 'merge_application',
+          candidate_id: duplicate.id,
+          application_id: application.id,
+          description: `Merge application ${application.id} into the application of candidate ${survivor.id} to job posting ${application.job_posting_id}, then delete it`,
+          status: 'pending',
+        });
+        continue;
+      }
+      postings.set(application.job_posting_id, application);
+      warnings.push(
+        `Application ${application.id} is recreated on candidate ${survivor.id}, so its application date (${application.applied_at ?? application.created_at ?? 'unknown'}) becomes the date of the merge.`
+      );
+      duplicateSteps.push({
+        kind: 'move_application',
+        candidate_id: duplicate.id,
+        application_id: application.id,
+        description: `Move application ${application.id} to job posting ${application.job_posting_id} onto candidate ${survivor.id}`,
+        status: 'pending',
+      });
+    }
+    steps.push(...duplicateSteps);
+    if (!kept) {
+      steps.push({
+        kind: 'delete_candidate',
+        candidate_id: duplicate.id,
+        description: `Delete ${candidateName(duplicate)} (${duplicate.id})`,
+        status: 'pending',
+      });
+    }
+  }
+
+  return { survivor, duplicates, fills, applications, steps, warnings };
+}
+
+/**
+ * Fields of `target` to fill in from `source` when merging two applications
+ *
+ * Empty stage, rating and hire date are taken from `source`, and its notes are
+ * added to the notes of `target`.
+ *
+ * @returns The fields to update, or undefined if the notes together are too long
+ */
+function mergedApplicationFields(
+  target: Application,
+  source: Application
+): UpdateApplicationInput | undefined {
+  const fields: UpdateApplicationInput = {};
+  if (source.notes?.trim() && !target.notes?.includes(source.notes.trim())) {
+    const notes = target.notes?.trim()
+      ? `${target.notes.trim()}\n\n${source.notes.trim()}`
+      : source.notes.trim();
+    if (notes.length > MAX_APPLICATION_NOTES_LENGTH) return undefined;
+    fields.notes = notes;
+  }
+  if (target.hiring_stage_id === null && source.hiring_stage_id !== null) {
+    fields.hiring_stage_id = source.hiring_stage_id;
+  }
+  if (target.rating === null && source.rating !== null) {
+    fields.rating = source.rating;
+  }
+  if (!target.hired_at && source.hired_at) {
+    fields.hired_at = source.hired_at;
+  }
+  return fields;
+}
+
+/**
+ * Fill in an application of the survivor from a duplicate's, then delete the latter
+ */
+async function mergeApplication(target: Application, source: Application): Promise<void> {
+  const fields = mergedApplicationFields(target, source);
+  if (!fields) {
+    throw new Error(
+      `The notes of applications ${target.id} and ${source.id} together are longer than ${MAX_APPLICATION_NOTES_LENGTH} characters.`
+    );
+  }
+  if (Object.keys(fields).length > 0) await updateApplication(target.id, fields);
+  await deleteApplication(source.id);
+}
+
+/**
+ * Recreate an application on the survivor and delete the original
+ *
+ * When the survivor already has an application to the posting (their own, one
+ * moved from another duplicate, or one left by an earlier run that stopped),
+ * it is filled in instead of creating another. A copy whose
+ * stage, rating, hire date or rejection cannot be restored is deleted again,
+ * and the original is kept.
+ */
+async function moveApplication(application: Application, survivorId: number): Promise<void> {
+  const [existing] = (
+    await fetchAllPages(params => listApplications(application.job_posting_id, params))
+  ).filter(a => a.candidate_id === survivorId && a.job_posting_id === application.job_posting_id);
+  if (existing) {
+    await mergeApplication(existing, application);
+    return;
+  }
+
+  const moved = await createApplication({
+    job_posting_id: application.job_posting_id,
+    candidate_id: survivorId,
+    ...(application.notes ? { notes: application.notes } : {}),
+  });
+  // In dry-run mode nothing is created, so there is no application to update
+  if (getServerMode() !== 'dry-run') {
+    const restore: UpdateApplicationInput = {
+      ...(application.hiring_stage_id !== null
+        ? { hiring_stage_id: application.hiring_stage_id }
+        : {}),
+      ...(application.rating !== null ? { rating: application.rating } : {}),
+      ...(application.hired_at ? { hired_at: application.hired_at } : {}),
+    };
+    try {
+      if (Object.keys(restore).length > 0) await updateApplication(moved.id, restore);
+      if (application.rejected_at) {
+        await rejectApplication(moved.id, {
+          reason: `Rejected on ${application.rejected_at.slice(0, 10)} before the candidate merge (application ${application.id})`,
+        });
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      try {
+        await deleteApplication(moved.id);
+      } catch (cleanupError) {
+        throw new Error(
+          `${reason}. The copy ${moved.id} could not be deleted either (${cleanupError instanceof Error ? cleanupError.message : String(cleanupError)}); delete it by hand.`
+        );
+      }
+      throw error;
+    }
+  }
+  await deleteApplication(application.id);
+}
+
+/**
+ * Run a checked merge
+ *
+ * A duplicate is deleted only once all its applications were moved or merged,
+ * so a failure never loses an application.
+ */
+export async function runMerge(plan: MergePlan): Promise<MergeResult> {
+  const steps = plan.steps.map(step => ({ ...step }));
+  const failedCandidates = new Set<number>();
+
+  for (const step of steps) {
+    if (failedCandidates.has(step.candidate_id)) {
+      step.status = 'not_run';
+      continue;
+    }
+    try {
+      if (step.kind === 'update_survivor') {
+        await updateCandidate(step.candidate_id, plan.fills);
+      } else if (step.kind === 'move_application' || step.kind === 'merge_application') {
+        await moveApplication(plan.applications.get(step.application_id!)!, plan.survivor.id);
+      } else {
+        await deleteCandidate(step.candidate_id);
+      }
+      step.status = 'done';
+    } catch (error) {
+      step.status = 'failed';
+      step.error = error instanceof Error ? error.message : String(error);
+      if (step.kind !== 'update_survivor') failedCandidates.add(step.candidate_id);
+    }
+  }
+
+  return {
+    survivor_id: plan.survivor.id,
+    status: steps.every(step => step.status === 'done') ? 'completed' : 'partial',
+    deleted_candidate_ids: steps
+      .filter(step => step.kind === 'delete_candidate' && step.status === 'done')
+      .map(step => step.candidate_id),
+    steps,
+    warnings: plan.warnings,
+  };
+}
@@ -5,8 +5,13 @@
  */
 
 import { config } from 'dotenv';
-import { existsSync } from 'fs';
-import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { userInfo } from 'os';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { getSelectedCompany, getSessionContext } from './context.js';
+import { ConfigurationError } from './errors.js';
 
 /**
  * Configuration interface for FactorialHR API client
@@ -14,6 +19,8 @@ import { join } from 'path';
 export interface FactorialConfig {
   /** FactorialHR API key (required) */
   apiKey: string;
+  /** Company profile the configuration belongs to (undefined without a profiles file) */
+  company?: string;
   /** API version (e.g., '2025-10-01') */
   apiVersion: string;
   /** Base URL for the Factorial API */
@@ -26,10 +33,104 @@ export interface FactorialConfig {
   debug: boolean;
 }
 
+/**
+ * Configuration for the persistent audit log
+ */
+export interface AuditLogConfig {
+  /** Path of the JSONL audit log (persistence disabled when unset) */
+  path?: string;
+  /** Rotate the log once it exceeds this size in bytes */
+  maxBytes: number;
+  /** Number of rotated files to keep (0 keeps all of them) */
+  maxFiles: number;
+}
+
+/**
+ * Transport used to serve MCP clients
+ */
+export type TransportType = 'stdio' | 'http';
+
+/**
+ * How the server handles write operations
+ *
+ * - readwrite: write tools are registered and send requests
+ * - readonly: write tools are not registered
+ * - dry-run: write tools are registered but only report the requests they would send
+ */
+export type ServerMode = 'readwrite' | 'readonly' | 'dry-run';
+
+/**
+ * Server startup options (from command-line arguments and environment)
+ */
+export interface ServerOptions {
+  /** 'stdio' for a local client, 'http' for Streamable HTTP with SSE fallback */
+  transport: TransportType;
+  /** Port for the HTTP transport */
+  port: number;
+  /** Host/interface for the HTTP transport */
+  host: string;
+  /** Close HTTP sessions after this long without a request */
+  sessionIdleTimeoutMs: number;
+}
+
+/**
+ * Bearer token accepted by the HTTP transport
+ */
+export interface HttpAuthToken {
+  token: string;
+  /** Client name, recorded as the audit actor */
+  client?: string;
+}
+
+/**
+ * Connection settings of one Factorial company account
+ */
+export interface CompanyProfile {
+  /** Profile name used to select the company */
+  name: string;
+  /** API key, or the environment variable holding it */
+  apiKey?: string;
+  apiKeyEnv?: string;
+  apiVersion?: string;
+  baseUrl?: string;
+}
+
+const ProfilesFileSchema = z.object({
+  default: z.string().optional(),
+  profiles: z
+    .record(
+      z
+        .object({
+          apiKey: z.string().min(1).optional(),
+          apiKeyEnv: z.string().min(1).optional(),
+          apiVersion: z.string().min(1).optional(),
+          baseUrl: z.string().url().optional(),
+        })
+        .strict()
+        .refine(profile => profile.apiKey || profile.apiKeyEnv, {
+          message: 'apiKey or apiKeyEnv is required',
+        })
+    )
+    .refine(profiles => Object.keys(profiles).length > 0, {
+      message: 'at least one profile is required',
+    }),
+});
+
+/**
+ * Parsed profiles file, cached by path
+ */
+let loadedProfiles:
+  | { path: string; defaultName: string; profiles: Map<string, CompanyProfile> }
+  | undefined;
+
 // Default configuration values
 const DEFAULT_API_VERSION = '2025-10-01';
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
 const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_AUDIT_LOG_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_SESSION_TIMEOUT_MINUTES = 30;
 
 /**
  * Load environment variables from .env file with priority:
@@ -108,20 +209,283 @@ export function getBaseUrl(): string {
   return `https://api.factorialhr.com/api/${getApiVersion()}/resources`;
 }
 
+/**
+ * Load the company profiles file named by FACTORIAL_PROFILES_PATH
+ *
+ * The file maps profile names to the API key (or the environment variable
+ * holding it), base URL and API version of each Factorial account:
+ *
+ * ```json
+ * { "default": "acme-es", "profiles": { "acme-es": { "apiKeyEnv": "FACTORIAL_API_KEY_ES" } } }
+ * ```
+ *
+ * @returns The profiles file, or undefined when FACTORIAL_PROFILES_PATH is not set
+ * @throws ConfigurationError if the file cannot be read or is invalid
+ */
+function loadProfiles(): typeof loadedProfiles {
+  const path = process.env.FACTORIAL_PROFILES_PATH;
+  if (!path) {
+    return undefined;
+  }
+
+  const absolutePath = resolve(path);
+  if (loadedProfiles?.path === absolutePath) {
+    return loadedProfiles;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(absolutePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(
+      `Cannot read company profiles from ${absolutePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = ProfilesFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+      .join('; ');
+    throw new ConfigurationError(`Invalid company profiles file ${absolutePath}: ${issues}`);
+  }
+
+  const names = Object.keys(parsed.data.profiles);
+  const defaultName = parsed.data.default ?? names[0];
+  if (!names.includes(defaultName)) {
+    throw new ConfigurationError(
+      `Invalid company profiles file ${absolutePath}: default profile "${defaultName}" is not defined`
+    );
+  }
+
+  loadedProfiles = {
+    path: absolutePath,
+    defaultName,
+    profiles: new Map(
+      Object.entries(parsed.data.profiles).map(([name, profile]) => [name, { name, ...profile }])
+    ),
+  };
+  debug(`Loaded ${names.length} company profiles from ${absolutePath}`);
+  return loadedProfiles;
+}
+
+/**
+ * Get all configured company profiles
+ *
+ * @returns The profiles, or an empty list when no profiles file is configured
+ */
+export function listCompanyProfiles(): CompanyProfile[] {
+  return [...(loadProfiles()?.profiles.values() ?? [])];
+}
+
+/**
+ * Get a company profile by name
+ *
+ * @throws ConfigurationError if no profile with this name exists
+ */
+export function getCompanyProfile(name: string): CompanyProfile {
+  const profile = loadProfiles()?.profiles.get(name);
+  if (!profile) {
+    const known = listCompanyProfiles().map(p => p.name);
+    throw new ConfigurationError(
+      known.length === 0
+        ? 'No company profiles are configured. Set FACTORIAL_PROFILES_PATH to use several companies.'
+        : `Unknown company "${name}". Available companies: ${known.join(', ')}.`
+    );
+  }
+  return profile;
+}
+
+/**
+ * Get the name of the company profile requests are routed to
+ *
+ * Uses the company selected for the current session, otherwise the default
+ * profile of the profiles file.
+ *
+ * @returns The profile name, or undefined when no profiles file is configured
+ */
+export function getActiveCompany(): string | undefined {
+  const profiles = loadProfiles();
+  if (!profiles) {
+    return undefined;
+  }
+  return getSelectedCompany() ?? profiles.defaultName;
+}
+
+/**
+ * Resolve the API key, version and base URL of the active company
+ *
+ * @returns The connection settings, or undefined when no profiles file is configured
+ */
+function getCompanyConnection():
+  | Pick<FactorialConfig, 'apiKey' | 'company' | 'apiVersion' | 'baseUrl'>
+  | undefined {
+  const company = getActiveCompany();
+  if (!company) {
+    return undefined;
+  }
+
+  const profile = getCompanyProfile(company);
+  const apiKey = profile.apiKey ?? process.env[profile.apiKeyEnv ?? ''];
+  if (!apiKey) {
+    throw new ConfigurationError(
+      `The API key of company "${company}" is not set (expected in ${profile.apiKeyEnv}).`
+    );
+  }
+
+  const apiVersion = profile.apiVersion ?? getApiVersion();
+  return {
+    apiKey,
+    company,
+    apiVersion,
+    baseUrl: profile.baseUrl ?? `https://api.factorialhr.com/api/${apiVersion}/resources`,
+  };
+}
+
 /**
  * Get the complete configuration object
+ *
+ * When company profiles are configured, the API key, version and base URL
+ * come from the profile of the active company.
  */
 export function getConfig(): FactorialConfig {
-  return {
+  const connection = getCompanyConnection() ?? {
     apiKey: getApiKey(),
     apiVersion: getApiVersion(),
     baseUrl: getBaseUrl(),
+  };
+  return {
+    ...connection,
     timeout: parseInt(process.env.FACTORIAL_TIMEOUT_MS || String(DEFAULT_TIMEOUT), 10),
     maxRetries: parseInt(process.env.FACTORIAL_MAX_RETRIES || String(DEFAULT_MAX_RETRIES), 10),
     debug: process.env.DEBUG === 'true',
   };
 }
 
+/**
+ * Get the persistent audit log configuration
+ */
+export function getAuditLogConfig(): AuditLogConfig {
+  const path = process.env.FACTORIAL_AUDIT_LOG_PATH;
+  return {
+    path: path ? resolve(path) : undefined,
+    maxBytes: parseInt(
+      process.env.FACTORIAL_AUDIT_LOG_MAX_BYTES || String(DEFAULT_AUDIT_LOG_MAX_BYTES),
+      10
+    ),
+    maxFiles: parseInt(process.env.FACTORIAL_AUDIT_LOG_MAX_FILES || '0', 10),
+  };
+}
+
+/**
+ * Get the directory local files may be uploaded from (FACTORIAL_UPLOAD_DIR)
+ *
+ * @returns The resolved directory, or undefined when uploads from disk are disabled
+ */
+export function getUploadDir(): string | undefined {
+  const dir = process.env.FACTORIAL_UPLOAD_DIR;
+  return dir ? resolve(dir) : undefined;
+}
+
+/**
+ * Get the server startup options
+ *
+ * Command-line arguments (--transport, --port, --host) take precedence over
+ * FACTORIAL_TRANSPORT, FACTORIAL_HTTP_PORT and FACTORIAL_HTTP_HOST. Idle HTTP
+ * sessions are closed after FACTORIAL_HTTP_SESSION_TIMEOUT minutes.
+ */
+export function getServerOptions(argv: string[] = process.argv.slice(2)): ServerOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+    },
+    strict: false,
+  });
+
+  const transport = String(values.transport ?? process.env.FACTORIAL_TRANSPORT ?? 'stdio');
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new ConfigurationError(`Unknown transport "${transport}". Use "stdio" or "http".`);
+  }
+
+  const rawPort = String(values.port ?? process.env.FACTORIAL_HTTP_PORT ?? DEFAULT_HTTP_PORT);
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigurationError(`Invalid HTTP port "${rawPort}".`);
+  }
+
+  const rawTimeout =
+    process.env.FACTORIAL_HTTP_SESSION_TIMEOUT ?? String(DEFAULT_HTTP_SESSION_TIMEOUT_MINUTES);
+  const timeout = Number(rawTimeout);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new ConfigurationError(`Invalid FACTORIAL_HTTP_SESSION_TIMEOUT "${rawTimeout}".`);
+  }
+
+  return {
+    transport,
+    port,
+    host: String(values.host ?? process.env.FACTORIAL_HTTP_HOST ?? DEFAULT_HTTP_HOST),
+    sessionIdleTimeoutMs: timeout * 60 * 1000,
+  };
+}
+
+/**
+ * Get the write mode of the server from FACTORIAL_MODE
+ *
+ * @throws ConfigurationError if the mode is unknown
+ */
+export function getServerMode(): ServerMode {
+  const mode = process.env.FACTORIAL_MODE || 'readwrite';
+  if (mode !== 'readwrite' && mode !== 'readonly' && mode !== 'dry-run') {
+    throw new ConfigurationError(
+      `Unknown FACTORIAL_MODE "${mode}". Use "readwrite", "readonly" or "dry-run".`
+    );
+  }
+  return mode;
+}
+
+/**
+ * Get the bearer tokens accepted by the HTTP transport
+ *
+ * FACTORIAL_HTTP_AUTH_TOKENS is a comma-separated list of `token` or
+ * `client:token` entries; the client name is recorded as the audit actor.
+ */
+export function getHttpAuthTokens(): HttpAuthToken[] {
+  return (process.env.FACTORIAL_HTTP_AUTH_TOKENS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { client: entry.slice(0, separator), token: entry.slice(separator + 1) }
+        : { token: entry };
+    });
+}
+
+/**
+ * Get the actor recorded on audit entries
+ *
+ * Uses the authenticated HTTP client when there is one, then FACTORIAL_AUDIT_ACTOR,
+ * otherwise the operating system user.
+ */
+export function getAuditActor(): string | undefined {
+  const client = getSessionContext()?.client;
+  if (client) {
+    return client;
+  }
+  if (process.env.FACTORIAL_AUDIT_ACTOR) {
+    return process.env.FACTORIAL_AUDIT_ACTOR;
+  }
+  try {
+    return userInfo().username;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Check if debug mode is enabled
  */
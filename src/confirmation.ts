@@ -7,6 +7,8 @@
  */
 
 import { randomBytes } from 'crypto';
+import { getActiveCompany } from './config.js';
+import { getSessionContext } from './context.js';
 import { ConfirmationExpiredError } from './errors.js';
 
 /**
@@ -19,8 +21,14 @@ export interface PendingOperation {
   operation: string;
   /** The original payload for the operation */
   payload: Record<string, unknown>;
+  /** Company profile active when the operation was previewed */
+  company?: string;
+  /** HTTP session that previewed the operation (undefined for stdio) */
+  session?: string;
   /** Preview information shown to the user */
   preview: OperationPreview;
+  /** What the preview was built from (e.g. a plan), to run as is once confirmed */
+  previewed?: unknown;
   /** When the confirmation was created */
   createdAt: number;
   /** When the confirmation expires */
@@ -32,7 +40,15 @@ export interface PendingOperation {
  */
 export interface OperationPreview {
   /** Type of operation */
-  operation: 'create' | 'update' | 'delete' | 'terminate' | 'approve' | 'reject' | 'archive';
+  operation:
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'terminate'
+    | 'approve'
+    | 'reject'
+    | 'archive'
+    | 'cancel';
   /** Type of entity being affected */
   entityType: string;
   /** ID of the entity (if applicable) */
@@ -41,6 +57,8 @@ export interface OperationPreview {
   entityName?: string;
   /** Changes that will be made */
   changes?: Record<string, { from?: unknown; to: unknown }>;
+  /** Steps of a multi-step operation, in the order they run */
+  steps?: string[];
   /** Warnings about the operation */
   warnings: string[];
   /** The confirmation token to use */
@@ -70,12 +88,14 @@ class ConfirmationManager {
    * @param operation - Name of the operation
    * @param payload - The operation payload
    * @param preview - Preview information to show the user
+   * @param previewed - What the preview was built from, returned on confirm
    * @returns The confirmation token
    */
   createConfirmation(
     operation: string,
     payload: Record<string, unknown>,
-    preview: Omit<OperationPreview, 'confirmationToken' | 'expiresAt'>
+    preview: Omit<OperationPreview, 'confirmationToken' | 'expiresAt'>,
+    previewed?: unknown
   ): string {
     // Clean up expired tokens first
     this.cleanup();
@@ -88,11 +108,14 @@ class ConfirmationManager {
       token,
       operation,
       payload,
+      company: getActiveCompany(),
+      session: getSessionContext()?.sessionId,
       preview: {
         ...preview,
         confirmationToken: token,
         expiresAt: new Date(expiresAt).toISOString(),
       },
+      previewed,
       createdAt: now,
       expiresAt,
     };
@@ -106,13 +129,16 @@ class ConfirmationManager {
    * Confirm and retrieve a pending operation
    *
    * @param token - The confirmation token
+   * Only the session that previewed the operation can confirm it. A token
+   * from another session is refused as invalid and stays pending.
+   *
    * @returns The pending operation if valid
-   * @throws ConfirmationExpiredError if token is invalid or expired
+   * @throws ConfirmationExpiredError if token is invalid, expired or from another session
    */
   confirm(token: string): PendingOperation {
     const pending = this.pending.get(token);
 
-    if (!pending) {
+    if (!pending || pending.session !== getSessionContext()?.sessionId) {
       throw new ConfirmationExpiredError();
     }
 
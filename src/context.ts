@@ -0,0 +1,69 @@
+/**
+ * Per-session request context for MCP FactorialHR
+ *
+ * The HTTP transport serves several clients from one process. Each request is
+ * handled inside the context of its session, so code deep in the call stack
+ * (e.g., audit logging) can tell which client it is acting for, and which
+ * company its requests are routed to.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * State of the client session a request belongs to
+ */
+export interface SessionContext {
+  /** MCP session ID (assigned once the session is initialized) */
+  sessionId?: string;
+  /** Authenticated client name, if the bearer token has one */
+  client?: string;
+  /** Transport the session is connected through */
+  transport: 'stdio' | 'streamable-http' | 'sse';
+  /** Company profile selected by the client */
+  company?: string;
+}
+
+const storage = new AsyncLocalStorage<SessionContext>();
+
+/** Company selected outside of a session (the single stdio client) */
+let processCompany: string | undefined;
+
+/**
+ * Run a function within a session context
+ */
+export function runWithSession<T>(context: SessionContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the session context of the current request
+ *
+ * @returns The context, or undefined outside of a session (e.g., stdio)
+ */
+export function getSessionContext(): SessionContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Select the company profile for the current session
+ *
+ * Outside of a session (stdio) the selection applies to the whole process.
+ */
+export function selectCompany(company: string): void {
+  const session = storage.getStore();
+  if (session) {
+    session.company = company;
+  } else {
+    processCompany = company;
+  }
+}
+
+/**
+ * Get the company profile selected for the current session
+ *
+ * @returns The company, or undefined if none was selected
+ */
+export function getSelectedCompany(): string | undefined {
+  const session = storage.getStore();
+  return session ? session.company : processCompany;
+}
@@ -0,0 +1,422 @@
+/**
+ * Full-text index of document content for MCP FactorialHR
+ *
+ * An in-memory inverted index of the text extracted from documents, so all of
+ * them can be searched for a clause or a certification. The index is updated
+ * incrementally: a document is only downloaded again when its `updated_at`
+ * changes, and documents that no longer exist are dropped on a full sync.
+ *
+ * Results are ranked with BM25 and come with a snippet of the best matching
+ * chunk. The index is kept per company and is rebuilt after a restart.
+ */
+
+import { listDocuments } from './api.js';
+import { debug, getActiveCompany } from './config.js';
+import { extractDocumentContent, type DocumentChunk } from './documents.js';
+import { isRetryableError } from './errors.js';
+import { fetchAllPages } from './pagination.js';
+import type { Document } from './schemas.js';
+
+/**
+ * Most documents downloaded by a single sync; later calls continue from there
+ */
+export const MAX_DOCUMENTS_PER_SYNC = 100;
+
+/**
+ * BM25 parameters
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Characters of context kept before and after a match in snippets
+ */
+const SNIPPET_BEFORE = 80;
+const SNIPPET_AFTER = 160;
+
+/**
+ * A document in the index
+ */
+interface IndexedDocument {
+  id: number;
+  name: string | null;
+  folder_id: number | null;
+  employee_id: number | null;
+  created_at: string | null;
+  updated_at: string | null;
+  chunks: DocumentChunk[];
+  /** Frequency of each term in the document */
+  terms: Map<string, number>;
+  /** Number of terms in the document */
+  length: number;
+}
+
+/**
+ * Index of the documents of one company
+ */
+interface CompanyIndex {
+  documents: Map<number, IndexedDocument>;
+  /** Documents containing each term */
+  postings: Map<string, Set<number>>;
+  totalLength: number;
+}
+
+/**
+ * Documents a sync or search is limited to
+ */
+export interface DocumentScope {
+  folder_id?: number;
+  employee_ids?: number[];
+}
+
+/**
+ * Search filters, on top of the scope
+ */
+export interface DocumentSearchFilters extends DocumentScope {
+  /** Only documents created on or after this date (YYYY-MM-DD) */
+  created_from?: string;
+  /** Only documents created on or before this date (YYYY-MM-DD) */
+  created_to?: string;
+}
+
+/**
+ * Outcome of a sync
+ */
+export interface DocumentIndexSync {
+  /** Documents downloaded and indexed */
+  indexed: number;
+  /** Documents already indexed at their current version */
+  unchanged: number;
+  /** Documents without extractable text (images, unsupported types, no file) */
+  skipped: number;
+  /** Documents that could not be downloaded (retried on the next sync) */
+  failed: number;
+  /** Documents left for the next sync */
+  pending: number;
+  /** Documents dropped because they no longer exist */
+  removed: number;
+}
+
+/**
+ * A search result
+ */
+export interface DocumentSearchHit {
+  document_id: number;
+  name: string | null;
+  employee_id: number | null;
+  folder_id: number | null;
+  created_at: string | null;
+  /** Page of the snippet (PDF and DOCX only) */
+  page?: number;
+  score: number;
+  snippet: string;
+}
+
+/**
+ * Lowercase a text and strip its diacritics
+ */
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Split a text into searchable terms
+ */
+export function tokenize(text: string): string[] {
+  return fold(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length >= 2);
+}
+
+/**
+ * Fold a text character by character, keeping the original position of each
+ * folded character so matches can be mapped back for snippets
+ */
+function foldWithPositions(text: string): { folded: string; positions: number[] } {
+  let folded = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = fold(text[i]);
+    folded += char;
+    for (let j = 0; j < char.length; j++) positions.push(i);
+  }
+  return { folded, positions };
+}
+
+/**
+ * Build a snippet of a chunk around the first match of any term or phrase
+ */
+function buildSnippet(text: string, terms: string[]): string {
+  const { folded, positions } = foldWithPositions(text);
+  const matches = terms
+    .map(term => {
+      const pattern = term.split(' ').join('[^\\p{L}\\p{N}]+');
+      return new RegExp(`(?<![\\p{L}\\p{N}])${pattern}`, 'u').exec(folded)?.index;
+    })
+    .filter((index): index is number => index !== undefined);
+  const match = matches.length > 0 ? positions[Math.min(...matches)] : 0;
+
+  // Cut at word boundaries around the match
+  let start = Math.max(0, match - SNIPPET_BEFORE);
+  let end = Math.min(text.length, match + SNIPPET_AFTER);
+  const nextSpace = text.indexOf(' ', start);
+  if (start > 0 && nextSpace >= 0 && nextSpace < match) start = nextSpace + 1;
+  const lastSpace = text.lastIndexOf(' ', end);
+  if (end < text.length && lastSpace > match) end = lastSpace;
+
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Parse a query into terms and quoted phrases
+ */
+function parseQuery(query: string): { terms: string[]; phrases: string[] } {
+  const phrases = [...query.matchAll(/"([^"]+)"/g)]
+    .map(match => tokenize(match[1]).join(' '))
+    .filter(Boolean);
+  return { terms: [...new Set(tokenize(query))], phrases };
+}
+
+/**
+ * In-memory inverted index of document text, partitioned per company
+ */
+export class DocumentIndex {
+  private companies = new Map<string, CompanyIndex>();
+
+  private current(): CompanyIndex {
+    const key = getActiveCompany() ?? '';
+    let index = this.companies.get(key);
+    if (!index) {
+      index = { documents: new Map(), postings: new Map(), totalLength: 0 };
+      this.companies.set(key, index);
+    }
+    return index;
+  }
+
+  /**
+   * Number of documents in the index of the current company
+   */
+  get size(): number {
+    return this.current().documents.size;
+  }
+
+  /**
+   * Add or replace a document
+   */
+  add(document: Document, chunks: DocumentChunk[]): void {
+    this.remove(document.id);
+    const index = this.current();
+
+    const terms = new Map<string, number>();
+    let length = 0;
+    for (const chunk of chunks) {
+      for (const term of tokenize(chunk.text)) {
+        terms.set(term, (terms.get(term) ?? 0) + 1);
+        length++;
+      }
+    }
+
+    index.documents.set(document.id, {
+      id: document.id,
+      name: document.name,
+      folder_id: document.folder_id,
+      employee_id: document.employee_id,
+      created_at: document.created_at,
+      updated_at: document.updated_at,
+      chunks,
+      terms,
+      length,
+    });
+    for (const term of terms.keys()) {
+      let postings = index.postings.get(term);
+      if (!postings) {
+        postings = new Set();
+        index.postings.set(term, postings);
+      }
+      postings.add(document.id);
+    }
+    index.totalLength += length;
+  }
+
+  /**
+   * Remove a document
+   */
+  remove(id: number): void {
+    const index = this.current();
+    const document = index.documents.get(id);
+    if (!document) {
+      return;
+    }
+    for (const term of document.terms.keys()) {
+      const postings = index.postings.get(term);
+      postings?.delete(id);
+      if (postings?.size === 0) {
+        index.postings.delete(term);
+      }
+    }
+    index.totalLength -= document.length;
+    index.documents.delete(id);
+  }
+
+  /**
+   * Remove every document of the current company
+   */
+  clear(): void {
+    this.companies.delete(getActiveCompany() ?? '');
+  }
+
+  /**
+   * Bring the index up to date with the documents in scope
+   *
+   * Only new and changed documents are downloaded, at most `maxDocuments` per
+   * call. Documents that no longer exist are dropped when the scope is empty
+   * (a full sync).
+   */
+  async sync(
+    scope: DocumentScope = {},
+    maxDocuments: number = MAX_DOCUMENTS_PER_SYNC
+  ): Promise<DocumentIndexSync> {
+    const result: DocumentIndexSync = {
+      indexed: 0,
+      unchanged: 0,
+      skipped: 0,
+      failed: 0,
+      pending: 0,
+      removed: 0,
+    };
+    if (scope.employee_ids?.length === 0) {
+      return result;
+    }
+
+    // Every page: a full sync drops the documents missing from the list
+    const documents = await fetchAllPages(
+      params => listDocuments({ ...scope, ...params }),
+      Number.POSITIVE_INFINITY
+    );
+
+    const index = this.current();
+    for (const document of documents) {
+      const existing = index.documents.get(document.id);
+      if (existing && document.updated_at && existing.updated_at === document.updated_at) {
+        result.unchanged++;
+        continue;
+      }
+      if (result.indexed + result.skipped + result.failed >= maxDocuments) {
+        result.pending++;
+        continue;
+      }
+
+      try {
+        const content = await extractDocumentContent(document);
+        this.add(document, content.kind === 'text' ? content.chunks : []);
+        if (content.kind === 'text' && content.chunks.length > 0) {
+          result.indexed++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        if (isRetryableError(error)) {
+          result.failed++;
+        } else {
+          // Kept without text, so it is not downloaded again until it changes
+          this.add(document, []);
+          result.skipped++;
+        }
+        debug(`Could not index document ${document.id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (scope.folder_id === undefined && scope.employee_ids === undefined) {
+      const listed = new Set(documents.map(document => document.id));
+      for (const id of [...index.documents.keys()]) {
+        if (!listed.has(id)) {
+          this.remove(id);
+          result.removed++;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Search indexed documents
+   *
+   * All terms of the query must appear in a document, and quoted phrases must
+   * appear as written (ignoring case and accents).
+   *
+   * @returns Matching documents, best first
+   */
+  search(query: string, filters: DocumentSearchFilters = {}, limit = 10): DocumentSearchHit[] {
+    const { terms, phrases } = parseQuery(query);
+    if (terms.length === 0) {
+      throw new Error('The query must contain at least one word of 2 or more characters.');
+    }
+
+    const index = this.current();
+    const [rarest, ...others] = terms
+      .map(term => index.postings.get(term) ?? new Set<number>())
+      .sort((a, b) => a.size - b.size);
+    const employeeIds = filters.employee_ids ? new Set(filters.employee_ids) : undefined;
+    const averageLength = index.totalLength / Math.max(1, index.documents.size);
+
+    const hits: DocumentSearchHit[] = [];
+    for (const id of rarest) {
+      const document = index.documents.get(id);
+      if (!document || others.some(postings => !postings.has(id))) continue;
+      if (filters.folder_id !== undefined && document.folder_id !== filters.folder_id) continue;
+      if (employeeIds && !employeeIds.has(document.employee_id ?? -1)) continue;
+      const created = document.created_at?.slice(0, 10);
+      if (filters.created_from && (!created || created < filters.created_from)) continue;
+      if (filters.created_to && (!created || created > filters.created_to)) continue;
+
+      const chunkTerms = document.chunks.map(chunk => tokenize(chunk.text).join(' '));
+      if (phrases.some(phrase => !chunkTerms.some(text => ` ${text} `.includes(` ${phrase} `)))) {
+        continue;
+      }
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = document.terms.get(term) ?? 0;
+        const documentFrequency = index.postings.get(term)?.size ?? 0;
+        const idf = Math.log(
+          1 + (index.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5)
+        );
+        score +=
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength));
+      }
+
+      // Snippet from the chunk with a phrase, or else the most query terms
+      const best = document.chunks
+        .map((chunk, i) => ({
+          chunk,
+          weight:
+            phrases.filter(phrase => ` ${chunkTerms[i]} `.includes(` ${phrase} `)).length * 1000 +
+            tokenize(chunk.text).filter(term => terms.includes(term)).length,
+        }))
+        .reduce((a, b) => (b.weight > a.weight ? b : a));
+
+      hits.push({
+        document_id: document.id,
+        name: document.name,
+        employee_id: document.employee_id,
+        folder_id: document.folder_id,
+        created_at: document.created_at,
+        page: best.chunk.page,
+        score: Math.round(score * 1000) / 1000,
+        snippet: buildSnippet(best.chunk.text, phrases.length > 0 ? phrases : terms),
+      });
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+/**
+ * Shared document index
+ */
+export const documentIndex = new DocumentIndex();
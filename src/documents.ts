@@ -0,0 +1,312 @@
+/**
+ * Document files for MCP FactorialHR
+ *
+ * Prepares files for upload: a local file (only from FACTORIAL_UPLOAD_DIR) or a
+ * base64 payload, with its mime type inferred from the file name when not
+ * given. Name, mime type and size are checked against DocumentFileSchema before
+ * anything is sent.
+ *
+ * Also reads the content of stored documents: the file is downloaded, its text
+ * extracted and split into chunks with page numbers (images are returned as
+ * is). Extracted content is cached until the document changes.
+ */
+
+import { readFileSync, realpathSync, statSync } from 'fs';
+import { basename, extname, relative, isAbsolute, resolve } from 'path';
+import { getDocument } from './api.js';
+import { cached, CACHE_TTL } from './cache.js';
+import { getUploadDir } from './config.js';
+import { ConfigurationError } from './errors.js';
+import { fetchFile, type UploadFile } from './http-client.js';
+import { DocumentFileSchema, MAX_DOCUMENT_SIZE_BYTES, type Document } from './schemas.js';
+import { extractDocxPages, extractPdfPages } from './text-extraction.js';
+
+/**
+ * Mime types by file extension
+ */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Source of an uploaded document
+ */
+export interface DocumentFileSource {
+  /** Path of a local file, inside FACTORIAL_UPLOAD_DIR */
+  file_path?: string;
+  /** File content encoded as base64 */
+  content_base64?: string;
+  /** File name (defaults to the local file's name) */
+  file_name?: string;
+  /** Mime type (inferred from the file name when omitted) */
+  mime_type?: string;
+}
+
+/**
+ * Infer the mime type of a file from its extension
+ */
+export function inferMimeType(fileName: string): string | undefined {
+  return MIME_TYPES_BY_EXTENSION[extname(fileName).toLowerCase()];
+}
+
+/**
+ * Resolve a local file path, refusing paths outside the upload directory
+ *
+ * @throws ConfigurationError if uploads from disk are not enabled
+ */
+function resolveUploadPath(filePath: string): string {
+  const uploadDir = getUploadDir();
+  if (!uploadDir) {
+    throw new ConfigurationError(
+      'Uploading local files is disabled. Set FACTORIAL_UPLOAD_DIR or send the content as base64.'
+    );
+  }
+
+  let path: string;
+  let root: string;
+  try {
+    root = realpathSync(uploadDir);
+    path = realpathSync(resolve(root, filePath));
+  } catch {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const relativePath = relative(root, path);
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new Error(`File ${filePath} is outside the upload directory ${uploadDir}.`);
+  }
+  return path;
+}
+
+/**
+ * Load and validate the file of a document upload
+ *
+ * @throws Error if the source is incomplete or the file is not an accepted document
+ */
+export function loadDocumentFile(source: DocumentFileSource): UploadFile {
+  if (Boolean(source.file_path) === Boolean(source.content_base64)) {
+    throw new Error('Provide either file_path or content_base64.');
+  }
+
+  let name = source.file_name;
+  let content: Buffer;
+  if (source.file_path) {
+    const path = resolveUploadPath(source.file_path);
+    const size = statSync(path).size;
+    if (size > MAX_DOCUMENT_SIZE_BYTES) {
+      throw new Error(`File is too large (${size} bytes, max ${MAX_DOCUMENT_SIZE_BYTES}).`);
+    }
+    content = readFileSync(path);
+    name ??= basename(path);
+  } else {
+    if (!name) {
+      throw new Error('file_name is required with content_base64.');
+    }
+    content = Buffer.from(source.content_base64 ?? '', 'base64');
+  }
+
+  const parsed = DocumentFileSchema.safeParse({
+    name,
+    mime_type: source.mime_type ?? inferMimeType(name),
+    size_bytes: content.length,
+  });
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid document file: ${issues}`);
+  }
+
+  return {
+    field: 'file',
+    name: parsed.data.name,
+    mimeType: parsed.data.mime_type,
+    content,
+  };
+}
+
+// ============================================================================
+// Document content
+// ============================================================================
+
+/**
+ * Largest image returned as image content (5 MB)
+ */
+export const MAX_IMAGE_CONTENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Target size of a text chunk, in characters
+ */
+export const DOCUMENT_CHUNK_SIZE = 4000;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+/**
+ * A chunk of extracted document text
+ */
+export interface DocumentChunk {
+  index: number;
+  /** Page the chunk comes from (PDF and DOCX only) */
+  page?: number;
+  text: string;
+}
+
+/**
+ * Content of a document: extracted text chunks, or an image
+ */
+export type DocumentContent =
+  | {
+      kind: 'text';
+      document_id: number;
+      name: string | null;
+      mime_type: string;
+      page_count?: number;
+      chunks: DocumentChunk[];
+    }
+  | {
+      kind: 'image';
+      document_id: number;
+      name: string | null;
+      mime_type: string;
+      /** Image data encoded as base64 */
+      data: string;
+    };
+
+/**
+ * Recognize PDF and image files from their first bytes
+ */
+function sniffMimeType(content: Buffer): string | undefined {
+  if (content.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (content.subarray(0, 4).toString('hex') === '89504e47') return 'image/png';
+  if (content.subarray(0, 3).toString('hex') === 'ffd8ff') return 'image/jpeg';
+  return undefined;
+}
+
+/**
+ * Split text into chunks of about `size` characters, at line breaks when possible
+ */
+export function chunkText(text: string, size: number = DOCUMENT_CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += size) {
+      const piece = line.slice(start, start + size);
+      if (current && current.length + piece.length + 1 > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) {
+    chunks.push(current);
+  }
+  return chunks.map(chunk => chunk.trim()).filter(Boolean);
+}
+
+/**
+ * Split extracted pages into numbered chunks
+ *
+ * @param pages - Text of each page, or a single text without pages
+ */
+export function chunkPages(pages: string[] | string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  if (typeof pages === 'string') {
+    for (const text of chunkText(pages)) {
+      chunks.push({ index: chunks.length, text });
+    }
+    return chunks;
+  }
+  pages.forEach((pageText, i) => {
+    for (const text of chunkText(pageText)) {
+      chunks.push({ index: chunks.length, page: i + 1, text });
+    }
+  });
+  return chunks;
+}
+
+/**
+ * Download a document and extract its content
+ *
+ * @throws Error if the document has no file, is too large, or its type is not supported
+ */
+export async function readDocumentContent(id: number): Promise<DocumentContent> {
+  return extractDocumentContent(await getDocument(id));
+}
+
+/**
+ * Download the file of a document and extract its content
+ *
+ * @param document - Document metadata, as returned by the API
+ * @throws Error if the document has no file, is too large, or its type is not supported
+ */
+export async function extractDocumentContent(document: Document): Promise<DocumentContent> {
+  const id = document.id;
+  if (!document.file_url) {
+    throw new Error(`Document ${id} has no file to read.`);
+  }
+  if (document.size_bytes && document.size_bytes > MAX_DOCUMENT_SIZE_BYTES) {
+    throw new Error(
+      `Document ${id} is too large to read (${document.size_bytes} bytes, max ${MAX_DOCUMENT_SIZE_BYTES}).`
+    );
+  }
+
+  const fileUrl = document.file_url;
+  return cached(
+    `document-content:${id}:${document.updated_at}`,
+    async () => {
+      const file = await fetchFile(fileUrl, { maxBytes: MAX_DOCUMENT_SIZE_BYTES });
+      const mimeType =
+        document.mime_type ??
+        inferMimeType(document.name ?? '') ??
+        sniffMimeType(file.content) ??
+        file.mimeType ??
+        'application/octet-stream';
+      const base = { document_id: id, name: document.name, mime_type: mimeType };
+
+      if (IMAGE_MIME_TYPES.includes(mimeType)) {
+        if (file.content.length > MAX_IMAGE_CONTENT_BYTES) {
+          throw new Error(
+            `Image is too large to return (${file.content.length} bytes, max ${MAX_IMAGE_CONTENT_BYTES}).`
+          );
+        }
+        return { kind: 'image', ...base, data: file.content.toString('base64') };
+      }
+
+      let pages: string[] | string;
+      if (mimeType === 'application/pdf') {
+        pages = extractPdfPages(file.content);
+      } else if (mimeType === DOCX_MIME_TYPE) {
+        pages = extractDocxPages(file.content);
+      } else if (mimeType.startsWith('text/')) {
+        pages = file.content.toString('utf8');
+      } else {
+        throw new Error(
+          `Cannot read the content of ${mimeType} documents. PDF, DOCX, text and image documents are supported.`
+        );
+      }
+
+      return {
+        kind: 'text',
+        ...base,
+        page_count: typeof pages === 'string' ? undefined : pages.length,
+        chunks: chunkPages(pages),
+      };
+    },
+    CACHE_TTL.documents
+  );
+}
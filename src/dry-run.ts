@@ -0,0 +1,235 @@
+/**
+ * Dry-run support for write operations
+ *
+ * In dry-run mode (FACTORIAL_MODE=dry-run) write requests are not sent.
+ * The HTTP client builds the request it would have sent instead, validates its
+ * body against the matching write input schema, and records it so the tool
+ * can report it.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ZodTypeAny } from 'zod';
+import { ENDPOINTS } from './endpoints.js';
+import type { HttpMethod, UploadFile } from './http-client.js';
+import {
+  AssignProjectWorkerInputSchema,
+  CreateApplicationInputSchema,
+  CreateCandidateInputSchema,
+  CreateEmployeeInputSchema,
+  CreateJobPostingInputSchema,
+  CreateLeaveInputSchema,
+  CreateLocationInputSchema,
+  CreateProjectInputSchema,
+  CreateProjectTaskInputSchema,
+  CreateShiftInputSchema,
+  CreateTeamInputSchema,
+  CreateTimeRecordInputSchema,
+  CreateTrainingInputSchema,
+  CreateTrainingSessionInputSchema,
+  CreateWorkAreaInputSchema,
+  EnrollTrainingInputSchema,
+  LeaveDecisionInputSchema,
+  RejectApplicationInputSchema,
+  UpdateApplicationInputSchema,
+  UpdateCandidateInputSchema,
+  UpdateEmployeeInputSchema,
+  UpdateJobPostingInputSchema,
+  UpdateLeaveInputSchema,
+  UpdateLocationInputSchema,
+  UpdateProjectInputSchema,
+  UpdateProjectTaskInputSchema,
+  UpdateShiftInputSchema,
+  UpdateTeamInputSchema,
+  UpdateTimeRecordInputSchema,
+  UpdateTrainingInputSchema,
+  UpdateTrainingSessionInputSchema,
+  UpdateWorkAreaInputSchema,
+  UpdateDocumentInputSchema,
+  UploadDocumentInputSchema,
+} from './schemas.js';
+
+/**
+ * A write request that was not sent because of dry-run mode
+ */
+export interface DryRunRequest {
+  dryRun: true;
+  method: HttpMethod;
+  url: string;
+  body?: Record<string, unknown>;
+  /** File that would have been uploaded (multipart requests) */
+  file?: { field: string; name: string; mimeType: string; sizeBytes: number };
+  validation: {
+    /** Name of the input schema the body was checked against (if any) */
+    schema?: string;
+    valid: boolean;
+    errors?: string[];
+  };
+}
+
+/**
+ * Input schemas of the write endpoints, by collection endpoint
+ */
+interface EndpointSchemas {
+  create?: [string, ZodTypeAny];
+  update?: [string, ZodTypeAny];
+  actions?: Record<string, [string, ZodTypeAny]>;
+}
+
+const WRITE_INPUT_SCHEMAS: Record<string, EndpointSchemas> = {
+  [ENDPOINTS.employees]: {
+    create: ['CreateEmployeeInputSchema', CreateEmployeeInputSchema],
+    update: ['UpdateEmployeeInputSchema', UpdateEmployeeInputSchema],
+  },
+  [ENDPOINTS.teams]: {
+    create: ['CreateTeamInputSchema', CreateTeamInputSchema],
+    update: ['UpdateTeamInputSchema', UpdateTeamInputSchema],
+  },
+  [ENDPOINTS.locations]: {
+    create: ['CreateLocationInputSchema', CreateLocationInputSchema],
+    update: ['UpdateLocationInputSchema', UpdateLocationInputSchema],
+  },
+  [ENDPOINTS.workAreas]: {
+    create: ['CreateWorkAreaInputSchema', CreateWorkAreaInputSchema],
+    update: ['UpdateWorkAreaInputSchema', UpdateWorkAreaInputSchema],
+  },
+  [ENDPOINTS.leaves]: {
+    create: ['CreateLeaveInputSchema', CreateLeaveInputSchema],
+    update: ['UpdateLeaveInputSchema', UpdateLeaveInputSchema],
+    actions: {
+      approve: ['LeaveDecisionInputSchema', LeaveDecisionInputSchema],
+      reject: ['LeaveDecisionInputSchema', LeaveDecisionInputSchema],
+    },
+  },
+  [ENDPOINTS.shifts]: {
+    create: ['CreateShiftInputSchema', CreateShiftInputSchema],
+    update: ['UpdateShiftInputSchema', UpdateShiftInputSchema],
+  },
+  [ENDPOINTS.projects]: {
+    create: ['CreateProjectInputSchema', CreateProjectInputSchema],
+    update: ['UpdateProjectInputSchema', UpdateProjectInputSchema],
+  },
+  [ENDPOINTS.projectTasks]: {
+    create: ['CreateProjectTaskInputSchema', CreateProjectTaskInputSchema],
+    update: ['UpdateProjectTaskInputSchema', UpdateProjectTaskInputSchema],
+  },
+  [ENDPOINTS.projectWorkers]: {
+    create: ['AssignProjectWorkerInputSchema', AssignProjectWorkerInputSchema],
+  },
+  [ENDPOINTS.timeRecords]: {
+    create: ['CreateTimeRecordInputSchema', CreateTimeRecordInputSchema],
+    update: ['UpdateTimeRecordInputSchema', UpdateTimeRecordInputSchema],
+  },
+  [ENDPOINTS.trainings]: {
+    create: ['CreateTrainingInputSchema', CreateTrainingInputSchema],
+    update: ['UpdateTrainingInputSchema', UpdateTrainingInputSchema],
+  },
+  [ENDPOINTS.trainingSessions]: {
+    create: ['CreateTrainingSessionInputSchema', CreateTrainingSessionInputSchema],
+    update: ['UpdateTrainingSessionInputSchema', UpdateTrainingSessionInputSchema],
+  },
+  [ENDPOINTS.trainingMemberships]: {
+    create: ['EnrollTrainingInputSchema', EnrollTrainingInputSchema],
+  },
+  [ENDPOINTS.jobPostings]: {
+    create: ['CreateJobPostingInputSchema', CreateJobPostingInputSchema],
+    update: ['UpdateJobPostingInputSchema', UpdateJobPostingInputSchema],
+  },
+  [ENDPOINTS.candidates]: {
+    create: ['CreateCandidateInputSchema', CreateCandidateInputSchema],
+    update: ['UpdateCandidateInputSchema', UpdateCandidateInputSchema],
+  },
+  [ENDPOINTS.documents]: {
+    create: ['UploadDocumentInputSchema', UploadDocumentInputSchema],
+    update: ['UpdateDocumentInputSchema', UpdateDocumentInputSchema],
+  },
+  [ENDPOINTS.applications]: {
+    create: ['CreateApplicationInputSchema', CreateApplicationInputSchema],
+    update: ['UpdateApplicationInputSchema', UpdateApplicationInputSchema],
+    actions: {
+      reject: ['RejectApplicationInputSchema', RejectApplicationInputSchema],
+    },
+  },
+};
+
+/**
+ * Find the input schema for a write request
+ *
+ * POST to a collection uses its create schema, PUT/PATCH to `/:id` its update
+ * schema, and POST to `/:id/:action` the schema of that action.
+ */
+function findInputSchema(method: HttpMethod, endpoint: string): [string, ZodTypeAny] | undefined {
+  const match = /^(.*?)(?:\/(\d+)(?:\/([a-z_]+))?)?$/.exec(endpoint);
+  const schemas = match ? WRITE_INPUT_SCHEMAS[match[1]] : undefined;
+  if (!match || !schemas) {
+    return undefined;
+  }
+
+  const [, , id, action] = match;
+  if (action) {
+    return method === 'POST' ? schemas.actions?.[action] : undefined;
+  }
+  if (id) {
+    return method === 'PUT' || method === 'PATCH' ? schemas.update : undefined;
+  }
+  return method === 'POST' ? schemas.create : undefined;
+}
+
+/**
+ * Build the dry-run record of a write request, validating its body
+ */
+export function buildDryRunRequest(
+  method: HttpMethod,
+  endpoint: string,
+  url: string,
+  body?: Record<string, unknown>,
+  file?: UploadFile
+): DryRunRequest {
+  const request: DryRunRequest = { dryRun: true, method, url, body, validation: { valid: true } };
+  if (file) {
+    request.file = {
+      field: file.field,
+      name: file.name,
+      mimeType: file.mimeType,
+      sizeBytes: file.content.length,
+    };
+  }
+
+  const schema = findInputSchema(method, endpoint);
+  if (schema) {
+    const [name, zodSchema] = schema;
+    const result = zodSchema.safeParse(body ?? {});
+    request.validation = result.success
+      ? { schema: name, valid: true }
+      : {
+          schema: name,
+          valid: false,
+          errors: result.error.issues.map(
+            issue => `${issue.path.join('.') || 'body'}: ${issue.message}`
+          ),
+        };
+  }
+
+  return request;
+}
+
+const collector = new AsyncLocalStorage<DryRunRequest[]>();
+
+/**
+ * Record a dry-run request for the operation currently being collected
+ */
+export function recordDryRunRequest(request: DryRunRequest): void {
+  collector.getStore()?.push(request);
+}
+
+/**
+ * Run an operation and collect the write requests it would have sent
+ *
+ * @returns The operation result and the collected requests, in order
+ */
+export async function collectDryRunRequests<T>(
+  operation: () => Promise<T>
+): Promise<{ result: T; requests: DryRunRequest[] }> {
+  const requests: DryRunRequest[] = [];
+  const result = await collector.run(requests, operation);
+  return { result, requests };
+}
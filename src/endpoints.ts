@@ -27,6 +27,9 @@ export const ENDPOINTS = {
   leaveTypes: '/timeoff/leave-types',
   allowances: '/timeoff/allowances',
 
+  // Holiday endpoints
+  companyHolidays: '/holidays/company_holidays',
+
   // Attendance endpoints
   shifts: '/attendance/shifts',
 
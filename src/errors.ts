@@ -323,6 +323,124 @@ export class ConfirmationExpiredError extends FactorialError {
   }
 }
 
+/**
+ * Confirmation token was issued for a different operation or payload
+ */
+export class ConfirmationMismatchError extends FactorialError {
+  public readonly operation: string;
+
+  constructor(operation: string, detail: string) {
+    super(
+      `Confirmation token does not match this "${operation}" request: ${detail}. ` +
+        'Request a new preview and confirm it without changing the arguments.',
+      { isRetryable: false }
+    );
+    this.name = 'ConfirmationMismatchError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Audited operation cannot be reverted
+ */
+export class RevertError extends FactorialError {
+  public readonly auditEntryId: string;
+
+  constructor(auditEntryId: string, reason: string) {
+    super(`Cannot revert audit entry "${auditEntryId}": ${reason}`, { isRetryable: false });
+    this.name = 'RevertError';
+    this.auditEntryId = auditEntryId;
+  }
+}
+
+/**
+ * Write request attempted while the server runs in readonly mode
+ */
+export class ReadOnlyModeError extends FactorialError {
+  public readonly endpoint: string;
+
+  constructor(method: string, endpoint: string) {
+    super(
+      `The server is running in readonly mode (FACTORIAL_MODE=readonly); ${method} ${endpoint} was not sent.`,
+      { isRetryable: false }
+    );
+    this.name = 'ReadOnlyModeError';
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Tool not allowed by the permission profile of the client
+ */
+export class PermissionDeniedError extends FactorialError {
+  public readonly toolName: string;
+  public readonly role: string;
+
+  constructor(toolName: string, role: string, reason: string) {
+    super(`Permission denied: role "${role}" cannot use "${toolName}" (${reason}).`, {
+      isRetryable: false,
+    });
+    this.name = 'PermissionDeniedError';
+    this.toolName = toolName;
+    this.role = role;
+  }
+}
+
+/**
+ * Write operation refused by the cooldown or batch limit of its policy
+ *
+ * Without a retry time, the call can never run as made (e.g., it has more
+ * items than the batch limit) and must be split.
+ */
+export class OperationRateLimitError extends FactorialError {
+  public readonly operation: string;
+  public readonly retryAt?: Date;
+
+  constructor(operation: string, reason: string, retryAt?: Date) {
+    const seconds = retryAt
+      ? Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000))
+      : undefined;
+    super(
+      `"${operation}" refused: ${reason}.` +
+        (retryAt ? ` The next call is allowed at ${retryAt.toISOString()} (in ${seconds}s).` : ''),
+      { isRetryable: retryAt !== undefined }
+    );
+    this.name = 'OperationRateLimitError';
+    this.operation = operation;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Audit entries could not be written to the persistent audit log
+ */
+export class AuditLogError extends FactorialError {
+  constructor(subject: string, reason: string) {
+    super(
+      `${subject} could not be written to the audit log: ${reason}. ` +
+        'Entries are kept and written once the log is writable again; write operations are refused until then.',
+      { isRetryable: true }
+    );
+    this.name = 'AuditLogError';
+  }
+}
+
+/**
+ * Write operation refused by a policy rule that blocks it
+ */
+export class OperationBlockedError extends FactorialError {
+  public readonly operation: string;
+
+  constructor(operation: string, reasons: string[]) {
+    super(
+      `"${operation}" blocked by the operation policy${reasons.length > 0 ? `: ${reasons.join(' ')}` : '.'}`,
+      { isRetryable: false }
+    );
+    this.name = 'OperationBlockedError';
+    this.operation = operation;
+  }
+}
+
 /**
  * Format validation errors from API response into a human-readable message
  */
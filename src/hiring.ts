@@ -0,0 +1,343 @@
+/**
+ * Hiring workflow for MCP FactorialHR
+ *
+ * Turns an application into an employee: the employee is pre-filled from the
+ * candidate (name, email, phone) and the job posting (team, location, title),
+ * then the application is moved to the hired stage with its hire date and,
+ * once the posting's headcount is filled, the posting is closed. Each step is
+ * a regular audited write operation, and a HIRE entry on the candidate links
+ * them to the new employee. A hire that stopped after creating the employee is
+ * finished by linking that employee instead of creating another one.
+ */
+
+import {
+  createEmployee,
+  getApplication,
+  getCandidate,
+  getEmployee,
+  getJobPosting,
+  listApplications,
+  listEmployees,
+  listHiringStages,
+  updateApplication,
+  updateJobPosting,
+} from './api.js';
+import { AuditAction, auditLogger } from './audit.js';
+import { getServerMode } from './config.js';
+import { fetchAllPages } from './pagination.js';
+import {
+  CreateEmployeeInputSchema,
+  type Application,
+  type Candidate,
+  type CreateEmployeeInput,
+  type Employee,
+  type HiringStage,
+  type JobPosting,
+} from './schemas.js';
+
+/**
+ * Options of a hire; employee fields override what is taken from the posting
+ */
+export interface HireOptions {
+  hired_on?: string;
+  start_date?: string;
+  manager_id?: number;
+  role?: string;
+  location_id?: number;
+  team_id?: number;
+  /** Stage the application is moved to (defaults to the stage named "Hired") */
+  hired_stage_id?: number;
+  /** Number of hires for the posting; it is closed once they are all hired */
+  headcount?: number;
+  /** Employee already created for the candidate (e.g. by a partial hire) to link instead */
+  employee_id?: number;
+}
+
+/**
+ * A step of a hire
+ */
+export interface HireStep {
+  kind: 'create_employee' | 'link_employee' | 'mark_hired' | 'close_posting';
+  description: string;
+  /** 'not_run' when an earlier step the step depends on failed */
+  status: 'pending' | 'done' | 'failed' | 'not_run';
+  error?: string;
+}
+
+/**
+ * A checked hire, ready to run
+ */
+export interface HirePlan {
+  application: Application;
+  candidate: Candidate;
+  posting: JobPosting;
+  stage: HiringStage;
+  employee: CreateEmployeeInput;
+  /** Employee linked instead of creating one (`employee_id` option) */
+  existing_employee?: Employee;
+  steps: HireStep[];
+  warnings: string[];
+}
+
+/**
+ * Outcome of a hire
+ */
+export interface HireResult {
+  /** Missing when the employee could not be created, or in dry-run mode */
+  employee_id?: number;
+  candidate_id: number;
+  application_id: number;
+  status: 'completed' | 'partial' | 'failed';
+  steps: HireStep[];
+  warnings: string[];
+}
+
+/**
+ * Find the stage an application is moved to when the candidate is hired
+ *
+ * @throws Error if the stage is unknown, or no single stage is named "Hired"
+ */
+function findHiredStage(stages: HiringStage[], stageId?: number): HiringStage {
+  if (stageId !== undefined) {
+    const stage = stages.find(s => s.id === stageId);
+    if (!stage) {
+      throw new Error(`Hiring stage ${stageId} not found.`);
+    }
+    return stage;
+  }
+  const hired = stages.filter(
+    s => s.name.trim().toLowerCase() === 'hired' || s.label?.trim().toLowerCase() === 'hired'
+  );
+  if (hired.length !== 1) {
+    throw new Error(
+      `${hired.length === 0 ? 'No' : 'More than one'} hiring stage is named "Hired". Pass hired_stage_id (see list_hiring_stages).`
+    );
+  }
+  return hired[0];
+}
+
+/**
+ * Check an application and work out the hire
+ *
+ * @throws Error if the application is already hired or rejected, the hired
+ * stage cannot be found, or the employee cannot be created from the candidate
+ * (missing name or email, email already in use, inactive manager), or the
+ * employee to link has another email than the candidate
+ */
+export async function planHire(
+  applicationId: number,
+  options: HireOptions = {}
+): Promise<HirePlan> {
+  const application = await getApplication(applicationId);
+  if (application.hired_at) {
+    throw new Error(`Application ${applicationId} was already hired on ${application.hired_at}.`);
+  }
+  if (application.rejected_at) {
+    throw new Error(
+      `Application ${applicationId} was rejected on ${application.rejected_at}; move it back to an active stage first.`
+    );
+  }
+
+  const [candidate, posting, stages, employees, manager, existing] = await Promise.all([
+    getCandidate(application.candidate_id),
+    getJobPosting(application.job_posting_id),
+    listHiringStages(),
+    fetchAllPages(params => listEmployees(params)),
+    options.manager_id !== undefined ? getEmployee(options.manager_id) : undefined,
+    options.employee_id !== undefined ? getEmployee(options.employee_id) : undefined,
+  ]);
+  const stage = findHiredStage(stages, options.hired_stage_id);
+
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  if (!candidate.first_name || !candidate.last_name) {
+    problems.push(`Candidate ${candidate.id} has no first and last name`);
+  }
+  if (!candidate.email) {
+    problems.push(`Candidate ${candidate.id} has no email address`);
+  } else {
+    const email = candidate.email.toLowerCase();
+    if (existing) {
+      if (existing.email?.toLowerCase() !== email) {
+        problems.push(
+          `Employee ${existing.id} has the email ${existing.email ?? '(none)'}, not the candidate's ${candidate.email}`
+        );
+      }
+    } else {
+      const taken = employees.find(e => e.email?.toLowerCase() === email);
+      if (taken) {
+        problems.push(
+          `Email ${candidate.email} is already used by employee ${taken.id}. If an earlier hire of this candidate created it, pass employee_id: ${taken.id} to finish that hire`
+        );
+      }
+    }
+  }
+  if (manager?.terminated_on) {
+    problems.push(`Manager ${manager.id} was terminated on ${manager.terminated_on}`);
+  }
+
+  const teamId = options.team_id ?? posting.team_id ?? undefined;
+  const parsed = CreateEmployeeInputSchema.safeParse({
+    first_name: candidate.first_name ?? '',
+    last_name: candidate.last_name ?? '',
+    email: candidate.email ?? '',
+    phone_number: candidate.phone ?? undefined,
+    hired_on: options.hired_on,
+    start_date: options.start_date,
+    manager_id: options.manager_id,
+    role: options.role ?? posting.title,
+    team_ids: teamId !== undefined ? [teamId] : undefined,
+    location_id: options.location_id ?? posting.location_id ?? undefined,
+  });
+  if (!parsed.success && problems.length === 0) {
+    problems.push(...parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`));
+  }
+  if (problems.length > 0 || !parsed.success) {
+    throw new Error(`The hire cannot be made:\n- ${problems.join('\n- ')}`);
+  }
+  const employee = parsed.data;
+
+  if (posting.status === 'closed' || posting.status === 'archived') {
+    warnings.push(`Job posting ${posting.id} is already ${posting.status}.`);
+  }
+
+  let closePosting = false;
+  if (options.headcount !== undefined) {
+    const applications = await fetchAllPages(params => listApplications(posting.id, params));
+    // Older hires may only show in the hired stage, without a hire date
+    const hires =
+      applications.filter(
+        a =>
+          a.job_posting_id === posting.id &&
+          (a.hired_at || a.hiring_stage_id === stage.id) &&
+          a.id !== application.id
+      ).length + 1;
+    if (hires > options.headcount) {
+      warnings.push(
+        `This is hire ${hires} for a headcount of ${options.headcount} on job posting ${posting.id}.`
+      );
+    }
+    closePosting =
+      hires >= options.headcount && posting.status !== 'closed' && posting.status !== 'archived';
+  }
+
+  const name = `${employee.first_name} ${employee.last_name}`;
+  const steps: HireStep[] = [
+    existing
+      ? {
+          kind: 'link_employee',
+          description: `Link existing employee ${existing.full_name ?? name} (ID ${existing.id})`,
+          status: 'pending',
+        }
+      : {
+          kind: 'create_employee',
+          description:
+            `Create employee ${name} <${employee.email}> as ${employee.role}` +
+            (teamId !== undefined ? ` in team ${teamId}` : '') +
+            (employee.location_id !== undefined ? ` at location ${employee.location_id}` : ''),
+          status: 'pending',
+        },
+    {
+      kind: 'mark_hired',
+      description: `Move application ${application.id} to stage ${stage.label ?? stage.name} and set its hire date`,
+      status: 'pending',
+    },
+  ];
+  if (closePosting) {
+    steps.push({
+      kind: 'close_posting',
+      description: `Close job posting ${posting.title} (headcount of ${options.headcount} filled)`,
+      status: 'pending',
+    });
+  }
+
+  return {
+    application,
+    candidate,
+    posting,
+    stage,
+    employee,
+    existing_employee: existing,
+    steps,
+    warnings,
+  };
+}
+
+/**
+ * Record the link between the candidate and the new employee
+ */
+function logHire(plan: HirePlan, employeeId: number, startTime: number): void {
+  auditLogger.log({
+    timestamp: new Date().toISOString(),
+    action: AuditAction.HIRE,
+    entityType: 'candidate',
+    entityId: plan.candidate.id,
+    changes: {
+      employee_id: { to: employeeId },
+      application_id: { to: plan.application.id },
+      job_posting_id: { to: plan.posting.id },
+    },
+    success: true,
+    durationMs: Date.now() - startTime,
+  });
+}
+
+/**
+ * Run a planned hire
+ *
+ * Stops if the employee cannot be created. The posting is only closed once the
+ * application is marked hired. A linked employee is used as is.
+ */
+export async function runHire(plan: HirePlan): Promise<HireResult> {
+  const startTime = Date.now();
+  const steps = plan.steps.map(step => ({ ...step }));
+  const result: HireResult = {
+    candidate_id: plan.candidate.id,
+    application_id: plan.application.id,
+    status: 'completed',
+    steps,
+    warnings: plan.warnings,
+  };
+  const [createStep, markStep, closeStep] = steps;
+
+  try {
+    const employee = plan.existing_employee ?? (await createEmployee(plan.employee));
+    createStep.status = 'done';
+    // In dry-run mode nothing is created, so there is no employee to link
+    if (getServerMode() !== 'dry-run') {
+      result.employee_id = employee.id;
+      logHire(plan, employee.id, startTime);
+    }
+  } catch (error) {
+    createStep.status = 'failed';
+    createStep.error = error instanceof Error ? error.message : String(error);
+    for (const step of steps.slice(1)) step.status = 'not_run';
+    return { ...result, status: 'failed' };
+  }
+
+  try {
+    await updateApplication(plan.application.id, {
+      hiring_stage_id: plan.stage.id,
+      hired_at: new Date().toISOString(),
+    });
+    markStep.status = 'done';
+  } catch (error) {
+    markStep.status = 'failed';
+    markStep.error = error instanceof Error ? error.message : String(error);
+    if (closeStep) closeStep.status = 'not_run';
+    return { ...result, status: 'partial' };
+  }
+
+  if (closeStep) {
+    try {
+      await updateJobPosting(plan.posting.id, { status: 'closed' });
+      closeStep.status = 'done';
+    } catch (error) {
+      closeStep.status = 'failed';
+      closeStep.error = error instanceof Error ? error.message : String(error);
+      return { ...result, status: 'partial' };
+    }
+  }
+
+  return result;
+}
@@ -2,9 +2,11 @@
  * HTTP client with retry logic for MCP FactorialHR
  *
  * Implements exponential backoff retry for transient failures.
+ * Write requests are refused in readonly mode and only recorded in dry-run mode.
  */
 
-import { getConfig, debug, getApiKey } from './config.js';
+import { getConfig, getServerMode, debug } from './config.js';
+import { buildDryRunRequest, recordDryRunRequest } from './dry-run.js';
 import {
   AuthenticationError,
   AuthorizationError,
@@ -16,6 +18,7 @@ import {
   ValidationError,
   ConflictError,
   UnprocessableEntityError,
+  ReadOnlyModeError,
   isRetryableError,
   formatValidationErrors,
 } from './errors.js';
@@ -49,6 +52,33 @@ export interface WriteRequestOptions extends RequestOptions {
   body?: Record<string, unknown>;
   /** Idempotency key for safe retries */
   idempotencyKey?: string;
+  /** File to send with the body as multipart/form-data */
+  file?: UploadFile;
+}
+
+/**
+ * File sent in a multipart request
+ */
+export interface UploadFile {
+  /** Form field holding the file */
+  field: string;
+  name: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+/**
+ * Build the multipart form of a request body and file
+ */
+function buildFormData(body: Record<string, unknown> | undefined, file: UploadFile): FormData {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(body ?? {})) {
+    if (value !== undefined && value !== null) {
+      form.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+  }
+  form.append(file.field, new Blob([file.content], { type: file.mimeType }), file.name);
+  return form;
 }
 
 /**
@@ -77,11 +107,11 @@ function getBackoffDelay(attempt: number, baseDelay = 1000): number {
  * Build URL with query parameters
  */
 function buildUrl(
+  baseUrl: string,
   endpoint: string,
   params?: Record<string, string | number | boolean | undefined>
 ): string {
-  const config = getConfig();
-  const url = new URL(`${config.baseUrl}${endpoint}`);
+  const url = new URL(`${baseUrl}${endpoint}`);
 
   if (params) {
     Object.entries(params).forEach(([key, value]) => {
@@ -166,14 +196,28 @@ export async function factorialRequest<T>(
 ): Promise<T> {
   const config = getConfig();
   const method = options.method ?? 'GET';
-  const url = buildUrl(endpoint, options.params);
+  const url = buildUrl(config.baseUrl, endpoint, options.params);
   const timeout = options.timeout ?? config.timeout;
 
   // Write operations should not retry by default (except with idempotency key)
   const defaultMaxRetries = method === 'GET' ? config.maxRetries : options.idempotencyKey ? 2 : 1;
   const maxRetries = options.noRetry ? 1 : (options.maxRetries ?? defaultMaxRetries);
 
-  debug(`${method} ${url}`);
+  if (method !== 'GET') {
+    const mode = getServerMode();
+    if (mode === 'readonly') {
+      throw new ReadOnlyModeError(method, endpoint);
+    }
+    if (mode === 'dry-run') {
+      // Not sent: return the request instead, so write helpers resolve to it
+      const request = buildDryRunRequest(method, endpoint, url, options.body, options.file);
+      recordDryRunRequest(request);
+      debug(`[DRY RUN] ${method} ${url}`, request.validation);
+      return { data: request } as T;
+    }
+  }
+
+  debug(config.company ? `${method} ${url} (company: ${config.company})` : `${method} ${url}`);
 
   let lastError: Error | undefined;
 
@@ -184,12 +228,12 @@ export async function factorialRequest<T>(
     try {
       // Build headers
       const headers: Record<string, string> = {
-        'x-api-key': getApiKey(),
+        'x-api-key': config.apiKey,
         Accept: 'application/json',
       };
 
-      // Add Content-Type for requests with body
-      if (options.body) {
+      // Add Content-Type for requests with body (fetch sets the multipart boundary)
+      if (options.body && !options.file) {
         headers['Content-Type'] = 'application/json';
       }
 
@@ -201,7 +245,11 @@ export async function factorialRequest<T>(
       const response = await fetch(url, {
         method,
         headers,
-        body: options.body ? JSON.stringify(options.body) : undefined,
+        body: options.file
+          ? buildFormData(options.body, options.file)
+          : options.body
+            ? JSON.stringify(options.body)
+            : undefined,
         signal: controller.signal,
       });
 
@@ -275,6 +323,88 @@ export async function fetchList<T>(endpoint: string, options?: RequestOptions):
   return response.data || [];
 }
 
+/**
+ * Downloaded file
+ */
+export interface DownloadedFile {
+  content: Buffer;
+  /** Mime type from the Content-Type header, if any */
+  mimeType?: string;
+}
+
+/**
+ * Most redirects followed when downloading a file
+ */
+const MAX_DOWNLOAD_REDIRECTS = 3;
+
+/**
+ * Download a file, such as a document's file_url
+ *
+ * The API key is only sent to the Factorial API host. Redirects are followed
+ * by hand so it is never forwarded to another host (e.g., a storage bucket).
+ *
+ * @param maxBytes - Largest file accepted
+ * @throws Error if the file is larger than maxBytes
+ */
+export async function fetchFile(
+  url: string,
+  options: { maxBytes: number; timeout?: number }
+): Promise<DownloadedFile> {
+  const config = getConfig();
+  const apiOrigin = new URL(config.baseUrl).origin;
+  const timeout = options.timeout ?? config.timeout;
+  let target = new URL(url, config.baseUrl);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const headers: Record<string, string> =
+        target.origin === apiOrigin ? { 'x-api-key': config.apiKey } : {};
+      debug(`GET ${target.origin}${target.pathname} (file)`);
+
+      const response = await fetch(target.toString(), {
+        headers,
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+
+      const location = response.headers.get('Location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_DOWNLOAD_REDIRECTS) {
+          throw new NetworkError(`Too many redirects while downloading ${url}`);
+        }
+        target = new URL(location, target);
+        continue;
+      }
+
+      if (!response.ok) {
+        return await handleResponse<never>(response, target.pathname);
+      }
+
+      const declaredSize = parseInt(response.headers.get('Content-Length') ?? '', 10);
+      if (declaredSize > options.maxBytes) {
+        throw new Error(`File is too large (${declaredSize} bytes, max ${options.maxBytes}).`);
+      }
+      const content = Buffer.from(await response.arrayBuffer());
+      if (content.length > options.maxBytes) {
+        throw new Error(`File is too large (${content.length} bytes, max ${options.maxBytes}).`);
+      }
+
+      const mimeType = response.headers.get('Content-Type')?.split(';')[0].trim();
+      return { content, mimeType: mimeType || undefined };
+    }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new TimeoutError(timeout, target.pathname);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
 // ============================================================================
 // Write Operation Helpers
 // ============================================================================
@@ -311,6 +441,24 @@ export async function putOne<T>(
   return response.data;
 }
 
+/**
+ * Create a resource from a file (multipart POST expecting single item response)
+ */
+export async function postMultipart<T>(
+  endpoint: string,
+  body: Record<string, unknown>,
+  file: UploadFile,
+  options?: Omit<WriteRequestOptions, 'method' | 'body' | 'file'>
+): Promise<T> {
+  const response = await factorialRequest<ApiResponse<T>>(endpoint, {
+    ...options,
+    method: 'POST',
+    body,
+    file,
+  });
+  return response.data;
+}
+
 /**
  * Partially update a resource (PATCH request expecting single item response)
  */
@@ -0,0 +1,381 @@
+/**
+ * HTTP transport for MCP FactorialHR
+ *
+ * Serves MCP over Streamable HTTP (`/mcp`) with a fallback for clients that
+ * only speak the older HTTP+SSE protocol (`/sse` and `/messages`). Every client
+ * session gets its own McpServer instance, closed when the client disconnects
+ * or stays idle too long. Clients authenticate with a bearer token; `/healthz`
+ * is left open for load balancers and uptime checks.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { debug, type HttpAuthToken } from './config.js';
+import { runWithSession, type SessionContext } from './context.js';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Options for the HTTP transport server
+ */
+export interface McpHttpServerOptions {
+  host: string;
+  port: number;
+  /** Accepted bearer tokens (required unless bound to a loopback host) */
+  authTokens: HttpAuthToken[];
+  /** Factory for the MCP server of each new session (called within the session context) */
+  createServer: () => McpServer;
+  /** Maximum size of a request body in bytes */
+  maxBodyBytes?: number;
+  /** Close sessions after this long without a request */
+  sessionIdleTimeoutMs?: number;
+}
+
+/**
+ * A connected client session
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: McpServer;
+  context: SessionContext;
+  /** Token the session was opened with; other tokens cannot use it */
+  token?: HttpAuthToken;
+  /** Time of the last request, for the idle timeout */
+  lastActivity: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024; // 4 MB
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+/**
+ * Thrown while reading a request body that is too large or not valid JSON
+ */
+class RequestBodyError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+/**
+ * Send a JSON-RPC error response
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new RequestBodyError(413, -32600, 'Request body too large');
+    }
+    chunks.push(buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestBodyError(400, -32700, 'Parse error: invalid JSON');
+  }
+}
+
+/**
+ * Hash a token so comparisons run in constant time regardless of length
+ */
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * MCP server over HTTP with per-session state and bearer-token auth
+ */
+export class McpHttpServer {
+  private readonly options: McpHttpServerOptions;
+  private readonly sessions = new Map<string, Session>();
+  private readonly httpServer: Server;
+  private readonly idleTimer: NodeJS.Timeout;
+
+  constructor(options: McpHttpServerOptions) {
+    if (options.authTokens.length === 0 && !LOOPBACK_HOSTS.has(options.host)) {
+      throw new ConfigurationError(
+        `Refusing to serve on ${options.host} without authentication. ` +
+          'Set FACTORIAL_HTTP_AUTH_TOKENS or bind to 127.0.0.1.'
+      );
+    }
+
+    this.options = options;
+    this.httpServer = createHttpServer((req, res) => {
+      this.handleRequest(req, res).catch((error: unknown) => {
+        debug('HTTP request failed', error instanceof Error ? error.message : error);
+        if (!res.headersSent) {
+          sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    // Check for idle sessions a few times per timeout period
+    this.idleTimer = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.sessionIdleTimeoutMs / 4, 60 * 1000)
+    );
+    this.idleTimer.unref();
+  }
+
+  /**
+   * Number of open client sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The bound address (useful when port 0 was requested)
+   */
+  listen(): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve(this.httpServer.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    clearInterval(this.idleTimer);
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(sessions.map(session => session.server.close()));
+    this.httpServer.closeAllConnections();
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === '/healthz' && req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+      return;
+    }
+
+    const token = this.authenticate(req);
+    if (token === null) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized: missing or invalid bearer token', {
+        'WWW-Authenticate': 'Bearer',
+      });
+      return;
+    }
+
+    try {
+      if (url.pathname === '/mcp') {
+        await this.handleStreamableHttp(req, res, token);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await this.handleSseConnect(res, token);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await this.handleSseMessage(req, res, url, token);
+      } else {
+        sendJsonRpcError(res, 404, -32601, 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.code, error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check the bearer token of a request
+   *
+   * @returns The matching token, undefined when auth is disabled, or null when rejected
+   */
+  private authenticate(req: IncomingMessage): HttpAuthToken | undefined | null {
+    if (this.options.authTokens.length === 0) {
+      return undefined;
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return null;
+    }
+
+    const presented = digest(match[1].trim());
+    return (
+      this.options.authTokens.find(candidate =>
+        timingSafeEqual(digest(candidate.token), presented)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Find a session and make sure it belongs to the authenticated client
+   */
+  private getSession(sessionId: string, token: HttpAuthToken | undefined): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.token !== token) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Close a session and its MCP server
+   */
+  private closeSession(sessionId: string, reason: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.sessions.delete(sessionId);
+    debug(`${session.context.transport === 'sse' ? 'SSE' : 'HTTP'} session ${sessionId} ${reason}`);
+    session.server.close().catch((error: unknown) => {
+      debug(`Closing session ${sessionId} failed`, error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * Close the sessions that have not received a request within the idle timeout
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        this.closeSession(sessionId, 'closed after being idle');
+      }
+    }
+  }
+
+  private async handleStreamableHttp(
+    req: IncomingMessage,
+    res: ServerResponse,
+    token: HttpAuthToken | undefined
+  ): Promise<void> {
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req, this.maxBodyBytes) : undefined;
+
+    if (sessionId) {
+      const session = this.getSession(sessionId, token);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      const transport = session.transport;
+      await runWithSession(session.context, () => transport.handleRequest(req, res, body));
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad request: no valid session ID provided');
+      return;
+    }
+
+    const context: SessionContext = { client: token?.client, transport: 'streamable-http' };
+    const server = runWithSession(context, () => this.options.createServer());
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        context.sessionId = id;
+        this.sessions.set(id, { transport, server, context, token, lastActivity: Date.now() });
+        debug(`HTTP session ${id} opened`, { client: context.client });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.closeSession(transport.sessionId, 'closed');
+      }
+    };
+
+    await server.connect(transport);
+    await runWithSession(context, () => transport.handleRequest(req, res, body));
+  }
+
+  private async handleSseConnect(
+    res: ServerResponse,
+    token: HttpAuthToken | undefined
+  ): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    const context: SessionContext = {
+      sessionId: transport.sessionId,
+      client: token?.client,
+      transport: 'sse',
+    };
+    const server = runWithSession(context, () => this.options.createServer());
+
+    this.sessions.set(transport.sessionId, {
+      transport,
+      server,
+      context,
+      token,
+      lastActivity: Date.now(),
+    });
+    res.on('close', () => this.closeSession(transport.sessionId, 'closed'));
+
+    debug(`SSE session ${transport.sessionId} opened`, { client: context.client });
+    await server.connect(transport);
+  }
+
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    token: HttpAuthToken | undefined
+  ): Promise<void> {
+    const session = this.getSession(url.searchParams.get('sessionId') ?? '', token);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const transport = session.transport;
+    const body = await readJsonBody(req, this.maxBodyBytes);
+    await runWithSession(session.context, () => transport.handlePostMessage(req, res, body));
+  }
+
+  private get maxBodyBytes(): number {
+    return this.options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  }
+
+  private get sessionIdleTimeoutMs(): number {
+    return this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Leave balance checks for MCP FactorialHR
+ *
+ * Counts the working days of a leave on the calendar of the employee's
+ * location (its working week and holidays, see work-calendar.ts) and compares
+ * them with the employee's allowance for the leave type, and projects the
+ * balance at the end of an allowance period from the approved and pending
+ * leaves.
+ *
+ * Balances are computed from the allowance's total (`balance_days`) minus the
+ * working days of the approved and pending leaves in its period, counted the
+ * same way, so they can differ from Factorial's `available_days` when it
+ * counts days differently. Allowances without validity dates are taken to
+ * cover the calendar year.
+ */
+
+import { getEmployee, listAllowances, listLeaves, listLeaveTypes } from './api.js';
+import { fetchAllPages } from './pagination.js';
+import type { Allowance, Leave } from './schemas.js';
+import type { HalfDay } from './types.js';
+import { countWorkingDays, getWorkCalendar, type WorkCalendar } from './work-calendar.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A leave to check against the allowance
+ */
+export interface BalanceRequest {
+  employee_id: number;
+  leave_type_id: number;
+  start_on: string;
+  finish_on: string;
+  half_day?: HalfDay | null;
+  /** Leave being approved, left out of the other leaves */
+  leave_id?: number;
+}
+
+/**
+ * Dates an allowance is valid for
+ */
+export interface AllowancePeriod {
+  from: string;
+  to: string;
+}
+
+/**
+ * Result of checking a leave against the allowance
+ */
+export interface BalanceCheck {
+  employee_id: number;
+  leave_type_id: number;
+  leave_type: string;
+  /** Working days of the requested leave */
+  working_days: number;
+  /** Matching allowance, or null when the leave type has none */
+  allowance_id: number | null;
+  period: AllowancePeriod | null;
+  entitlement_days: number | null;
+  /** Working days of other approved and pending leaves in the period */
+  approved_days: number;
+  pending_days: number;
+  /** Balance once the leave and the pending leaves are approved */
+  balance_after: number | null;
+  warnings: string[];
+}
+
+/**
+ * Projected balance of an allowance at the end of its period
+ */
+export interface AllowanceForecast {
+  allowance_id: number;
+  leave_type_id: number;
+  leave_type: string;
+  period: AllowancePeriod;
+  entitlement_days: number;
+  /** Approved days before today */
+  taken_days: number;
+  /** Approved days from today on */
+  planned_days: number;
+  pending_days: number;
+  /** Balance at the end of the period if the pending leaves are approved */
+  projected_balance: number;
+  /** Balance at the end of the period if the pending leaves are declined */
+  projected_balance_without_pending: number;
+  /** Factorial's own figure, for comparison */
+  factorial_available_days: number;
+  leaves: { id: number; start_on: string; finish_on: string; status: string; days: number }[];
+}
+
+/**
+ * Dates an allowance is valid for, defaulting to the calendar year of a date
+ */
+export function allowancePeriod(allowance: Allowance, date: string): AllowancePeriod {
+  const year = date.slice(0, 4);
+  return {
+    from: allowance.valid_from?.slice(0, 10) ?? `${year}-01-01`,
+    to: allowance.valid_to?.slice(0, 10) ?? `${year}-12-31`,
+  };
+}
+
+/**
+ * Working days of a leave within a period; a half day only counts when the
+ * half-day end of the leave falls within the period
+ */
+function leaveDaysIn(leave: Leave, period: AllowancePeriod, calendar: WorkCalendar): number {
+  const from = leave.start_on > period.from ? leave.start_on : period.from;
+  const to = leave.finish_on < period.to ? leave.finish_on : period.to;
+  if (from > to) return 0;
+
+  const halfDay =
+    (leave.half_day === 'start' && from === leave.start_on) ||
+    (leave.half_day === 'finish' && to === leave.finish_on)
+      ? leave.half_day
+      : null;
+  return countWorkingDays(calendar, from, to, halfDay);
+}
+
+/**
+ * Approved and pending leaves of an employee and leave type
+ */
+function activeLeaves(leaves: Leave[], employeeId: number, leaveTypeId: number): Leave[] {
+  return leaves.filter(
+    leave =>
+      leave.employee_id === employeeId &&
+      leave.leave_type_id === leaveTypeId &&
+      !leave.deleted_at &&
+      leave.status !== 'declined'
+  );
+}
+
+/**
+ * Check a leave against the employee's allowance for its leave type
+ *
+ * @throws Error if the leave ends before it starts
+ */
+export async function checkLeaveBalance(request: BalanceRequest): Promise<BalanceCheck> {
+  if (request.finish_on < request.start_on) {
+    throw new Error(
+      `The leave ends (${request.finish_on}) before it starts (${request.start_on}).`
+    );
+  }
+
+  const [employee, allowances, leaveTypes] = await Promise.all([
+    getEmployee(request.employee_id),
+    fetchAllPages(params => listAllowances({ ...params, employee_id: request.employee_id })),
+    listLeaveTypes(),
+  ]);
+  const calendar = await getWorkCalendar(employee.location_id);
+  const leaveType =
+    leaveTypes.find(type => type.id === request.leave_type_id)?.name ??
+    `Leave type ${request.leave_type_id}`;
+  const warnings = [...calendar.warnings];
+
+  const workingDays = countWorkingDays(
+    calendar,
+    request.start_on,
+    request.finish_on,
+    request.half_day
+  );
+  if (workingDays === 0) {
+    warnings.push('The leave only covers days off and holidays, so it takes no working days.');
+  }
+
+  const allowance = allowances.find(a => {
+    if (a.employee_id !== request.employee_id || a.leave_type_id !== request.leave_type_id) {
+      return false;
+    }
+    const period = allowancePeriod(a, request.start_on);
+    return period.from <= request.start_on && request.start_on <= period.to;
+  });
+  const result: BalanceCheck = {
+    employee_id: request.employee_id,
+    leave_type_id: request.leave_type_id,
+    leave_type: leaveType,
+    working_days: workingDays,
+    allowance_id: null,
+    period: null,
+    entitlement_days: null,
+    approved_days: 0,
+    pending_days: 0,
+    balance_after: null,
+    warnings,
+  };
+  if (!allowance) {
+    warnings.push(
+      `No ${leaveType} allowance covers ${request.start_on}; the balance was not checked.`
+    );
+    return result;
+  }
+
+  const period = allowancePeriod(allowance, request.start_on);
+  const leaves = await fetchAllPages(params =>
+    listLeaves({
+      ...params,
+      employee_id: request.employee_id,
+      start_on_lte: period.to,
+    })
+  );
+  const others = activeLeaves(leaves, request.employee_id, request.leave_type_id).filter(
+    leave => leave.id !== request.leave_id
+  );
+  const daysWith = (status: Leave['status']) =>
+    others
+      .filter(leave => leave.status === status)
+      .reduce((sum, leave) => sum + leaveDaysIn(leave, period, calendar), 0);
+
+  result.allowance_id = allowance.id;
+  result.period = period;
+  result.entitlement_days = allowance.balance_days;
+  result.approved_days = daysWith('approved');
+  result.pending_days = daysWith('pending');
+  result.balance_after =
+    allowance.balance_days - result.approved_days - result.pending_days - workingDays;
+
+  if (result.balance_after < 0) {
+    warnings.push(
+      `The leave takes ${workingDays} working day(s), but only ${allowance.balance_days - result.approved_days - result.pending_days} ${leaveType} day(s) are left from ${period.from} to ${period.to} (${result.approved_days} approved and ${result.pending_days} pending). The balance would be ${result.balance_after}.`
+    );
+  }
+  return result;
+}
+
+/**
+ * Project the end-of-period balance of an employee's allowances
+ *
+ * @param year - Only allowances valid during this year (defaults to the current year)
+ * @param today - Date separating taken from planned days (defaults to today)
+ */
+export async function forecastAllowances(
+  employeeId: number,
+  options: { leave_type_id?: number; year?: number; today?: string } = {}
+): Promise<{ forecasts: AllowanceForecast[]; warnings: string[] }> {
+  const today = options.today ?? new Date().toISOString().slice(0, 10);
+  const year = String(options.year ?? Number(today.slice(0, 4)));
+
+  const [employee, allowances, leaveTypes] = await Promise.all([
+    getEmployee(employeeId),
+    fetchAllPages(params => listAllowances({ ...params, employee_id: employeeId })),
+    listLeaveTypes(),
+  ]);
+  const calendar = await getWorkCalendar(employee.location_id);
+
+  const selected = allowances
+    .filter(a => a.employee_id === employeeId)
+    .filter(a => options.leave_type_id === undefined || a.leave_type_id === options.leave_type_id)
+    .map(allowance => ({ allowance, period: allowancePeriod(allowance, `${year}-01-01`) }))
+    .filter(({ period }) => period.from <= `${year}-12-31` && period.to >= `${year}-01-01`);
+  if (selected.length === 0) {
+    return { forecasts: [], warnings: calendar.warnings };
+  }
+
+  const lastDay = selected.map(({ period }) => period.to).sort()[selected.length - 1];
+  const leaves = await fetchAllPages(params =>
+    listLeaves({ ...params, employee_id: employeeId, start_on_lte: lastDay })
+  );
+  const yesterday = new Date(Date.parse(`${today}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+
+  const forecasts = selected.map(({ allowance, period }): AllowanceForecast => {
+    const inPeriod = activeLeaves(leaves, employeeId, allowance.leave_type_id)
+      .filter(leave => leave.start_on <= period.to && leave.finish_on >= period.from)
+      .sort((a, b) => a.start_on.localeCompare(b.start_on));
+    const sum = (status: Leave['status'], range: AllowancePeriod) =>
+      inPeriod
+        .filter(leave => leave.status === status)
+        .reduce((total, leave) => total + leaveDaysIn(leave, range, calendar), 0);
+
+    const taken = sum('approved', {
+      from: period.from,
+      to: yesterday < period.to ? yesterday : period.to,
+    });
+    const planned = sum('approved', {
+      from: today > period.from ? today : period.from,
+      to: period.to,
+    });
+    const pending = sum('pending', period);
+    return {
+      allowance_id: allowance.id,
+      leave_type_id: allowance.leave_type_id,
+      leave_type:
+        leaveTypes.find(type => type.id === allowance.leave_type_id)?.name ??
+        `Leave type ${allowance.leave_type_id}`,
+      period,
+      entitlement_days: allowance.balance_days,
+      taken_days: taken,
+      planned_days: planned,
+      pending_days: pending,
+      projected_balance: allowance.balance_days - taken - planned - pending,
+      projected_balance_without_pending: allowance.balance_days - taken - planned,
+      factorial_available_days: allowance.available_days,
+      leaves: inPeriod.map(leave => ({
+        id: leave.id,
+        start_on: leave.start_on,
+        finish_on: leave.finish_on,
+        status: leave.status,
+        days: leaveDaysIn(leave, period, calendar),
+      })),
+    };
+  });
+
+  return { forecasts, warnings: calendar.warnings };
+}
@@ -0,0 +1,243 @@
+/**
+ * Leave coverage checks for MCP FactorialHR
+ *
+ * Before a leave is created or approved, checks it against the rest of the
+ * system: approved and pending leaves of the employee's teammates, the number
+ * of team members left available on each working day, the employee's own
+ * leaves and their shifts.
+ *
+ * The minimum number of available members comes from the `coverage` section
+ * of the policy file (FACTORIAL_POLICY_PATH), per team or for all teams. The
+ * check returns warnings, and its counts are facts for policy rules, so a rule
+ * can require confirmation for, or block, a leave that leaves a team short.
+ * Pending leaves count as absences, only the working days of the employee's
+ * location calendar are checked, and only leaves starting up to a year before
+ * the leave are considered.
+ */
+
+import { listEmployees, listLeaves, listShifts, listTeams } from './api.js';
+import { fetchAllPages } from './pagination.js';
+import type { Employee, Leave, Shift, Team } from './schemas.js';
+import { getWorkCalendar, listWorkingDays } from './work-calendar.js';
+import { getCoverageMinimum } from './write-safety.js';
+
+/**
+ * A leave to check
+ */
+export interface CoverageRequest {
+  employee_id: number;
+  start_on: string;
+  finish_on: string;
+  /** Leave being approved, left out of the overlaps */
+  leave_id?: number;
+}
+
+/**
+ * Something the leave collides with
+ */
+export interface CoverageConflict {
+  type: 'team_leave' | 'understaffed' | 'own_leave' | 'shift';
+  message: string;
+  team_id?: number;
+  leave_id?: number;
+  shift_id?: number;
+  /** Days affected, for understaffed teams */
+  dates?: string[];
+}
+
+/**
+ * Coverage of a team of the employee during the leave
+ */
+export interface TeamCoverage {
+  team_id: number;
+  team: string;
+  /** Active members, the employee included */
+  members: number;
+  min_available: number;
+  /** Fewest members available on a working day of the leave */
+  lowest_available: number | null;
+  understaffed_days: string[];
+  /** Leaves of teammates overlapping the leave */
+  overlapping_leave_ids: number[];
+}
+
+/**
+ * Counts of a coverage check, used as facts by policy rules
+ */
+export interface CoverageFacts {
+  coverage_conflicts: number;
+  overlapping_team_leaves: number;
+  understaffed_days: number;
+  own_leave_overlaps: number;
+  shift_conflicts: number;
+}
+
+/**
+ * Result of a coverage check
+ */
+export interface CoverageReport {
+  employee_id: number;
+  start_on: string;
+  finish_on: string;
+  teams: TeamCoverage[];
+  conflicts: CoverageConflict[];
+  facts: CoverageFacts;
+}
+
+/**
+ * The date a year before a date; older leaves are not expected to still run
+ */
+function yearBefore(date: string): string {
+  return `${Number(date.slice(0, 4)) - 1}${date.slice(4, 10)}`;
+}
+
+/**
+ * Whether a leave is approved or pending and overlaps a date range
+ */
+function overlaps(leave: Leave, startOn: string, finishOn: string): boolean {
+  return (
+    !leave.deleted_at &&
+    leave.status !== 'declined' &&
+    leave.start_on <= finishOn &&
+    leave.finish_on >= startOn
+  );
+}
+
+/**
+ * Describe a leave for messages
+ */
+function leavePeriod(leave: Leave): string {
+  return leave.start_on === leave.finish_on
+    ? `on ${leave.start_on} (${leave.status})`
+    : `from ${leave.start_on} to ${leave.finish_on} (${leave.status})`;
+}
+
+/**
+ * Check a leave against teammates' leaves, team coverage, the employee's own
+ * leaves and their shifts
+ *
+ * @throws Error if the dates are invalid or the leave ends before it starts
+ */
+export async function checkLeaveCoverage(request: CoverageRequest): Promise<CoverageReport> {
+  const { employee_id: employeeId, start_on: startOn, finish_on: finishOn } = request;
+  if (Number.isNaN(Date.parse(startOn)) || Number.isNaN(Date.parse(finishOn))) {
+    throw new Error(`Invalid leave dates: ${startOn} to ${finishOn}. Use YYYY-MM-DD.`);
+  }
+  if (finishOn < startOn) {
+    throw new Error(`The leave ends (${finishOn}) before it starts (${startOn}).`);
+  }
+
+  const [teams, employees, leaves, shifts] = await Promise.all([
+    fetchAllPages(params => listTeams(params)),
+    fetchAllPages(params => listEmployees(params)),
+    fetchAllPages(params =>
+      listLeaves({ ...params, start_on_gte: yearBefore(startOn), start_on_lte: finishOn })
+    ),
+    fetchAllPages(params =>
+      listShifts({
+        ...params,
+        employee_id: employeeId,
+        clock_in_gte: startOn,
+        clock_in_lte: `${finishOn}T23:59:59`,
+      })
+    ),
+  ]);
+
+  const employeesById = new Map(employees.map((employee: Employee) => [employee.id, employee]));
+  const name = (id: number) => employeesById.get(id)?.full_name ?? `Employee ${id}`;
+  const overlapping = leaves.filter(
+    leave => leave.id !== request.leave_id && overlaps(leave, startOn, finishOn)
+  );
+  const calendar = await getWorkCalendar(employeesById.get(employeeId)?.location_id ?? null);
+  const days = listWorkingDays(calendar, startOn, finishOn);
+  const conflicts: CoverageConflict[] = [];
+
+  const ownTeams = teams.filter((team: Team) => team.employee_ids.includes(employeeId));
+  const coverage = ownTeams.map((team): TeamCoverage => {
+    const members = [...new Set(team.employee_ids)];
+    const teamLeaves = overlapping.filter(
+      leave => leave.employee_id !== employeeId && members.includes(leave.employee_id)
+    );
+    const minAvailable = getCoverageMinimum(team.id);
+
+    const available = days.map(day => {
+      const away = new Set(
+        teamLeaves.filter(leave => overlaps(leave, day, day)).map(leave => leave.employee_id)
+      );
+      return members.filter(id => {
+        const terminatedOn = employeesById.get(id)?.terminated_on;
+        return id !== employeeId && !away.has(id) && !(terminatedOn && terminatedOn < day);
+      }).length;
+    });
+    const understaffed = days.filter((_, i) => available[i] < minAvailable);
+
+    if (understaffed.length > 0) {
+      conflicts.push({
+        type: 'understaffed',
+        team_id: team.id,
+        dates: understaffed,
+        message: `${team.name} would have ${Math.min(...available)} member(s) available (minimum ${minAvailable}) on ${understaffed.join(', ')}.`,
+      });
+    }
+    return {
+      team_id: team.id,
+      team: team.name,
+      members: members.filter(id => !employeesById.get(id)?.terminated_on).length,
+      min_available: minAvailable,
+      lowest_available: available.length > 0 ? Math.min(...available) : null,
+      understaffed_days: understaffed,
+      overlapping_leave_ids: teamLeaves.map(leave => leave.id),
+    };
+  });
+
+  const teammateLeaves = overlapping.filter(leave =>
+    coverage.some(team => team.overlapping_leave_ids.includes(leave.id))
+  );
+  for (const leave of teammateLeaves) {
+    const shared = coverage.filter(team => team.overlapping_leave_ids.includes(leave.id));
+    conflicts.push({
+      type: 'team_leave',
+      leave_id: leave.id,
+      team_id: shared[0].team_id,
+      message: `${name(leave.employee_id)} (${shared.map(team => team.team).join(', ')}) is also away ${leavePeriod(leave)}.`,
+    });
+  }
+
+  const ownLeaves = overlapping.filter(leave => leave.employee_id === employeeId);
+  for (const leave of ownLeaves) {
+    conflicts.push({
+      type: 'own_leave',
+      leave_id: leave.id,
+      message: `${name(employeeId)} already has leave ${leave.id} ${leavePeriod(leave)}.`,
+    });
+  }
+
+  const ownShifts = shifts.filter(
+    (shift: Shift) =>
+      shift.employee_id === employeeId &&
+      shift.clock_in.slice(0, 10) >= startOn &&
+      shift.clock_in.slice(0, 10) <= finishOn
+  );
+  for (const shift of ownShifts) {
+    conflicts.push({
+      type: 'shift',
+      shift_id: shift.id,
+      message: `${name(employeeId)} has shift ${shift.id} on ${shift.clock_in.slice(0, 10)} at ${shift.clock_in.slice(11, 16)}.`,
+    });
+  }
+
+  return {
+    employee_id: employeeId,
+    start_on: startOn,
+    finish_on: finishOn,
+    teams: coverage,
+    conflicts,
+    facts: {
+      coverage_conflicts: conflicts.length,
+      overlapping_team_leaves: teammateLeaves.length,
+      understaffed_days: new Set(coverage.flatMap(team => team.understaffed_days)).size,
+      own_leave_overlaps: ownLeaves.length,
+      shift_conflicts: ownShifts.length,
+    },
+  };
+}
@@ -0,0 +1,397 @@
+/**
+ * Offboarding workflow for MCP FactorialHR
+ *
+ * Plans and runs the steps of offboarding an employee: cancel leaves after the
+ * termination date, remove project assignments, unenroll from later training
+ * sessions, remove team memberships, move direct reports to a new manager, and
+ * finally terminate. Each step is a regular audited write operation.
+ *
+ * Steps run in order and a run stops at the first failure, so the employee is
+ * only terminated once everything else is done. A stopped run can be resumed
+ * from the failed step. Runs are kept in memory for a limited time; after that
+ * or a restart, planning the offboarding again picks up what is left, since
+ * finished steps no longer show.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  cancelLeave,
+  getEmployee,
+  listEmployees,
+  listLeaves,
+  listProjectWorkers,
+  listTeams,
+  listTrainingEnrollments,
+  listTrainingSessions,
+  removeProjectWorker,
+  removeTeamMember,
+  terminateEmployee,
+  unenrollFromTraining,
+  updateEmployee,
+} from './api.js';
+import { getActiveCompany } from './config.js';
+import { ENDPOINTS, endpointWithId } from './endpoints.js';
+import { NotFoundError } from './errors.js';
+import { fetchOne } from './http-client.js';
+import { fetchAllPages } from './pagination.js';
+import type { Team } from './schemas.js';
+
+/**
+ * Kinds of offboarding steps, in the order they run
+ */
+export type OffboardingStepKind =
+  | 'cancel_leave'
+  | 'remove_project_worker'
+  | 'unenroll_training'
+  | 'remove_team_member'
+  | 'reassign_report'
+  | 'terminate';
+
+/**
+ * A step of an offboarding run
+ */
+export interface OffboardingStep {
+  kind: OffboardingStepKind;
+  /** Leave, project worker, enrollment, team, report or employee the step acts on */
+  target_id: number;
+  description: string;
+  /** 'skipped' when the change had already been made elsewhere */
+  status: 'pending' | 'done' | 'skipped' | 'failed';
+  error?: string;
+}
+
+/**
+ * Options of an offboarding
+ */
+export interface OffboardingOptions {
+  /** Last day of employment (YYYY-MM-DD) */
+  terminated_on: string;
+  reason?: string;
+  /** Manager the active direct reports are moved to */
+  new_manager_id?: number;
+}
+
+/**
+ * Planned offboarding of an employee
+ */
+export interface OffboardingPlan {
+  employee_id: number;
+  employee_name: string | null;
+  options: OffboardingOptions;
+  steps: OffboardingStep[];
+  warnings: string[];
+}
+
+/**
+ * An offboarding run, which can be resumed until it is completed
+ */
+export interface OffboardingRun extends OffboardingPlan {
+  id: string;
+  /** Company profile the run belongs to */
+  company?: string;
+  status: 'running' | 'completed' | 'failed';
+  started_at: string;
+  updated_at: string;
+}
+
+/**
+ * How long completed runs are kept after they finish
+ */
+const COMPLETED_RUN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long failed runs can be resumed after they stopped
+ */
+const FAILED_RUN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const runs = new Map<string, OffboardingRun>();
+
+/**
+ * Forget finished runs past their retention time
+ */
+function pruneRuns(): void {
+  const now = Date.now();
+  for (const [id, run] of runs) {
+    if (run.status === 'running') continue;
+    const ttl = run.status === 'completed' ? COMPLETED_RUN_TTL_MS : FAILED_RUN_TTL_MS;
+    if (now - Date.parse(run.updated_at) > ttl) {
+      runs.delete(id);
+    }
+  }
+}
+
+/**
+ * Build a pending step
+ */
+function step(kind: OffboardingStepKind, target_id: number, description: string): OffboardingStep {
+  return { kind, target_id, description, status: 'pending' };
+}
+
+/**
+ * Work out the steps to offboard an employee
+ *
+ * Leaves starting after the termination date are cancelled; leaves that run
+ * over it are reported as warnings. Training enrollments are only removed for
+ * sessions starting after the termination date.
+ *
+ * @throws Error if the employee has active direct reports and no valid new manager is given
+ */
+export async function planOffboarding(
+  employeeId: number,
+  options: OffboardingOptions
+): Promise<OffboardingPlan> {
+  const { terminated_on: terminatedOn, new_manager_id: newManagerId } = options;
+  const employee = await getEmployee(employeeId);
+
+  const [leaves, workers, enrollments, sessions, teams, employees] = await Promise.all([
+    fetchAllPages(params => listLeaves({ ...params, employee_id: employeeId })),
+    fetchAllPages(params => listProjectWorkers(undefined, params)),
+    fetchAllPages(params => listTrainingEnrollments(undefined, params)),
+    fetchAllPages(params => listTrainingSessions(undefined, params)),
+    fetchAllPages(params => listTeams(params)),
+    fetchAllPages(params => listEmployees(params)),
+  ]);
+
+  const steps: OffboardingStep[] = [];
+  const warnings: string[] = [];
+  if (employee.terminated_on) {
+    warnings.push(`Employee already has a termination date (${employee.terminated_on}).`);
+  }
+
+  for (const leave of leaves) {
+    if (leave.employee_id !== employeeId || leave.status === 'declined' || leave.deleted_at) {
+      continue;
+    }
+    if (leave.start_on > terminatedOn) {
+      steps.push(
+        step(
+          'cancel_leave',
+          leave.id,
+          `Cancel ${leave.status} leave ${leave.id} (${leave.start_on} to ${leave.finish_on})`
+        )
+      );
+    } else if (leave.finish_on > terminatedOn) {
+      warnings.push(
+        `Leave ${leave.id} (${leave.start_on} to ${leave.finish_on}) runs past the termination date and is kept.`
+      );
+    }
+  }
+
+  for (const worker of workers) {
+    if (worker.employee_id === employeeId) {
+      steps.push(
+        step(
+          'remove_project_worker',
+          worker.id,
+          `Remove from project ${worker.project_id} (assignment ${worker.id})`
+        )
+      );
+    }
+  }
+
+  const sessionsById = new Map(sessions.map(session => [session.id, session]));
+  for (const enrollment of enrollments) {
+    const session =
+      enrollment.session_id !== null ? sessionsById.get(enrollment.session_id) : undefined;
+    if (
+      enrollment.employee_id === employeeId &&
+      !enrollment.completed_at &&
+      session?.start_date &&
+      session.start_date > terminatedOn
+    ) {
+      steps.push(
+        step(
+          'unenroll_training',
+          enrollment.id,
+          `Unenroll from training ${enrollment.training_id}, session ${session.name ?? session.id} on ${session.start_date}`
+        )
+      );
+    }
+  }
+
+  for (const team of teams) {
+    if (team.employee_ids.includes(employeeId) || team.lead_ids.includes(employeeId)) {
+      const lead = team.lead_ids.includes(employeeId) ? ' (lead)' : '';
+      steps.push(step('remove_team_member', team.id, `Remove from team ${team.name}${lead}`));
+    }
+  }
+
+  const reports = employees.filter(e => e.manager_id === employeeId && !e.terminated_on);
+  if (reports.length > 0) {
+    if (newManagerId === undefined) {
+      throw new Error(
+        `Employee ${employeeId} has ${reports.length} active direct report(s). Provide new_manager_id to reassign them.`
+      );
+    }
+    if (newManagerId === employeeId) {
+      throw new Error('new_manager_id must be a different employee.');
+    }
+    const newManager = await getEmployee(newManagerId);
+    if (newManager.terminated_on) {
+      throw new Error(
+        `The new manager (employee ${newManagerId}) was terminated on ${newManager.terminated_on}.`
+      );
+    }
+    const managerName = newManager.full_name ?? `employee ${newManagerId}`;
+    for (const report of reports) {
+      if (report.id === newManagerId) {
+        warnings.push(
+          `${managerName} reports to this employee and becomes the new manager; set their own manager separately.`
+        );
+        continue;
+      }
+      steps.push(
+        step(
+          'reassign_report',
+          report.id,
+          `Move ${report.full_name ?? `employee ${report.id}`} to manager ${managerName}`
+        )
+      );
+    }
+  }
+
+  steps.push(step('terminate', employeeId, `Terminate employee on ${terminatedOn}`));
+
+  return {
+    employee_id: employeeId,
+    employee_name: employee.full_name,
+    options,
+    steps,
+    warnings,
+  };
+}
+
+/**
+ * Execute a single step
+ *
+ * @returns 'skipped' when the change had already been made
+ */
+async function executeStep(
+  current: OffboardingStep,
+  run: OffboardingRun
+): Promise<OffboardingStep['status']> {
+  const { employee_id: employeeId, options } = run;
+  try {
+    switch (current.kind) {
+      case 'cancel_leave':
+        await cancelLeave(current.target_id);
+        break;
+      case 'remove_project_worker':
+        await removeProjectWorker(current.target_id);
+        break;
+      case 'unenroll_training':
+        await unenrollFromTraining(current.target_id);
+        break;
+      case 'remove_team_member': {
+        const team = await fetchOne<Team>(endpointWithId(ENDPOINTS.teams, current.target_id));
+        if (!team.employee_ids.includes(employeeId) && !team.lead_ids.includes(employeeId)) {
+          return 'skipped';
+        }
+        await removeTeamMember(current.target_id, employeeId);
+        break;
+      }
+      case 'reassign_report':
+        await updateEmployee(current.target_id, { manager_id: options.new_manager_id });
+        break;
+      case 'terminate':
+        await terminateEmployee(employeeId, options.terminated_on, options.reason);
+        break;
+    }
+  } catch (error) {
+    // Leaves, assignments and enrollments removed in the meantime
+    if (error instanceof NotFoundError && current.kind !== 'terminate') {
+      return 'skipped';
+    }
+    throw error;
+  }
+  return 'done';
+}
+
+/**
+ * Run the remaining steps of a run, stopping at the first failure
+ */
+async function execute(run: OffboardingRun): Promise<OffboardingRun> {
+  run.status = 'running';
+  for (const current of run.steps) {
+    if (current.status === 'done' || current.status === 'skipped') {
+      continue;
+    }
+    try {
+      current.status = await executeStep(current, run);
+      delete current.error;
+    } catch (error) {
+      current.status = 'failed';
+      current.error = error instanceof Error ? error.message : String(error);
+      run.status = 'failed';
+      break;
+    }
+  }
+  if (run.status === 'running') {
+    run.status = 'completed';
+  }
+  run.updated_at = new Date().toISOString();
+  return run;
+}
+
+/**
+ * Start an offboarding run from a plan
+ *
+ * @throws Error if the employee is already being offboarded by another run
+ */
+export async function startOffboarding(plan: OffboardingPlan): Promise<OffboardingRun> {
+  pruneRuns();
+  const company = getActiveCompany();
+  const running = [...runs.values()].find(
+    run =>
+      run.status === 'running' && run.company === company && run.employee_id === plan.employee_id
+  );
+  if (running) {
+    throw new Error(
+      `Employee ${plan.employee_id} is already being offboarded by run ${running.id}; wait for it to finish.`
+    );
+  }
+
+  const now = new Date().toISOString();
+  const run: OffboardingRun = {
+    ...plan,
+    id: randomBytes(8).toString('hex'),
+    company,
+    status: 'running',
+    started_at: now,
+    updated_at: now,
+  };
+  runs.set(run.id, run);
+  return execute(run);
+}
+
+/**
+ * Get an offboarding run of the active company
+ *
+ * @throws Error if there is no such run
+ */
+export function getOffboardingRun(id: string): OffboardingRun {
+  pruneRuns();
+  const run = runs.get(id);
+  if (!run || run.company !== getActiveCompany()) {
+    throw new Error(
+      `Offboarding run ${id} not found. Runs are lost on restart and failed runs are kept for 7 days; start the offboarding again to plan the remaining steps.`
+    );
+  }
+  return run;
+}
+
+/**
+ * Resume a failed run from its failed step
+ *
+ * @throws Error if the run does not exist, is still running or is already completed
+ */
+export async function resumeOffboarding(id: string): Promise<OffboardingRun> {
+  const run = getOffboardingRun(id);
+  if (run.status === 'running') {
+    throw new Error(`Offboarding run ${id} is still running; wait for it to finish.`);
+  }
+  if (run.status !== 'failed') {
+    throw new Error(`Offboarding run ${id} is ${run.status}; only failed runs can be resumed.`);
+  }
+  return execute(run);
+}
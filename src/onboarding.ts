@@ -0,0 +1,421 @@
+/**
+ * Onboarding workflow for MCP FactorialHR
+ *
+ * Provisions a new hire from a plan: create the employee, then add them to
+ * their teams, assign their projects, enroll them in trainings and create
+ * their first shifts. Each step is a regular audited write operation.
+ *
+ * Every reference in the plan is checked before anything is created. Once the
+ * employee exists, a failed step does not stop the others; the run reports
+ * which steps failed so they can be retried one by one.
+ *
+ * Reusable plans (e.g., a company's default onboarding) are read from a YAML
+ * or JSON templates file (FACTORIAL_ONBOARDING_PATH). A template can be limited
+ * to one company profile.
+ */
+
+import { readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import {
+  addTeamMember,
+  assignProjectWorker,
+  createEmployee,
+  createShift,
+  enrollInTraining,
+  getEmployee,
+  getLocation,
+  getProject,
+  getTeam,
+  getTraining,
+  getTrainingSession,
+  listEmployees,
+} from './api.js';
+import { debug, getActiveCompany, getServerMode } from './config.js';
+import { ConfigurationError } from './errors.js';
+import { fetchAllPages } from './pagination.js';
+import { CreateEmployeeInputSchema, CreateShiftInputSchema } from './schemas.js';
+
+const TrainingPlanSchema = z.object({
+  training_id: z.number().positive(),
+  session_id: z.number().positive().optional(),
+});
+
+/**
+ * Onboarding template from the templates file
+ */
+export const OnboardingTemplateSchema = z
+  .object({
+    /** Company profile the template applies to (all companies when omitted) */
+    company: z.string().optional(),
+    description: z.string().optional(),
+    manager_id: z.number().positive().optional(),
+    location_id: z.number().positive().optional(),
+    role: z.string().max(100).optional(),
+    team_ids: z.array(z.number().positive()).optional(),
+    project_ids: z.array(z.number().positive()).optional(),
+    trainings: z.array(TrainingPlanSchema.strict()).optional(),
+  })
+  .strict();
+
+export type OnboardingTemplate = z.infer<typeof OnboardingTemplateSchema>;
+
+const OnboardingFileSchema = z
+  .object({
+    templates: z.record(OnboardingTemplateSchema),
+  })
+  .strict();
+
+/**
+ * Plan of an onboarding
+ */
+export const OnboardingPlanSchema = z.object({
+  employee: CreateEmployeeInputSchema.omit({ team_ids: true }),
+  team_ids: z.array(z.number().positive()).optional(),
+  project_ids: z.array(z.number().positive()).optional(),
+  trainings: z.array(TrainingPlanSchema).optional(),
+  shifts: z.array(CreateShiftInputSchema.omit({ employee_id: true })).optional(),
+});
+
+export type OnboardingPlan = z.infer<typeof OnboardingPlanSchema>;
+
+/**
+ * Kinds of onboarding steps, in the order they run
+ */
+export type OnboardingStepKind =
+  | 'create_employee'
+  | 'add_team_member'
+  | 'assign_project_worker'
+  | 'enroll_in_training'
+  | 'create_shift';
+
+/**
+ * A step of an onboarding
+ */
+export interface OnboardingStep {
+  kind: OnboardingStepKind;
+  description: string;
+  status: 'pending' | 'done' | 'failed' | 'not_run';
+  error?: string;
+  /** ID of the record the step created or changed */
+  result_id?: number;
+}
+
+/**
+ * A checked onboarding plan with its steps
+ */
+export interface PreparedOnboarding {
+  plan: OnboardingPlan;
+  steps: OnboardingStep[];
+  warnings: string[];
+}
+
+/**
+ * Outcome of an onboarding
+ */
+export interface OnboardingResult {
+  /** ID of the new employee, if it was created */
+  employee_id?: number;
+  /** 'dry_run' when only the employee request was recorded (dry-run mode) */
+  status: 'completed' | 'partial' | 'failed' | 'dry_run';
+  steps: OnboardingStep[];
+  warnings: string[];
+}
+
+/**
+ * Templates file, cached by path
+ */
+let loadedTemplates: { path: string; templates: Record<string, OnboardingTemplate> } | undefined;
+
+/**
+ * Load the onboarding templates file, if any
+ *
+ * Called at startup so an invalid file stops the server instead of failing
+ * on the first onboarding.
+ *
+ * @throws ConfigurationError if the file cannot be read or is invalid
+ */
+export function loadOnboardingTemplates(): Record<string, OnboardingTemplate> {
+  const path = process.env.FACTORIAL_ONBOARDING_PATH
+    ? resolve(process.env.FACTORIAL_ONBOARDING_PATH)
+    : '';
+  if (loadedTemplates?.path === path) {
+    return loadedTemplates.templates;
+  }
+
+  let templates: Record<string, OnboardingTemplate> = {};
+  if (path) {
+    let raw: unknown;
+    try {
+      const text = readFileSync(path, 'utf8');
+      raw = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Cannot read onboarding templates from ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const parsed = OnboardingFileSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      throw new ConfigurationError(`Invalid onboarding templates file ${path}: ${issues}`);
+    }
+    templates = parsed.data.templates;
+    debug(`Loaded ${Object.keys(templates).length} onboarding templates from ${path}`);
+  }
+
+  loadedTemplates = { path, templates };
+  return templates;
+}
+
+/**
+ * Get the onboarding templates available to the active company
+ */
+export function listOnboardingTemplates(): Record<string, OnboardingTemplate> {
+  const company = getActiveCompany();
+  return Object.fromEntries(
+    Object.entries(loadOnboardingTemplates()).filter(
+      ([, template]) => template.company === undefined || template.company === company
+    )
+  );
+}
+
+/**
+ * Merge a template into a plan
+ *
+ * Values given in the plan win over the template's manager, location and
+ * role; teams, projects and trainings are combined.
+ *
+ * @throws Error if the template does not exist for the active company
+ */
+export function applyOnboardingTemplate(plan: OnboardingPlan, name: string): OnboardingPlan {
+  const templates = listOnboardingTemplates();
+  const template = templates[name];
+  if (!template) {
+    const available = Object.keys(templates);
+    throw new Error(
+      `Unknown onboarding template "${name}". ` +
+        (available.length > 0
+          ? `Available templates: ${available.join(', ')}.`
+          : 'No templates are configured (FACTORIAL_ONBOARDING_PATH).')
+    );
+  }
+
+  // A training given in the plan replaces the template's session for it
+  const trainings = new Map(
+    [...(template.trainings ?? []), ...(plan.trainings ?? [])].map(training => [
+      training.training_id,
+      training,
+    ])
+  );
+  return {
+    ...plan,
+    employee: {
+      ...plan.employee,
+      manager_id: plan.employee.manager_id ?? template.manager_id,
+      location_id: plan.employee.location_id ?? template.location_id,
+      role: plan.employee.role ?? template.role,
+    },
+    team_ids: [...new Set([...(template.team_ids ?? []), ...(plan.team_ids ?? [])])],
+    project_ids: [...new Set([...(template.project_ids ?? []), ...(plan.project_ids ?? [])])],
+    trainings: [...trainings.values()],
+  };
+}
+
+/**
+ * Look up a referenced record, turning a failure into a problem description
+ */
+async function check<T>(
+  problems: string[],
+  label: string,
+  fetch: () => Promise<T>
+): Promise<T | undefined> {
+  try {
+    return await fetch();
+  } catch (error) {
+    problems.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/**
+ * Check a plan and work out its steps
+ *
+ * @throws Error if the plan is invalid, listing every problem found (unknown
+ * teams, projects, trainings or sessions, an inactive manager, an email
+ * already in use)
+ */
+export async function prepareOnboarding(input: OnboardingPlan): Promise<PreparedOnboarding> {
+  const parsed = OnboardingPlanSchema.safeParse(input);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'plan'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid onboarding plan: ${issues}`);
+  }
+  const plan = parsed.data;
+  const { employee } = plan;
+  const problems: string[] = [];
+  const warnings: string[] = [];
+
+  const [employees, manager, location, teams, projects, trainings] = await Promise.all([
+    fetchAllPages(params => listEmployees(params)),
+    employee.manager_id !== undefined
+      ? check(problems, `Manager ${employee.manager_id}`, () => getEmployee(employee.manager_id!))
+      : undefined,
+    employee.location_id !== undefined
+      ? check(problems, `Location ${employee.location_id}`, () =>
+          getLocation(employee.location_id!)
+        )
+      : undefined,
+    Promise.all((plan.team_ids ?? []).map(id => check(problems, `Team ${id}`, () => getTeam(id)))),
+    Promise.all(
+      (plan.project_ids ?? []).map(id => check(problems, `Project ${id}`, () => getProject(id)))
+    ),
+    Promise.all(
+      (plan.trainings ?? []).map(async ({ training_id, session_id }) => ({
+        training: await check(problems, `Training ${training_id}`, () => getTraining(training_id)),
+        session:
+          session_id !== undefined
+            ? await check(problems, `Training session ${session_id}`, () =>
+                getTrainingSession(session_id)
+              )
+            : undefined,
+      }))
+    ),
+  ]);
+
+  const email = employee.email.toLowerCase();
+  const existing = employees.find(e => e.email?.toLowerCase() === email);
+  if (existing) {
+    problems.push(`Email ${employee.email} is already used by employee ${existing.id}`);
+  }
+  if (manager?.terminated_on) {
+    problems.push(`Manager ${manager.id} was terminated on ${manager.terminated_on}`);
+  }
+  (plan.trainings ?? []).forEach(({ training_id }, i) => {
+    const { session } = trainings[i];
+    if (session && session.training_id !== training_id) {
+      problems.push(`Training session ${session.id} belongs to training ${session.training_id}`);
+    }
+    if (session?.start_date && employee.start_date && session.start_date < employee.start_date) {
+      warnings.push(
+        `Training session ${session.id} starts on ${session.start_date}, before the start date.`
+      );
+    }
+  });
+  for (const project of projects) {
+    if (project && project.status !== null && project.status !== 'active') {
+      warnings.push(`Project ${project.name} is ${project.status}.`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`The onboarding plan cannot be run:\n- ${problems.join('\n- ')}`);
+  }
+
+  const name = `${employee.first_name} ${employee.last_name}`;
+  const steps: OnboardingStep[] = [
+    {
+      kind: 'create_employee',
+      description:
+        `Create employee ${name} <${employee.email}>` +
+        (manager ? `, reporting to ${manager.full_name ?? manager.id}` : '') +
+        (location ? `, at ${location.name}` : ''),
+      status: 'pending',
+    },
+    ...teams.map(
+      (team): OnboardingStep => ({
+        kind: 'add_team_member',
+        description: `Add to team ${team?.name}`,
+        status: 'pending',
+      })
+    ),
+    ...projects.map(
+      (project): OnboardingStep => ({
+        kind: 'assign_project_worker',
+        description: `Assign to project ${project?.name}`,
+        status: 'pending',
+      })
+    ),
+    ...trainings.map(
+      ({ training, session }): OnboardingStep => ({
+        kind: 'enroll_in_training',
+        description:
+          `Enroll in training ${training?.name}` +
+          (session ? `, session ${session.name ?? session.id}` : ''),
+        status: 'pending',
+      })
+    ),
+    ...(plan.shifts ?? []).map(
+      (shift): OnboardingStep => ({
+        kind: 'create_shift',
+        description: `Create shift from ${shift.clock_in}${shift.clock_out ? ` to ${shift.clock_out}` : ''}`,
+        status: 'pending',
+      })
+    ),
+  ];
+
+  return { plan, steps, warnings };
+}
+
+/**
+ * Run a prepared onboarding
+ *
+ * Stops if the employee cannot be created. Later steps run even when one of
+ * them fails. In dry-run mode only the employee request is recorded, since the
+ * other steps need the ID of the new employee.
+ */
+export async function runOnboarding(prepared: PreparedOnboarding): Promise<OnboardingResult> {
+  const { plan, warnings } = prepared;
+  const steps = prepared.steps.map(step => ({ ...step }));
+  const [createStep, ...rest] = steps;
+
+  let employeeId: number;
+  try {
+    employeeId = (await createEmployee(plan.employee)).id;
+    createStep.status = 'done';
+    createStep.result_id = employeeId;
+  } catch (error) {
+    createStep.status = 'failed';
+    createStep.error = error instanceof Error ? error.message : String(error);
+    for (const step of rest) step.status = 'not_run';
+    return { status: 'failed', steps, warnings };
+  }
+
+  if (getServerMode() === 'dry-run') {
+    for (const step of rest) step.status = 'not_run';
+    return { status: 'dry_run', steps, warnings };
+  }
+
+  const actions: (() => Promise<{ id: number }>)[] = [
+    ...(plan.team_ids ?? []).map(teamId => () => addTeamMember(teamId, employeeId)),
+    ...(plan.project_ids ?? []).map(
+      projectId => () => assignProjectWorker({ project_id: projectId, employee_id: employeeId })
+    ),
+    ...(plan.trainings ?? []).map(
+      training => () => enrollInTraining({ ...training, employee_id: employeeId })
+    ),
+    ...(plan.shifts ?? []).map(shift => () => createShift({ ...shift, employee_id: employeeId })),
+  ];
+
+  for (const [i, step] of rest.entries()) {
+    try {
+      step.result_id = (await actions[i]()).id;
+      step.status = 'done';
+    } catch (error) {
+      step.status = 'failed';
+      step.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  return {
+    employee_id: employeeId,
+    status: rest.some(step => step.status === 'failed') ? 'partial' : 'completed',
+    steps,
+    warnings,
+  };
+}
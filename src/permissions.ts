@@ -0,0 +1,321 @@
+/**
+ * Role-based tool permissions for MCP FactorialHR
+ *
+ * A permission profile (e.g., viewer, manager, recruiter) decides which tools a
+ * client can use: the tools it may see, the highest risk level of write
+ * operations it may run, and which sensitive tool families (payroll, tax
+ * identifiers, family situations, contracts/salary, document contents) it may
+ * reach, and whether it may reveal fields hidden by the redaction policy.
+ *
+ * Built-in profiles can be overridden or extended with a JSON file
+ * (FACTORIAL_PERMISSIONS_PATH). The profile of a client is chosen by its HTTP
+ * client name (`clients` in the file), then FACTORIAL_ROLE, then the file's
+ * `default`. Without any of these, all tools are available.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import { debug } from './config.js';
+import { getSessionContext } from './context.js';
+import { ConfigurationError, PermissionDeniedError } from './errors.js';
+import { getOperationPolicy, isWriteOperation, OperationRisk } from './write-safety.js';
+
+/**
+ * Families of tools that expose sensitive data
+ */
+export type SensitiveFamily =
+  | 'payroll'
+  | 'tax_identifiers'
+  | 'family_situations'
+  | 'contracts'
+  | 'documents';
+
+/**
+ * Highest risk level of write operations a profile may run ('none' for read-only)
+ */
+export type MaxRisk = OperationRisk | 'none';
+
+/**
+ * Permission profile of a role
+ */
+export interface PermissionProfile {
+  name: string;
+  /** Tool name patterns the profile may use (`*` matches any characters) */
+  tools: string[];
+  /** Highest risk level of write operations allowed */
+  maxRisk: MaxRisk;
+  /** Sensitive tool families the profile may reach */
+  sensitive: SensitiveFamily[];
+  /** Whether the profile may reveal redacted fields (reveal_sensitive_fields) */
+  reveal: boolean;
+}
+
+/**
+ * Tools belonging to each sensitive family
+ */
+export const SENSITIVE_TOOL_FAMILIES: Record<SensitiveFamily, string[]> = {
+  payroll: ['list_payroll_supplements', 'get_payroll_supplement'],
+  tax_identifiers: ['list_tax_identifiers', 'get_tax_identifier'],
+  family_situations: ['list_family_situations', 'get_family_situation'],
+  contracts: ['get_employee_contracts', 'get_employee_with_contract'],
+  // Full text of documents such as signed contracts and payslips
+  documents: ['read_document_content', 'search_document_content'],
+};
+
+const ALL_SENSITIVE_FAMILIES = Object.keys(SENSITIVE_TOOL_FAMILIES) as SensitiveFamily[];
+
+/**
+ * Tool that returns unredacted field values
+ */
+export const REVEAL_TOOL = 'reveal_sensitive_fields';
+
+/**
+ * Built-in permission profiles
+ */
+export const DEFAULT_PERMISSION_PROFILES: Record<string, Omit<PermissionProfile, 'name'>> = {
+  viewer: { tools: ['*'], maxRisk: 'none', sensitive: [], reveal: false },
+  manager: {
+    tools: ['*'],
+    maxRisk: OperationRisk.MEDIUM,
+    sensitive: ['contracts'],
+    reveal: false,
+  },
+  recruiter: {
+    tools: [
+      'list_*',
+      'get_*',
+      'search_*',
+      '*job_posting*',
+      // Not *candidate*: hire_candidate creates employees and merge_candidates
+      // deletes candidates in bulk
+      'create_candidate',
+      'update_candidate',
+      'delete_candidate',
+      'find_duplicate_candidates',
+      '*application*',
+      'ats_*',
+      'select_company',
+    ],
+    maxRisk: OperationRisk.HIGH,
+    sensitive: [],
+    reveal: false,
+  },
+  payroll: { tools: ['*'], maxRisk: 'none', sensitive: ALL_SENSITIVE_FAMILIES, reveal: true },
+  admin: {
+    tools: ['*'],
+    maxRisk: OperationRisk.CRITICAL,
+    sensitive: ALL_SENSITIVE_FAMILIES,
+    reveal: true,
+  },
+};
+
+/**
+ * Order of risk levels, lowest first
+ */
+const RISK_ORDER: MaxRisk[] = [
+  'none',
+  OperationRisk.LOW,
+  OperationRisk.MEDIUM,
+  OperationRisk.HIGH,
+  OperationRisk.CRITICAL,
+];
+
+const PermissionsFileSchema = z.object({
+  default: z.string().optional(),
+  clients: z.record(z.string()).optional(),
+  profiles: z
+    .record(
+      z
+        .object({
+          tools: z.array(z.string().min(1)).optional(),
+          maxRisk: z.enum(['none', 'low', 'medium', 'high', 'critical']).optional(),
+          sensitive: z
+            .array(
+              z.enum(['payroll', 'tax_identifiers', 'family_situations', 'contracts', 'documents'])
+            )
+            .optional(),
+          reveal: z.boolean().optional(),
+        })
+        .strict()
+    )
+    .optional(),
+});
+
+/**
+ * Parsed permissions file, cached by path
+ */
+let loadedPermissions:
+  | {
+      path: string;
+      defaultRole?: string;
+      clients: Record<string, string>;
+      profiles: Map<string, PermissionProfile>;
+    }
+  | undefined;
+
+/**
+ * Load the built-in profiles merged with the permissions file, if any
+ *
+ * @throws ConfigurationError if the file cannot be read or is invalid
+ */
+function loadPermissions(): NonNullable<typeof loadedPermissions> {
+  const path = process.env.FACTORIAL_PERMISSIONS_PATH
+    ? resolve(process.env.FACTORIAL_PERMISSIONS_PATH)
+    : '';
+  if (loadedPermissions?.path === path) {
+    return loadedPermissions;
+  }
+
+  let file: z.infer<typeof PermissionsFileSchema> = {};
+  if (path) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Cannot read permissions from ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const parsed = PermissionsFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      throw new ConfigurationError(`Invalid permissions file ${path}: ${issues}`);
+    }
+    file = parsed.data;
+  }
+
+  const profiles = new Map<string, PermissionProfile>();
+  for (const [name, profile] of Object.entries(DEFAULT_PERMISSION_PROFILES)) {
+    profiles.set(name, { name, ...profile });
+  }
+  for (const [name, override] of Object.entries(file.profiles ?? {})) {
+    const base = profiles.get(name) ?? {
+      name,
+      tools: ['*'],
+      maxRisk: 'none',
+      sensitive: [],
+      reveal: false,
+    };
+    profiles.set(name, {
+      name,
+      tools: override.tools ?? base.tools,
+      maxRisk: (override.maxRisk as MaxRisk | undefined) ?? base.maxRisk,
+      sensitive: override.sensitive ?? base.sensitive,
+      reveal: override.reveal ?? base.reveal,
+    });
+  }
+
+  for (const role of [file.default, ...Object.values(file.clients ?? {})]) {
+    if (role !== undefined && !profiles.has(role)) {
+      throw new ConfigurationError(`Invalid permissions file ${path}: unknown role "${role}"`);
+    }
+  }
+
+  loadedPermissions = { path, defaultRole: file.default, clients: file.clients ?? {}, profiles };
+  if (path) {
+    debug(`Loaded permissions from ${path}`);
+  }
+  return loadedPermissions;
+}
+
+/**
+ * Get a permission profile by role name
+ *
+ * @throws ConfigurationError if the role is unknown
+ */
+export function getPermissionProfile(role: string): PermissionProfile {
+  const profile = loadPermissions().profiles.get(role);
+  if (!profile) {
+    const known = [...loadPermissions().profiles.keys()];
+    throw new ConfigurationError(`Unknown role "${role}". Available roles: ${known.join(', ')}.`);
+  }
+  return profile;
+}
+
+/**
+ * Get the permission profile of the current client
+ *
+ * @returns The profile, or undefined when no role applies (all tools allowed)
+ */
+export function getActivePermissionProfile(): PermissionProfile | undefined {
+  const permissions = loadPermissions();
+  const client = getSessionContext()?.client;
+  const role =
+    (client ? permissions.clients[client] : undefined) ??
+    (process.env.FACTORIAL_ROLE || undefined) ??
+    permissions.defaultRole;
+  return role ? getPermissionProfile(role) : undefined;
+}
+
+/**
+ * Check whether a tool name matches a pattern (`*` matches any characters)
+ */
+function matchesPattern(toolName: string, pattern: string): boolean {
+  const regex = new RegExp(
+    `^${pattern
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`
+  );
+  return regex.test(toolName);
+}
+
+/**
+ * Find the reason a profile may not use a tool
+ *
+ * @returns The reason, or undefined if the tool is allowed
+ */
+export function getToolDenialReason(
+  profile: PermissionProfile,
+  toolName: string
+): string | undefined {
+  if (!profile.tools.some(pattern => matchesPattern(toolName, pattern))) {
+    return 'the tool is not in the profile';
+  }
+
+  if (isWriteOperation(toolName)) {
+    const risk = getOperationPolicy(toolName).risk;
+    if (RISK_ORDER.indexOf(risk) > RISK_ORDER.indexOf(profile.maxRisk)) {
+      return profile.maxRisk === 'none'
+        ? 'the profile is read-only'
+        : `${risk}-risk operations exceed the profile's maximum (${profile.maxRisk})`;
+    }
+  }
+
+  for (const family of ALL_SENSITIVE_FAMILIES) {
+    if (SENSITIVE_TOOL_FAMILIES[family].includes(toolName) && !profile.sensitive.includes(family)) {
+      return `the profile cannot access ${family.replace('_', ' ')} data`;
+    }
+  }
+
+  if (toolName === REVEAL_TOOL && !profile.reveal) {
+    return 'the profile cannot reveal redacted fields';
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether the current client may use a tool
+ */
+export function isToolAllowed(toolName: string): boolean {
+  const profile = getActivePermissionProfile();
+  return !profile || getToolDenialReason(profile, toolName) === undefined;
+}
+
+/**
+ * Ensure the current client may use a tool
+ *
+ * @throws PermissionDeniedError if the client's profile does not allow it
+ */
+export function assertToolAllowed(toolName: string): void {
+  const profile = getActivePermissionProfile();
+  const reason = profile ? getToolDenialReason(profile, toolName) : undefined;
+  if (profile && reason) {
+    throw new PermissionDeniedError(toolName, profile.name, reason);
+  }
+}
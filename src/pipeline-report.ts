@@ -0,0 +1,275 @@
+/**
+ * Recruiting funnel analytics for MCP FactorialHR
+ *
+ * Aggregates the applications of job postings by hiring stage and computes
+ * funnel metrics: how many applications reached each stage, the conversion
+ * to the next stage, how long active applications have been in their stage,
+ * time to hire and rejection rate. Metrics are broken down by candidate source
+ * and compared across postings.
+ *
+ * FactorialHR only keeps the current stage of an application, so the funnel
+ * assumes applications move through the stages in order (by `position`): an
+ * application in a stage is counted as having reached every earlier stage.
+ * Rejected applications count up to the stage they were rejected in. Time in
+ * stage is measured from the application's last update (`updated_at`, or
+ * `applied_at` when missing), which is when it usually entered the stage.
+ */
+
+import { listApplications, listCandidates, listHiringStages, listJobPostings } from './api.js';
+import { fetchAllPages } from './pagination.js';
+import { pipelineStages } from './pipeline.js';
+import type { Application, Candidate, HiringStage, JobPosting } from './schemas.js';
+import { average, median, rate } from './statistics.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Source used for candidates without one
+ */
+export const UNKNOWN_SOURCE = 'unknown';
+
+/**
+ * Options of a pipeline report
+ */
+export interface PipelineReportOptions {
+  /** Postings to report on (defaults to all postings) */
+  job_posting_ids?: number[];
+  /** Only postings with this status */
+  posting_status?: NonNullable<JobPosting['status']>;
+  /** Only applications received on or after this date (YYYY-MM-DD) */
+  applied_from?: string;
+  /** Only applications received on or before this date (YYYY-MM-DD) */
+  applied_to?: string;
+}
+
+/**
+ * Funnel figures of a hiring stage
+ */
+export interface StageMetrics {
+  stage_id: number;
+  stage: string;
+  /** Applications currently in the stage */
+  current: number;
+  /** Applications in this stage or a later one */
+  reached: number;
+  /** Share of the applications that reached this stage and reached the next one */
+  conversion_to_next: number | null;
+  /** Average days active applications have been in the stage */
+  avg_days_in_stage: number | null;
+}
+
+/**
+ * Outcome figures of a set of applications
+ */
+export interface OutcomeMetrics {
+  applications: number;
+  active: number;
+  hired: number;
+  rejected: number;
+  hire_rate: number | null;
+  rejection_rate: number | null;
+  avg_days_to_hire: number | null;
+  median_days_to_hire: number | null;
+}
+
+/**
+ * Funnel of a set of applications
+ */
+export interface FunnelMetrics extends OutcomeMetrics {
+  stages: StageMetrics[];
+  /** Applications without a known stage */
+  without_stage: number;
+  by_source: Record<string, OutcomeMetrics>;
+}
+
+/**
+ * Funnel of a job posting
+ */
+export interface PostingFunnel extends FunnelMetrics {
+  job_posting_id: number;
+  title: string;
+  status: JobPosting['status'];
+}
+
+/**
+ * A row of the comparison across postings
+ */
+export interface PostingComparison extends OutcomeMetrics {
+  job_posting_id: number;
+  title: string;
+}
+
+/**
+ * Pipeline report across job postings
+ */
+export interface PipelineReport {
+  generated_at: string;
+  options: PipelineReportOptions;
+  total: FunnelMetrics;
+  /** Postings side by side, most applications first */
+  comparison: PostingComparison[];
+  postings: PostingFunnel[];
+}
+
+/**
+ * Days between two timestamps, or null when either is missing or invalid
+ */
+function daysBetween(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null;
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS;
+  return Number.isNaN(days) ? null : Math.max(0, days);
+}
+
+/**
+ * Outcome figures of applications
+ */
+function outcomes(applications: Application[]): OutcomeMetrics {
+  const hired = applications.filter(a => a.hired_at);
+  const rejected = applications.filter(a => !a.hired_at && a.rejected_at);
+  const daysToHire = hired
+    .map(a => daysBetween(a.applied_at ?? a.created_at, a.hired_at))
+    .filter((days): days is number => days !== null);
+
+  return {
+    applications: applications.length,
+    active: applications.length - hired.length - rejected.length,
+    hired: hired.length,
+    rejected: rejected.length,
+    hire_rate: rate(hired.length, applications.length),
+    rejection_rate: rate(rejected.length, applications.length),
+    avg_days_to_hire: average(daysToHire),
+    median_days_to_hire: median(daysToHire),
+  };
+}
+
+/**
+ * Funnel of applications through the ordered stages
+ */
+export function buildFunnel(
+  applications: Application[],
+  stages: HiringStage[],
+  sources: Map<number, string>,
+  now: Date = new Date()
+): FunnelMetrics {
+  const ordered = [...stages].sort(
+    (a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER)
+  );
+  const index = new Map(ordered.map((stage, i) => [stage.id, i]));
+
+  const current = ordered.map(() => 0);
+  const waiting: number[][] = ordered.map(() => []);
+  let withoutStage = 0;
+  for (const application of applications) {
+    const i =
+      application.hiring_stage_id !== null ? index.get(application.hiring_stage_id) : undefined;
+    if (i === undefined) {
+      withoutStage++;
+      continue;
+    }
+    current[i]++;
+    if (!application.hired_at && !application.rejected_at) {
+      const days = daysBetween(application.updated_at ?? application.applied_at, now.toISOString());
+      if (days !== null) waiting[i].push(days);
+    }
+  }
+
+  const reached = current.map((_, i) => current.slice(i).reduce((a, b) => a + b, 0));
+  const bySource = new Map<string, Application[]>();
+  for (const application of applications) {
+    const source = sources.get(application.candidate_id) ?? UNKNOWN_SOURCE;
+    bySource.set(source, [...(bySource.get(source) ?? []), application]);
+  }
+
+  return {
+    ...outcomes(applications),
+    stages: ordered.map((stage, i) => ({
+      stage_id: stage.id,
+      stage: stage.label ?? stage.name,
+      current: current[i],
+      reached: reached[i],
+      conversion_to_next: i < ordered.length - 1 ? rate(reached[i + 1], reached[i]) : null,
+      avg_days_in_stage: average(waiting[i]),
+    })),
+    without_stage: withoutStage,
+    by_source: Object.fromEntries(
+      [...bySource.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([source, group]) => [source, outcomes(group)])
+    ),
+  };
+}
+
+/**
+ * Build the pipeline report of job postings
+ *
+ * @throws Error if a requested job posting does not exist
+ */
+export async function buildPipelineReport(
+  options: PipelineReportOptions = {}
+): Promise<PipelineReport> {
+  const [allPostings, applications, candidates, stages] = await Promise.all([
+    fetchAllPages(params => listJobPostings(params)),
+    fetchAllPages(params => listApplications(undefined, params)),
+    fetchAllPages(params => listCandidates(params)),
+    listHiringStages(),
+  ]);
+
+  let postings = allPostings;
+  if (options.job_posting_ids) {
+    const missing = options.job_posting_ids.filter(id => !allPostings.some(p => p.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Job posting(s) not found: ${missing.join(', ')}`);
+    }
+    postings = allPostings.filter(p => options.job_posting_ids!.includes(p.id));
+  }
+  if (options.posting_status) {
+    postings = postings.filter(p => p.status === options.posting_status);
+  }
+
+  const sources = new Map(
+    candidates.map((c: Candidate) => [c.id, c.source?.trim() || UNKNOWN_SOURCE])
+  );
+  const inWindow = (application: Application) => {
+    const applied = (application.applied_at ?? application.created_at ?? '').slice(0, 10);
+    return (
+      (!options.applied_from || applied >= options.applied_from) &&
+      (!options.applied_to || (applied !== '' && applied <= options.applied_to))
+    );
+  };
+  const postingIds = new Set(postings.map(p => p.id));
+  const selected = applications.filter(a => postingIds.has(a.job_posting_id) && inWindow(a));
+
+  const now = new Date();
+  const funnels: PostingFunnel[] = postings.map(posting => ({
+    job_posting_id: posting.id,
+    title: posting.title,
+    status: posting.status,
+    ...buildFunnel(
+      selected.filter(a => a.job_posting_id === posting.id),
+      pipelineStages(posting, stages),
+      sources,
+      now
+    ),
+  }));
+
+  return {
+    generated_at: now.toISOString(),
+    options,
+    total: buildFunnel(selected, stages, sources, now),
+    comparison: funnels
+      .map(funnel => ({
+        job_posting_id: funnel.job_posting_id,
+        title: funnel.title,
+        applications: funnel.applications,
+        active: funnel.active,
+        hired: funnel.hired,
+        rejected: funnel.rejected,
+        hire_rate: funnel.hire_rate,
+        rejection_rate: funnel.rejection_rate,
+        avg_days_to_hire: funnel.avg_days_to_hire,
+        median_days_to_hire: funnel.median_days_to_hire,
+      }))
+      .sort((a, b) => b.applications - a.applications),
+    postings: funnels,
+  };
+}
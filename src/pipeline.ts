@@ -0,0 +1,285 @@
+/**
+ * Hiring pipeline operations for MCP FactorialHR
+ *
+ * Moves applications to a hiring stage given by name or ID, rejects
+ * applications in bulk, and reads the stage history of an application.
+ *
+ * Hiring stages are defined per company, so the pipeline of a job posting is
+ * the set of stages of the posting's company. There is no stage history in
+ * FactorialHR itself: stage changes are audited like any update (with the
+ * previous stage), and the history is read back from the audit log. It is
+ * complete only when a persistent audit log (FACTORIAL_AUDIT_LOG_PATH) is set.
+ */
+
+import {
+  getApplication,
+  getCandidate,
+  getJobPosting,
+  listHiringStages,
+  rejectApplication,
+  updateApplication,
+} from './api.js';
+import { AuditAction, auditLogger } from './audit.js';
+import type { Application, HiringStage, JobPosting } from './schemas.js';
+
+/**
+ * A checked move of an application to another stage
+ */
+export interface StageMove {
+  application: Application;
+  posting: JobPosting;
+  from: HiringStage | undefined;
+  to: HiringStage;
+  warnings: string[];
+}
+
+/**
+ * An application to reject, with a readable name
+ */
+export interface RejectionTarget {
+  application: Application;
+  /** Candidate name and job posting title */
+  name: string;
+}
+
+/**
+ * Checked bulk rejection
+ */
+export interface RejectionPlan {
+  targets: RejectionTarget[];
+  /** Applications left out, with the reason */
+  skipped: { application_id: number; reason: string }[];
+}
+
+/**
+ * Outcome of rejecting one application
+ */
+export interface RejectionResult {
+  application_id: number;
+  name: string;
+  status: 'rejected' | 'failed';
+  error?: string;
+}
+
+/**
+ * A change in the stage of an application
+ */
+export interface StageHistoryEvent {
+  timestamp: string;
+  actor?: string;
+  /** 'stage' for moves, 'rejected' for rejections */
+  event: 'stage' | 'rejected';
+  from_stage?: string;
+  to_stage?: string;
+  reason?: string;
+  audit_entry_id: string;
+}
+
+/**
+ * Name of a stage for messages
+ */
+function stageName(stage: HiringStage): string {
+  return stage.label ?? stage.name;
+}
+
+/**
+ * Stages of the pipeline of a job posting (the stages of its company)
+ */
+export function pipelineStages(posting: JobPosting, stages: HiringStage[]): HiringStage[] {
+  return stages.filter(
+    stage =>
+      posting.company_id === null ||
+      stage.company_id === null ||
+      stage.company_id === posting.company_id
+  );
+}
+
+/**
+ * Find a stage of a posting's pipeline by ID or by name (or label)
+ *
+ * @param stages - Hiring stages already fetched (fetched when omitted)
+ * @throws Error if no stage, or more than one stage, matches
+ */
+export async function resolveHiringStage(
+  posting: JobPosting,
+  stage: number | string,
+  stages?: HiringStage[]
+): Promise<HiringStage> {
+  const pipeline = pipelineStages(posting, stages ?? (await listHiringStages()));
+  const available = pipeline.map(s => `${stageName(s)} (${s.id})`).join(', ');
+
+  if (typeof stage === 'number') {
+    const match = pipeline.find(s => s.id === stage);
+    if (!match) {
+      throw new Error(
+        `Hiring stage ${stage} is not part of the pipeline of job posting ${posting.id}. Available stages: ${available}.`
+      );
+    }
+    return match;
+  }
+
+  const name = stage.trim().toLowerCase();
+  const matches = pipeline.filter(
+    s => s.name.toLowerCase() === name || s.label?.toLowerCase() === name
+  );
+  if (matches.length !== 1) {
+    throw new Error(
+      matches.length === 0
+        ? `No hiring stage named "${stage}" in the pipeline of job posting ${posting.id}. Available stages: ${available}.`
+        : `More than one hiring stage is named "${stage}" (${matches.map(s => s.id).join(', ')}); pass the stage ID.`
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Check a move of an application to a stage
+ *
+ * @throws Error if the stage is not in the posting's pipeline, or the
+ * application is already in it
+ */
+export async function planStageMove(
+  applicationId: number,
+  stage: number | string
+): Promise<StageMove> {
+  const application = await getApplication(applicationId);
+  const posting = await getJobPosting(application.job_posting_id);
+  const stages = await listHiringStages();
+  const to = await resolveHiringStage(posting, stage, stages);
+  if (application.hiring_stage_id === to.id) {
+    throw new Error(`Application ${applicationId} is already in stage ${stageName(to)}.`);
+  }
+
+  const warnings: string[] = [];
+  if (application.rejected_at) {
+    warnings.push(`The application was rejected on ${application.rejected_at}.`);
+  }
+  if (application.hired_at) {
+    warnings.push(`The application was hired on ${application.hired_at}.`);
+  }
+
+  return {
+    application,
+    posting,
+    from: stages.find(s => s.id === application.hiring_stage_id),
+    to,
+    warnings,
+  };
+}
+
+/**
+ * Move an application to the stage of a checked move
+ */
+export async function moveApplicationToStage(move: StageMove): Promise<Application> {
+  return updateApplication(move.application.id, { hiring_stage_id: move.to.id });
+}
+
+/**
+ * Check applications before rejecting them
+ *
+ * Unknown, already rejected and hired applications are skipped, as are
+ * duplicate IDs.
+ */
+export async function planRejections(applicationIds: number[]): Promise<RejectionPlan> {
+  const ids = [...new Set(applicationIds)];
+  const skipped: RejectionPlan['skipped'] = [];
+
+  const applications = await Promise.all(
+    ids.map(id =>
+      getApplication(id).catch((error: unknown) => {
+        skipped.push({
+          application_id: id,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      })
+    )
+  );
+
+  const targets: RejectionTarget[] = [];
+  for (const application of applications) {
+    if (!application) continue;
+    if (application.rejected_at) {
+      skipped.push({
+        application_id: application.id,
+        reason: `already rejected on ${application.rejected_at}`,
+      });
+      continue;
+    }
+    if (application.hired_at) {
+      skipped.push({
+        application_id: application.id,
+        reason: `hired on ${application.hired_at}`,
+      });
+      continue;
+    }
+    const [candidate, posting] = await Promise.all([
+      getCandidate(application.candidate_id).catch(() => null),
+      getJobPosting(application.job_posting_id).catch(() => null),
+    ]);
+    targets.push({
+      application,
+      name: `${candidate?.full_name ?? `Candidate ${application.candidate_id}`} for ${posting?.title ?? `Job posting ${application.job_posting_id}`}`,
+    });
+  }
+
+  return { targets, skipped };
+}
+
+/**
+ * Reject the applications of a plan one by one, continuing after failures
+ */
+export async function rejectApplications(
+  plan: RejectionPlan,
+  reason: string
+): Promise<RejectionResult[]> {
+  const results: RejectionResult[] = [];
+  for (const { application, name } of plan.targets) {
+    try {
+      await rejectApplication(application.id, { reason });
+      results.push({ application_id: application.id, name, status: 'rejected' });
+    } catch (error) {
+      results.push({
+        application_id: application.id,
+        name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Get the stage changes and rejections of an application, oldest first
+ */
+export async function getStageHistory(applicationId: number): Promise<StageHistoryEvent[]> {
+  const stages = new Map((await listHiringStages()).map(stage => [stage.id, stageName(stage)]));
+  const name = (id: unknown) =>
+    typeof id === 'number' ? (stages.get(id) ?? `Stage ${id}`) : undefined;
+
+  const events: StageHistoryEvent[] = [];
+  const entries = auditLogger
+    .query({ entityType: 'application', entityId: applicationId, success: true })
+    .reverse();
+  for (const entry of entries) {
+    const base = { timestamp: entry.timestamp, actor: entry.actor, audit_entry_id: entry.id };
+    const change = entry.changes?.hiring_stage_id;
+    if (entry.action === AuditAction.UPDATE && change) {
+      events.push({
+        ...base,
+        event: 'stage',
+        from_stage: name(change.from),
+        to_stage: name(change.to),
+      });
+    } else if (entry.action === AuditAction.REJECT) {
+      const reason = entry.changes?.reason?.to;
+      events.push({
+        ...base,
+        event: 'rejected',
+        reason: typeof reason === 'string' ? reason : undefined,
+      });
+    }
+  }
+  return events;
+}
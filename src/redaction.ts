@@ -0,0 +1,203 @@
+/**
+ * Redaction of sensitive fields in tool output for MCP FactorialHR
+ *
+ * Every JSON payload a tool returns passes through a field policy before it
+ * reaches the model. A field can be masked (`ES****1234`), removed, or hashed
+ * (a stable keyed hash, so equal values can still be matched).
+ *
+ * The built-in policy can be overridden with a JSON file
+ * (FACTORIAL_REDACTION_PATH). Redaction applies to tool output and to the
+ * snapshots and changes recorded in the audit log; API calls keep the real
+ * values. Profiles with the `reveal` permission can read redacted fields
+ * through the audited reveal tool.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import { getEmployee, getTaxIdentifier } from './api.js';
+import { AuditAction, auditLogger } from './audit.js';
+import { debug } from './config.js';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * What happens to a field before it reaches the model
+ */
+export type RedactionAction = 'mask' | 'remove' | 'hash' | 'none';
+
+/**
+ * Built-in redaction policy, by field name
+ */
+export const DEFAULT_REDACTION_POLICY: Record<string, RedactionAction> = {
+  identifier: 'mask',
+  identifier_value: 'mask',
+  social_security_number: 'mask',
+  bank_number: 'mask',
+  swift_bic: 'mask',
+  phone_number: 'mask',
+  personal_email: 'hash',
+  birthday_on: 'remove',
+  disability_percentage_cents: 'remove',
+  address_line_1: 'remove',
+  address_line_2: 'remove',
+  contact_name: 'remove',
+  contact_number: 'remove',
+  salary_amount: 'remove',
+};
+
+const RedactionFileSchema = z.object({
+  fields: z.record(z.enum(['mask', 'remove', 'hash', 'none'])),
+});
+
+/**
+ * Merged redaction policy, cached by path
+ */
+let loadedPolicy: { path: string; fields: Record<string, RedactionAction> } | undefined;
+
+/**
+ * Load the built-in policy merged with the redaction file, if any
+ *
+ * @throws ConfigurationError if the file cannot be read or is invalid
+ */
+export function getRedactionPolicy(): Record<string, RedactionAction> {
+  const path = process.env.FACTORIAL_REDACTION_PATH
+    ? resolve(process.env.FACTORIAL_REDACTION_PATH)
+    : '';
+  if (loadedPolicy?.path === path) {
+    return loadedPolicy.fields;
+  }
+
+  let overrides: Record<string, RedactionAction> = {};
+  if (path) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Cannot read redaction policy from ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const parsed = RedactionFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      throw new ConfigurationError(`Invalid redaction policy ${path}: ${issues}`);
+    }
+    overrides = parsed.data.fields;
+    debug(`Loaded redaction policy from ${path}`);
+  }
+
+  loadedPolicy = { path, fields: { ...DEFAULT_REDACTION_POLICY, ...overrides } };
+  return loadedPolicy.fields;
+}
+
+/**
+ * Mask a value, keeping only a few characters at its ends
+ *
+ * Long values keep their first 2 and last 4 characters (`ES****1234`),
+ * shorter ones only their last 2, and very short ones nothing.
+ */
+export function maskValue(value: string): string {
+  if (value.length <= 6) {
+    return '****';
+  }
+  if (value.length < 10) {
+    return `****${value.slice(-2)}`;
+  }
+  return `${value.slice(0, 2)}****${value.slice(-4)}`;
+}
+
+/**
+ * Key of the redaction hash; random per process unless configured
+ */
+let hashKey: string | undefined;
+
+/**
+ * Hash a value with a keyed hash (HMAC-SHA256)
+ *
+ * Set FACTORIAL_REDACTION_HASH_KEY to keep hashes stable across restarts.
+ */
+export function hashValue(value: string): string {
+  hashKey ??= process.env.FACTORIAL_REDACTION_HASH_KEY || randomBytes(32).toString('hex');
+  return `hash:${createHmac('sha256', hashKey).update(value).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * JSON.stringify replacer that applies the redaction policy
+ *
+ * @example JSON.stringify(employee, redactSensitiveFields, 2)
+ */
+export function redactSensitiveFields(key: string, value: unknown): unknown {
+  if (value === null || value === undefined || key === '') {
+    return value;
+  }
+
+  const action = getRedactionPolicy()[key] ?? 'none';
+  if (action === 'none') {
+    return value;
+  }
+  if (action === 'remove') {
+    return undefined;
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return action === 'mask' ? maskValue(text) : hashValue(text);
+}
+
+/**
+ * Entities whose redacted fields can be revealed
+ */
+export type RevealableEntity = 'employee' | 'tax_identifier';
+
+/**
+ * Read the real values of redacted fields of an entity, logging the access
+ *
+ * The reveal is recorded in the audit log with the fields and the reason,
+ * including failed attempts. Nothing is revealed unless the entry is written.
+ *
+ * @returns The requested fields with their unredacted values
+ * @throws AuditLogError if the audit log cannot be written
+ */
+export async function revealSensitiveFields(
+  entityType: RevealableEntity,
+  id: number,
+  fields: string[],
+  reason: string
+): Promise<Record<string, unknown>> {
+  const startTime = Date.now();
+  const changes = { fields: { to: fields }, reason: { to: reason } };
+  auditLogger.flush();
+
+  let entity: Record<string, unknown>;
+  try {
+    entity = entityType === 'employee' ? await getEmployee(id) : await getTaxIdentifier(id);
+  } catch (error) {
+    auditLogger.log({
+      timestamp: new Date().toISOString(),
+      action: AuditAction.REVEAL,
+      entityType,
+      entityId: id,
+      changes,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+    });
+
+    throw error;
+  }
+
+  auditLogger.log({
+    timestamp: new Date().toISOString(),
+    action: AuditAction.REVEAL,
+    entityType,
+    entityId: id,
+    changes,
+    success: true,
+    durationMs: Date.now() - startTime,
+  });
+
+  return Object.fromEntries(fields.map(field => [field, entity[field] ?? null]));
+}
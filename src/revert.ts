@@ -0,0 +1,229 @@
+/**
+ * Revert audited write operations
+ *
+ * Uses the entity snapshots stored on audit entries to restore updated
+ * entities to their previous values, or to recreate deleted entities.
+ */
+
+import type { z } from 'zod';
+import { AuditAction, type AuditEntry } from './audit.js';
+import {
+  createLocation,
+  createProject,
+  createProjectTask,
+  createTeam,
+  updateApplication,
+  updateCandidate,
+  updateDocument,
+  updateEmployee,
+  updateJobPosting,
+  updateLeave,
+  updateLocation,
+  updateProject,
+  updateProjectTask,
+  updateShift,
+  updateTeam,
+  updateTimeRecord,
+  updateTraining,
+  updateTrainingSession,
+  updateWorkArea,
+} from './api.js';
+import { ENDPOINTS, endpointWithId } from './endpoints.js';
+import { RevertError } from './errors.js';
+import { fetchOne } from './http-client.js';
+import {
+  CreateLocationInputSchema,
+  CreateProjectInputSchema,
+  CreateProjectTaskInputSchema,
+  CreateTeamInputSchema,
+  type CreateLocationInput,
+  type CreateProjectInput,
+  type CreateProjectTaskInput,
+  type CreateTeamInput,
+} from './schemas.js';
+
+/**
+ * How an entity type can be reverted
+ */
+interface RevertTarget {
+  /** Endpoint used to read the current state */
+  endpoint: string;
+  /** Apply restored values to an existing entity */
+  update: (id: number, values: Record<string, unknown>) => Promise<unknown>;
+  /** Recreate a deleted entity (only for entity types that support it) */
+  recreate?: {
+    schema: z.AnyZodObject;
+    create: (input: Record<string, unknown>) => Promise<{ id: number }>;
+  };
+}
+
+const REVERT_TARGETS: Record<string, RevertTarget> = {
+  employee: { endpoint: ENDPOINTS.employees, update: (id, v) => updateEmployee(id, v) },
+  team: {
+    endpoint: ENDPOINTS.teams,
+    update: (id, v) => updateTeam(id, v),
+    recreate: {
+      schema: CreateTeamInputSchema,
+      create: input => createTeam(input as CreateTeamInput),
+    },
+  },
+  location: {
+    endpoint: ENDPOINTS.locations,
+    update: (id, v) => updateLocation(id, v),
+    recreate: {
+      schema: CreateLocationInputSchema,
+      create: input => createLocation(input as CreateLocationInput),
+    },
+  },
+  leave: { endpoint: ENDPOINTS.leaves, update: (id, v) => updateLeave(id, v) },
+  shift: { endpoint: ENDPOINTS.shifts, update: (id, v) => updateShift(id, v) },
+  document: { endpoint: ENDPOINTS.documents, update: (id, v) => updateDocument(id, v) },
+  project: {
+    endpoint: ENDPOINTS.projects,
+    update: (id, v) => updateProject(id, v),
+    recreate: {
+      schema: CreateProjectInputSchema,
+      create: input => createProject(input as CreateProjectInput),
+    },
+  },
+  project_task: {
+    endpoint: ENDPOINTS.projectTasks,
+    update: (id, v) => updateProjectTask(id, v),
+    recreate: {
+      schema: CreateProjectTaskInputSchema,
+      create: input => createProjectTask(input as CreateProjectTaskInput),
+    },
+  },
+  time_record: { endpoint: ENDPOINTS.timeRecords, update: (id, v) => updateTimeRecord(id, v) },
+  training: { endpoint: ENDPOINTS.trainings, update: (id, v) => updateTraining(id, v) },
+  training_session: {
+    endpoint: ENDPOINTS.trainingSessions,
+    update: (id, v) => updateTrainingSession(id, v),
+  },
+  work_area: { endpoint: ENDPOINTS.workAreas, update: (id, v) => updateWorkArea(id, v) },
+  job_posting: { endpoint: ENDPOINTS.jobPostings, update: (id, v) => updateJobPosting(id, v) },
+  candidate: { endpoint: ENDPOINTS.candidates, update: (id, v) => updateCandidate(id, v) },
+  application: { endpoint: ENDPOINTS.applications, update: (id, v) => updateApplication(id, v) },
+};
+
+/**
+ * Planned revert of an audit entry
+ */
+export interface RevertPlan {
+  entry: AuditEntry;
+  /** 'restore' updates the entity in place, 'recreate' creates it again */
+  kind: 'restore' | 'recreate';
+  entityType: string;
+  entityId: number;
+  /** Values that will be written */
+  values: Record<string, unknown>;
+}
+
+/**
+ * Work out how to revert an audit entry
+ *
+ * @throws RevertError if the entry cannot be reverted
+ */
+export function planRevert(entry: AuditEntry): RevertPlan {
+  const { id, entityType, entityId, before } = entry;
+  const redacted = new Set(entry.redacted ?? []);
+
+  if (!entry.success) {
+    throw new RevertError(id, 'the operation failed, so there is nothing to revert');
+  }
+  if (entityId === undefined) {
+    throw new RevertError(id, 'the entry has no entity ID');
+  }
+  const target = REVERT_TARGETS[entityType];
+  if (!target) {
+    throw new RevertError(id, `reverting ${entityType} operations is not supported`);
+  }
+  if (!before) {
+    throw new RevertError(id, 'no snapshot of the previous state was recorded');
+  }
+
+  // Membership changes (team members and leads) are recorded like updates
+  if (
+    entry.action === AuditAction.UPDATE ||
+    entry.action === AuditAction.ASSIGN ||
+    entry.action === AuditAction.UNASSIGN
+  ) {
+    const fields = Object.keys(entry.changes ?? {}).filter(field => field in before);
+    if (fields.length === 0) {
+      throw new RevertError(id, 'no changed fields were recorded');
+    }
+    const masked = fields.filter(field => redacted.has(field));
+    if (masked.length > 0) {
+      throw new RevertError(
+        id,
+        `the previous value of ${masked.join(', ')} was redacted in the audit log and must be restored by hand`
+      );
+    }
+    return {
+      entry,
+      kind: 'restore',
+      entityType,
+      entityId,
+      values: Object.fromEntries(fields.map(field => [field, before[field]])),
+    };
+  }
+
+  if (entry.action === AuditAction.DELETE) {
+    if (!target.recreate) {
+      throw new RevertError(id, `deleted ${entityType} records cannot be recreated`);
+    }
+    const { schema } = target.recreate;
+    const values = Object.fromEntries(
+      Object.keys(schema.shape as Record<string, unknown>)
+        .filter(
+          field => before[field] !== undefined && before[field] !== null && !redacted.has(field)
+        )
+        .map(field => [field, before[field]])
+    );
+    if (!schema.safeParse(values).success) {
+      throw new RevertError(id, `the snapshot is not a valid ${entityType}`);
+    }
+    return { entry, kind: 'recreate', entityType, entityId, values };
+  }
+
+  throw new RevertError(id, `${entry.action} operations cannot be reverted`);
+}
+
+/**
+ * Fields changed again since the audited operation
+ *
+ * Compares the current state of the entity with the values the operation wrote.
+ */
+export function findConflictingFields(
+  plan: RevertPlan,
+  current: Record<string, unknown>
+): string[] {
+  const changes = plan.entry.changes ?? {};
+  return Object.keys(plan.values).filter(
+    field =>
+      field in changes &&
+      JSON.stringify(current[field] ?? null) !== JSON.stringify(changes[field].to ?? null)
+  );
+}
+
+/**
+ * Fetch the current state of the entity targeted by a restore
+ */
+export async function fetchCurrentState(plan: RevertPlan): Promise<Record<string, unknown>> {
+  const target = REVERT_TARGETS[plan.entityType];
+  return fetchOne<Record<string, unknown>>(endpointWithId(target.endpoint, plan.entityId));
+}
+
+/**
+ * Execute a revert plan
+ *
+ * @returns The restored or recreated entity
+ */
+export async function executeRevert(plan: RevertPlan): Promise<unknown> {
+  const target = REVERT_TARGETS[plan.entityType];
+
+  if (plan.kind === 'recreate' && target.recreate) {
+    return target.recreate.create(plan.values);
+  }
+  return target.update(plan.entityId, plan.values);
+}
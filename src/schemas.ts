@@ -236,6 +236,23 @@ export const AllowanceSchema = z.object({
 
 export type Allowance = z.infer<typeof AllowanceSchema>;
 
+/**
+ * Company holiday schema
+ */
+export const CompanyHolidaySchema = z.object({
+  id: z.number(),
+  /** Location the holiday applies to (null for the whole company) */
+  location_id: z.number().nullable(),
+  summary: z.string().nullable(),
+  description: z.string().nullable(),
+  date: z.string(),
+  half_day: z.string().nullable(),
+  created_at: z.string().nullable(),
+  updated_at: z.string().nullable(),
+});
+
+export type CompanyHoliday = z.infer<typeof CompanyHolidaySchema>;
+
 /**
  * Shift schema
  */
@@ -334,6 +351,7 @@ export const CreateEmployeeInputSchema = z.object({
   first_name: z.string().min(1).max(100),
   last_name: z.string().min(1).max(100),
   email: z.string().email(),
+  phone_number: z.string().max(30).optional(),
   birthday_on: dateString.optional(),
   hired_on: dateString.optional(),
   start_date: dateString.optional(),
@@ -457,6 +475,66 @@ export const UpdateShiftInputSchema = CreateShiftInputSchema.partial().omit({ em
 
 export type UpdateShiftInput = z.infer<typeof UpdateShiftInputSchema>;
 
+/**
+ * Largest document that can be uploaded (25 MB)
+ */
+export const MAX_DOCUMENT_SIZE_BYTES = 25 * 1024 * 1024;
+
+/**
+ * Mime types accepted for uploaded documents
+ */
+export const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.oasis.opendocument.text',
+  'text/plain',
+  'text/csv',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+] as const;
+
+/**
+ * File metadata of an uploaded document, checked against the document fields
+ */
+export const DocumentFileSchema = DocumentSchema.pick({
+  name: true,
+  mime_type: true,
+  size_bytes: true,
+}).extend({
+  name: z.string().min(1).max(255),
+  mime_type: z.enum(DOCUMENT_MIME_TYPES),
+  size_bytes: z.number().int().positive().max(MAX_DOCUMENT_SIZE_BYTES),
+});
+
+export type DocumentFile = z.infer<typeof DocumentFileSchema>;
+
+/**
+ * Document upload input schema
+ */
+export const UploadDocumentInputSchema = z.object({
+  folder_id: z.number().positive(),
+  employee_id: z.number().positive().optional(),
+  public: z.boolean().optional(),
+});
+
+export type UploadDocumentInput = z.infer<typeof UploadDocumentInputSchema>;
+
+/**
+ * Document update input schema (rename, move to another folder, visibility)
+ */
+export const UpdateDocumentInputSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  folder_id: z.number().positive().optional(),
+  public: z.boolean().optional(),
+});
+
+export type UpdateDocumentInput = z.infer<typeof UpdateDocumentInputSchema>;
+
 // ============================================================================
 // New Entity Schemas (Projects, Training, ATS, Work Areas, Payroll)
 // ============================================================================
@@ -866,12 +944,22 @@ export type CreateApplicationInput = z.infer<typeof CreateApplicationInputSchema
  */
 export const UpdateApplicationInputSchema = z.object({
   hiring_stage_id: z.number().positive().optional(),
+  hired_at: z.string().optional(),
   rating: z.number().min(0).max(5).optional(),
   notes: z.string().max(2000).optional(),
 });
 
 export type UpdateApplicationInput = z.infer<typeof UpdateApplicationInputSchema>;
 
+/**
+ * Application rejection input schema
+ */
+export const RejectApplicationInputSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+export type RejectApplicationInput = z.infer<typeof RejectApplicationInputSchema>;
+
 /**
  * Hiring Stage schema
  */
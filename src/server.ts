@@ -0,0 +1,6551 @@
+/**
+ * MCP server definition for FactorialHR
+ *
+ * Registers all tools, resources and prompts on a new McpServer instance.
+ * The entry point (index.ts) connects it to a transport; the HTTP transport
+ * creates one instance per client session.
+ */
+
+import {
+  McpServer,
+  ResourceTemplate,
+  type RegisteredTool,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import * as z from 'zod';
+
+import {
+  // Employees - Read
+  listEmployees,
+  getEmployee,
+  searchEmployees,
+  // Employees - Write
+  createEmployee,
+  updateEmployee,
+  terminateEmployee,
+  // Teams - Read
+  listTeams,
+  getTeam,
+  // Teams - Write
+  createTeam,
+  updateTeam,
+  deleteTeam,
+  addTeamMember,
+  removeTeamMember,
+  assignTeamLead,
+  // Locations - Read
+  listLocations,
+  getLocation,
+  // Locations - Write
+  createLocation,
+  updateLocation,
+  deleteLocation,
+  // Contracts
+  listContracts,
+  getEmployeeWithContract,
+  listEmployeesByJobRole,
+  listEmployeesByJobLevel,
+  // Time Off - Read
+  listLeaves,
+  getLeave,
+  listLeaveTypes,
+  getLeaveType,
+  listAllowances,
+  // Time Off - Write
+  createLeave,
+  updateLeave,
+  cancelLeave,
+  approveLeave,
+  rejectLeave,
+  // Shifts - Read
+  listShifts,
+  getShift,
+  // Shifts - Write
+  createShift,
+  updateShift,
+  deleteShift,
+  // Documents
+  listFolders,
+  getFolder,
+  listDocuments,
+  getDocument,
+  uploadDocument,
+  updateDocument,
+  deleteDocument,
+  // Job Catalog
+  listJobRoles,
+  getJobRole,
+  listJobLevels,
+  // Projects - Read
+  listProjects,
+  getProject,
+  listProjectTasks,
+  listProjectWorkers,
+  listTimeRecords,
+  // Projects - Write
+  createProject,
+  updateProject,
+  deleteProject,
+  createProjectTask,
+  updateProjectTask,
+  deleteProjectTask,
+  assignProjectWorker,
+  removeProjectWorker,
+  createTimeRecord,
+  updateTimeRecord,
+  deleteTimeRecord,
+  // Training - Read
+  listTrainings,
+  getTraining,
+  listTrainingSessions,
+  listTrainingEnrollments,
+  // Training - Write
+  createTraining,
+  updateTraining,
+  deleteTraining,
+  createTrainingSession,
+  updateTrainingSession,
+  deleteTrainingSession,
+  enrollInTraining,
+  unenrollFromTraining,
+  // Work Areas
+  listWorkAreas,
+  getWorkArea,
+  createWorkArea,
+  updateWorkArea,
+  archiveWorkArea,
+  unarchiveWorkArea,
+  // ATS - Read
+  listJobPostings,
+  getJobPosting,
+  listCandidates,
+  getCandidate,
+  listApplications,
+  getApplication,
+  listHiringStages,
+  // ATS - Write
+  createJobPosting,
+  updateJobPosting,
+  deleteJobPosting,
+  createCandidate,
+  updateCandidate,
+  deleteCandidate,
+  createApplication,
+  updateApplication,
+  deleteApplication,
+  advanceApplication,
+  // Payroll (Read-only)
+  listPayrollSupplements,
+  getPayrollSupplement,
+  listTaxIdentifiers,
+  getTaxIdentifier,
+  listFamilySituations,
+  getFamilySituation,
+} from './api.js';
+
+import { buildAbsenceCalendar } from './absence-calendar.js';
+import { AuditAction, auditLogger, type AuditEntry } from './audit.js';
+import {
+  findDuplicateCandidates,
+  planMerge,
+  runMerge,
+  type MergePlan,
+} from './candidates-dedup.js';
+import {
+  getActiveCompany,
+  getCompanyProfile,
+  getServerMode,
+  listCompanyProfiles,
+  type ServerMode,
+} from './config.js';
+import { selectCompany } from './context.js';
+import { documentIndex } from './document-index.js';
+import { loadDocumentFile, readDocumentContent } from './documents.js';
+import { collectDryRunRequests } from './dry-run.js';
+import { planHire, runHire, type HirePlan } from './hiring.js';
+import { checkLeaveBalance, forecastAllowances, type BalanceRequest } from './leave-balance.js';
+import { checkLeaveCoverage, type CoverageRequest } from './leave-coverage.js';
+import {
+  getOffboardingRun,
+  planOffboarding,
+  resumeOffboarding,
+  startOffboarding,
+  type OffboardingPlan,
+  type OffboardingRun,
+} from './offboarding.js';
+import { applyOnboardingTemplate, prepareOnboarding, runOnboarding } from './onboarding.js';
+import type { OnboardingPlan, PreparedOnboarding } from './onboarding.js';
+import { assertToolAllowed, isToolAllowed } from './permissions.js';
+import { fetchAllPages, formatPaginationInfo } from './pagination.js';
+import {
+  getStageHistory,
+  moveApplicationToStage,
+  planRejections,
+  planStageMove,
+  rejectApplications,
+  resolveHiringStage,
+  type RejectionPlan,
+} from './pipeline.js';
+import { buildPipelineReport } from './pipeline-report.js';
+import { redactSensitiveFields, revealSensitiveFields } from './redaction.js';
+import {
+  executeRevert,
+  fetchCurrentState,
+  findConflictingFields,
+  planRevert,
+  type RevertPlan,
+} from './revert.js';
+import { RevertError } from './errors.js';
+import type { Leave } from './schemas.js';
+import { buildTimeoffAnalytics, formatTimeoffAnalytics } from './timeoff-analytics.js';
+import {
+  formatToolError,
+  isConfirmationPreview,
+  wrapHighRiskToolHandler,
+  wrapToolHandler,
+  textResponse,
+} from './tool-utils.js';
+import {
+  countWorkingDays,
+  describeDayOff,
+  getEmployeeCalendar,
+  getWorkCalendar,
+  listHolidays,
+  nextWorkingDay,
+  type WorkCalendar,
+} from './work-calendar.js';
+import { isWriteOperation, operationRateGuard } from './write-safety.js';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a human-readable label for a leave, used in confirmation previews
+ */
+async function describeLeave(leave: Leave): Promise<string> {
+  const [employee, leaveTypes] = await Promise.all([
+    getEmployee(leave.employee_id).catch(() => null),
+    listLeaveTypes(),
+  ]);
+  const leaveType = leaveTypes.find(lt => lt.id === leave.leave_type_id);
+  return `${employee?.full_name ?? `Employee ${leave.employee_id}`}: ${leaveType?.name ?? `Type ${leave.leave_type_id}`} ${leave.start_on} to ${leave.finish_on}`;
+}
+
+/**
+ * Count the days of a leave (from Factorial's duration, or the calendar days it spans)
+ */
+function getLeaveDays(leave: Leave): number {
+  if (leave.duration_attributes) {
+    return leave.duration_attributes.days;
+  }
+  const spanMs = Date.parse(leave.finish_on) - Date.parse(leave.start_on);
+  return Math.round(spanMs / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Check the coverage and the allowance balance of a leave for create_leave and
+ * approve_leave
+ *
+ * The checks are advisory: when one fails, the leave goes ahead with a warning.
+ */
+async function getLeaveChecks(
+  request: CoverageRequest & BalanceRequest
+): Promise<{ warnings: string[]; facts: Record<string, number> }> {
+  const failure = (check: string, error: unknown) =>
+    `${check} could not be checked: ${error instanceof Error ? error.message : String(error)}`;
+
+  const [coverage, balance] = await Promise.all([
+    checkLeaveCoverage(request).then(
+      report => ({
+        warnings: report.conflicts.map(conflict => conflict.message),
+        facts: { ...report.facts },
+      }),
+      (error: unknown) => ({ warnings: [failure('Leave coverage', error)], facts: {} })
+    ),
+    checkLeaveBalance(request).then(
+      check => ({
+        warnings: check.warnings,
+        facts: {
+          working_days: check.working_days,
+          ...(check.balance_after !== null ? { balance_after: check.balance_after } : {}),
+        },
+      }),
+      (error: unknown) => ({ warnings: [failure('The allowance balance', error)], facts: {} })
+    ),
+  ]);
+
+  return {
+    warnings: [...coverage.warnings, ...balance.warnings],
+    facts: { ...coverage.facts, ...balance.facts },
+  };
+}
+
+/**
+ * Get the calendar of an employee's location, of a location, or the default
+ * calendar, for the calendar tools
+ */
+async function resolveCalendar(input: {
+  employee_id?: number;
+  location_id?: number;
+}): Promise<WorkCalendar> {
+  if (input.employee_id !== undefined) {
+    return getEmployeeCalendar(input.employee_id);
+  }
+  return getWorkCalendar(input.location_id ?? null);
+}
+
+/**
+ * Describe the calendar a result was computed on
+ */
+function calendarName(calendar: WorkCalendar): string {
+  return calendar.location_id === null
+    ? 'the default calendar'
+    : `the calendar of location ${calendar.location_id}`;
+}
+
+/**
+ * Format leave check warnings for a tool response
+ */
+function formatLeaveWarnings(warnings: string[]): string {
+  return warnings.length > 0
+    ? `\n\nWarnings:${warnings.map(warning => `\n- ${warning}`).join('')}`
+    : '';
+}
+
+/**
+ * Format audit entries for a tool response
+ */
+function formatAuditEntries(entries: AuditEntry[], heading: string): string {
+  if (entries.length === 0) {
+    return `${heading}: no audit entries found.`;
+  }
+  return `${heading} (${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}):\n\n${JSON.stringify(entries, redactSensitiveFields, 2)}`;
+}
+
+/**
+ * Plan the revert of an audit entry by ID
+ */
+function planRevertById(auditEntryId: string): RevertPlan {
+  const entry = auditLogger.findById(auditEntryId);
+  if (!entry) {
+    throw new RevertError(auditEntryId, 'no audit entry with this ID was found');
+  }
+  return planRevert(entry);
+}
+
+/**
+ * Build an org chart showing manager-report relationships
+ */
+async function buildOrgChart(): Promise<string> {
+  const result = await listEmployees();
+  const employees = result.data;
+
+  // Build a map of manager_id -> reports
+  const managerMap = new Map<number | null, typeof employees>();
+  for (const emp of employees) {
+    const managerId = emp.manager_id;
+    if (!managerMap.has(managerId)) {
+      managerMap.set(managerId, []);
+    }
+    managerMap.get(managerId)!.push(emp);
+  }
+
+  // Find top-level employees (no manager)
+  const topLevel = managerMap.get(null) || [];
+
+  // Recursive function to build tree
+  function buildTree(managerId: number, depth = 0): string[] {
+    const reports = managerMap.get(managerId) || [];
+    const lines: string[] = [];
+    for (const emp of reports) {
+      const indent = '  '.repeat(depth);
+      lines.push(`${indent}- ${emp.full_name || 'Unknown'} [ID: ${emp.id}]`);
+      lines.push(...buildTree(emp.id, depth + 1));
+    }
+    return lines;
+  }
+
+  const lines: string[] = ['# Organization Chart\n'];
+
+  // Add top-level employees
+  for (const emp of topLevel) {
+    lines.push(`## ${emp.full_name || 'Unknown'} [ID: ${emp.id}]`);
+    lines.push(...buildTree(emp.id, 1));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build employee directory organized by team
+ */
+async function buildEmployeeDirectory(): Promise<string> {
+  const [empResult, teamsResult] = await Promise.all([listEmployees(), listTeams()]);
+  const employees = empResult.data;
+  const teams = teamsResult.data;
+
+  const lines: string[] = ['# Employee Directory\n'];
+
+  // Create employee lookup map
+  const employeeMap = new Map(employees.map(e => [e.id, e]));
+
+  // Track which employees are assigned to teams
+  const assignedEmployeeIds = new Set<number>();
+
+  // Output by team (using team's employee_ids)
+  for (const team of teams) {
+    const teamEmployeeIds = team.employee_ids || [];
+    lines.push(`## ${team.name}`);
+    if (team.description) lines.push(`*${team.description}*\n`);
+    if (teamEmployeeIds.length === 0) {
+      lines.push('No employees assigned.\n');
+    } else {
+      for (const empId of teamEmployeeIds) {
+        const emp = employeeMap.get(empId);
+        if (emp) {
+          assignedEmployeeIds.add(empId);
+          lines.push(`- **${emp.full_name || 'Unknown'}**`);
+          if (emp.email) lines.push(`  - Email: ${emp.email}`);
+        }
+      }
+      lines.push('');
+    }
+  }
+
+  // Employees without teams
+  const noTeam = employees.filter(e => !assignedEmployeeIds.has(e.id));
+  if (noTeam.length > 0) {
+    lines.push('## Unassigned\n');
+    for (const emp of noTeam) {
+      lines.push(`- **${emp.full_name || 'Unknown'}**`);
+      if (emp.email) lines.push(`  - Email: ${emp.email}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Build location directory
+ */
+async function buildLocationDirectory(): Promise<string> {
+  const [locResult, empResult] = await Promise.all([listLocations(), listEmployees()]);
+  const locations = locResult.data;
+  const employees = empResult.data;
+
+  // Group employees by location
+  const locationEmployees = new Map<number, typeof employees>();
+  for (const emp of employees) {
+    if (emp.location_id) {
+      if (!locationEmployees.has(emp.location_id)) locationEmployees.set(emp.location_id, []);
+      locationEmployees.get(emp.location_id)!.push(emp);
+    }
+  }
+
+  const lines: string[] = ['# Location Directory\n'];
+
+  for (const loc of locations) {
+    const emps = locationEmployees.get(loc.id) || [];
+    lines.push(`## ${loc.name}`);
+    const address = [loc.city, loc.state, loc.country].filter(Boolean).join(', ');
+    if (address) lines.push(`📍 ${address}\n`);
+
+    lines.push(`**Employees:** ${emps.length}`);
+    if (emps.length > 0 && emps.length <= 10) {
+      for (const emp of emps) {
+        lines.push(`- ${emp.full_name || 'Unknown'}`);
+      }
+    } else if (emps.length > 10) {
+      lines.push(
+        `*... ${emps.length} employees (use list_employees with location_id=${loc.id} to see all)*`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Tool callback, with the argument types loosened for interception
+ */
+type ToolCallback = (...args: unknown[]) => Promise<CallToolResult>;
+
+/**
+ * Tool registration, with the callback type loosened for interception
+ */
+type RegisterTool = (name: string, config: object, callback: ToolCallback) => RegisteredTool;
+
+/**
+ * Intercept tools as they are registered on a server
+ *
+ * @param intercept - Returns the callback to register (possibly wrapped), or null to leave the tool out
+ */
+function interceptToolRegistration(
+  server: McpServer,
+  intercept: (name: string, callback: ToolCallback) => ToolCallback | null
+): void {
+  const registerTool = server.registerTool.bind(server) as unknown as RegisterTool;
+  const interceptedRegisterTool: RegisterTool = (name, config, callback) => {
+    const intercepted = intercept(name, callback);
+    if (!intercepted) {
+      // Registered only to return a handle; removed before any client can list it
+      const tool = registerTool(name, config, callback);
+      tool.remove();
+      return tool;
+    }
+    return registerTool(name, config, intercepted);
+  };
+  server.registerTool = interceptedRegisterTool as unknown as typeof server.registerTool;
+}
+
+/**
+ * Run a write tool in dry-run mode and report the requests it would have sent
+ */
+async function reportDryRun(
+  name: string,
+  callback: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const { result, requests } = await collectDryRunRequests(callback);
+
+  // Errors and confirmation previews (no requests yet) are returned unchanged
+  if (result.isError || requests.length === 0) {
+    return result;
+  }
+
+  return textResponse(
+    `**Dry run:** no changes were made. \`${name}\` would have sent ${requests.length} request${requests.length === 1 ? '' : 's'}:\n\n${JSON.stringify(requests, redactSensitiveFields, 2)}`
+  );
+}
+
+/**
+ * Apply the server mode (FACTORIAL_MODE) to write tools as they are registered
+ *
+ * In readonly mode write tools are not exposed; in dry-run mode their
+ * responses report the requests they would have sent.
+ */
+function applyServerMode(server: McpServer, mode: ServerMode): void {
+  if (mode === 'readwrite') {
+    return;
+  }
+
+  interceptToolRegistration(server, (name, callback) => {
+    if (!isWriteOperation(name)) {
+      return callback;
+    }
+    if (mode === 'readonly') {
+      return null;
+    }
+    return (...args) => reportDryRun(name, () => callback(...args));
+  });
+}
+
+/**
+ * Apply the permission profile of the client to tools as they are registered
+ *
+ * Tools the profile does not allow are not exposed, and every call is checked
+ * again, so a tool cannot be reached by a client whose profile forbids it.
+ */
+function applyPermissions(server: McpServer): void {
+  interceptToolRegistration(server, (name, callback) => {
+    if (!isToolAllowed(name)) {
+      return null;
+    }
+    return (...args) => {
+      try {
+        assertToolAllowed(name);
+      } catch (error) {
+        return Promise.resolve(formatToolError(error));
+      }
+      return callback(...args);
+    };
+  });
+}
+
+/**
+ * Apply the cooldowns and batch limits of operation policies to write tools
+ *
+ * Confirmation previews are checked but not counted; only executions that
+ * succeed count towards the limits. Dry runs change nothing, so they are not
+ * limited.
+ */
+function applyRateGuards(server: McpServer, mode: ServerMode): void {
+  if (mode !== 'readwrite') {
+    return;
+  }
+
+  interceptToolRegistration(server, (name, callback) => {
+    if (!isWriteOperation(name)) {
+      return callback;
+    }
+    return async (...args) => {
+      try {
+        operationRateGuard.check(name, args[0] as Record<string, unknown> | undefined);
+      } catch (error) {
+        return formatToolError(error);
+      }
+      const result = await callback(...args);
+      if (!result.isError && !isConfirmationPreview(result)) {
+        operationRateGuard.record(name, args[0] as Record<string, unknown> | undefined);
+      }
+      return result;
+    };
+  });
+}
+
+/**
+ * Build an onboarding plan from the arguments of onboard_employee
+ */
+function buildOnboardingPlan(
+  args: {
+    team_ids?: number[];
+    project_ids?: number[];
+    trainings?: OnboardingPlan['trainings'];
+    shifts?: OnboardingPlan['shifts'];
+    template?: string;
+  } & OnboardingPlan['employee']
+): OnboardingPlan {
+  const { team_ids, project_ids, trainings, shifts, template, ...employee } = args;
+  const plan = { employee, team_ids, project_ids, trainings, shifts };
+  return template ? applyOnboardingTemplate(plan, template) : plan;
+}
+
+/**
+ * Create an MCP server with all FactorialHR tools, resources and prompts registered
+ */
+export function createServer(): McpServer {
+  const mode = getServerMode();
+  const server = new McpServer({
+    name: 'factorial-hr',
+    version: '3.0.0',
+  });
+  applyServerMode(server, mode);
+  applyPermissions(server);
+  applyRateGuards(server, mode);
+
+  // ============================================================================
+  // Employee Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_employees',
+    {
+      title: 'List Employees',
+      description:
+        'Get employees from FactorialHR. Can filter by team or location. Supports pagination.',
+      inputSchema: {
+        team_id: z.number().optional().describe('Filter by team ID'),
+        location_id: z.number().optional().describe('Filter by location ID'),
+        page: z.number().optional().default(1).describe('Page number (default: 1)'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ team_id, location_id, page, limit }) => {
+      try {
+        const result = await listEmployees({ team_id, location_id, page, limit });
+
+        const summary = result.data.map(e => ({
+          id: e.id,
+          name: e.full_name,
+          email: e.email,
+          identifier: e.identifier || null,
+          identifier_type: e.identifier_type || null,
+          location_id: e.location_id,
+          manager_id: e.manager_id,
+          active: e.active,
+          seniority_date: e.seniority_calculation_date,
+          terminated_on: e.terminated_on,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} employees (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_employee',
+    {
+      title: 'Get Employee',
+      description: 'Get detailed information about a specific employee by their ID.',
+      inputSchema: {
+        id: z.number().describe('The employee ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const employee = await getEmployee(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Employee details:\n\n${JSON.stringify(employee, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'search_employees',
+    {
+      title: 'Search Employees',
+      description: 'Search for employees by name or email.',
+      inputSchema: {
+        query: z.string().describe('Search query (name or email)'),
+      },
+    },
+    async ({ query }) => {
+      try {
+        const employees = await searchEmployees(query);
+        if (employees.length === 0) {
+          return {
+            content: [{ type: 'text', text: `No employees found matching "${query}"` }],
+          };
+        }
+        const summary = employees.map(e => ({
+          id: e.id,
+          name: e.full_name,
+          email: e.email,
+          identifier: e.identifier,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${employees.length} employees matching "${query}":\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_employee',
+    {
+      title: 'Create Employee',
+      description: 'Create a new employee in FactorialHR.',
+      inputSchema: {
+        first_name: z.string().min(1).max(100).describe('First name'),
+        last_name: z.string().min(1).max(100).describe('Last name'),
+        email: z.string().email().describe('Email address'),
+        phone_number: z.string().max(30).optional().describe('Phone number'),
+        birthday_on: z.string().optional().describe('Birthday (YYYY-MM-DD)'),
+        hired_on: z.string().optional().describe('Hire date (YYYY-MM-DD)'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        gender: z.enum(['male', 'female', 'other']).optional().describe('Gender'),
+        nationality: z.string().max(50).optional().describe('Nationality'),
+        manager_id: z.number().optional().describe('Manager employee ID'),
+        role: z.string().max(100).optional().describe('Job role/title'),
+        team_ids: z.array(z.number()).optional().describe('Team IDs to assign'),
+        location_id: z.number().optional().describe('Location ID'),
+      },
+    },
+    async input => {
+      try {
+        const employee = await createEmployee(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Employee created successfully:\n\n${JSON.stringify(employee, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'onboard_employee',
+    {
+      title: 'Onboard Employee',
+      description:
+        'Provision a new hire in one workflow: create the employee, add them to teams, assign projects, enroll them in trainings and create their first shifts. Every reference is checked first, and the first call returns a preview of the steps. A template from the onboarding templates file (e.g. "default") adds its teams, projects and trainings. Failed steps are reported and do not stop the others.',
+      inputSchema: {
+        first_name: z.string().min(1).max(100).describe('First name'),
+        last_name: z.string().min(1).max(100).describe('Last name'),
+        email: z.string().email().describe('Email address'),
+        birthday_on: z.string().optional().describe('Birthday (YYYY-MM-DD)'),
+        hired_on: z.string().optional().describe('Hire date (YYYY-MM-DD)'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        gender: z.enum(['male', 'female', 'other']).optional().describe('Gender'),
+        nationality: z.string().max(50).optional().describe('Nationality'),
+        manager_id: z.number().optional().describe('Manager employee ID'),
+        role: z.string().max(100).optional().describe('Job role/title'),
+        location_id: z.number().optional().describe('Location ID'),
+        team_ids: z.array(z.number()).optional().describe('Teams to add the employee to'),
+        project_ids: z.array(z.number()).optional().describe('Projects to assign the employee to'),
+        trainings: z
+          .array(
+            z.object({
+              training_id: z.number().describe('Training ID'),
+              session_id: z.number().optional().describe('Session ID'),
+            })
+          )
+          .optional()
+          .describe('Mandatory trainings, optionally with a session'),
+        shifts: z
+          .array(
+            z.object({
+              clock_in: z.string().describe('Clock in time (ISO 8601)'),
+              clock_out: z.string().optional().describe('Clock out time (ISO 8601)'),
+              break_minutes: z.number().optional().describe('Break duration in minutes'),
+              location: z.string().max(200).optional().describe('Work location'),
+              notes: z.string().max(500).optional().describe('Notes'),
+            })
+          )
+          .optional()
+          .describe('Initial shifts'),
+        template: z.string().optional().describe('Onboarding template to apply'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'onboard_employee',
+      async args => {
+        const prepared = await prepareOnboarding(buildOnboardingPlan(args));
+        const { plan, steps, warnings } = prepared;
+        return {
+          operation: 'create',
+          entityType: 'employee',
+          entityName: `${plan.employee.first_name} ${plan.employee.last_name}`,
+          steps: steps.map(step => step.description),
+          warnings,
+          previewed: prepared,
+        };
+      },
+      async (args, previewed) => {
+        const result = await runOnboarding(
+          (previewed as PreparedOnboarding | undefined) ??
+            (await prepareOnboarding(buildOnboardingPlan(args)))
+        );
+        const report = JSON.stringify(result, redactSensitiveFields, 2);
+
+        if (result.status === 'dry_run') {
+          return textResponse(
+            `Dry run: only the employee request was recorded. The other steps need the ID of the new employee, so they were not run.\n\n${report}`
+          );
+        }
+        if (result.status === 'completed') {
+          return textResponse(`Employee onboarded (ID ${result.employee_id}).\n\n${report}`);
+        }
+        const failed = result.steps.filter(step => step.status === 'failed');
+        const summary =
+          result.status === 'failed'
+            ? 'The employee could not be created, so no other step was run.'
+            : `Employee created (ID ${result.employee_id}), but ${failed.length} step(s) failed. Retry them with the individual tools (${[...new Set(failed.map(step => step.kind))].join(', ')}).`;
+        return { ...textResponse(`${summary}\n\n${report}`), isError: true };
+      }
+    )
+  );
+
+  server.registerTool(
+    'update_employee',
+    {
+      title: 'Update Employee',
+      description: 'Update an existing employee in FactorialHR.',
+      inputSchema: {
+        id: z.number().describe('The employee ID to update'),
+        first_name: z.string().min(1).max(100).optional().describe('First name'),
+        last_name: z.string().min(1).max(100).optional().describe('Last name'),
+        email: z.string().email().optional().describe('Email address'),
+        phone_number: z.string().max(30).optional().describe('Phone number'),
+        birthday_on: z.string().optional().describe('Birthday (YYYY-MM-DD)'),
+        hired_on: z.string().optional().describe('Hire date (YYYY-MM-DD)'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        gender: z.enum(['male', 'female', 'other']).optional().describe('Gender'),
+        nationality: z.string().max(50).optional().describe('Nationality'),
+        manager_id: z.number().optional().describe('Manager employee ID'),
+        role: z.string().max(100).optional().describe('Job role/title'),
+        team_ids: z.array(z.number()).optional().describe('Team IDs to assign'),
+        location_id: z.number().optional().describe('Location ID'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe(
+            'Token from the preview, when the operation policy requires confirmation for this change.'
+          ),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'update_employee',
+      async ({ id, ...input }) => {
+        const employee = await getEmployee(id);
+        const current = employee as Record<string, unknown>;
+        return {
+          operation: 'update',
+          entityType: 'employee',
+          entityId: id,
+          entityName: employee.full_name ?? undefined,
+          changes: Object.fromEntries(
+            Object.entries(input)
+              .filter(([, value]) => value !== undefined)
+              .map(([field, value]) => [field, { from: current[field], to: value }])
+          ),
+          warnings: [],
+        };
+      },
+      async ({ id, confirmation_token: _token, ...input }) => {
+        const employee = await updateEmployee(id, input);
+        return textResponse(
+          `Employee updated successfully:\n\n${JSON.stringify(employee, redactSensitiveFields, 2)}`
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'terminate_employee',
+    {
+      title: 'Terminate Employee',
+      description:
+        'Terminate an employee (soft delete). This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The employee ID to terminate'),
+        terminated_on: z.string().describe('Termination date (YYYY-MM-DD)'),
+        reason: z.string().max(500).optional().describe('Termination reason'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'terminate_employee',
+      async ({ id, terminated_on, reason }) => {
+        const [employee, employees] = await Promise.all([
+          getEmployee(id),
+          fetchAllPages(params => listEmployees(params)),
+        ]);
+        const activeReports = employees.filter(e => e.manager_id === id && !e.terminated_on);
+
+        const warnings: string[] = [];
+        if (employee.terminated_on) {
+          warnings.push(`Employee already has a termination date (${employee.terminated_on}).`);
+        }
+        if (activeReports.length > 0) {
+          warnings.push(
+            `${activeReports.length} active direct report(s) still report to this employee and will need a new manager.`
+          );
+        }
+
+        return {
+          operation: 'terminate',
+          entityType: 'employee',
+          entityId: id,
+          entityName: employee.full_name ?? undefined,
+          changes: {
+            terminated_on: { from: employee.terminated_on, to: terminated_on },
+            ...(reason
+              ? { termination_reason: { from: employee.termination_reason, to: reason } }
+              : {}),
+          },
+          warnings,
+        };
+      },
+      async ({ id, terminated_on, reason }) => {
+        const employee = await terminateEmployee(id, terminated_on, reason);
+        return textResponse(
+          `Employee terminated successfully. Termination date: ${terminated_on}\n\n${JSON.stringify(employee, redactSensitiveFields, 2)}`
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'offboard_employee',
+    {
+      title: 'Offboard Employee',
+      description:
+        'Offboard an employee in one workflow: cancel leaves starting after the termination date, remove project assignments, unenroll from training sessions after that date, remove from teams, move active direct reports to new_manager_id, then terminate. Each step is audited. A failed run stops before termination and can be resumed with run_id. HIGH-RISK: requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The employee ID to offboard'),
+        terminated_on: z.string().describe('Termination date (YYYY-MM-DD)'),
+        reason: z.string().max(500).optional().describe('Termination reason'),
+        new_manager_id: z
+          .number()
+          .optional()
+          .describe('Manager for the active direct reports (required if there are any)'),
+        run_id: z
+          .string()
+          .optional()
+          .describe('ID of a failed offboarding run to resume from its failed step'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'offboard_employee',
+      async ({ id, terminated_on, reason, new_manager_id, run_id }) => {
+        const plan = run_id
+          ? getOffboardingRun(run_id)
+          : await planOffboarding(id, { terminated_on, reason, new_manager_id });
+        if (plan.employee_id !== id || plan.options.terminated_on !== terminated_on) {
+          throw new Error(
+            `Offboarding run ${run_id} is for employee ${plan.employee_id}, terminated on ${plan.options.terminated_on}.`
+          );
+        }
+
+        return {
+          operation: 'terminate',
+          entityType: 'employee',
+          entityId: id,
+          entityName: plan.employee_name ?? undefined,
+          changes: { terminated_on: { to: plan.options.terminated_on } },
+          steps: plan.steps
+            .filter(step => step.status === 'pending' || step.status === 'failed')
+            .map(step => step.description),
+          warnings: plan.warnings,
+          // Run the steps that were previewed, not a plan made at confirmation time
+          previewed: run_id ? undefined : plan,
+        };
+      },
+      async ({ id, terminated_on, reason, new_manager_id, run_id }, previewed) => {
+        let run: OffboardingRun;
+        if (run_id) {
+          run = await resumeOffboarding(run_id);
+        } else {
+          run = await startOffboarding(
+            (previewed as OffboardingPlan | undefined) ??
+              (await planOffboarding(id, { terminated_on, reason, new_manager_id }))
+          );
+        }
+
+        const report = JSON.stringify(
+          {
+            run_id: run.id,
+            employee_id: run.employee_id,
+            status: run.status,
+            steps: run.steps,
+            warnings: run.warnings,
+          },
+          redactSensitiveFields,
+          2
+        );
+        if (run.status === 'failed') {
+          const failed = run.steps.find(step => step.status === 'failed');
+          return {
+            ...textResponse(
+              `Offboarding stopped at "${failed?.description}": ${failed?.error}\n\n` +
+                `Fix the problem and call \`offboard_employee\` again with \`run_id: "${run.id}"\` to resume from this step. The employee has not been terminated.\n\n${report}`
+            ),
+            isError: true,
+          };
+        }
+        return textResponse(
+          `Employee offboarded. Termination date: ${run.options.terminated_on}\n\n${report}`
+        );
+      }
+    )
+  );
+
+  // ============================================================================
+  // Team Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_teams',
+    {
+      title: 'List Teams',
+      description: 'Get all teams in the organization. Supports pagination.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listTeams({ page, limit });
+        const summary = result.data.map(t => ({
+          id: t.id,
+          name: t.name,
+          description: t.description,
+          employee_count: t.employee_ids?.length || 0,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} teams (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_team',
+    {
+      title: 'Get Team',
+      description: 'Get detailed information about a specific team by its ID.',
+      inputSchema: {
+        id: z.number().describe('The team ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const team = await getTeam(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(team, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_team',
+    {
+      title: 'Create Team',
+      description: 'Create a new team in the organization.',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Team name'),
+        description: z.string().max(500).optional().describe('Team description'),
+        lead_ids: z.array(z.number()).optional().describe('Team lead employee IDs'),
+        employee_ids: z.array(z.number()).optional().describe('Team member employee IDs'),
+      },
+    },
+    async input => {
+      try {
+        const team = await createTeam(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Team created successfully:\n\n${JSON.stringify(team, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_team',
+    {
+      title: 'Update Team',
+      description: 'Update an existing team.',
+      inputSchema: {
+        id: z.number().describe('The team ID to update'),
+        name: z.string().min(1).max(100).optional().describe('Team name'),
+        description: z.string().max(500).optional().describe('Team description'),
+        lead_ids: z.array(z.number()).optional().describe('Team lead employee IDs'),
+        employee_ids: z.array(z.number()).optional().describe('Team member employee IDs'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const team = await updateTeam(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Team updated successfully:\n\n${JSON.stringify(team, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_team',
+    {
+      title: 'Delete Team',
+      description: 'Delete a team. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The team ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_team',
+      async ({ id }) => {
+        const team = await getTeam(id);
+        const warnings: string[] = [];
+        if (team.employee_ids.length > 0) {
+          warnings.push(
+            `${team.employee_ids.length} member(s) will lose their association with this team.`
+          );
+        }
+        if (team.lead_ids.length > 0) {
+          warnings.push(`${team.lead_ids.length} team lead(s) will lose their lead role.`);
+        }
+        return {
+          operation: 'delete',
+          entityType: 'team',
+          entityId: id,
+          entityName: team.name,
+          warnings,
+        };
+      },
+      async ({ id }) => {
+        await deleteTeam(id);
+        return textResponse(`Team ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'add_team_member',
+    {
+      title: 'Add Team Member',
+      description:
+        'Add an employee to a team, optionally as a team lead. Other members are kept. The change is audited and can be reverted.',
+      inputSchema: {
+        team_id: z.number().describe('The team ID'),
+        employee_id: z.number().describe('The employee ID to add'),
+        lead: z.boolean().optional().default(false).describe('Also make the employee a team lead'),
+      },
+    },
+    wrapToolHandler(async ({ team_id, employee_id, lead }) => {
+      const team = await addTeamMember(team_id, employee_id, lead);
+      return textResponse(
+        `Employee ${employee_id} added to team "${team.name}"${lead ? ' as a lead' : ''}:\n\n${JSON.stringify(team, redactSensitiveFields, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'remove_team_member',
+    {
+      title: 'Remove Team Member',
+      description:
+        'Remove an employee from a team, including its leads. Other members are kept. The change is audited and can be reverted.',
+      inputSchema: {
+        team_id: z.number().describe('The team ID'),
+        employee_id: z.number().describe('The employee ID to remove'),
+      },
+    },
+    wrapToolHandler(async ({ team_id, employee_id }) => {
+      const team = await removeTeamMember(team_id, employee_id);
+      return textResponse(
+        `Employee ${employee_id} removed from team "${team.name}":\n\n${JSON.stringify(team, redactSensitiveFields, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'assign_team_lead',
+    {
+      title: 'Assign Team Lead',
+      description:
+        'Make an employee a lead of a team (adding them as a member if needed). With transfer, the current leads are replaced and stay members. The change is audited and can be reverted.',
+      inputSchema: {
+        team_id: z.number().describe('The team ID'),
+        employee_id: z.number().describe('The employee ID to make lead'),
+        transfer: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Replace the current leads instead of adding another lead'),
+      },
+    },
+    wrapToolHandler(async ({ team_id, employee_id, transfer }) => {
+      const team = await assignTeamLead(team_id, employee_id, transfer);
+      return textResponse(
+        `Employee ${employee_id} is now ${transfer ? 'the lead' : 'a lead'} of team "${team.name}":\n\n${JSON.stringify(team, redactSensitiveFields, 2)}`
+      );
+    })
+  );
+
+  // ============================================================================
+  // Location Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_locations',
+    {
+      title: 'List Locations',
+      description: 'Get all company locations. Supports pagination.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listLocations({ page, limit });
+        const summary = result.data.map(l => ({
+          id: l.id,
+          name: l.name,
+          city: l.city,
+          country: l.country,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} locations (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_location',
+    {
+      title: 'Get Location',
+      description: 'Get detailed information about a specific location by its ID.',
+      inputSchema: {
+        id: z.number().describe('The location ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const location = await getLocation(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(location, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_location',
+    {
+      title: 'Create Location',
+      description: 'Create a new company location.',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Location name'),
+        country: z.string().max(50).optional().describe('Country'),
+        state: z.string().max(50).optional().describe('State/Province'),
+        city: z.string().max(50).optional().describe('City'),
+        address_line_1: z.string().max(200).optional().describe('Address line 1'),
+        address_line_2: z.string().max(200).optional().describe('Address line 2'),
+        postal_code: z.string().max(20).optional().describe('Postal/ZIP code'),
+        phone_number: z.string().max(30).optional().describe('Phone number'),
+      },
+    },
+    async input => {
+      try {
+        const location = await createLocation(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Location created successfully:\n\n${JSON.stringify(location, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_location',
+    {
+      title: 'Update Location',
+      description: 'Update an existing location.',
+      inputSchema: {
+        id: z.number().describe('The location ID to update'),
+        name: z.string().min(1).max(100).optional().describe('Location name'),
+        country: z.string().max(50).optional().describe('Country'),
+        state: z.string().max(50).optional().describe('State/Province'),
+        city: z.string().max(50).optional().describe('City'),
+        address_line_1: z.string().max(200).optional().describe('Address line 1'),
+        address_line_2: z.string().max(200).optional().describe('Address line 2'),
+        postal_code: z.string().max(20).optional().describe('Postal/ZIP code'),
+        phone_number: z.string().max(30).optional().describe('Phone number'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const location = await updateLocation(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Location updated successfully:\n\n${JSON.stringify(location, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_location',
+    {
+      title: 'Delete Location',
+      description: 'Delete a location. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The location ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_location',
+      async ({ id }) => {
+        const [location, employees] = await Promise.all([
+          getLocation(id),
+          listEmployees({ location_id: id }),
+        ]);
+        const employeeCount = employees.meta.total ?? employees.data.length;
+        return {
+          operation: 'delete',
+          entityType: 'location',
+          entityId: id,
+          entityName: location.name,
+          warnings:
+            employeeCount > 0
+              ? [`${employeeCount} employee(s) are assigned to this location.`]
+              : [],
+        };
+      },
+      async ({ id }) => {
+        await deleteLocation(id);
+        return textResponse(`Location ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  // ============================================================================
+  // Calendar Tools
+  // ============================================================================
+
+  const calendarInput = {
+    location_id: z.number().optional().describe('Location whose calendar to use'),
+    employee_id: z
+      .number()
+      .optional()
+      .describe("Use the calendar of this employee's location (instead of location_id)"),
+  };
+
+  server.registerTool(
+    'list_holidays',
+    {
+      title: 'List Holidays',
+      description:
+        "List the holidays of a location's calendar for a year: Factorial's company holidays and those of the calendars file (FACTORIAL_CALENDARS_PATH). Without a location or employee, lists the default calendar.",
+      inputSchema: {
+        ...calendarInput,
+        year: z.number().int().optional().describe('Year (defaults to the current year)'),
+      },
+    },
+    wrapToolHandler(async ({ year, ...input }) => {
+      const calendar = await resolveCalendar(input);
+      const selectedYear = year ?? new Date().getUTCFullYear();
+      const holidays = listHolidays(calendar, `${selectedYear}-01-01`, `${selectedYear}-12-31`);
+      const lines = holidays
+        .map(
+          holiday => `- ${holiday.date}: ${holiday.name}${holiday.half_day ? ' (half day)' : ''}`
+        )
+        .join('\n');
+      return textResponse(
+        `${holidays.length} holiday(s) in ${selectedYear} on ${calendarName(calendar)} (working week: ${calendar.working_week.join(', ')})${lines ? `:\n${lines}` : '.'}${formatLeaveWarnings(calendar.warnings)}\n\n${JSON.stringify(holidays, null, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'count_working_days',
+    {
+      title: 'Count Working Days',
+      description:
+        "Count the working days between two dates, both included, on a location's calendar: its working week without its holidays. Half-day holidays count as half a day.",
+      inputSchema: {
+        ...calendarInput,
+        start_on: z.string().describe('Start date (YYYY-MM-DD)'),
+        finish_on: z.string().describe('End date (YYYY-MM-DD)'),
+        half_day: z
+          .enum(['start', 'finish'])
+          .optional()
+          .describe('Count only half of the first or last day'),
+      },
+    },
+    wrapToolHandler(async ({ start_on, finish_on, half_day, ...input }) => {
+      if (finish_on < start_on) {
+        throw new Error(`The end date (${finish_on}) is before the start date (${start_on}).`);
+      }
+      const calendar = await resolveCalendar(input);
+      const workingDays = countWorkingDays(calendar, start_on, finish_on, half_day);
+      const holidays = listHolidays(calendar, start_on, finish_on);
+      return textResponse(
+        `${workingDays} working day(s) from ${start_on} to ${finish_on} on ${calendarName(calendar)}.${formatLeaveWarnings(calendar.warnings)}\n\n${JSON.stringify(
+          {
+            location_id: calendar.location_id,
+            working_week: calendar.working_week,
+            working_days: workingDays,
+            holidays,
+          },
+          null,
+          2
+        )}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'next_working_day',
+    {
+      title: 'Next Working Day',
+      description:
+        "Get the working day a number of working days after a date on a location's calendar, skipping days off and holidays (e.g. a deadline 3 working days from today). Use negative days to count backwards, or 0 for the date itself if it is a working day.",
+      inputSchema: {
+        ...calendarInput,
+        date: z.string().describe('Date to count from (YYYY-MM-DD)'),
+        days: z.number().int().optional().describe('Working days to move (default 1)'),
+      },
+    },
+    wrapToolHandler(async ({ date, days, ...input }) => {
+      const calendar = await resolveCalendar(input);
+      const result = nextWorkingDay(calendar, date, days ?? 1);
+      const [from, to] = result < date ? [result, date] : [date, result];
+      const skipped: string[] = [];
+      for (
+        let day = new Date(`${from}T00:00:00Z`);
+        day <= new Date(`${to}T00:00:00Z`);
+        day.setUTCDate(day.getUTCDate() + 1)
+      ) {
+        const reason = describeDayOff(calendar, day.toISOString().slice(0, 10));
+        if (reason) skipped.push(reason);
+      }
+      return textResponse(
+        `${result} is ${days ?? 1} working day(s) from ${date} on ${calendarName(calendar)}.${skipped.length > 0 ? `\nSkipped:${skipped.map(reason => `\n- ${reason}`).join('')}` : ''}${formatLeaveWarnings(calendar.warnings)}`
+      );
+    })
+  );
+
+  // ============================================================================
+  // Contract Tools
+  // ============================================================================
+
+  server.registerTool(
+    'get_employee_contracts',
+    {
+      title: 'Get Employee Contracts',
+      description:
+        'Get contract versions for an employee. Returns contract summary (id, employee_id, job_title, effective_on).',
+      inputSchema: {
+        employee_id: z.number().describe('The employee ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(20).describe('Items per page (max: 100, default: 20)'),
+      },
+    },
+    async ({ employee_id, page, limit }) => {
+      try {
+        const result = await listContracts(employee_id, { page, limit });
+
+        // Create summary format
+        const summary = result.data.map(c => ({
+          id: c.id,
+          employee_id: c.employee_id,
+          job_title: c.job_title,
+          effective_on: c.effective_on,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} contracts for employee ${employee_id} (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_employee_with_contract',
+    {
+      title: 'Get Employee with Contract',
+      description:
+        'Get an employee with their latest contract data including salary, job title, and job role. ' +
+        'This combines employee data with compensation info from their most recent contract. ' +
+        'Useful for getting complete employment details in one call.',
+      inputSchema: {
+        employee_id: z.number().describe('The employee ID'),
+      },
+    },
+    async ({ employee_id }) => {
+      try {
+        const result = await getEmployeeWithContract(employee_id);
+
+        const response = {
+          employee: {
+            id: result.employee.id,
+            full_name: result.employee.full_name,
+            email: result.employee.email,
+            manager_id: result.employee.manager_id,
+            location_id: result.employee.location_id,
+            active: result.employee.active,
+            terminated_on: result.employee.terminated_on,
+          },
+          contract: result.contract
+            ? {
+                id: result.contract.id,
+                job_title: result.contract.job_title,
+                effective_on: result.contract.effective_on,
+                salary_amount: result.contract.salary_amount,
+                salary_frequency: result.contract.salary_frequency,
+                working_hours: result.contract.working_hours,
+                working_hours_frequency: result.contract.working_hours_frequency,
+                job_catalog_role_id: result.contract.job_catalog_role_id,
+                job_catalog_level_id: result.contract.job_catalog_level_id,
+                contract_type: result.contract.contract_type,
+                trial_period_ends_on: result.contract.trial_period_ends_on,
+                ends_on: result.contract.ends_on,
+              }
+            : null,
+        };
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.contract
+                ? `Employee ${result.employee.full_name} with contract:\n\n${JSON.stringify(response, redactSensitiveFields, 2)}`
+                : `Employee ${result.employee.full_name} (no contract found):\n\n${JSON.stringify(response, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_employees_by_job_role',
+    {
+      title: 'List Employees by Job Role',
+      description:
+        'Get all employees assigned to a specific job role. ' +
+        'Uses contract data to find employees since job role assignment is stored in contracts. ' +
+        'Returns employees with their latest contract including salary and compensation.',
+      inputSchema: {
+        job_role_id: z.number().describe('The job role ID from job_catalog'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ job_role_id, page, limit }) => {
+      try {
+        const result = await listEmployeesByJobRole(job_role_id, { page, limit });
+
+        const summary = result.data.map(item => ({
+          employee: {
+            id: item.employee.id,
+            full_name: item.employee.full_name,
+            email: item.employee.email,
+          },
+          contract: item.contract
+            ? {
+                job_title: item.contract.job_title,
+                salary_amount: item.contract.salary_amount,
+                salary_frequency: item.contract.salary_frequency,
+                effective_on: item.contract.effective_on,
+              }
+            : null,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} employees with job role ID ${job_role_id} (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_employees_by_job_level',
+    {
+      title: 'List Employees by Job Level',
+      description:
+        'Get all employees at a specific job level. ' +
+        'Uses contract data to find employees since job level is stored in contracts. ' +
+        'Returns employees with their latest contract including salary and compensation.',
+      inputSchema: {
+        job_level_id: z.number().describe('The job level ID from job_catalog'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ job_level_id, page, limit }) => {
+      try {
+        const result = await listEmployeesByJobLevel(job_level_id, { page, limit });
+
+        const summary = result.data.map(item => ({
+          employee: {
+            id: item.employee.id,
+            full_name: item.employee.full_name,
+            email: item.employee.email,
+          },
+          contract: item.contract
+            ? {
+                job_title: item.contract.job_title,
+                salary_amount: item.contract.salary_amount,
+                salary_frequency: item.contract.salary_frequency,
+                effective_on: item.contract.effective_on,
+              }
+            : null,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} employees with job level ID ${job_level_id} (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================================
+  // Time Off / Leave Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_leaves',
+    {
+      title: 'List Leaves',
+      description:
+        'Get time off/leave requests. Filter by employee, status, or date range. Supports pagination.',
+      inputSchema: {
+        employee_id: z.number().optional().describe('Filter by employee ID'),
+        status: z
+          .enum(['pending', 'approved', 'declined'])
+          .optional()
+          .describe('Filter by leave status'),
+        start_on_gte: z
+          .string()
+          .optional()
+          .describe('Filter leaves starting on or after this date (YYYY-MM-DD)'),
+        start_on_lte: z
+          .string()
+          .optional()
+          .describe('Filter leaves starting on or before this date (YYYY-MM-DD)'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ employee_id, status, start_on_gte, start_on_lte, page, limit }) => {
+      try {
+        const result = await listLeaves({
+          employee_id,
+          status,
+          start_on_gte,
+          start_on_lte,
+          page,
+          limit,
+        });
+
+        // Fetch enrichment data (both are cached)
+        const [employees, leaveTypes] = await Promise.all([listEmployees(), listLeaveTypes()]);
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+        const ltMap = new Map(leaveTypes.map(lt => [lt.id, lt.name]));
+
+        const summary = result.data.map(l => ({
+          id: l.id,
+          employee_id: l.employee_id,
+          employee_name: empMap.get(l.employee_id) || `Employee ${l.employee_id}`,
+          leave_type_id: l.leave_type_id,
+          leave_type_name: ltMap.get(l.leave_type_id) || `Type ${l.leave_type_id}`,
+          start_on: l.start_on,
+          finish_on: l.finish_on,
+          status: l.status,
+          days: l.duration_attributes?.days,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} leaves (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_leave',
+    {
+      title: 'Get Leave Details',
+      description: 'Get detailed information about a specific leave request.',
+      inputSchema: {
+        id: z.number().describe('The leave ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const leave = await getLeave(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Leave details:\n\n${JSON.stringify(leave, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_leave_types',
+    {
+      title: 'List Leave Types',
+      description:
+        'Get all leave types (vacation, sick leave, etc.) configured in the organization.',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const types = await listLeaveTypes();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${types.length} leave types:\n\n${JSON.stringify(types, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_leave_type',
+    {
+      title: 'Get Leave Type',
+      description: 'Get details about a specific leave type.',
+      inputSchema: {
+        id: z.number().describe('The leave type ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const leaveType = await getLeaveType(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(leaveType, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_allowances',
+    {
+      title: 'List Time Off Allowances',
+      description:
+        'Get time off balances/allowances for employees. Shows available, consumed, and total days.',
+      inputSchema: {
+        employee_id: z.number().optional().describe('Filter by employee ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ employee_id, page, limit }) => {
+      try {
+        const result = await listAllowances({ employee_id, page, limit });
+
+        // Fetch enrichment data (both are cached)
+        const [employees, leaveTypes] = await Promise.all([listEmployees(), listLeaveTypes()]);
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+        const ltMap = new Map(leaveTypes.map(lt => [lt.id, lt.name]));
+
+        const summary = result.data.map(a => ({
+          id: a.id,
+          employee_id: a.employee_id,
+          employee_name: empMap.get(a.employee_id) || `Employee ${a.employee_id}`,
+          leave_type_id: a.leave_type_id,
+          leave_type_name: ltMap.get(a.leave_type_id) || `Type ${a.leave_type_id}`,
+          available_days: a.available_days,
+          consumed_days: a.consumed_days,
+          balance_days: a.balance_days,
+          valid_from: a.valid_from,
+          valid_to: a.valid_to,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} allowances (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'forecast_allowance',
+    {
+      title: 'Forecast Allowance Balance',
+      description:
+        "Project an employee's time off balance at the end of each allowance period (e.g. how many days are left in December). Counts the working days (on the calendar of the employee's location, without days off and holidays) of approved leaves already taken, approved leaves still planned and pending leaves, and subtracts them from the allowance.",
+      inputSchema: {
+        employee_id: z.number().describe('Employee ID'),
+        leave_type_id: z.number().optional().describe('Only this leave type'),
+        year: z
+          .number()
+          .int()
+          .optional()
+          .describe('Allowances valid during this year (defaults to the current year)'),
+      },
+    },
+    wrapToolHandler(async ({ employee_id, leave_type_id, year }) => {
+      const { forecasts, warnings } = await forecastAllowances(employee_id, {
+        leave_type_id,
+        year,
+      });
+      if (forecasts.length === 0) {
+        return textResponse(
+          `No allowances found for employee ${employee_id}${year ? ` in ${year}` : ''}.${formatLeaveWarnings(warnings)}`
+        );
+      }
+      const summary = forecasts
+        .map(
+          forecast =>
+            `- ${forecast.leave_type}: ${forecast.projected_balance} day(s) left on ${forecast.period.to} (${forecast.projected_balance_without_pending} if the pending leaves are declined)`
+        )
+        .join('\n');
+      return textResponse(
+        `Projected balances of employee ${employee_id}:\n${summary}${formatLeaveWarnings(warnings)}\n\n${JSON.stringify(forecasts, null, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'check_leave_coverage',
+    {
+      title: 'Check Leave Coverage',
+      description:
+        "Check a leave before creating or approving it: teammates' approved and pending leaves that overlap it, days on which a team would have fewer available members than the minimum of the policy file, the employee's own overlapping leaves and their shifts. Pass a leave_id, or an employee and dates.",
+      inputSchema: {
+        leave_id: z.number().optional().describe('Existing leave to check'),
+        employee_id: z.number().optional().describe('Employee ID (without leave_id)'),
+        start_on: z.string().optional().describe('Start date (YYYY-MM-DD, without leave_id)'),
+        finish_on: z.string().optional().describe('End date (YYYY-MM-DD, without leave_id)'),
+      },
+    },
+    wrapToolHandler(async ({ leave_id, employee_id, start_on, finish_on }) => {
+      let request: CoverageRequest;
+      if (leave_id !== undefined) {
+        const leave = await getLeave(leave_id);
+        request = { ...leave, leave_id };
+      } else if (employee_id !== undefined && start_on && finish_on) {
+        request = { employee_id, start_on, finish_on };
+      } else {
+        throw new Error('Pass leave_id, or employee_id with start_on and finish_on.');
+      }
+
+      const report = await checkLeaveCoverage(request);
+      const summary =
+        report.conflicts.length === 0
+          ? 'No conflicts found.'
+          : `Found ${report.conflicts.length} conflict(s):${report.conflicts.map(conflict => `\n- ${conflict.message}`).join('')}`;
+      return textResponse(`${summary}\n\n${JSON.stringify(report, null, 2)}`);
+    })
+  );
+
+  server.registerTool(
+    'create_leave',
+    {
+      title: 'Create Leave Request',
+      description:
+        "Create a new time off/leave request for an employee. The leave is first checked against teammates' leaves, team coverage, the employee's own leaves and shifts, and its working days (on the calendar of the employee's location) against the employee's allowance. Conflicts and a negative balance are returned as warnings, and the operation policy may require confirmation or block the leave.",
+      inputSchema: {
+        employee_id: z.number().describe('Employee ID'),
+        leave_type_id: z.number().describe('Leave type ID'),
+        start_on: z.string().describe('Start date (YYYY-MM-DD)'),
+        finish_on: z.string().describe('End date (YYYY-MM-DD)'),
+        half_day: z.enum(['all_day', 'start', 'finish']).optional().describe('Half day option'),
+        description: z.string().max(500).optional().describe('Description/reason'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe(
+            'Token from the preview, when the operation policy requires confirmation for this leave.'
+          ),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'create_leave',
+      async input => {
+        const [employee, leaveTypes, coverage] = await Promise.all([
+          getEmployee(input.employee_id).catch(() => null),
+          listLeaveTypes(),
+          getLeaveChecks(input),
+        ]);
+        const leaveType = leaveTypes.find(lt => lt.id === input.leave_type_id);
+        return {
+          operation: 'create',
+          entityType: 'leave',
+          entityName: `${employee?.full_name ?? `Employee ${input.employee_id}`}: ${leaveType?.name ?? `Type ${input.leave_type_id}`} ${input.start_on} to ${input.finish_on}`,
+          warnings: coverage.warnings,
+        };
+      },
+      async ({ confirmation_token: _token, ...input }) => {
+        const { warnings } = await getLeaveChecks(input);
+        const leave = await createLeave(input);
+        return textResponse(
+          `Leave request created successfully.${formatLeaveWarnings(warnings)}\n\n${JSON.stringify(leave, redactSensitiveFields, 2)}`
+        );
+      },
+      async input => (await getLeaveChecks(input)).facts
+    )
+  );
+
+  server.registerTool(
+    'update_leave',
+    {
+      title: 'Update Leave Request',
+      description: 'Update an existing leave request.',
+      inputSchema: {
+        id: z.number().describe('The leave ID to update'),
+        leave_type_id: z.number().optional().describe('Leave type ID'),
+        start_on: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        finish_on: z.string().optional().describe('End date (YYYY-MM-DD)'),
+        half_day: z.enum(['all_day', 'start', 'finish']).optional().describe('Half day option'),
+        description: z.string().max(500).optional().describe('Description/reason'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const leave = await updateLeave(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Leave request updated successfully:\n\n${JSON.stringify(leave, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'cancel_leave',
+    {
+      title: 'Cancel Leave Request',
+      description: 'Cancel a leave request. This operation requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The leave ID to cancel'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'cancel_leave',
+      async ({ id }) => {
+        const leave = await getLeave(id);
+        return {
+          operation: 'cancel',
+          entityType: 'leave',
+          entityId: id,
+          entityName: await describeLeave(leave),
+          changes: { status: { from: leave.status, to: 'cancelled' } },
+          warnings:
+            leave.status === 'approved'
+              ? ['This leave is already approved. The employee may have planned around it.']
+              : [],
+        };
+      },
+      async ({ id }) => {
+        await cancelLeave(id);
+        return textResponse(`Leave request ${id} cancelled successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'approve_leave',
+    {
+      title: 'Approve Leave Request',
+      description:
+        'Approve a pending leave request. The leave is checked for team coverage and against the allowance balance like in create_leave; conflicts are returned as warnings, and the operation policy may require confirmation or block the approval.',
+      inputSchema: {
+        id: z.number().describe('The leave ID to approve'),
+        reason: z.string().max(500).optional().describe('Approval comment'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe(
+            'Token from the preview, when the operation policy requires confirmation for this leave.'
+          ),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'approve_leave',
+      async ({ id, reason }) => {
+        const leave = await getLeave(id);
+        return {
+          operation: 'approve',
+          entityType: 'leave',
+          entityId: id,
+          entityName: await describeLeave(leave),
+          changes: {
+            status: { from: leave.status, to: 'approved' },
+            ...(reason ? { reason: { to: reason } } : {}),
+          },
+          warnings: [
+            ...(leave.status !== 'pending'
+              ? [`This leave is not pending (current status: ${leave.status}).`]
+              : []),
+            ...(await getLeaveChecks({ ...leave, leave_id: id })).warnings,
+          ],
+        };
+      },
+      async ({ id, reason }) => {
+        const { warnings } = await getLeaveChecks({ ...(await getLeave(id)), leave_id: id });
+        const leave = await approveLeave(id, reason ? { reason } : undefined);
+        return textResponse(
+          `Leave request approved successfully.${formatLeaveWarnings(warnings)}\n\n${JSON.stringify(leave, redactSensitiveFields, 2)}`
+        );
+      },
+      async ({ id }) => {
+        const leave = await getLeave(id);
+        return {
+          days: getLeaveDays(leave),
+          ...(await getLeaveChecks({ ...leave, leave_id: id })).facts,
+        };
+      }
+    )
+  );
+
+  server.registerTool(
+    'reject_leave',
+    {
+      title: 'Reject Leave Request',
+      description: 'Reject a pending leave request. This operation requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The leave ID to reject'),
+        reason: z.string().max(500).optional().describe('Rejection reason'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'reject_leave',
+      async ({ id, reason }) => {
+        const leave = await getLeave(id);
+        return {
+          operation: 'reject',
+          entityType: 'leave',
+          entityId: id,
+          entityName: await describeLeave(leave),
+          changes: {
+            status: { from: leave.status, to: 'declined' },
+            ...(reason ? { reason: { to: reason } } : {}),
+          },
+          warnings:
+            leave.status !== 'pending'
+              ? [`This leave is not pending (current status: ${leave.status}).`]
+              : [],
+        };
+      },
+      async ({ id, reason }) => {
+        const leave = await rejectLeave(id, reason ? { reason } : undefined);
+        return textResponse(
+          `Leave request rejected:\n\n${JSON.stringify(leave, redactSensitiveFields, 2)}`
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'export_absence_calendar',
+    {
+      title: 'Export Absence Calendar',
+      description:
+        'Export leaves as an iCalendar (.ics) file that calendar clients can import: one all-day event per leave with the employee, the leave type and its color. Approved leaves by default; pending leaves are added as tentative events with include_pending. Leave descriptions written by employees are left out unless include_descriptions is set. Filter by team, location and dates (defaults to 30 days ago to a year ahead). The factorial://timeoff/calendar/{team_id}.ics resource serves the approved leaves of a team.',
+      inputSchema: {
+        team_id: z.number().optional().describe('Only members of this team'),
+        location_id: z.number().optional().describe('Only employees of this location'),
+        from: z.string().optional().describe('First day (YYYY-MM-DD)'),
+        to: z.string().optional().describe('Last day (YYYY-MM-DD)'),
+        include_pending: z
+          .boolean()
+          .optional()
+          .describe('Include pending leaves as tentative events (default false)'),
+        include_descriptions: z
+          .boolean()
+          .optional()
+          .describe(
+            "Add the employee's description of each leave, which may be personal (default false)"
+          ),
+      },
+    },
+    wrapToolHandler(async input => {
+      const calendar = await buildAbsenceCalendar(input);
+      return textResponse(
+        `${calendar.name}: ${calendar.event_count} absence(s) from ${calendar.from} to ${calendar.to}. Save the following as a .ics file to import it:\n\n${calendar.ics}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'timeoff_analytics',
+    {
+      title: 'Time Off Analytics',
+      description:
+        "Absence analytics over a date range (defaults to the next 90 days, at most 366): employees away per day by team and location with a text heatmap, peak absence days, leave-type mix, lead time from request to start and the age of the pending-approval backlog. Days follow each location's working-day calendar; half days count as 0.5. Read-only.",
+      inputSchema: {
+        team_id: z.number().optional().describe('Only members of this team'),
+        location_id: z.number().optional().describe('Only employees of this location'),
+        from: z.string().optional().describe('First day (YYYY-MM-DD, default today)'),
+        to: z.string().optional().describe('Last day (YYYY-MM-DD)'),
+        include_pending: z
+          .boolean()
+          .optional()
+          .describe('Count pending leaves as absences (default false)'),
+        format: z
+          .enum(['markdown', 'json'])
+          .optional()
+          .default('markdown')
+          .describe('Markdown tables and heatmap, or the full data as JSON'),
+      },
+    },
+    wrapToolHandler(async ({ format, ...options }) => {
+      const report = await buildTimeoffAnalytics(options);
+      return textResponse(
+        format === 'json' ? JSON.stringify(report, null, 2) : formatTimeoffAnalytics(report)
+      );
+    })
+  );
+
+  // ============================================================================
+  // Attendance / Shift Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_shifts',
+    {
+      title: 'List Shifts',
+      description:
+        'Get employee attendance shifts. Filter by employee or date range. Read-only access.',
+      inputSchema: {
+        employee_id: z.number().optional().describe('Filter by employee ID'),
+        clock_in_gte: z
+          .string()
+          .optional()
+          .describe('Filter shifts clocking in after this time (ISO 8601)'),
+        clock_in_lte: z
+          .string()
+          .optional()
+          .describe('Filter shifts clocking in before this time (ISO 8601)'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ employee_id, clock_in_gte, clock_in_lte, page, limit }) => {
+      try {
+        const result = await listShifts({ employee_id, clock_in_gte, clock_in_lte, page, limit });
+
+        // Fetch employee names for enrichment (cached)
+        const employees = await listEmployees();
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+
+        const summary = result.data.map(s => ({
+          id: s.id,
+          employee_id: s.employee_id,
+          employee_name: empMap.get(s.employee_id) || `Employee ${s.employee_id}`,
+          clock_in: s.clock_in,
+          clock_out: s.clock_out,
+          worked_hours: s.worked_hours,
+          break_minutes: s.break_minutes,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} shifts (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_shift',
+    {
+      title: 'Get Shift Details',
+      description: 'Get detailed information about a specific shift.',
+      inputSchema: {
+        id: z.number().describe('The shift ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const shift = await getShift(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(shift, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_shift',
+    {
+      title: 'Create Shift',
+      description:
+        "Create a new attendance shift (clock in/out record). Notes when the shift falls on a holiday or day off of the employee's location.",
+      inputSchema: {
+        employee_id: z.number().describe('Employee ID'),
+        clock_in: z.string().describe('Clock in time (ISO 8601)'),
+        clock_out: z.string().optional().describe('Clock out time (ISO 8601)'),
+        break_minutes: z.number().min(0).max(480).optional().describe('Break duration in minutes'),
+        location: z.string().max(200).optional().describe('Work location'),
+        notes: z.string().max(500).optional().describe('Notes'),
+      },
+    },
+    async input => {
+      try {
+        const shift = await createShift(input);
+        const dayOff = await getEmployeeCalendar(input.employee_id).then(
+          calendar => describeDayOff(calendar, input.clock_in.slice(0, 10)),
+          () => undefined
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Shift created successfully${dayOff ? ` (note: ${dayOff} for this employee)` : ''}:\n\n${JSON.stringify(shift, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_shift',
+    {
+      title: 'Update Shift',
+      description: 'Update an existing shift.',
+      inputSchema: {
+        id: z.number().describe('The shift ID to update'),
+        clock_in: z.string().optional().describe('Clock in time (ISO 8601)'),
+        clock_out: z.string().optional().describe('Clock out time (ISO 8601)'),
+        break_minutes: z.number().min(0).max(480).optional().describe('Break duration in minutes'),
+        location: z.string().max(200).optional().describe('Work location'),
+        notes: z.string().max(500).optional().describe('Notes'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const shift = await updateShift(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Shift updated successfully:\n\n${JSON.stringify(shift, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_shift',
+    {
+      title: 'Delete Shift',
+      description: 'Delete a shift record. This operation requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The shift ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_shift',
+      async ({ id }) => {
+        const shift = await getShift(id);
+        const employee = await getEmployee(shift.employee_id).catch(() => null);
+        return {
+          operation: 'delete',
+          entityType: 'shift',
+          entityId: id,
+          entityName: `${employee?.full_name ?? `Employee ${shift.employee_id}`}: ${shift.clock_in} - ${shift.clock_out ?? 'open'}`,
+          warnings: shift.worked_hours
+            ? [`${shift.worked_hours} worked hour(s) will be removed from attendance records.`]
+            : [],
+        };
+      },
+      async ({ id }) => {
+        await deleteShift(id);
+        return textResponse(`Shift ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  // ============================================================================
+  // Document Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_folders',
+    {
+      title: 'List Folders',
+      description: 'Get all document folders. Read-only access.',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const folders = await listFolders();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${folders.length} folders:\n\n${JSON.stringify(folders, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_folder',
+    {
+      title: 'Get Folder',
+      description: 'Get details about a specific folder.',
+      inputSchema: {
+        id: z.number().describe('The folder ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const folder = await getFolder(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(folder, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_documents',
+    {
+      title: 'List Documents',
+      description:
+        'Get documents with folder and employee name enrichment. Filter by folder or employee. Read-only access.',
+      inputSchema: {
+        folder_id: z.number().optional().describe('Filter by folder ID'),
+        employee_ids: z.array(z.number()).optional().describe('Filter by employee IDs'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page (max: 100)'),
+      },
+    },
+    async ({ folder_id, employee_ids, page, limit }) => {
+      try {
+        const result = await listDocuments({ folder_id, employee_ids, page, limit });
+
+        // Fetch employee names for enrichment (cached)
+        const employees = await listEmployees();
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+
+        // Fetch folders for name enrichment (cached)
+        const folders = await listFolders();
+        const folderMap = new Map(folders.map(f => [f.id, f.name]));
+
+        const summary = result.data.map(d => ({
+          id: d.id,
+          name: d.name,
+          folder_id: d.folder_id,
+          folder_name: d.folder_id ? folderMap.get(d.folder_id) || null : null,
+          employee_id: d.employee_id,
+          employee_name: d.employee_id
+            ? empMap.get(d.employee_id) || `Employee ${d.employee_id}`
+            : null,
+          author_id: d.author_id,
+          author_name: d.author_id ? empMap.get(d.author_id) || `Employee ${d.author_id}` : null,
+          mime_type: d.mime_type,
+          size_bytes: d.size_bytes,
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} documents (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_document',
+    {
+      title: 'Get Document',
+      description: 'Get document metadata and URL. Read-only access.',
+      inputSchema: {
+        id: z.number().describe('The document ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const document = await getDocument(id);
+
+        // Defensive check for undefined/null document
+        if (!document) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Document with ID ${id} exists but returned no data. This may be a Factorial API issue.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(document, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'read_document_content',
+    {
+      title: 'Read Document Content',
+      description:
+        'Read the content of a document. Text is extracted from PDF, DOCX and text files and returned in chunks with page numbers; use chunk to continue from next_chunk. Images are returned as image content. Files up to 25 MB (images up to 5 MB).',
+      inputSchema: {
+        id: z.number().describe('The document ID'),
+        chunk: z.number().int().min(0).optional().default(0).describe('First chunk to return'),
+        max_chunks: z
+          .number()
+          .int()
+          .min(1)
+          .max(20)
+          .optional()
+          .default(5)
+          .describe('Chunks to return (max: 20, default: 5)'),
+      },
+    },
+    wrapToolHandler(async ({ id, chunk, max_chunks }) => {
+      const content = await readDocumentContent(id);
+      if (content.kind === 'image') {
+        return {
+          content: [
+            { type: 'text', text: `Image document ${id} (${content.name ?? '[No name]'})` },
+            { type: 'image', data: content.data, mimeType: content.mime_type },
+          ],
+        };
+      }
+
+      const chunks = content.chunks.slice(chunk, chunk + max_chunks);
+      const nextChunk = chunk + chunks.length;
+      const result = {
+        document_id: content.document_id,
+        name: content.name,
+        mime_type: content.mime_type,
+        page_count: content.page_count,
+        total_chunks: content.chunks.length,
+        chunks,
+        next_chunk: nextChunk < content.chunks.length ? nextChunk : undefined,
+        note:
+          content.chunks.length === 0
+            ? 'No text could be extracted. The document may be a scanned image.'
+            : undefined,
+      };
+      return textResponse(JSON.stringify(result, redactSensitiveFields, 2));
+    })
+  );
+
+  server.registerTool(
+    'get_employee_documents',
+    {
+      title: 'Get Employee Documents',
+      description:
+        'Get all documents for a specific employee. Returns document summary with folder_name enrichment. Use get_document for full details.',
+      inputSchema: {
+        employee_id: z.number().describe('The employee ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(20).describe('Items per page (max: 100, default: 20)'),
+      },
+    },
+    async ({ employee_id, page, limit }) => {
+      try {
+        const result = await listDocuments({ employee_ids: [employee_id], page, limit });
+
+        // Fetch folders for name enrichment (cached)
+        const folders = await listFolders();
+        const folderMap = new Map(folders.map(f => [f.id, f.name]));
+
+        // Create summary format with folder name enrichment
+        const summary = result.data.map(d => ({
+          id: d.id,
+          name: d.name ?? '[No name]',
+          folder_id: d.folder_id,
+          folder_name: d.folder_id ? folderMap.get(d.folder_id) || null : null,
+          employee_id: d.employee_id,
+          author_id: d.author_id,
+          mime_type: d.mime_type ?? 'unknown',
+          size_bytes: d.size_bytes ?? 0,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} documents for employee ${employee_id} (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'search_employee_documents',
+    {
+      title: 'Search Employee Documents',
+      description:
+        'Search documents by employee name and optional document name pattern. Example: search for "Taig\'s resume" or "certifications for Saray".',
+      inputSchema: {
+        employee_name: z
+          .string()
+          .min(2)
+          .describe('Employee name to search for (partial match, min 2 chars)'),
+        document_query: z
+          .string()
+          .optional()
+          .describe('Document name pattern to filter by (e.g., "resume", "certification")'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(20).describe('Items per page (max: 100, default: 20)'),
+      },
+    },
+    async ({ employee_name, document_query, page, limit }) => {
+      try {
+        // Step 1: Search for employees by name
+        const matchingEmployees = await searchEmployees(employee_name);
+
+        if (matchingEmployees.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No employees found matching "${employee_name}".`,
+              },
+            ],
+          };
+        }
+
+        // Step 2: Get documents for matching employees
+        const employeeIds = matchingEmployees.map(e => e.id);
+        const result = await listDocuments({ employee_ids: employeeIds, page, limit });
+
+        // Step 3: Filter by document name pattern if provided
+        let filteredDocs = result.data;
+        if (document_query) {
+          const queryLower = document_query.toLowerCase();
+          filteredDocs = result.data.filter(
+            d => d.name && d.name.toLowerCase().includes(queryLower)
+          );
+        }
+
+        // Step 4: Enrich with employee and folder names
+        const empMap = new Map(matchingEmployees.map(e => [e.id, e.full_name]));
+        const folders = await listFolders();
+        const folderMap = new Map(folders.map(f => [f.id, f.name]));
+
+        const summary = filteredDocs.map(d => ({
+          id: d.id,
+          name: d.name ?? '[No name]',
+          folder_id: d.folder_id,
+          folder_name: d.folder_id ? folderMap.get(d.folder_id) || null : null,
+          employee_id: d.employee_id,
+          employee_name: d.employee_id
+            ? empMap.get(d.employee_id) || `Employee ${d.employee_id}`
+            : null,
+          mime_type: d.mime_type ?? 'unknown',
+          size_bytes: d.size_bytes ?? 0,
+        }));
+
+        const employeeNames = matchingEmployees.map(e => e.full_name).join(', ');
+        const queryInfo = document_query ? ` matching "${document_query}"` : '';
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${summary.length} documents${queryInfo} for employees matching "${employee_name}" (${employeeNames}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'search_document_content',
+    {
+      title: 'Search Document Content',
+      description:
+        'Full-text search inside documents (PDF, DOCX, text). All words must appear; put a phrase in double quotes to match it exactly. Returns ranked snippets with the document, employee and folder IDs. New and changed documents are indexed before searching (up to 100 per call; call again if some are pending).',
+      inputSchema: {
+        query: z.string().min(2).describe('Words to find, e.g. "non-compete" clause'),
+        folder_id: z.number().optional().describe('Only documents in this folder'),
+        employee_id: z.number().optional().describe('Only documents of this employee'),
+        team_id: z.number().optional().describe('Only documents of members of this team'),
+        created_from: z
+          .string()
+          .optional()
+          .describe('Only documents created on or after this date (YYYY-MM-DD)'),
+        created_to: z
+          .string()
+          .optional()
+          .describe('Only documents created on or before this date (YYYY-MM-DD)'),
+        limit: z.number().int().min(1).max(50).optional().default(10).describe('Max results'),
+        refresh: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe('Index new and changed documents first (default: true)'),
+      },
+    },
+    wrapToolHandler(
+      async ({
+        query,
+        folder_id,
+        employee_id,
+        team_id,
+        created_from,
+        created_to,
+        limit,
+        refresh,
+      }) => {
+        let employeeIds = employee_id !== undefined ? [employee_id] : undefined;
+        if (team_id !== undefined) {
+          const members = (await getTeam(team_id)).employee_ids;
+          employeeIds = employeeIds ? employeeIds.filter(id => members.includes(id)) : members;
+        }
+
+        const scope = { folder_id, employee_ids: employeeIds };
+        const sync = refresh ? await documentIndex.sync(scope) : undefined;
+        const results = documentIndex.search(query, { ...scope, created_from, created_to }, limit);
+
+        const notes: string[] = [];
+        if (sync?.pending) {
+          notes.push(
+            `${sync.pending} document(s) are not indexed yet. Search again to index them.`
+          );
+        }
+        if (sync?.failed) {
+          notes.push(`${sync.failed} document(s) could not be downloaded and were not searched.`);
+        }
+        const index = { documents: documentIndex.size, ...sync };
+        return textResponse(
+          `Found ${results.length} documents matching ${JSON.stringify(query)}:\n\n${JSON.stringify({ results, index, notes: notes.length > 0 ? notes : undefined }, redactSensitiveFields, 2)}`
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'upload_document',
+    {
+      title: 'Upload Document',
+      description:
+        'Upload a document into a folder, optionally for an employee. Send either a local file (file_path, inside FACTORIAL_UPLOAD_DIR) or base64 content with a file name. PDF, Office, text and image files up to 25 MB are accepted.',
+      inputSchema: {
+        folder_id: z.number().describe('Folder to upload into'),
+        employee_id: z.number().optional().describe('Employee the document belongs to'),
+        file_path: z.string().optional().describe('Local file path, relative to the upload dir'),
+        content_base64: z.string().optional().describe('File content encoded as base64'),
+        file_name: z
+          .string()
+          .optional()
+          .describe('File name (required with content_base64; defaults to the local file name)'),
+        mime_type: z
+          .string()
+          .optional()
+          .describe('Mime type (inferred from the file name when omitted)'),
+        public: z.boolean().optional().describe('Whether the employee can see the document'),
+      },
+    },
+    wrapToolHandler(
+      async ({
+        folder_id,
+        employee_id,
+        file_path,
+        content_base64,
+        file_name,
+        mime_type,
+        ...rest
+      }) => {
+        const file = loadDocumentFile({ file_path, content_base64, file_name, mime_type });
+        const document = await uploadDocument(
+          { folder_id, employee_id, public: rest.public },
+          file
+        );
+        return textResponse(
+          `Document uploaded successfully:\n\n${JSON.stringify(document, redactSensitiveFields, 2)}`
+        );
+      }
+    )
+  );
+
+  server.registerTool(
+    'update_document',
+    {
+      title: 'Update Document',
+      description: 'Rename a document, move it to another folder or change whether it is public.',
+      inputSchema: {
+        id: z.number().describe('The document ID to update'),
+        name: z.string().min(1).max(255).optional().describe('New document name'),
+        folder_id: z.number().optional().describe('Folder to move the document to'),
+        public: z.boolean().optional().describe('Whether the employee can see the document'),
+      },
+    },
+    wrapToolHandler(async ({ id, ...input }) => {
+      const document = await updateDocument(id, input);
+      return textResponse(
+        `Document updated successfully:\n\n${JSON.stringify(document, redactSensitiveFields, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'delete_document',
+    {
+      title: 'Delete Document',
+      description: 'Delete a document. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The document ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_document',
+      async ({ id }) => {
+        const document = await getDocument(id);
+        return {
+          operation: 'delete',
+          entityType: 'document',
+          entityId: id,
+          entityName: document.name ?? undefined,
+          warnings: document.employee_id
+            ? [`The document belongs to employee ${document.employee_id}.`]
+            : [],
+        };
+      },
+      async ({ id }) => {
+        await deleteDocument(id);
+        documentIndex.remove(id);
+        return textResponse(`Document ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  // ============================================================================
+  // Job Catalog Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_job_roles',
+    {
+      title: 'List Job Roles',
+      description: 'Get all job roles defined in the job catalog.',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const roles = await listJobRoles();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${roles.length} job roles:\n\n${JSON.stringify(roles, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_job_role',
+    {
+      title: 'Get Job Role',
+      description: 'Get details about a specific job role.',
+      inputSchema: {
+        id: z.number().describe('The job role ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const role = await getJobRole(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(role, redactSensitiveFields, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_job_levels',
+    {
+      title: 'List Job Levels',
+      description: 'Get all job levels defined in the job catalog.',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const levels = await listJobLevels();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${levels.length} job levels:\n\n${JSON.stringify(levels, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================================
+  // Project Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_projects',
+    {
+      title: 'List Projects',
+      description: 'Get all projects. Supports pagination.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listProjects({ page, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} projects (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(result.data, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_project',
+    {
+      title: 'Get Project',
+      description: 'Get detailed information about a specific project.',
+      inputSchema: {
+        id: z.number().describe('The project ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const project = await getProject(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(project, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_project',
+    {
+      title: 'Create Project',
+      description: 'Create a new project.',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Project name'),
+        code: z.string().max(20).optional().describe('Project code'),
+        description: z.string().max(500).optional().describe('Description'),
+        employees_assignment: z.enum(['manual', 'company']).optional().describe('Assignment mode'),
+      },
+    },
+    async input => {
+      try {
+        const project = await createProject(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Project created:\n\n${JSON.stringify(project, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_project',
+    {
+      title: 'Update Project',
+      description: 'Update an existing project.',
+      inputSchema: {
+        id: z.number().describe('The project ID'),
+        name: z.string().min(1).max(100).optional().describe('Project name'),
+        code: z.string().max(20).optional().describe('Project code'),
+        description: z.string().max(500).optional().describe('Description'),
+        status: z.enum(['active', 'inactive', 'archived']).optional().describe('Status'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const project = await updateProject(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Project updated:\n\n${JSON.stringify(project, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_project',
+    {
+      title: 'Delete Project',
+      description: 'Delete a project. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The project ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_project',
+      async ({ id }) => {
+        const [project, tasks, workers] = await Promise.all([
+          getProject(id),
+          listProjectTasks(id),
+          listProjectWorkers(id),
+        ]);
+        const warnings: string[] = [];
+        if (tasks.data.length > 0) {
+          warnings.push(`${tasks.data.length} task(s) will be deleted with the project.`);
+        }
+        if (workers.data.length > 0) {
+          warnings.push(
+            `${workers.data.length} worker assignment(s) and their time records will be removed.`
+          );
+        }
+        return {
+          operation: 'delete',
+          entityType: 'project',
+          entityId: id,
+          entityName: project.name,
+          warnings,
+        };
+      },
+      async ({ id }) => {
+        await deleteProject(id);
+        return textResponse(`Project ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'list_project_tasks',
+    {
+      title: 'List Project Tasks',
+      description: 'Get tasks for a project.',
+      inputSchema: {
+        project_id: z.number().optional().describe('Filter by project ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ project_id, page, limit }) => {
+      try {
+        const result = await listProjectTasks(project_id, { page, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} tasks (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(result.data, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_project_task',
+    {
+      title: 'Create Project Task',
+      description: 'Create a new task for a project.',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Task name'),
+        project_id: z.number().describe('Project ID'),
+        description: z.string().max(500).optional().describe('Description'),
+        due_on: z.string().optional().describe('Due date (YYYY-MM-DD)'),
+      },
+    },
+    async input => {
+      try {
+        const task = await createProjectTask(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Task created:\n\n${JSON.stringify(task, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_project_task',
+    {
+      title: 'Update Project Task',
+      description: 'Update a project task.',
+      inputSchema: {
+        id: z.number().describe('The task ID'),
+        name: z.string().min(1).max(100).optional().describe('Task name'),
+        description: z.string().max(500).optional().describe('Description'),
+        due_on: z.string().optional().describe('Due date (YYYY-MM-DD)'),
+        completed: z.boolean().optional().describe('Mark as completed'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const task = await updateProjectTask(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Task updated:\n\n${JSON.stringify(task, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_project_task',
+    {
+      title: 'Delete Project Task',
+      description: 'Delete a project task.',
+      inputSchema: {
+        id: z.number().describe('The task ID to delete'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        await deleteProjectTask(id);
+        return {
+          content: [{ type: 'text', text: `Task ${id} deleted successfully.` }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_project_workers',
+    {
+      title: 'List Project Workers',
+      description: 'Get workers assigned to projects.',
+      inputSchema: {
+        project_id: z.number().optional().describe('Filter by project ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ project_id, page, limit }) => {
+      try {
+        const result = await listProjectWorkers(project_id, { page, limit });
+
+        // Fetch enrichment data
+        const [projects, employees] = await Promise.all([listProjects(), listEmployees()]);
+        const projectMap = new Map(projects.data.map(p => [p.id, p.name]));
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+
+        const summary = result.data.map(w => ({
+          id: w.id,
+          project_id: w.project_id,
+          project_name: projectMap.get(w.project_id) || `Project ${w.project_id}`,
+          employee_id: w.employee_id,
+          employee_name: empMap.get(w.employee_id) || `Employee ${w.employee_id}`,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} project workers (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'assign_project_worker',
+    {
+      title: 'Assign Project Worker',
+      description: 'Assign an employee to a project.',
+      inputSchema: {
+        project_id: z.number().describe('Project ID'),
+        employee_id: z.number().describe('Employee ID'),
+      },
+    },
+    async input => {
+      try {
+        const worker = await assignProjectWorker(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Worker assigned:\n\n${JSON.stringify(worker, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'remove_project_worker',
+    {
+      title: 'Remove Project Worker',
+      description: 'Remove an employee from a project.',
+      inputSchema: {
+        id: z.number().describe('The project worker ID to remove'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        await removeProjectWorker(id);
+        return {
+          content: [{ type: 'text', text: `Project worker ${id} removed successfully.` }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_time_records',
+    {
+      title: 'List Time Records',
+      description: 'Get time records for project workers.',
+      inputSchema: {
+        project_worker_id: z.number().optional().describe('Filter by project worker ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ project_worker_id, page, limit }) => {
+      try {
+        const result = await listTimeRecords(project_worker_id, { page, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} time records (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(result.data, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_time_record',
+    {
+      title: 'Create Time Record',
+      description: 'Log time for a project worker.',
+      inputSchema: {
+        project_worker_id: z.number().describe('Project worker ID'),
+        date: z.string().describe('Date (YYYY-MM-DD)'),
+        minutes: z.number().min(1).max(1440).describe('Minutes worked'),
+        description: z.string().max(500).optional().describe('Description'),
+      },
+    },
+    async input => {
+      try {
+        const record = await createTimeRecord(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Time record created:\n\n${JSON.stringify(record, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_time_record',
+    {
+      title: 'Update Time Record',
+      description: 'Update a time record.',
+      inputSchema: {
+        id: z.number().describe('Time record ID'),
+        date: z.string().optional().describe('Date (YYYY-MM-DD)'),
+        minutes: z.number().min(1).max(1440).optional().describe('Minutes worked'),
+        description: z.string().max(500).optional().describe('Description'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const record = await updateTimeRecord(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Time record updated:\n\n${JSON.stringify(record, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_time_record',
+    {
+      title: 'Delete Time Record',
+      description: 'Delete a time record.',
+      inputSchema: {
+        id: z.number().describe('Time record ID to delete'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        await deleteTimeRecord(id);
+        return {
+          content: [{ type: 'text', text: `Time record ${id} deleted successfully.` }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================================
+  // Training Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_trainings',
+    {
+      title: 'List Trainings',
+      description: 'Get all training programs.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listTrainings({ page, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} trainings (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(result.data, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_training',
+    {
+      title: 'Get Training',
+      description: 'Get details about a training program.',
+      inputSchema: {
+        id: z.number().describe('The training ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const training = await getTraining(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(training, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_training',
+    {
+      title: 'Create Training',
+      description: 'Create a new training program.',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Training name'),
+        description: z.string().max(1000).optional().describe('Description'),
+        category_id: z.number().optional().describe('Category ID'),
+        subsidized: z.boolean().optional().describe('Is subsidized'),
+      },
+    },
+    async input => {
+      try {
+        const training = await createTraining(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Training created:\n\n${JSON.stringify(training, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_training',
+    {
+      title: 'Update Training',
+      description: 'Update a training program.',
+      inputSchema: {
+        id: z.number().describe('The training ID'),
+        name: z.string().min(1).max(100).optional().describe('Training name'),
+        description: z.string().max(1000).optional().describe('Description'),
+        category_id: z.number().optional().describe('Category ID'),
+        subsidized: z.boolean().optional().describe('Is subsidized'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const training = await updateTraining(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Training updated:\n\n${JSON.stringify(training, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_training',
+    {
+      title: 'Delete Training',
+      description:
+        'Delete a training program. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('The training ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_training',
+      async ({ id }) => {
+        const [training, enrollments] = await Promise.all([
+          getTraining(id),
+          listTrainingEnrollments(id),
+        ]);
+        return {
+          operation: 'delete',
+          entityType: 'training',
+          entityId: id,
+          entityName: training.name,
+          warnings:
+            enrollments.data.length > 0
+              ? [`${enrollments.data.length} enrollment(s) will be deleted with the training.`]
+              : [],
+        };
+      },
+      async ({ id }) => {
+        await deleteTraining(id);
+        return textResponse(`Training ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'list_training_sessions',
+    {
+      title: 'List Training Sessions',
+      description: 'Get sessions for a training program.',
+      inputSchema: {
+        training_id: z.number().optional().describe('Filter by training ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ training_id, page, limit }) => {
+      try {
+        const result = await listTrainingSessions(training_id, { page, limit });
+
+        // Fetch training names for enrichment
+        const trainings = await listTrainings();
+        const trainingMap = new Map(trainings.data.map(t => [t.id, t.name]));
+
+        const summary = result.data.map(s => ({
+          id: s.id,
+          training_id: s.training_id,
+          training_name: trainingMap.get(s.training_id) || `Training ${s.training_id}`,
+          name: s.name,
+          start_date: s.start_date,
+          end_date: s.end_date,
+          location: s.location,
+          max_attendees: s.max_attendees,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} sessions (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_training_session',
+    {
+      title: 'Create Training Session',
+      description: 'Create a session for a training program.',
+      inputSchema: {
+        training_id: z.number().describe('Training ID'),
+        name: z.string().max(100).optional().describe('Session name'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        end_date: z.string().optional().describe('End date (YYYY-MM-DD)'),
+        location: z.string().max(200).optional().describe('Location'),
+        max_attendees: z.number().optional().describe('Max attendees'),
+      },
+    },
+    async input => {
+      try {
+        const session = await createTrainingSession(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Session created:\n\n${JSON.stringify(session, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_training_session',
+    {
+      title: 'Update Training Session',
+      description: 'Update a training session.',
+      inputSchema: {
+        id: z.number().describe('Session ID'),
+        name: z.string().max(100).optional().describe('Session name'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        end_date: z.string().optional().describe('End date (YYYY-MM-DD)'),
+        location: z.string().max(200).optional().describe('Location'),
+        max_attendees: z.number().optional().describe('Max attendees'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const session = await updateTrainingSession(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Session updated:\n\n${JSON.stringify(session, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_training_session',
+    {
+      title: 'Delete Training Session',
+      description: 'Delete a training session.',
+      inputSchema: {
+        id: z.number().describe('Session ID to delete'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        await deleteTrainingSession(id);
+        return {
+          content: [{ type: 'text', text: `Session ${id} deleted successfully.` }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_training_enrollments',
+    {
+      title: 'List Training Enrollments',
+      description: 'Get enrollments for a training program.',
+      inputSchema: {
+        training_id: z.number().optional().describe('Filter by training ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ training_id, page, limit }) => {
+      try {
+        const result = await listTrainingEnrollments(training_id, { page, limit });
+
+        // Fetch enrichment data
+        const [trainings, employees] = await Promise.all([listTrainings(), listEmployees()]);
+        const trainingMap = new Map(trainings.data.map(t => [t.id, t.name]));
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+
+        const summary = result.data.map(e => ({
+          id: e.id,
+          training_id: e.training_id,
+          training_name: trainingMap.get(e.training_id) || `Training ${e.training_id}`,
+          employee_id: e.employee_id,
+          employee_name: empMap.get(e.employee_id) || `Employee ${e.employee_id}`,
+          session_id: e.session_id,
+          status: e.status,
+          enrolled_at: e.enrolled_at,
+          completed_at: e.completed_at,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} enrollments (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'enroll_in_training',
+    {
+      title: 'Enroll in Training',
+      description: 'Enroll an employee in a training program.',
+      inputSchema: {
+        training_id: z.number().describe('Training ID'),
+        employee_id: z.number().describe('Employee ID'),
+        session_id: z.number().optional().describe('Session ID'),
+      },
+    },
+    async input => {
+      try {
+        const enrollment = await enrollInTraining(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Enrolled:\n\n${JSON.stringify(enrollment, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'unenroll_from_training',
+    {
+      title: 'Unenroll from Training',
+      description: 'Remove an enrollment from a training.',
+      inputSchema: {
+        id: z.number().describe('Enrollment ID to remove'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        await unenrollFromTraining(id);
+        return {
+          content: [{ type: 'text', text: `Enrollment ${id} removed successfully.` }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================================
+  // Work Area Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_work_areas',
+    {
+      title: 'List Work Areas',
+      description: 'Get all work areas within locations.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listWorkAreas({ page, limit });
+
+        // Fetch location names for enrichment (cached)
+        const locations = await listLocations();
+        const locMap = new Map(locations.data.map(l => [l.id, l.name]));
+
+        const summary = result.data.map(w => ({
+          id: w.id,
+          name: w.name,
+          description: w.description,
+          location_id: w.location_id,
+          location_name: w.location_id
+            ? locMap.get(w.location_id) || `Location ${w.location_id}`
+            : null,
+          archived: w.archived,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} work areas (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_work_area',
+    {
+      title: 'Get Work Area',
+      description: 'Get details about a work area.',
+      inputSchema: {
+        id: z.number().describe('The work area ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const workArea = await getWorkArea(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(workArea, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_work_area',
+    {
+      title: 'Create Work Area',
+      description: 'Create a new work area within a location.',
+      inputSchema: {
+        name: z.string().min(1).max(100).describe('Work area name'),
+        description: z.string().max(500).optional().describe('Description'),
+        location_id: z.number().optional().describe('Location ID'),
+      },
+    },
+    async input => {
+      try {
+        const workArea = await createWorkArea(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Work area created:\n\n${JSON.stringify(workArea, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_work_area',
+    {
+      title: 'Update Work Area',
+      description: 'Update a work area.',
+      inputSchema: {
+        id: z.number().describe('Work area ID'),
+        name: z.string().min(1).max(100).optional().describe('Work area name'),
+        description: z.string().max(500).optional().describe('Description'),
+        location_id: z.number().optional().describe('Location ID'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const workArea = await updateWorkArea(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Work area updated:\n\n${JSON.stringify(workArea, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'archive_work_area',
+    {
+      title: 'Archive Work Area',
+      description: 'Archive a work area.',
+      inputSchema: {
+        id: z.number().describe('Work area ID to archive'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const workArea = await archiveWorkArea(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Work area archived:\n\n${JSON.stringify(workArea, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'unarchive_work_area',
+    {
+      title: 'Unarchive Work Area',
+      description: 'Unarchive a work area.',
+      inputSchema: {
+        id: z.number().describe('Work area ID to unarchive'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const workArea = await unarchiveWorkArea(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Work area unarchived:\n\n${JSON.stringify(workArea, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================================
+  // ATS (Recruiting) Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_job_postings',
+    {
+      title: 'List Job Postings',
+      description: 'Get all job postings for recruiting.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listJobPostings({ page, limit });
+
+        // Fetch enrichment data (cached)
+        const [teams, locations] = await Promise.all([listTeams(), listLocations()]);
+        const teamMap = new Map(teams.data.map(t => [t.id, t.name]));
+        const locMap = new Map(locations.data.map(l => [l.id, l.name]));
+
+        const summary = result.data.map(j => ({
+          id: j.id,
+          title: j.title,
+          department: j.department,
+          team_id: j.team_id,
+          team_name: j.team_id ? teamMap.get(j.team_id) || `Team ${j.team_id}` : null,
+          location_id: j.location_id,
+          location_name: j.location_id
+            ? locMap.get(j.location_id) || `Location ${j.location_id}`
+            : null,
+          status: j.status,
+          employment_type: j.employment_type,
+          remote_status: j.remote_status,
+          published_at: j.published_at,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} job postings (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_job_posting',
+    {
+      title: 'Get Job Posting',
+      description: 'Get details about a job posting.',
+      inputSchema: {
+        id: z.number().describe('The job posting ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const posting = await getJobPosting(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(posting, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_job_posting',
+    {
+      title: 'Create Job Posting',
+      description: 'Create a new job posting.',
+      inputSchema: {
+        title: z.string().min(1).max(200).describe('Job title'),
+        description: z.string().max(5000).optional().describe('Job description'),
+        department: z.string().max(100).optional().describe('Department'),
+        location_id: z.number().optional().describe('Location ID'),
+        team_id: z.number().optional().describe('Team ID'),
+        employment_type: z.string().max(50).optional().describe('Employment type'),
+        remote_status: z.string().max(50).optional().describe('Remote status'),
+      },
+    },
+    async input => {
+      try {
+        const posting = await createJobPosting(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Job posting created:\n\n${JSON.stringify(posting, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_job_posting',
+    {
+      title: 'Update Job Posting',
+      description: 'Update a job posting.',
+      inputSchema: {
+        id: z.number().describe('Job posting ID'),
+        title: z.string().min(1).max(200).optional().describe('Job title'),
+        description: z.string().max(5000).optional().describe('Job description'),
+        department: z.string().max(100).optional().describe('Department'),
+        location_id: z.number().optional().describe('Location ID'),
+        team_id: z.number().optional().describe('Team ID'),
+        status: z.enum(['draft', 'published', 'closed', 'archived']).optional().describe('Status'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const posting = await updateJobPosting(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Job posting updated:\n\n${JSON.stringify(posting, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_job_posting',
+    {
+      title: 'Delete Job Posting',
+      description:
+        'Delete a job posting. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('Job posting ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_job_posting',
+      async ({ id }) => {
+        const [posting, applications] = await Promise.all([
+          getJobPosting(id),
+          listApplications(id),
+        ]);
+        const warnings: string[] = [];
+        if (applications.data.length > 0) {
+          warnings.push(
+            `${applications.data.length} application(s) will be deleted with the posting.`
+          );
+        }
+        if (posting.status === 'published') {
+          warnings.push('This posting is currently published.');
+        }
+        return {
+          operation: 'delete',
+          entityType: 'job_posting',
+          entityId: id,
+          entityName: posting.title,
+          warnings,
+        };
+      },
+      async ({ id }) => {
+        await deleteJobPosting(id);
+        return textResponse(`Job posting ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'list_candidates',
+    {
+      title: 'List Candidates',
+      description: 'Get all candidates.',
+      inputSchema: {
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ page, limit }) => {
+      try {
+        const result = await listCandidates({ page, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} candidates (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(result.data, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_candidate',
+    {
+      title: 'Get Candidate',
+      description: 'Get details about a candidate.',
+      inputSchema: {
+        id: z.number().describe('The candidate ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const candidate = await getCandidate(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(candidate, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_candidate',
+    {
+      title: 'Create Candidate',
+      description: 'Create a new candidate.',
+      inputSchema: {
+        first_name: z.string().min(1).max(100).describe('First name'),
+        last_name: z.string().min(1).max(100).describe('Last name'),
+        email: z.string().email().optional().describe('Email'),
+        phone: z.string().max(30).optional().describe('Phone'),
+        source: z.string().max(100).optional().describe('Source'),
+        linkedin_url: z.string().optional().describe('LinkedIn URL'),
+      },
+    },
+    async input => {
+      try {
+        const candidate = await createCandidate(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Candidate created:\n\n${JSON.stringify(candidate, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_candidate',
+    {
+      title: 'Update Candidate',
+      description: 'Update a candidate.',
+      inputSchema: {
+        id: z.number().describe('Candidate ID'),
+        first_name: z.string().min(1).max(100).optional().describe('First name'),
+        last_name: z.string().min(1).max(100).optional().describe('Last name'),
+        email: z.string().email().optional().describe('Email'),
+        phone: z.string().max(30).optional().describe('Phone'),
+        source: z.string().max(100).optional().describe('Source'),
+        linkedin_url: z.string().optional().describe('LinkedIn URL'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        const candidate = await updateCandidate(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Candidate updated:\n\n${JSON.stringify(candidate, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_candidate',
+    {
+      title: 'Delete Candidate',
+      description: 'Delete a candidate. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('Candidate ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_candidate',
+      async ({ id }) => {
+        const candidate = await getCandidate(id);
+        return {
+          operation: 'delete',
+          entityType: 'candidate',
+          entityId: id,
+          entityName:
+            candidate.full_name ??
+            ([candidate.first_name, candidate.last_name].filter(Boolean).join(' ') || undefined),
+          warnings: [],
+        };
+      },
+      async ({ id }) => {
+        await deleteCandidate(id);
+        return textResponse(`Candidate ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'find_duplicate_candidates',
+    {
+      title: 'Find Duplicate Candidates',
+      description:
+        'Find candidates that are likely the same person, matched on normalized email, phone, LinkedIn profile and fuzzy names. Returns clusters with a confidence score (0-1), the matching signals and a suggested survivor for merge_candidates. A matching name alone scores below the default minimum confidence of 0.7.',
+      inputSchema: {
+        candidate_id: z
+          .number()
+          .optional()
+          .describe('Only return clusters containing this candidate'),
+        min_confidence: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe('Minimum confidence of a match (default: 0.7)'),
+      },
+    },
+    wrapToolHandler(async ({ candidate_id, min_confidence }) => {
+      const clusters = await findDuplicateCandidates({ candidate_id, min_confidence });
+      if (clusters.length === 0) {
+        return textResponse('No duplicate candidates found.');
+      }
+      return textResponse(
+        `Found ${clusters.length} cluster(s) of duplicate candidates:\n\n${JSON.stringify(clusters, redactSensitiveFields, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'merge_candidates',
+    {
+      title: 'Merge Candidates',
+      description:
+        "Merge duplicate candidates into a surviving candidate: fill in the survivor's empty fields from the duplicates, move their applications onto the survivor (recreated with their notes, stage, rating and rejection) and delete the duplicates. A duplicate is only deleted once all its applications were moved. This is a HIGH-RISK operation that requires confirmation.",
+      inputSchema: {
+        survivor_id: z.number().describe('Candidate ID to keep'),
+        duplicate_ids: z
+          .array(z.number())
+          .min(1)
+          .describe('Candidate IDs to merge into the survivor and delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'merge_candidates',
+      async ({ survivor_id, duplicate_ids }) => {
+        const plan = await planMerge(survivor_id, duplicate_ids);
+        return {
+          operation: 'delete',
+          entityType: 'candidate',
+          entityName: `${plan.duplicates.length} duplicate(s) of candidate ${survivor_id}`,
+          changes: Object.fromEntries(
+            Object.entries(plan.fills).map(([field, value]) => [
+              field,
+              { from: plan.survivor[field as keyof typeof plan.fills], to: value },
+            ])
+          ),
+          steps: plan.steps.map(step => step.description),
+          warnings: plan.warnings,
+          previewed: plan,
+        };
+      },
+      async ({ survivor_id, duplicate_ids }, previewed) => {
+        const result = await runMerge(
+          (previewed as MergePlan | undefined) ?? (await planMerge(survivor_id, duplicate_ids))
+        );
+        const report = JSON.stringify(result, redactSensitiveFields, 2);
+        const summary = `Merged ${result.deleted_candidate_ids.length} of ${result.steps.filter(step => step.kind === 'delete_candidate').length} duplicate(s) into candidate ${survivor_id}.`;
+        return result.status === 'completed'
+          ? textResponse(`${summary}\n\n${report}`)
+          : {
+              ...textResponse(
+                `${summary} Not every step succeeded; duplicates with unmoved applications were kept. Run merge_candidates again to retry.\n\n${report}`
+              ),
+              isError: true,
+            };
+      }
+    )
+  );
+
+  server.registerTool(
+    'list_applications',
+    {
+      title: 'List Applications',
+      description: 'Get job applications.',
+      inputSchema: {
+        job_posting_id: z.number().optional().describe('Filter by job posting ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ job_posting_id, page, limit }) => {
+      try {
+        const result = await listApplications(job_posting_id, { page, limit });
+
+        // Fetch enrichment data
+        const [jobPostings, candidates, hiringStages] = await Promise.all([
+          listJobPostings(),
+          listCandidates(),
+          listHiringStages(),
+        ]);
+        const jobMap = new Map(jobPostings.data.map(j => [j.id, j.title]));
+        const candidateMap = new Map(
+          candidates.data.map(c => [
+            c.id,
+            `${c.first_name || ''} ${c.last_name || ''}`.trim() || `Candidate ${c.id}`,
+          ])
+        );
+        const stageMap = new Map(hiringStages.map(s => [s.id, s.name]));
+
+        const summary = result.data.map(a => ({
+          id: a.id,
+          job_posting_id: a.job_posting_id,
+          job_title: jobMap.get(a.job_posting_id) || `Posting ${a.job_posting_id}`,
+          candidate_id: a.candidate_id,
+          candidate_name: candidateMap.get(a.candidate_id) || `Candidate ${a.candidate_id}`,
+          hiring_stage_id: a.hiring_stage_id,
+          hiring_stage_name: a.hiring_stage_id
+            ? stageMap.get(a.hiring_stage_id) || `Stage ${a.hiring_stage_id}`
+            : null,
+          status: a.status,
+          applied_at: a.applied_at,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} applications (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_application',
+    {
+      title: 'Get Application',
+      description: 'Get details about an application.',
+      inputSchema: {
+        id: z.number().describe('The application ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const application = await getApplication(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(application, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'create_application',
+    {
+      title: 'Create Application',
+      description: 'Create a job application for a candidate.',
+      inputSchema: {
+        job_posting_id: z.number().describe('Job posting ID'),
+        candidate_id: z.number().describe('Candidate ID'),
+        notes: z.string().max(2000).optional().describe('Notes'),
+      },
+    },
+    async input => {
+      try {
+        const application = await createApplication(input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Application created:\n\n${JSON.stringify(application, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'update_application',
+    {
+      title: 'Update Application',
+      description: 'Update a job application.',
+      inputSchema: {
+        id: z.number().describe('Application ID'),
+        hiring_stage_id: z.number().optional().describe('Hiring stage ID'),
+        rating: z.number().min(0).max(5).optional().describe('Rating (0-5)'),
+        notes: z.string().max(2000).optional().describe('Notes'),
+      },
+    },
+    async ({ id, ...input }) => {
+      try {
+        if (input.hiring_stage_id !== undefined) {
+          const current = await getApplication(id);
+          await resolveHiringStage(
+            await getJobPosting(current.job_posting_id),
+            input.hiring_stage_id
+          );
+        }
+        const application = await updateApplication(id, input);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Application updated:\n\n${JSON.stringify(application, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'delete_application',
+    {
+      title: 'Delete Application',
+      description:
+        'Delete a job application. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        id: z.number().describe('Application ID to delete'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'delete_application',
+      async ({ id }) => {
+        const application = await getApplication(id);
+        const [candidate, posting] = await Promise.all([
+          getCandidate(application.candidate_id).catch(() => null),
+          getJobPosting(application.job_posting_id).catch(() => null),
+        ]);
+        return {
+          operation: 'delete',
+          entityType: 'application',
+          entityId: id,
+          entityName: `${candidate?.full_name ?? `Candidate ${application.candidate_id}`} for ${posting?.title ?? `Job posting ${application.job_posting_id}`}`,
+          warnings: application.hired_at ? ['This application is marked as hired.'] : [],
+        };
+      },
+      async ({ id }) => {
+        await deleteApplication(id);
+        return textResponse(`Application ${id} deleted successfully.`);
+      }
+    )
+  );
+
+  server.registerTool(
+    'advance_application',
+    {
+      title: 'Advance Application',
+      description: 'Move an application to the next hiring stage.',
+      inputSchema: {
+        id: z.number().describe('Application ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const application = await advanceApplication(id);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Application advanced:\n\n${JSON.stringify(application, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'move_application_to_stage',
+    {
+      title: 'Move Application to Stage',
+      description:
+        'Move an application to any hiring stage, given by name (e.g. "Interview") or ID. The stage must belong to the job posting\'s pipeline. Stage changes are recorded in the audit log; see get_application_stage_history.',
+      inputSchema: {
+        id: z.number().describe('Application ID'),
+        stage: z.union([z.number(), z.string().min(1)]).describe('Hiring stage ID or name'),
+      },
+    },
+    wrapToolHandler(async ({ id, stage }) => {
+      const move = await planStageMove(id, stage);
+      const application = await moveApplicationToStage(move);
+      const from = move.from ? ` from ${move.from.label ?? move.from.name}` : '';
+      const warnings = move.warnings.map(warning => `\n- ${warning}`).join('');
+      return textResponse(
+        `Application ${id} moved${from} to ${move.to.label ?? move.to.name}.${warnings ? `\n\nWarnings:${warnings}` : ''}\n\n${JSON.stringify(application, redactSensitiveFields, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'reject_applications',
+    {
+      title: 'Reject Applications',
+      description:
+        'Reject several applications at once with a reason, e.g. after an interview round. Already rejected, hired and unknown applications are skipped. Each application counts towards the batch limit of the operation policy. This operation requires confirmation.',
+      inputSchema: {
+        application_ids: z.array(z.number()).min(1).describe('Application IDs to reject'),
+        reason: z
+          .string()
+          .min(1)
+          .max(500)
+          .describe('Rejection reason, recorded on each application'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'reject_applications',
+      async ({ application_ids, reason }) => {
+        const { targets, skipped } = await planRejections(application_ids);
+        if (targets.length === 0) {
+          throw new Error(
+            `None of the applications can be rejected:\n${skipped.map(s => `- ${s.application_id}: ${s.reason}`).join('\n')}`
+          );
+        }
+        return {
+          operation: 'reject',
+          entityType: 'application',
+          entityName: `${targets.length} application(s)`,
+          changes: { reason: { to: reason } },
+          steps: targets.map(
+            ({ application, name }) => `Reject ${name} (application ${application.id})`
+          ),
+          warnings: skipped.map(s => `Application ${s.application_id} is skipped: ${s.reason}.`),
+          previewed: { targets, skipped },
+        };
+      },
+      async ({ application_ids, reason }, previewed) => {
+        const plan =
+          (previewed as RejectionPlan | undefined) ?? (await planRejections(application_ids));
+        const results = await rejectApplications(plan, reason);
+        const rejected = results.filter(result => result.status === 'rejected').length;
+        const report = JSON.stringify({ results, skipped: plan.skipped }, null, 2);
+        const summary = `Rejected ${rejected} of ${results.length} application(s)${plan.skipped.length > 0 ? `, skipped ${plan.skipped.length}` : ''}.`;
+        return rejected === results.length
+          ? textResponse(`${summary}\n\n${report}`)
+          : { ...textResponse(`${summary} Retry the failed ones.\n\n${report}`), isError: true };
+      }
+    )
+  );
+
+  server.registerTool(
+    'get_application_stage_history',
+    {
+      title: 'Get Application Stage History',
+      description:
+        'Get the hiring stage changes and rejections of an application, oldest first, from the audit log.',
+      inputSchema: {
+        id: z.number().describe('Application ID'),
+      },
+    },
+    wrapToolHandler(async ({ id }) => {
+      const events = await getStageHistory(id);
+      if (events.length === 0) {
+        return textResponse(
+          `No stage changes recorded for application ${id}. Only changes made through this server are recorded, and only the recent ones unless FACTORIAL_AUDIT_LOG_PATH is set.`
+        );
+      }
+      return textResponse(
+        `Stage history of application ${id} (${events.length} events):\n\n${JSON.stringify(events, null, 2)}`
+      );
+    })
+  );
+
+  server.registerTool(
+    'hire_candidate',
+    {
+      title: 'Hire Candidate',
+      description:
+        "Hire the candidate of an application: create an employee from the candidate's name, email and phone and the job posting's team, location and title, move the application to the hired stage with its hire date, and close the posting once its headcount is filled. To finish a hire that stopped after creating the employee, pass that employee as employee_id. The first call returns a preview. The hire is recorded in the audit log as a HIRE entry linking the candidate to the employee.",
+      inputSchema: {
+        application_id: z.number().describe('Application ID'),
+        hired_on: z.string().optional().describe('Hire date (YYYY-MM-DD)'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        manager_id: z.number().optional().describe('Manager employee ID'),
+        role: z
+          .string()
+          .max(100)
+          .optional()
+          .describe('Job role/title (defaults to the job posting title)'),
+        team_id: z.number().optional().describe('Team ID (defaults to the job posting team)'),
+        location_id: z
+          .number()
+          .optional()
+          .describe('Location ID (defaults to the job posting location)'),
+        hired_stage_id: z
+          .number()
+          .optional()
+          .describe('Hiring stage for hired applications (defaults to the stage named "Hired")'),
+        headcount: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Number of hires for the posting; it is closed once they are all hired'),
+        employee_id: z
+          .number()
+          .optional()
+          .describe(
+            'Employee already created for the candidate (e.g. by a hire that stopped) to link instead of creating one'
+          ),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'hire_candidate',
+      async ({ application_id, ...options }) => {
+        const plan = await planHire(application_id, options);
+        return {
+          operation: plan.existing_employee ? 'update' : 'create',
+          entityType: 'employee',
+          entityId: plan.existing_employee?.id,
+          entityName: plan.candidate.full_name ?? `Candidate ${plan.candidate.id}`,
+          changes: plan.existing_employee
+            ? {}
+            : Object.fromEntries(
+                Object.entries(plan.employee).map(([field, value]) => [field, { to: value }])
+              ),
+          steps: plan.steps.map(step => step.description),
+          warnings: plan.warnings,
+          previewed: plan,
+        };
+      },
+      async ({ application_id, confirmation_token: _token, ...options }, previewed) => {
+        const result = await runHire(
+          (previewed as HirePlan | undefined) ?? (await planHire(application_id, options))
+        );
+        const report = JSON.stringify(result, redactSensitiveFields, 2);
+
+        if (result.status === 'completed') {
+          return textResponse(
+            `Candidate ${result.candidate_id} hired${result.employee_id !== undefined ? ` as employee ${result.employee_id}` : ''}.\n\n${report}`
+          );
+        }
+        const marked = result.steps.some(
+          step => step.kind === 'mark_hired' && step.status === 'done'
+        );
+        const summary =
+          result.status === 'failed'
+            ? 'The employee could not be created, so the application was not changed.'
+            : marked
+              ? `Candidate hired as employee ${result.employee_id}, but the job posting could not be closed. Close it with update_job_posting.`
+              : `Employee ${result.employee_id} is ready, but the application could not be marked hired. Call hire_candidate again with employee_id: ${result.employee_id} to finish the hire.`;
+        return { ...textResponse(`${summary}\n\n${report}`), isError: true };
+      }
+    )
+  );
+
+  server.registerTool(
+    'list_hiring_stages',
+    {
+      title: 'List Hiring Stages',
+      description: 'Get all hiring stages for the recruiting workflow.',
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const stages = await listHiringStages();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${stages.length} hiring stages:\n\n${JSON.stringify(stages, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'ats_pipeline_report',
+    {
+      title: 'ATS Pipeline Report',
+      description:
+        'Recruiting funnel report: applications per hiring stage, conversion between stages, days in stage, time to hire and rejection rate, broken down by candidate source and compared across job postings. Read-only.',
+      inputSchema: {
+        job_posting_ids: z
+          .array(z.number())
+          .optional()
+          .describe('Job postings to include (default: all)'),
+        posting_status: z
+          .enum(['draft', 'published', 'closed', 'archived'])
+          .optional()
+          .describe('Only include job postings with this status'),
+        applied_from: z
+          .string()
+          .optional()
+          .describe('Only applications received on or after this date (YYYY-MM-DD)'),
+        applied_to: z
+          .string()
+          .optional()
+          .describe('Only applications received on or before this date (YYYY-MM-DD)'),
+      },
+    },
+    wrapToolHandler(async options => {
+      const report = await buildPipelineReport(options);
+      return textResponse(
+        `Pipeline report for ${report.postings.length} job posting(s), ${report.total.applications} application(s):\n\n${JSON.stringify(report, null, 2)}`
+      );
+    })
+  );
+
+  // ============================================================================
+  // Payroll Tools (Read-Only)
+  // ============================================================================
+
+  server.registerTool(
+    'list_payroll_supplements',
+    {
+      title: 'List Payroll Supplements',
+      description: 'Get payroll supplements (bonuses, allowances, etc.). Read-only.',
+      inputSchema: {
+        employee_id: z.number().optional().describe('Filter by employee ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ employee_id, page, limit }) => {
+      try {
+        const result = await listPayrollSupplements(employee_id, { page, limit });
+
+        // Fetch employee names for enrichment (cached)
+        const employees = await listEmployees();
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+
+        const summary = result.data.map(s => ({
+          ...s,
+          employee_name: empMap.get(s.employee_id) || `Employee ${s.employee_id}`,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} supplements (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_payroll_supplement',
+    {
+      title: 'Get Payroll Supplement',
+      description: 'Get details about a payroll supplement. Read-only.',
+      inputSchema: {
+        id: z.number().describe('The supplement ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const supplement = await getPayrollSupplement(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(supplement, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_tax_identifiers',
+    {
+      title: 'List Tax Identifiers',
+      description: 'Get employee tax identifiers. Read-only.',
+      inputSchema: {
+        employee_id: z.number().optional().describe('Filter by employee ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ employee_id, page, limit }) => {
+      try {
+        const result = await listTaxIdentifiers(employee_id, { page, limit });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} tax identifiers (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(result.data, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_tax_identifier',
+    {
+      title: 'Get Tax Identifier',
+      description: 'Get details about a tax identifier. Read-only.',
+      inputSchema: {
+        id: z.number().describe('The tax identifier ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const identifier = await getTaxIdentifier(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(identifier, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'list_family_situations',
+    {
+      title: 'List Family Situations',
+      description: 'Get employee family situations. Read-only.',
+      inputSchema: {
+        employee_id: z.number().optional().describe('Filter by employee ID'),
+        page: z.number().optional().default(1).describe('Page number'),
+        limit: z.number().optional().default(100).describe('Items per page'),
+      },
+    },
+    async ({ employee_id, page, limit }) => {
+      try {
+        const result = await listFamilySituations(employee_id, { page, limit });
+
+        // Fetch employee names for enrichment (cached)
+        const employees = await listEmployees();
+        const empMap = new Map(employees.data.map(e => [e.id, e.full_name]));
+
+        const summary = result.data.map(s => ({
+          ...s,
+          employee_name: empMap.get(s.employee_id) || `Employee ${s.employee_id}`,
+        }));
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Found ${result.data.length} family situations (${formatPaginationInfo(result.meta)}):\n\n${JSON.stringify(summary, redactSensitiveFields, 2)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_family_situation',
+    {
+      title: 'Get Family Situation',
+      description: 'Get details about an employee family situation. Read-only.',
+      inputSchema: {
+        id: z.number().describe('The family situation ID'),
+      },
+    },
+    async ({ id }) => {
+      try {
+        const situation = await getFamilySituation(id);
+        return {
+          content: [{ type: 'text', text: JSON.stringify(situation, redactSensitiveFields, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ============================================================================
+  // Company Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_companies',
+    {
+      title: 'List Companies',
+      description:
+        'List the Factorial company accounts this server can access (from the company profiles file) and which one is active.',
+      inputSchema: {},
+    },
+    wrapToolHandler(() => {
+      const active = getActiveCompany();
+      const companies = listCompanyProfiles().map(profile => ({
+        name: profile.name,
+        base_url: profile.baseUrl ?? null,
+        api_version: profile.apiVersion ?? null,
+        active: profile.name === active,
+      }));
+      if (companies.length === 0) {
+        return Promise.resolve(
+          textResponse(
+            'No company profiles are configured; all requests use FACTORIAL_API_KEY. Set FACTORIAL_PROFILES_PATH to use several companies.'
+          )
+        );
+      }
+      return Promise.resolve(
+        textResponse(
+          `Found ${companies.length} companies (active: ${active}):\n\n${JSON.stringify(companies, redactSensitiveFields, 2)}`
+        )
+      );
+    })
+  );
+
+  server.registerTool(
+    'select_company',
+    {
+      title: 'Select Company',
+      description:
+        'Switch the Factorial company account that all following tool calls in this session use. Cached data and audit entries are kept separate per company.',
+      inputSchema: {
+        company: z.string().describe('Company profile name (see list_companies)'),
+      },
+    },
+    wrapToolHandler(({ company }) => {
+      const profile = getCompanyProfile(company);
+      selectCompany(profile.name);
+      return Promise.resolve(
+        textResponse(`Selected company "${profile.name}". Following requests use its account.`)
+      );
+    })
+  );
+
+  // ============================================================================
+  // Audit Log Tools
+  // ============================================================================
+
+  server.registerTool(
+    'list_audit_entries',
+    {
+      title: 'List Audit Entries',
+      description:
+        'Query the audit log of write operations (who created, updated, approved, terminated or deleted what, and when). Most recent first.',
+      inputSchema: {
+        action: z.nativeEnum(AuditAction).optional().describe('Filter by action (e.g., APPROVE)'),
+        entity_type: z
+          .string()
+          .optional()
+          .describe('Filter by entity type (e.g., employee, leave, team)'),
+        entity_id: z.number().optional().describe('Filter by entity ID'),
+        success: z.boolean().optional().describe('Filter by outcome'),
+        since: z.string().optional().describe('Only entries at or after this date/time (ISO 8601)'),
+        until: z
+          .string()
+          .optional()
+          .describe('Only entries at or before this date/time (ISO 8601)'),
+        limit: z
+          .number()
+          .optional()
+          .default(50)
+          .describe('Maximum entries to return (default: 50)'),
+      },
+    },
+    wrapToolHandler(({ action, entity_type, entity_id, success, since, until, limit }) => {
+      const entries = auditLogger.query({
+        action,
+        entityType: entity_type,
+        entityId: entity_id,
+        success,
+        since,
+        until,
+        limit,
+      });
+      return Promise.resolve(textResponse(formatAuditEntries(entries, 'Audit entries')));
+    })
+  );
+
+  server.registerTool(
+    'get_entity_history',
+    {
+      title: 'Get Entity History',
+      description:
+        'Get the full audit history of a single record (e.g., every change to leave 42), oldest first.',
+      inputSchema: {
+        entity_type: z.string().describe('Entity type (e.g., employee, leave, team)'),
+        entity_id: z.number().describe('Entity ID'),
+      },
+    },
+    wrapToolHandler(({ entity_type, entity_id }) => {
+      const entries = auditLogger.query({ entityType: entity_type, entityId: entity_id }).reverse();
+      return Promise.resolve(
+        textResponse(formatAuditEntries(entries, `History of ${entity_type} #${entity_id}`))
+      );
+    })
+  );
+
+  server.registerTool(
+    'verify_audit_log',
+    {
+      title: 'Verify Audit Log',
+      description:
+        'Verify the hash chain of the persistent audit log to detect modified, removed or reordered entries.',
+      inputSchema: {},
+    },
+    wrapToolHandler(() => {
+      const result = auditLogger.verify();
+      if (!result) {
+        return Promise.resolve(
+          textResponse(
+            'No persistent audit log is configured. Set FACTORIAL_AUDIT_LOG_PATH to enable it.'
+          )
+        );
+      }
+      return Promise.resolve(
+        textResponse(
+          result.valid
+            ? `Audit log is intact (${result.entries} entries verified).`
+            : `Audit log integrity check FAILED at entry ${result.brokenAtId}: ${result.reason}`
+        )
+      );
+    })
+  );
+
+  server.registerTool(
+    'revert_operation',
+    {
+      title: 'Revert Operation',
+      description:
+        'Undo an audited write: restore an updated record to its previous values, or recreate a deleted team, location, project or project task from its snapshot. Use list_audit_entries or get_entity_history to find the entry ID. This is a HIGH-RISK operation that requires confirmation.',
+      inputSchema: {
+        audit_entry_id: z.string().describe('ID of the audit entry to revert'),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe('Token from the preview returned by the first call. Omit it to get a preview.'),
+      },
+    },
+    wrapHighRiskToolHandler(
+      'revert_operation',
+      async ({ audit_entry_id }) => {
+        const plan = planRevertById(audit_entry_id);
+        const before = plan.entry.before ?? {};
+        const entityName = [before.name, before.full_name, before.title].find(
+          (value): value is string => typeof value === 'string'
+        );
+
+        if (plan.kind === 'recreate') {
+          return {
+            operation: 'create',
+            entityType: plan.entityType,
+            entityName,
+            changes: Object.fromEntries(
+              Object.entries(plan.values).map(([field, value]) => [field, { to: value }])
+            ),
+            warnings: [
+              `The ${plan.entityType} will be recreated with a new ID; references to ID ${plan.entityId} are not updated.`,
+            ],
+          };
+        }
+
+        const current = await fetchCurrentState(plan);
+        const conflicts = findConflictingFields(plan, current);
+        return {
+          operation: 'update',
+          entityType: plan.entityType,
+          entityId: plan.entityId,
+          entityName,
+          changes: Object.fromEntries(
+            Object.entries(plan.values).map(([field, value]) => [
+              field,
+              { from: current[field], to: value },
+            ])
+          ),
+          warnings: conflicts.map(
+            field =>
+              `"${field}" was changed again after this operation; reverting overwrites the newer value.`
+          ),
+        };
+      },
+      async ({ audit_entry_id }) => {
+        const plan = planRevertById(audit_entry_id);
+        const result = await executeRevert(plan);
+        const message =
+          plan.kind === 'recreate'
+            ? `Recreated ${plan.entityType} ${plan.entityId} from audit entry ${audit_entry_id}.`
+            : `Restored ${plan.entityType} ${plan.entityId} to its values before audit entry ${audit_entry_id}.`;
+        return textResponse(`${message}\n\n${JSON.stringify(result, redactSensitiveFields, 2)}`);
+      }
+    )
+  );
+
+  // ============================================================================
+  // Sensitive Data Tools
+  // ============================================================================
+
+  server.registerTool(
+    'reveal_sensitive_fields',
+    {
+      title: 'Reveal Sensitive Fields',
+      description:
+        'Show the real values of fields that are masked, hashed or removed in other tool output (e.g., social_security_number, bank_number). Only profiles with the reveal permission can use it, and every reveal is recorded in the audit log with its reason.',
+      inputSchema: {
+        entity_type: z.enum(['employee', 'tax_identifier']).describe('Type of the record'),
+        id: z.number().describe('ID of the record'),
+        fields: z.array(z.string()).min(1).describe('Field names to reveal'),
+        reason: z.string().min(1).describe('Why the values are needed (recorded in the audit log)'),
+      },
+    },
+    wrapToolHandler(async ({ entity_type, id, fields, reason }) => {
+      const revealed = await revealSensitiveFields(entity_type, id, fields, reason);
+      return textResponse(
+        `Revealed ${fields.length} field${fields.length === 1 ? '' : 's'} of ${entity_type} ${id} (logged in the audit log):\n\n${JSON.stringify(revealed, null, 2)}`
+      );
+    })
+  );
+
+  // ============================================================================
+  // MCP Resources
+  // ============================================================================
+
+  // Register static resources
+  server.registerResource(
+    'org-chart',
+    'factorial://org-chart',
+    {
+      description:
+        'Complete organizational hierarchy showing manager-report relationships. Useful for understanding team structure.',
+      mimeType: 'text/markdown',
+    },
+    async () => {
+      return {
+        contents: [
+          {
+            uri: 'factorial://org-chart',
+            mimeType: 'text/markdown',
+            text: await buildOrgChart(),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'employees-directory',
+    'factorial://employees/directory',
+    {
+      description:
+        'Employee directory organized by team. Shows all employees with their roles and contact info.',
+      mimeType: 'text/markdown',
+    },
+    async () => {
+      return {
+        contents: [
+          {
+            uri: 'factorial://employees/directory',
+            mimeType: 'text/markdown',
+            text: await buildEmployeeDirectory(),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'locations-directory',
+    'factorial://locations/directory',
+    {
+      description: 'Directory of all company locations with employee counts.',
+      mimeType: 'text/markdown',
+    },
+    async () => {
+      return {
+        contents: [
+          {
+            uri: 'factorial://locations/directory',
+            mimeType: 'text/markdown',
+            text: await buildLocationDirectory(),
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerResource(
+    'timeoff-policies',
+    'factorial://timeoff/policies',
+    {
+      description: 'All leave types and time off policies configured in the organization.',
+      mimeType: 'application/json',
+    },
+    async () => {
+      const types = await listLeaveTypes();
+      return {
+        contents: [
+          {
+            uri: 'factorial://timeoff/policies',
+            mimeType: 'application/json',
+            text: JSON.stringify(types, redactSensitiveFields, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  const absenceCalendarTemplate = new ResourceTemplate(
+    'factorial://timeoff/calendar/{team_id}.ics',
+    {
+      list: async () => {
+        const result = await listTeams();
+        return {
+          resources: result.data.map(t => ({
+            uri: `factorial://timeoff/calendar/${t.id}.ics`,
+            name: `Absences: ${t.name}`,
+            mimeType: 'text/calendar',
+          })),
+        };
+      },
+    }
+  );
+
+  server.registerResource(
+    'absence-calendar',
+    absenceCalendarTemplate,
+    {
+      description:
+        "iCalendar feed of a team's approved leaves, from 30 days ago to a year ahead, for calendar clients.",
+      mimeType: 'text/calendar',
+    },
+    async (uri, variables) => {
+      const teamId = parseInt(variables.team_id as string, 10);
+      if (isNaN(teamId)) {
+        throw new Error('Invalid team ID');
+      }
+      const calendar = await buildAbsenceCalendar({ team_id: teamId });
+
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: 'text/calendar',
+            text: calendar.ics,
+          },
+        ],
+      };
+    }
+  );
+
+  // Register resource template for teams
+  const teamTemplate = new ResourceTemplate('factorial://teams/{team_id}', {
+    list: async () => {
+      const result = await listTeams();
+      return {
+        resources: result.data.map(t => ({
+          uri: `factorial://teams/${t.id}`,
+          name: t.name,
+          description: t.description || undefined,
+          mimeType: 'application/json',
+        })),
+      };
+    },
+  });
+
+  server.registerResource(
+    'team-details',
+    teamTemplate,
+    {
+      description: 'Get detailed information about a specific team including all members.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const teamId = parseInt(variables.team_id as string, 10);
+      if (isNaN(teamId)) {
+        throw new Error('Invalid team ID');
+      }
+      const [team, empResult] = await Promise.all([
+        getTeam(teamId),
+        listEmployees({ team_id: teamId }),
+      ]);
+
+      const teamDetails = {
+        ...team,
+        members: empResult.data.map(e => ({
+          id: e.id,
+          name: e.full_name,
+          email: e.email,
+        })),
+      };
+
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: 'application/json',
+            text: JSON.stringify(teamDetails, redactSensitiveFields, 2),
+          },
+        ],
+      };
+    }
+  );
+
+  const pipelineTemplate = new ResourceTemplate('factorial://ats/pipeline/{job_posting_id}', {
+    list: async () => {
+      const result = await listJobPostings();
+      return {
+        resources: result.data.map(p => ({
+          uri: `factorial://ats/pipeline/${p.id}`,
+          name: `Pipeline: ${p.title}`,
+          mimeType: 'application/json',
+        })),
+      };
+    },
+  });
+
+  server.registerResource(
+    'ats-pipeline',
+    pipelineTemplate,
+    {
+      description:
+        'Recruiting funnel of a job posting: applications per stage, conversion rates, days in stage, time to hire and rejection rate by candidate source.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const postingId = parseInt(variables.job_posting_id as string, 10);
+      if (isNaN(postingId)) {
+        throw new Error('Invalid job posting ID');
+      }
+      const report = await buildPipelineReport({ job_posting_ids: [postingId] });
+
+      return {
+        contents: [
+          {
+            uri: uri.toString(),
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              { generated_at: report.generated_at, ...report.postings[0] },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // ============================================================================
+  // MCP Prompts
+  // ============================================================================
+
+  server.registerPrompt(
+    'onboard-employee',
+    {
+      description:
+        'Generate a personalized onboarding checklist for a new employee based on their team and role.',
+      argsSchema: {
+        employee_id: z.string().describe('The ID of the employee to onboard'),
+      },
+    },
+    async ({ employee_id }) => {
+      const empId = parseInt(employee_id, 10);
+      const employee = await getEmployee(empId);
+      const teamsResult = await listTeams();
+      const teams = teamsResult.data;
+
+      // Find teams that have this employee (relationship is on Team, not Employee)
+      const employeeTeams = teams.filter(t => t.employee_ids?.includes(empId));
+      const teamNames = employeeTeams.map(t => t.name).join(', ') || 'No team assigned';
+
+      return {
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Please create a comprehensive onboarding checklist for the following new employee:
+
+**Employee Details:**
+- Name: ${employee.full_name}
+- Team(s): ${teamNames}
+- Start Date: ${employee.seniority_calculation_date || 'Not specified'}
+- Email: ${employee.email}
+
+Please include:
+1. First day essentials
+2. First week goals
+3. Team introductions
+4. Tools and access setup
+5. Key meetings to schedule
+6. 30/60/90 day milestones
+
+Tailor the checklist to their team.`,
+            },
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'analyze-org-structure',
+    {
+      description:
+        'Analyze the organizational structure for insights on reporting lines, team sizes, and distribution.',
+      argsSchema: {
+        focus_area: z
+          .string()
+          .optional()
+          .describe('Area to focus on: reporting_lines, team_sizes, location_distribution'),
+      },
+    },
+    async ({ focus_area }) => {
+      const [empResult, teamsResult, locResult] = await Promise.all([
+        listEmployees(),
+        listTeams(),
+        listLocations(),
+      ]);
+
+      const employees = empResult.data;
+      const teams = teamsResult.data;
+      const locations = locResult.data;
+
+      // Compute basic stats
+      const totalEmployees = employees.length;
+      const managersCount = new Set(employees.map(e => e.manager_id).filter(Boolean)).size;
+      const avgTeamSize =
+        teams.length > 0
+          ? (
+              teams.reduce((sum, t) => sum + (t.employee_ids?.length || 0), 0) / teams.length
+            ).toFixed(1)
+          : 0;
+
+      let focusPrompt = '';
+      if (focus_area === 'reporting_lines') {
+        focusPrompt =
+          'Focus particularly on reporting line depth, span of control, and potential bottlenecks.';
+      } else if (focus_area === 'team_sizes') {
+        focusPrompt =
+          'Focus particularly on team size distribution, under/over-staffed teams, and growth patterns.';
+      } else if (focus_area === 'location_distribution') {
+        focusPrompt =
+          'Focus particularly on geographic distribution, remote vs on-site, and location-based team composition.';
+      }
+
+      return {
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Please analyze the following organizational structure:
+
+**Summary Statistics:**
+- Total Employees: ${totalEmployees}
+- Total Teams: ${teams.length}
+- Total Locations: ${locations.length}
+- Unique Managers: ${managersCount}
+- Average Team Size: ${avgTeamSize}
+
+**Teams:**
+${teams.map(t => `- ${t.name}: ${t.employee_ids?.length || 0} members`).join('\n')}
+
+**Locations:**
+${locations.map(l => `- ${l.name} (${[l.city, l.country].filter(Boolean).join(', ')})`).join('\n')}
+
+${focusPrompt}
+
+Please provide:
+1. Key observations about the org structure
+2. Potential areas of concern
+3. Recommendations for improvement
+4. Comparison to industry best practices`,
+            },
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'timeoff-report',
+    {
+      description: 'Generate a time off report for a team or date range.',
+      argsSchema: {
+        team_id: z.string().optional().describe('Team ID to filter by'),
+        start_date: z.string().optional().describe('Start date (YYYY-MM-DD)'),
+        end_date: z.string().optional().describe('End date (YYYY-MM-DD)'),
+        include_pending: z.string().optional().describe('Include pending requests (true/false)'),
+      },
+    },
+    async ({ team_id, start_date, end_date, include_pending }) => {
+      const teamId = team_id ? parseInt(team_id, 10) : undefined;
+      const includePending = include_pending === 'true';
+
+      const report = await buildTimeoffAnalytics({
+        team_id: teamId,
+        from: start_date,
+        to: end_date,
+        include_pending: includePending,
+      });
+
+      return {
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Please generate a time off report based on the following analytics:
+
+**Report Parameters:**
+- Date Range: ${report.from} to ${report.to}
+- Team: ${teamId ? `Team ${teamId}` : 'All teams'}
+- Including Pending: ${includePending ? 'Yes' : 'No'}
+
+${formatTimeoffAnalytics(report)}
+
+Please provide:
+1. Summary of time off by type
+2. Peak absence periods
+3. Coverage concerns (if any patterns suggest coverage gaps)
+4. Pending approvals that need attention
+5. Recommendations for planning`,
+            },
+          },
+        ],
+      };
+    }
+  );
+
+  server.registerPrompt(
+    'team-document-summary',
+    {
+      description:
+        'Summarize documents across a team: who has certifications, payslips, missing required documents.',
+      argsSchema: {
+        team_id: z.string().describe('Team ID to analyze'),
+        document_type: z
+          .string()
+          .optional()
+          .describe('Focus on specific folder/type (e.g., "Certifications", "Payslips")'),
+      },
+    },
+    async ({ team_id, document_type }) => {
+      const teamId = parseInt(team_id, 10);
+      const team = await getTeam(teamId);
+      const employeeIds = team.employee_ids || [];
+
+      if (employeeIds.length === 0) {
+        return {
+          messages: [
+            {
+              role: 'user',
+              content: {
+                type: 'text',
+                text: `Team "${team.name}" has no members. Cannot generate document summary.`,
+              },
+            },
+          ],
+        };
+      }
+
+      // Fetch documents for all team members
+      const docsResult = await listDocuments({ employee_ids: employeeIds });
+      const docs = docsResult.data;
+
+      // Fetch folders for categorization
+      const folders = await listFolders();
+      const folderMap = new Map(folders.map(f => [f.id, f.name]));
+
+      // Fetch employees for names
+      const empResult = await listEmployees();
+      const empMap = new Map(empResult.data.map(e => [e.id, e.full_name]));
+
+      // Group documents by employee and folder
+      const docsByEmployee = new Map<number, Map<string, number>>();
+
+      for (const empId of employeeIds) {
+        docsByEmployee.set(empId, new Map());
+      }
+
+      for (const doc of docs) {
+        if (!doc.employee_id) continue;
+        const folderName = doc.folder_id ? folderMap.get(doc.folder_id) || 'Unknown' : 'Unfiled';
+        const empDocs = docsByEmployee.get(doc.employee_id);
+        if (empDocs) {
+          empDocs.set(folderName, (empDocs.get(folderName) || 0) + 1);
+        }
+      }
+
+      // Build summary text
+      const allFolderNames = new Set<string>();
+      for (const empDocs of docsByEmployee.values()) {
+        for (const folderName of empDocs.keys()) {
+          allFolderNames.add(folderName);
+        }
+      }
+
+      const summaryLines: string[] = [];
+      for (const empId of employeeIds) {
+        const empName = empMap.get(empId) || `Employee ${empId}`;
+        const empDocs = docsByEmployee.get(empId) || new Map<string, number>();
+
+        const docCounts: string[] = [];
+        for (const folderName of allFolderNames) {
+          const count: number = empDocs.get(folderName) || 0;
+          docCounts.push(`${count} ${folderName}`);
+        }
+
+        summaryLines.push(`- ${empName}: ${docCounts.join(', ') || 'No documents'}`);
+      }
+
+      const focusInfo = document_type ? `\nFocus: ${document_type}` : '';
+
+      return {
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Please analyze the document summary for team "${team.name}":
+
+**Team:** ${team.name}
+**Members:** ${employeeIds.length}
+**Total Documents:** ${docs.length}${focusInfo}
+
+**Document Summary by Employee:**
+${summaryLines.join('\n')}
+
+Please analyze:
+1. Document completeness across the team
+2. Any employees with missing or fewer documents than others
+3. Patterns in document distribution
+4. Recommendations for improving documentation`,
+            },
+          },
+        ],
+      };
+    }
+  );
+
+  return server;
+}
@@ -0,0 +1,41 @@
+/**
+ * Summary statistics for MCP FactorialHR reports
+ *
+ * Rounding, rates, averages and medians shared by the analytics tools, so
+ * their figures are rounded the same way.
+ */
+
+/**
+ * Round a value to a number of decimals
+ */
+export function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Share of a total, or null when the total is zero
+ */
+export function rate(part: number, total: number): number | null {
+  return total > 0 ? round(part / total, 3) : null;
+}
+
+/**
+ * Average of values, rounded to one decimal
+ */
+export function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length, 1) : null;
+}
+
+/**
+ * Median of values, rounded to one decimal
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return round(
+    sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    1
+  );
+}
@@ -0,0 +1,622 @@
+/**
+ * Text extraction from document files for MCP FactorialHR
+ *
+ * Small, dependency-free extractors for the formats HR documents usually come
+ * in: PDF (text per page, with ToUnicode font maps and compressed object
+ * streams) and DOCX (paragraphs, split at the page breaks Word recorded).
+ * Scanned PDFs have no text layer, so they extract to empty pages.
+ */
+
+import { inflateRawSync, inflateSync } from 'zlib';
+
+/**
+ * Largest decompressed size of a single PDF stream or ZIP entry
+ */
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Largest decompressed size of all the streams of a PDF together
+ */
+const MAX_DOCUMENT_INFLATED_BYTES = 128 * 1024 * 1024;
+
+/**
+ * Whether zlib stopped because the output grew past `maxOutputLength`
+ */
+function isTooLarge(error: unknown): boolean {
+  return (error as { code?: string } | undefined)?.code === 'ERR_BUFFER_TOO_LARGE';
+}
+
+/**
+ * Decompress zlib data, keeping what could be read from truncated streams
+ *
+ * @throws RangeError if the data decompresses to more than `maxBytes`
+ */
+function inflate(data: Buffer, maxBytes: number): Buffer | undefined {
+  try {
+    return inflateSync(data, { maxOutputLength: maxBytes });
+  } catch (error) {
+    if (isTooLarge(error)) throw error;
+    try {
+      return inflateSync(data, { finishFlush: 2, maxOutputLength: maxBytes });
+    } catch (retryError) {
+      if (isTooLarge(retryError)) throw retryError;
+      return undefined;
+    }
+  }
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+/**
+ * Indirect object of a PDF file
+ */
+interface PdfObject {
+  /** Object body without its stream (usually a dictionary) */
+  body: string;
+  /** Decoded stream data, if the object has a supported stream */
+  stream?: Buffer;
+}
+
+/**
+ * Read the raw value of a dictionary key (reference, dictionary, array or token)
+ */
+function dictValue(dict: string, key: string): string | undefined {
+  const match = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`).exec(dict);
+  if (!match) {
+    return undefined;
+  }
+  const rest = dict.slice(match.index + match[0].length);
+
+  const ref = /^\d+\s+\d+\s+R/.exec(rest);
+  if (ref) {
+    return ref[0];
+  }
+  for (const [open, close] of [
+    ['<<', '>>'],
+    ['[', ']'],
+  ]) {
+    if (rest.startsWith(open)) {
+      let depth = 0;
+      for (let i = 0; i < rest.length; i++) {
+        if (rest.startsWith(open, i)) {
+          depth++;
+          i += open.length - 1;
+        } else if (rest.startsWith(close, i)) {
+          depth--;
+          i += close.length - 1;
+          if (depth === 0) {
+            return rest.slice(0, i + 1);
+          }
+        }
+      }
+      return rest;
+    }
+  }
+  return /^\/?[^\s/<>[\]()]+/.exec(rest)?.[0];
+}
+
+/**
+ * Object numbers of all references in a value (`12 0 R`)
+ */
+function refsIn(value: string | undefined): number[] {
+  return [...(value ?? '').matchAll(/(\d+)\s+\d+\s+R/g)].map(match => Number(match[1]));
+}
+
+/**
+ * Parse the indirect objects of a PDF, including those in object streams
+ *
+ * @throws Error if the streams decompress to more than `maxInflatedBytes` in total
+ */
+function parsePdfObjects(data: Buffer, maxInflatedBytes: number): Map<number, PdfObject> {
+  const text = data.toString('latin1');
+  const objects = new Map<number, PdfObject>();
+  let inflated = 0;
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text))) {
+    const start = match.index + match[0].length;
+    const streamAt = text.indexOf('stream', start);
+    const endAt = text.indexOf('endobj', start);
+    if (endAt < 0) {
+      break;
+    }
+
+    const object: PdfObject = { body: text.slice(start, endAt) };
+    if (streamAt >= 0 && streamAt < endAt && text[streamAt - 1] !== 'd') {
+      object.body = text.slice(start, streamAt);
+      let dataStart = streamAt + 'stream'.length;
+      if (text[dataStart] === '\r') dataStart++;
+      if (text[dataStart] === '\n') dataStart++;
+
+      const length = dictValue(object.body, 'Length');
+      const directLength = length && /^\d+$/.test(length) ? Number(length) : undefined;
+      const endStream = text.indexOf('endstream', dataStart);
+      const dataEnd =
+        directLength !== undefined && text.startsWith('endstream', dataStart + directLength + 1)
+          ? dataStart + directLength
+          : endStream;
+      const raw = data.subarray(dataStart, Math.max(dataStart, dataEnd));
+
+      const filter = dictValue(object.body, 'Filter') ?? '';
+      if (!filter) {
+        object.stream = raw;
+      } else if (/^\/FlateDecode$|^\[\s*\/FlateDecode\s*\]$/.test(filter)) {
+        const limit = Math.min(MAX_INFLATED_BYTES, Math.max(1, maxInflatedBytes - inflated));
+        try {
+          object.stream = inflate(raw, limit);
+        } catch {
+          // A single oversized stream is skipped; running out of budget aborts
+          if (limit === MAX_INFLATED_BYTES) {
+            object.stream = undefined;
+          } else {
+            throw new Error(
+              `PDF is too large to read: its streams decompress to more than ${Math.round(maxInflatedBytes / 1024 / 1024)} MB.`
+            );
+          }
+        }
+        inflated += object.stream?.length ?? 0;
+      }
+
+      header.lastIndex = Math.max(endStream, endAt);
+      const realEnd = text.indexOf('endobj', header.lastIndex);
+      header.lastIndex = realEnd < 0 ? text.length : realEnd;
+    } else {
+      header.lastIndex = endAt;
+    }
+    objects.set(Number(match[1]), object);
+  }
+
+  for (const object of [...objects.values()]) {
+    if (/\/Type\s*\/ObjStm/.test(object.body) && object.stream) {
+      const content = object.stream.toString('latin1');
+      const first = Number(dictValue(object.body, 'First'));
+      const numbers = content.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i + 1 < numbers.length; i += 2) {
+        const end = i + 3 < numbers.length ? first + numbers[i + 3] : content.length;
+        if (!objects.has(numbers[i])) {
+          objects.set(numbers[i], { body: content.slice(first + numbers[i + 1], end) });
+        }
+      }
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Map from character codes to text, read from a ToUnicode CMap
+ */
+interface FontMap {
+  /** Bytes per character code */
+  codeBytes: number;
+  codes: Map<number, string>;
+}
+
+/**
+ * Decode a hex string of UTF-16BE code units
+ */
+function utf16Hex(hex: string): string {
+  const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+  let result = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode(bytes.readUInt16BE(i));
+  }
+  return result;
+}
+
+/**
+ * Parse a ToUnicode CMap (bfchar and bfrange sections)
+ */
+function parseToUnicode(cmap: string): FontMap {
+  const codes = new Map<number, string>();
+  let codeBytes = 1;
+
+  const range = /begincodespacerange\s*<([0-9A-Fa-f]+)>/.exec(cmap);
+  if (range) {
+    codeBytes = Math.max(1, range[1].length / 2);
+  }
+
+  for (const section of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, src, dst] of section[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g)) {
+      codes.set(parseInt(src, 16), utf16Hex(dst));
+      codeBytes = range ? codeBytes : Math.max(1, src.length / 2);
+    }
+  }
+
+  for (const section of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = section[1].matchAll(
+      /<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(?:<([0-9A-Fa-f]*)>|\[([^\]]*)\])/g
+    );
+    for (const [, lo, hi, dst, list] of entries) {
+      const start = parseInt(lo, 16);
+      const end = Math.min(parseInt(hi, 16), start + 0xffff);
+      if (list !== undefined) {
+        [...list.matchAll(/<([0-9A-Fa-f]*)>/g)].forEach((item, i) => {
+          codes.set(start + i, utf16Hex(item[1]));
+        });
+      } else {
+        const base = utf16Hex(dst);
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = start; code <= end; code++) {
+          codes.set(code, base.slice(0, -1) + String.fromCharCode(last + code - start));
+        }
+      }
+    }
+  }
+
+  return { codeBytes, codes };
+}
+
+/**
+ * Decode the bytes of a PDF string with a font's map, if it has one
+ */
+function decodePdfString(bytes: Buffer, font: FontMap | undefined): string {
+  if (font) {
+    let result = '';
+    for (let i = 0; i + font.codeBytes <= bytes.length; i += font.codeBytes) {
+      const code = bytes.readUIntBE(i, font.codeBytes);
+      result += font.codes.get(code) ?? '';
+    }
+    return result;
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return utf16Hex(bytes.subarray(2).toString('hex'));
+  }
+  return bytes.toString('latin1');
+}
+
+/**
+ * Read a literal string `( ... )` starting at `start`
+ *
+ * @returns The string bytes and the index after the closing parenthesis
+ */
+function readLiteralString(content: string, start: number): [Buffer, number] {
+  const escapes: Record<string, string> = {
+    n: '\n',
+    r: '\r',
+    t: '\t',
+    b: '\b',
+    f: '\f',
+  };
+  let result = '';
+  let depth = 1;
+  let i = start + 1;
+  for (; i < content.length && depth > 0; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[++i];
+      if (next in escapes) {
+        result += escapes[next];
+      } else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(content.slice(i, i + 3))?.[0] ?? next;
+        result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === '\r' || next === '\n') {
+        if (next === '\r' && content[i + 1] === '\n') i++;
+      } else {
+        result += next;
+      }
+    } else {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (depth > 0) result += char;
+    }
+  }
+  return [Buffer.from(result, 'latin1'), i];
+}
+
+/**
+ * Extract the text of a page content stream
+ */
+function extractContentText(content: string, fonts: Map<string, FontMap>): string {
+  let text = '';
+  let font: FontMap | undefined;
+  let operands: (string | number | Buffer | (number | Buffer)[])[] = [];
+  let array: (number | Buffer)[] | undefined;
+  let lastY: number | undefined;
+
+  const newline = (): void => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+  const show = (bytes: Buffer): void => {
+    text += decodePdfString(bytes, font);
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      const [bytes, end] = readLiteralString(content, i);
+      (array ?? operands).push(bytes);
+      i = end - 1;
+    } else if (char === '<' && content[i + 1] === '<') {
+      // Inline dictionary (marked content properties): not text
+      const end = content.indexOf('>>', i);
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+      (array ?? operands).push(Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex'));
+      i = end < 0 ? content.length : end;
+    } else if (char === '[') {
+      array = [];
+    } else if (char === ']') {
+      operands.push(array ?? []);
+      array = undefined;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32))?.[0] ?? char;
+      (array ?? operands).push(Number(number));
+      i += number.length - 1;
+    } else if (char === '/') {
+      const name = /^\/[^\s/<>[\]()]*/.exec(content.slice(i, i + 128))?.[0] ?? '/';
+      operands.push(name);
+      i += name.length - 1;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = /^[A-Za-z'"*0-9]+/.exec(content.slice(i, i + 16))?.[0] ?? char;
+      i += operator.length - 1;
+
+      switch (operator) {
+        case 'Tf':
+          font = fonts.get(String(operands[0]).slice(1));
+          break;
+        case 'Tj':
+          if (Buffer.isBuffer(operands[0])) show(operands[0]);
+          break;
+        case "'":
+        case '"': {
+          newline();
+          const last = operands[operands.length - 1];
+          if (Buffer.isBuffer(last)) show(last);
+          break;
+        }
+        case 'TJ':
+          for (const item of (operands[0] as (number | Buffer)[] | undefined) ?? []) {
+            if (Buffer.isBuffer(item)) {
+              show(item);
+            } else if (item < -200 && !text.endsWith(' ')) {
+              text += ' ';
+            }
+          }
+          break;
+        case 'Td':
+        case 'TD':
+          if (operands[1] !== 0) {
+            newline();
+          } else if (!/\s$/.test(text)) {
+            text += ' ';
+          }
+          break;
+        case 'Tm': {
+          const y = operands[5] as number;
+          if (lastY !== undefined && y !== lastY) {
+            newline();
+          } else if (text && !/\s$/.test(text)) {
+            text += ' ';
+          }
+          lastY = y;
+          break;
+        }
+        case 'T*':
+          newline();
+          break;
+        case 'ET':
+          newline();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  return text
+    .split('\n')
+    .map(line =>
+      line
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\p{Cc}/gu, '')
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Extract the text of each page of a PDF
+ *
+ * @returns The text of each page, in page order
+ * @throws Error if the streams decompress to more than `maxInflatedBytes` in total
+ */
+export function extractPdfPages(
+  data: Buffer,
+  maxInflatedBytes = MAX_DOCUMENT_INFLATED_BYTES
+): string[] {
+  const objects = parsePdfObjects(data, maxInflatedBytes);
+  const resolve = (value: string | undefined): string | undefined => {
+    const [ref] = refsIn(value);
+    return value && /^\d+\s+\d+\s+R$/.test(value) ? objects.get(ref)?.body : value;
+  };
+
+  // Pages in document order, with the resources inherited from their parents
+  const pages: { body: string; resources?: string }[] = [];
+  const visit = (number: number, inherited: string | undefined, seen: Set<number>): void => {
+    const node = objects.get(number);
+    if (!node || seen.has(number)) return;
+    seen.add(number);
+    const resources = resolve(dictValue(node.body, 'Resources')) ?? inherited;
+    if (/\/Type\s*\/Pages\b/.test(node.body)) {
+      for (const kid of refsIn(resolve(dictValue(node.body, 'Kids')))) {
+        visit(kid, resources, seen);
+      }
+    } else if (/\/Type\s*\/Page\b/.test(node.body)) {
+      pages.push({ body: node.body, resources });
+    }
+  };
+
+  const catalog = [...objects.values()].find(object => /\/Type\s*\/Catalog\b/.test(object.body));
+  const [root] = refsIn(catalog ? dictValue(catalog.body, 'Pages') : undefined);
+  if (root !== undefined) {
+    visit(root, undefined, new Set());
+  }
+  if (pages.length === 0) {
+    for (const [number] of [...objects].sort(([a], [b]) => a - b)) {
+      const body = objects.get(number)?.body ?? '';
+      if (/\/Type\s*\/Page\b/.test(body)) {
+        pages.push({ body, resources: resolve(dictValue(body, 'Resources')) });
+      }
+    }
+  }
+
+  const fontMaps = new Map<number, FontMap | undefined>();
+  return pages.map(page => {
+    const fonts = new Map<string, FontMap>();
+    const fontDict = resolve(dictValue(page.resources ?? '', 'Font')) ?? '';
+    for (const [, name, ref] of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      const number = Number(ref);
+      if (!fontMaps.has(number)) {
+        const fontBody = objects.get(number)?.body ?? '';
+        const [toUnicode] = refsIn(dictValue(fontBody, 'ToUnicode'));
+        const cmap = toUnicode !== undefined ? objects.get(toUnicode)?.stream : undefined;
+        fontMaps.set(
+          number,
+          cmap
+            ? parseToUnicode(cmap.toString('latin1'))
+            : // Composite fonts use glyph IDs, which cannot be decoded without a map
+              /\/Subtype\s*\/Type0/.test(fontBody)
+              ? { codeBytes: 2, codes: new Map() }
+              : undefined
+        );
+      }
+      const map = fontMaps.get(number);
+      if (map) fonts.set(name, map);
+    }
+
+    const contents = dictValue(page.body, 'Contents');
+    const streamRefs = refsIn(contents).flatMap(ref => {
+      const object = objects.get(ref);
+      return object && !object.stream && /^\s*\[/.test(object.body) ? refsIn(object.body) : [ref];
+    });
+    const content = streamRefs
+      .map(ref => objects.get(ref)?.stream?.toString('latin1') ?? '')
+      .join('\n');
+    return extractContentText(content, fonts);
+  });
+}
+
+// ============================================================================
+// DOCX
+// ============================================================================
+
+/**
+ * Read one entry of a ZIP archive
+ *
+ * @returns The entry content, or undefined if the archive has no such entry
+ * @throws Error if the archive is not a valid ZIP file
+ */
+export function readZipEntry(data: Buffer, name: string): Buffer | undefined {
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Invalid ZIP archive: end of central directory not found.');
+  }
+
+  const count = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  for (let i = 0; i < count && offset + 46 <= data.length; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid ZIP archive: corrupt central directory.');
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const entryName = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (entryName === name) {
+      const dataStart =
+        localOffset +
+        30 +
+        data.readUInt16LE(localOffset + 26) +
+        data.readUInt16LE(localOffset + 28);
+      const raw = data.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return raw;
+      }
+      if (method === 8) {
+        return inflateRawSync(raw, { maxOutputLength: MAX_INFLATED_BYTES });
+      }
+      throw new Error(`Unsupported ZIP compression method ${method}.`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return undefined;
+}
+
+/**
+ * Decode the XML entities of a text node
+ */
+function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity] ?? '';
+  });
+}
+
+/**
+ * Extract the text of a DOCX document, split into pages
+ *
+ * Pages follow the page breaks Word recorded when the file was last saved,
+ * or the explicit page breaks when there are none.
+ *
+ * @throws Error if the file is not a DOCX document
+ */
+export function extractDocxPages(data: Buffer): string[] {
+  const entry = readZipEntry(data, 'word/document.xml');
+  if (!entry) {
+    throw new Error('Invalid DOCX document: word/document.xml not found.');
+  }
+
+  const xml = entry.toString('utf8');
+  const pageBreak = xml.includes('<w:lastRenderedPageBreak')
+    ? /<w:lastRenderedPageBreak\/>/
+    : /<w:br [^>]*w:type="page"[^>]*\/>/;
+
+  const pages: string[][] = [[]];
+  for (const paragraph of xml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) ?? []) {
+    let line = '';
+    for (const [token] of paragraph.matchAll(
+      /<w:t(?: [^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\b[^>]*\/>|<w:lastRenderedPageBreak\/>/g
+    )) {
+      if (pageBreak.test(token)) {
+        pages[pages.length - 1].push(line);
+        pages.push([]);
+        line = '';
+      } else if (token === '<w:tab/>') {
+        line += '\t';
+      } else if (token.startsWith('<w:br')) {
+        line += '\n';
+      } else if (token.startsWith('<w:t')) {
+        line += decodeXmlText(token.replace(/^<w:t(?: [^>]*)?>|<\/w:t>$/g, ''));
+      }
+    }
+    pages[pages.length - 1].push(line);
+  }
+
+  return pages.map(lines =>
+    lines
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n')
+  );
+}
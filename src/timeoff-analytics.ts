@@ -0,0 +1,520 @@
+/**
+ * Time off analytics for MCP FactorialHR
+ *
+ * Counts how many employees are away on each day of a range, per team and per
+ * location, and summarizes the leaves behind those counts: the peak absence
+ * days, the mix of leave types, the lead time between requesting a leave and
+ * its start, and how long pending requests have been waiting for approval.
+ *
+ * Days are counted on the calendar of each employee's location (see
+ * work-calendar.ts), so weekends and holidays are not absences, and a half-day
+ * leave counts as half an employee. Employees terminated before the range are
+ * left out, and an employee away on overlapping leaves counts once.
+ */
+
+import { listEmployees, listLeaves, listLeaveTypes, listLocations, listTeams } from './api.js';
+import { fetchAllPages } from './pagination.js';
+import type { Employee, Leave } from './schemas.js';
+import { average, median, rate, round } from './statistics.js';
+import {
+  addDays,
+  getWorkCalendar,
+  workingDayFraction,
+  type WorkCalendar,
+} from './work-calendar.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days covered when no end date is given
+ */
+export const DEFAULT_RANGE_DAYS = 90;
+
+/**
+ * Longest range the analytics cover
+ */
+export const MAX_RANGE_DAYS = 366;
+
+/**
+ * Ranges longer than this are shown by week in the heatmap
+ */
+const DAILY_HEATMAP_DAYS = 62;
+
+/**
+ * Options of the time off analytics
+ */
+export interface TimeoffAnalyticsOptions {
+  /** Only members of this team */
+  team_id?: number;
+  /** Only employees of this location */
+  location_id?: number;
+  /** First day (defaults to today) */
+  from?: string;
+  /** Last day (defaults to DEFAULT_RANGE_DAYS after the first) */
+  to?: string;
+  /** Count pending leaves as absences (default false) */
+  include_pending?: boolean;
+  /** Date ages are measured at (defaults to today) */
+  today?: string;
+}
+
+/**
+ * Absences of a group on one day
+ */
+export interface DailyAbsence {
+  date: string;
+  /** Employees away, half days counting as 0.5 */
+  absent: number;
+  /** Share of the group's headcount away */
+  share: number | null;
+}
+
+/**
+ * Absences of a team or location over the range
+ */
+export interface GroupAbsence {
+  id: number | null;
+  name: string;
+  headcount: number;
+  /** Employee-days of absence */
+  absence_days: number;
+  avg_absent_per_day: number | null;
+  peak: DailyAbsence | null;
+  /** Days on which at least one member works */
+  daily: DailyAbsence[];
+}
+
+/**
+ * One of the days with the most employees away
+ */
+export interface PeakDay extends DailyAbsence {
+  employees: string[];
+}
+
+/**
+ * Absences of a leave type
+ */
+export interface LeaveTypeMix {
+  leave_type_id: number;
+  leave_type: string;
+  leaves: number;
+  absence_days: number;
+  /** Share of all absence days */
+  share: number | null;
+  avg_lead_time_days: number | null;
+}
+
+/**
+ * A leave waiting for approval
+ */
+export interface PendingLeave {
+  leave_id: number;
+  employee: string;
+  start_on: string;
+  created_at: string | null;
+  age_days: number | null;
+}
+
+/**
+ * Time off analytics over a range
+ */
+export interface TimeoffAnalytics {
+  generated_at: string;
+  from: string;
+  to: string;
+  team_id: number | null;
+  location_id: number | null;
+  include_pending: boolean;
+  headcount: number;
+  leaves: number;
+  absence_days: number;
+  peak_days: PeakDay[];
+  teams: GroupAbsence[];
+  locations: GroupAbsence[];
+  leave_types: LeaveTypeMix[];
+  lead_time: { leaves: number; avg_days: number | null; median_days: number | null };
+  pending_backlog: {
+    count: number;
+    avg_age_days: number | null;
+    max_age_days: number | null;
+    /** Pending leaves that have already started */
+    started: number;
+    oldest: PendingLeave[];
+  };
+  warnings: string[];
+}
+
+/**
+ * Whole days from one date to another, or null when either is missing
+ */
+function daysBetween(from: string | null, to: string): number | null {
+  if (!from) return null;
+  const days = Math.floor(
+    (Date.parse(`${to.slice(0, 10)}T00:00:00Z`) - Date.parse(`${from.slice(0, 10)}T00:00:00Z`)) /
+      DAY_MS
+  );
+  return Number.isNaN(days) ? null : days;
+}
+
+/**
+ * Absence of one employee on each day of a leave within the range
+ */
+function leaveDays(
+  leave: Leave,
+  calendar: WorkCalendar,
+  from: string,
+  to: string
+): Map<string, number> {
+  const days = new Map<string, number>();
+  const start = leave.start_on.slice(0, 10);
+  const finish = leave.finish_on.slice(0, 10);
+  const halfDate =
+    leave.half_day === 'start' ? start : leave.half_day === 'finish' ? finish : undefined;
+
+  for (
+    let date = start > from ? start : from;
+    date <= finish && date <= to;
+    date = addDays(date, 1)
+  ) {
+    const fraction = workingDayFraction(calendar, date);
+    const absent = date === halfDate ? Math.min(fraction, 0.5) : fraction;
+    if (absent > 0) days.set(date, absent);
+  }
+  return days;
+}
+
+/**
+ * Daily absences of a group of employees
+ */
+function groupAbsence(
+  id: number | null,
+  name: string,
+  members: Employee[],
+  dates: string[],
+  absences: Map<number, Map<string, number>>,
+  calendars: Map<number | null, WorkCalendar>
+): GroupAbsence {
+  const daily = dates
+    .filter(date =>
+      members.some(member => workingDayFraction(calendars.get(member.location_id)!, date) > 0)
+    )
+    .map((date): DailyAbsence => {
+      const absent = members.reduce(
+        (sum, member) => sum + (absences.get(member.id)?.get(date) ?? 0),
+        0
+      );
+      return { date, absent, share: rate(absent, members.length) };
+    });
+
+  const absenceDays = daily.reduce((sum, day) => sum + day.absent, 0);
+  const peak = daily.reduce<DailyAbsence | null>(
+    (best, day) => (day.absent > 0 && (!best || day.absent > best.absent) ? day : best),
+    null
+  );
+  return {
+    id,
+    name,
+    headcount: members.length,
+    absence_days: absenceDays,
+    avg_absent_per_day: daily.length > 0 ? round(absenceDays / daily.length, 2) : null,
+    peak,
+    daily,
+  };
+}
+
+/**
+ * Compute the time off analytics of a team, a location or the whole company
+ *
+ * @throws Error if a date is invalid or the range is reversed or too long
+ */
+export async function buildTimeoffAnalytics(
+  options: TimeoffAnalyticsOptions = {}
+): Promise<TimeoffAnalytics> {
+  const today = options.today ?? new Date().toISOString().slice(0, 10);
+  const from = options.from ?? today;
+  const to = options.to ?? addDays(from, DEFAULT_RANGE_DAYS - 1);
+  for (const date of [from, to]) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      throw new Error(`Invalid date "${date}". Use YYYY-MM-DD.`);
+    }
+  }
+  if (to < from) {
+    throw new Error(`The range ends (${to}) before it starts (${from}).`);
+  }
+  const days = daysBetween(from, to)! + 1;
+  if (days > MAX_RANGE_DAYS) {
+    throw new Error(`The range covers ${days} days; the maximum is ${MAX_RANGE_DAYS}.`);
+  }
+  const dates = Array.from({ length: days }, (_, i) => addDays(from, i));
+
+  const [employees, teams, locations, leaves, pending, leaveTypes] = await Promise.all([
+    fetchAllPages(params =>
+      listEmployees({ ...params, team_id: options.team_id, location_id: options.location_id })
+    ),
+    fetchAllPages(params => listTeams(params)),
+    fetchAllPages(params => listLocations(params)),
+    // Leaves rarely run for more than a year
+    fetchAllPages(params =>
+      listLeaves({ ...params, start_on_gte: addDays(from, -366), start_on_lte: to })
+    ),
+    fetchAllPages(params => listLeaves({ ...params, status: 'pending' })),
+    listLeaveTypes(),
+  ]);
+
+  const active = employees.filter(
+    employee => !employee.terminated_on || employee.terminated_on.slice(0, 10) >= from
+  );
+  const employeesById = new Map(active.map(employee => [employee.id, employee]));
+  const name = (id: number) => employeesById.get(id)?.full_name ?? `Employee ${id}`;
+
+  const calendars = new Map<number | null, WorkCalendar>();
+  for (const locationId of new Set(active.map(employee => employee.location_id))) {
+    calendars.set(locationId, await getWorkCalendar(locationId));
+  }
+  const warnings = [...new Set([...calendars.values()].flatMap(calendar => calendar.warnings))];
+
+  const selected = leaves.filter(
+    leave =>
+      employeesById.has(leave.employee_id) &&
+      !leave.deleted_at &&
+      (leave.status === 'approved' || (options.include_pending && leave.status === 'pending')) &&
+      leave.start_on.slice(0, 10) <= to &&
+      leave.finish_on.slice(0, 10) >= from
+  );
+
+  // Days away per employee, and per leave for the leave-type mix
+  const absences = new Map<number, Map<string, number>>();
+  const daysByLeave = new Map<number, number>();
+  for (const leave of selected) {
+    const calendar = calendars.get(employeesById.get(leave.employee_id)!.location_id)!;
+    const days = leaveDays(leave, calendar, from, to);
+    const own = absences.get(leave.employee_id) ?? new Map<string, number>();
+    let counted = 0;
+    for (const [date, absent] of days) {
+      const before = own.get(date) ?? 0;
+      own.set(date, Math.min(1, before + absent));
+      counted += own.get(date)! - before;
+    }
+    absences.set(leave.employee_id, own);
+    daysByLeave.set(leave.id, counted);
+  }
+
+  const everyone = groupAbsence(null, 'All', active, dates, absences, calendars);
+  const peakDays = [...everyone.daily]
+    .filter(day => day.absent > 0)
+    .sort((a, b) => b.absent - a.absent || a.date.localeCompare(b.date))
+    .slice(0, 5)
+    .map(day => ({
+      ...day,
+      employees: [...absences.entries()]
+        .filter(([, days]) => days.has(day.date))
+        .map(([id]) => name(id))
+        .sort(),
+    }));
+
+  const teamGroups = teams
+    .filter(team => options.team_id === undefined || team.id === options.team_id)
+    .map(team => ({
+      team,
+      members: active.filter(employee => team.employee_ids.includes(employee.id)),
+    }))
+    .filter(({ members }) => members.length > 0)
+    .map(({ team, members }) =>
+      groupAbsence(team.id, team.name, members, dates, absences, calendars)
+    );
+
+  const locationNames = new Map(locations.map(location => [location.id, location.name]));
+  const locationGroups = [...calendars.keys()].map(locationId =>
+    groupAbsence(
+      locationId,
+      locationId === null
+        ? 'No location'
+        : (locationNames.get(locationId) ?? `Location ${locationId}`),
+      active.filter(employee => employee.location_id === locationId),
+      dates,
+      absences,
+      calendars
+    )
+  );
+
+  const leadTimes = new Map(
+    selected.map(leave => [
+      leave.id,
+      daysBetween(leave.created_at, leave.start_on) === null
+        ? null
+        : Math.max(0, daysBetween(leave.created_at, leave.start_on)!),
+    ])
+  );
+  const knownLeadTimes = (group: Leave[]) =>
+    group.map(leave => leadTimes.get(leave.id)).filter((days): days is number => days != null);
+
+  const typeNames = new Map(leaveTypes.map(type => [type.id, type.name]));
+  const leaveTypeMix = [...new Set(selected.map(leave => leave.leave_type_id))]
+    .map((typeId): LeaveTypeMix => {
+      const group = selected.filter(leave => leave.leave_type_id === typeId);
+      const days = group.reduce((sum, leave) => sum + (daysByLeave.get(leave.id) ?? 0), 0);
+      return {
+        leave_type_id: typeId,
+        leave_type: typeNames.get(typeId) ?? `Leave type ${typeId}`,
+        leaves: group.length,
+        absence_days: days,
+        share: rate(days, everyone.absence_days),
+        avg_lead_time_days: average(knownLeadTimes(group)),
+      };
+    })
+    .sort((a, b) => b.absence_days - a.absence_days || a.leave_type.localeCompare(b.leave_type));
+
+  const backlog = pending
+    .filter(leave => employeesById.has(leave.employee_id) && !leave.deleted_at)
+    .map(
+      (leave): PendingLeave => ({
+        leave_id: leave.id,
+        employee: name(leave.employee_id),
+        start_on: leave.start_on.slice(0, 10),
+        created_at: leave.created_at,
+        age_days: daysBetween(leave.created_at, today),
+      })
+    )
+    .sort((a, b) => (b.age_days ?? -1) - (a.age_days ?? -1));
+  const ages = backlog.map(leave => leave.age_days).filter((age): age is number => age !== null);
+
+  return {
+    generated_at: new Date().toISOString(),
+    from,
+    to,
+    team_id: options.team_id ?? null,
+    location_id: options.location_id ?? null,
+    include_pending: options.include_pending ?? false,
+    headcount: active.length,
+    leaves: selected.length,
+    absence_days: everyone.absence_days,
+    peak_days: peakDays,
+    teams: teamGroups,
+    locations: locationGroups,
+    leave_types: leaveTypeMix,
+    lead_time: {
+      leaves: knownLeadTimes(selected).length,
+      avg_days: average(knownLeadTimes(selected)),
+      median_days: median(knownLeadTimes(selected)),
+    },
+    pending_backlog: {
+      count: backlog.length,
+      avg_age_days: average(ages),
+      max_age_days: ages.length > 0 ? Math.max(...ages) : null,
+      started: backlog.filter(leave => leave.start_on < today).length,
+      oldest: backlog.slice(0, 5),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Format a share as a percentage
+ */
+function percent(share: number | null): string {
+  return share === null ? '-' : `${round(share * 100, 1)}%`;
+}
+
+/**
+ * Render the daily absences of groups as a text heatmap
+ *
+ * Each cell shows the most employees away on a day (or in a week, for long
+ * ranges), rounded up: `.` for nobody, a digit, or `+` for ten or more. Days
+ * on which nobody in the group works are blank.
+ */
+export function renderHeatmap(groups: GroupAbsence[], from: string, to: string): string {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) dates.push(date);
+  const weekly = dates.length > DAILY_HEATMAP_DAYS;
+  const columns: string[][] = [];
+  for (const date of dates) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (!weekly || columns.length === 0 || weekday === 1) columns.push([]);
+    columns[columns.length - 1].push(date);
+  }
+
+  const labels = groups.map(group => `${group.name} (${group.headcount})`);
+  const width = Math.max(0, ...labels.map(label => label.length));
+  const cell = (value: number | undefined) =>
+    value === undefined ? ' ' : value === 0 ? '.' : value >= 10 ? '+' : String(Math.ceil(value));
+
+  const ticks = columns.map((column, i) =>
+    i === 0 || column.some(date => date.endsWith('-01')) ? '|' : ' '
+  );
+  const rows = groups.map((group, i) => {
+    const byDate = new Map(group.daily.map(day => [day.date, day.absent]));
+    const cells = columns.map(column => {
+      const values = column
+        .map(date => byDate.get(date))
+        .filter((v): v is number => v !== undefined);
+      return cell(values.length > 0 ? Math.max(...values) : undefined);
+    });
+    return `${labels[i].padEnd(width)}  ${cells.join('')}`;
+  });
+
+  return [
+    `${''.padEnd(width)}  ${ticks.join('')}`,
+    ...rows,
+    '',
+    `One column per ${weekly ? 'week (from Monday)' : 'day'} from ${from} to ${to}; | marks the start and the 1st of each month.`,
+    'Cells: employees away (rounded up), . nobody, + ten or more, blank for days off.',
+  ].join('\n');
+}
+
+/**
+ * Render time off analytics as Markdown tables and heatmaps
+ */
+export function formatTimeoffAnalytics(report: TimeoffAnalytics): string {
+  const groupTable = (groups: GroupAbsence[], heading: string) =>
+    [
+      `| ${heading} | Headcount | Absence days | Avg away/day | Peak day | Peak away |`,
+      '| --- | ---: | ---: | ---: | --- | ---: |',
+      ...groups.map(
+        group =>
+          `| ${group.name} | ${group.headcount} | ${group.absence_days} | ${group.avg_absent_per_day ?? '-'} | ${group.peak?.date ?? '-'} | ${group.peak ? `${group.peak.absent} (${percent(group.peak.share)})` : '-'} |`
+      ),
+    ].join('\n');
+
+  const backlog = report.pending_backlog;
+  const sections = [
+    `## Time off analytics: ${report.from} to ${report.to}`,
+    `${report.headcount} employee(s), ${report.leaves} ${report.include_pending ? 'approved and pending' : 'approved'} leave(s), ${report.absence_days} absence day(s).`,
+    '### Peak absence days',
+    report.peak_days.length === 0
+      ? 'Nobody is away in this range.'
+      : [
+          '| Date | Away | Share | Employees |',
+          '| --- | ---: | ---: | --- |',
+          ...report.peak_days.map(
+            day =>
+              `| ${day.date} | ${day.absent} | ${percent(day.share)} | ${day.employees.join(', ')} |`
+          ),
+        ].join('\n'),
+    '### Teams',
+    report.teams.length > 0 ? groupTable(report.teams, 'Team') : 'No teams.',
+    '### Locations',
+    groupTable(report.locations, 'Location'),
+    '### Leave types',
+    report.leave_types.length === 0
+      ? 'No leaves.'
+      : [
+          '| Leave type | Leaves | Absence days | Share | Avg lead time (days) |',
+          '| --- | ---: | ---: | ---: | ---: |',
+          ...report.leave_types.map(
+            type =>
+              `| ${type.leave_type} | ${type.leaves} | ${type.absence_days} | ${percent(type.share)} | ${type.avg_lead_time_days ?? '-'} |`
+          ),
+        ].join('\n'),
+    `Lead time from request to start: ${report.lead_time.avg_days ?? '-'} day(s) on average, ${report.lead_time.median_days ?? '-'} median (${report.lead_time.leaves} leave(s)).`,
+    '### Pending approvals',
+    backlog.count === 0
+      ? 'No leaves are waiting for approval.'
+      : `${backlog.count} leave(s) waiting for approval, ${backlog.avg_age_days ?? '-'} day(s) on average and up to ${backlog.max_age_days ?? '-'}; ${backlog.started} already started.${backlog.oldest.map(leave => `\n- Leave ${leave.leave_id} of ${leave.employee} from ${leave.start_on}, waiting ${leave.age_days ?? '?'} day(s)`).join('')}`,
+    '### Heatmap',
+    `\`\`\`\n${renderHeatmap([...report.teams, ...report.locations], report.from, report.to)}\n\`\`\``,
+  ];
+  if (report.warnings.length > 0) {
+    sections.push(`Warnings:${report.warnings.map(warning => `\n- ${warning}`).join('')}`);
+  }
+  return sections.join('\n\n');
+}
@@ -4,7 +4,16 @@
  * Provides helper functions for consistent tool handler implementation.
  */
 
-import { getOperationPolicy, getWarningMessage } from './write-safety.js';
+import { getActiveCompany } from './config.js';
+import { confirmationManager, type OperationPreview } from './confirmation.js';
+import { ConfirmationMismatchError, OperationBlockedError } from './errors.js';
+import { redactSensitiveFields } from './redaction.js';
+import {
+  getMatchingPolicyRules,
+  getOperationPolicy,
+  getWarningMessage,
+  type OperationPolicy,
+} from './write-safety.js';
 
 /**
  * Text content item in a tool response
@@ -14,12 +23,22 @@ interface TextContent {
   text: string;
 }
 
+/**
+ * Image content item in a tool response
+ */
+interface ImageContent {
+  type: 'image';
+  /** Image data encoded as base64 */
+  data: string;
+  mimeType: string;
+}
+
 /**
  * Tool response structure matching MCP SDK expectations
  */
 interface ToolResult {
   [x: string]: unknown;
-  content: TextContent[];
+  content: (TextContent | ImageContent)[];
   isError?: boolean;
 }
 
@@ -65,29 +84,165 @@ export function wrapToolHandler<T>(
  * Arguments for high-risk operations that require confirmation
  */
 export interface ConfirmableArgs {
-  confirm?: boolean;
+  confirmation_token?: string;
+}
+
+/**
+ * Preview details built for a high-risk operation before it is executed
+ */
+export type PreviewDetails = Omit<OperationPreview, 'confirmationToken' | 'expiresAt'> & {
+  /** What the preview was built from (e.g. a plan), handed to the handler on confirm */
+  previewed?: unknown;
+};
+
+/**
+ * Find the first argument that differs from the payload a token was issued for
+ */
+function findPayloadMismatch(
+  supplied: Record<string, unknown>,
+  confirmed: Record<string, unknown>
+): string | undefined {
+  for (const [key, value] of Object.entries(supplied)) {
+    if (value !== undefined && JSON.stringify(value) !== JSON.stringify(confirmed[key])) {
+      return key;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format the preview returned by the first phase of a confirmed operation
+ */
+function formatConfirmationPreview(
+  operationName: string,
+  preview: OperationPreview,
+  context: Record<string, unknown>
+): string {
+  const policy = getOperationPolicy(operationName, context);
+  const header =
+    getWarningMessage(operationName, context) ??
+    `**Confirmation required:** ${policy.impactDescription ?? 'This operation modifies data'}.`;
+
+  return (
+    `${header}\n\n**Preview:**\n\n${JSON.stringify(preview, redactSensitiveFields, 2)}\n\n` +
+    `To proceed, call \`${operationName}\` again with the same arguments and ` +
+    `\`confirmation_token: "${preview.confirmationToken}"\`. ` +
+    `The token can be used once and expires at ${preview.expiresAt}.`
+  );
+}
+
+/**
+ * Check whether a tool response is a confirmation preview (nothing was executed yet)
+ */
+export function isConfirmationPreview(result: { _meta?: unknown }): boolean {
+  return (
+    (result._meta as { confirmationToken?: string } | undefined)?.confirmationToken !== undefined
+  );
 }
 
 /**
- * Wrap a high-risk tool handler with confirmation requirement
+ * Get the policy of a call, refusing it when a rule blocks it
+ *
+ * @throws OperationBlockedError if the policy blocks the call
+ */
+function checkNotBlocked(operationName: string, context: Record<string, unknown>): OperationPolicy {
+  const policy = getOperationPolicy(operationName, context);
+  if (policy.blocked) {
+    const reasons = getMatchingPolicyRules(operationName, context)
+      .filter(rule => rule.policy.blocked)
+      .map(rule => rule.description)
+      .filter((description): description is string => description !== undefined);
+    throw new OperationBlockedError(operationName, reasons);
+  }
+  return policy;
+}
+
+/**
+ * Wrap a high-risk tool handler with two-phase confirmation
+ *
+ * Phase 1 (no token): builds a preview of the affected entity, the changes and the
+ * warnings, and returns it together with a one-time confirmation token.
+ * Phase 2 (with token): consumes the token and executes the operation with the
+ * payload that was previewed. When the preview returned `previewed` data (such
+ * as a plan), the handler gets it as its second argument, so it runs what was
+ * shown instead of working it out again.
+ *
+ * Whether confirmation is required comes from the operation policy, including
+ * conditional rules of the policy file, which see the tool arguments and the
+ * facts gathered by `facts`. Without it, the operation runs directly. A rule
+ * can also block the call; it is checked again with fresh facts on confirm.
  *
  * @param operationName - The operation name (e.g., 'delete_team') for policy lookup
- * @param handler - The async handler function
+ * @param describe - Builds the preview details from the tool arguments
+ * @param handler - The async handler function that performs the operation; without
+ *   confirmation, or when the preview had no `previewed` data, its second argument is undefined
+ * @param facts - Gathers facts about the call for conditional rules (e.g., leave days)
  * @returns A wrapped handler that requires confirmation for high-risk operations
  */
 export function wrapHighRiskToolHandler<T extends ConfirmableArgs>(
   operationName: string,
-  handler: (args: T) => Promise<ToolResult>
+  describe: (args: Omit<T, 'confirmation_token'>) => Promise<PreviewDetails>,
+  handler: (args: T, previewed?: unknown) => Promise<ToolResult>,
+  facts?: (args: Omit<T, 'confirmation_token'>) => Promise<Record<string, unknown>>
 ): (args: T) => Promise<ToolResult> {
   return wrapToolHandler(async (args: T) => {
-    const policy = getOperationPolicy(operationName);
+    const { confirmation_token: token, ...payload } = args;
+
+    if (!token) {
+      const context = { ...payload, ...(facts ? await facts(payload) : {}) };
+      const policy = checkNotBlocked(operationName, context);
+      if (!policy.requiresConfirmation) {
+        return handler(args);
+      }
+
+      const { previewed, ...details } = await describe(payload);
+      const reasons = getMatchingPolicyRules(operationName, context)
+        .map(rule => rule.description)
+        .filter((description): description is string => description !== undefined);
+      const confirmationToken = confirmationManager.createConfirmation(
+        operationName,
+        payload,
+        { ...details, warnings: [...details.warnings, ...reasons] },
+        previewed
+      );
+      const preview = confirmationManager.getPreview(confirmationToken)!;
+      return {
+        ...textResponse(formatConfirmationPreview(operationName, preview, context)),
+        _meta: { confirmationToken, expiresAt: preview.expiresAt },
+      };
+    }
+
+    const pending = confirmationManager.confirm(token);
+
+    if (pending.operation !== operationName) {
+      throw new ConfirmationMismatchError(
+        operationName,
+        `token was issued for "${pending.operation}"`
+      );
+    }
+
+    if (pending.company !== getActiveCompany()) {
+      throw new ConfirmationMismatchError(
+        operationName,
+        `token was issued for company "${pending.company}"`
+      );
+    }
+
+    const mismatch = findPayloadMismatch(payload, pending.payload);
+    if (mismatch) {
+      throw new ConfirmationMismatchError(operationName, `argument "${mismatch}" changed`);
+    }
 
-    if (policy.requiresConfirmation && !args.confirm) {
-      const warning = getWarningMessage(operationName);
-      return textResponse(`${warning}\n\nTo proceed, call this tool again with \`confirm: true\`.`);
+    // Facts may have changed since the preview (e.g., another leave was approved)
+    if (facts) {
+      const confirmed = pending.payload as Omit<T, 'confirmation_token'>;
+      checkNotBlocked(operationName, { ...confirmed, ...(await facts(confirmed)) });
     }
 
-    return handler(args);
+    const confirmed = { ...pending.payload, confirmation_token: token } as T;
+    return pending.previewed === undefined
+      ? handler(confirmed)
+      : handler(confirmed, pending.previewed);
   });
 }
 
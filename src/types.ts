@@ -15,6 +15,7 @@ export type {
   Leave,
   LeaveType,
   Allowance,
+  CompanyHoliday,
   Shift,
   Folder,
   Document,
@@ -0,0 +1,589 @@
+/**
+ * Working-day calendars for MCP FactorialHR
+ *
+ * Every location has a working week and a list of holidays, so offices in
+ * different countries count their own working days. Holidays come from
+ * Factorial's company holidays and from the calendars file
+ * (FACTORIAL_CALENDARS_PATH), which sets a default calendar and one per
+ * location ID, each with its working week, holidays listed inline and local
+ * ICS or JSON holiday files:
+ *
+ * ```yaml
+ * default:
+ *   working_week: [mon, tue, wed, thu, fri]
+ * locations:
+ *   '3':
+ *     files: [holidays/es-madrid.ics]
+ *   '7':
+ *     working_week: [mon, tue, wed, thu, fri, sat]
+ *     holidays: [{ date: '2026-11-16', name: 'Revolución' }]
+ * ```
+ *
+ * A location's working week and `factorial_holidays` replace the default ones,
+ * and its holidays add to the default holidays. Half-day holidays count as half
+ * a working day. Dates are calendar dates (YYYY-MM-DD) without time zones.
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { getEmployee, listCompanyHolidays } from './api.js';
+import { debug } from './config.js';
+import { ConfigurationError } from './errors.js';
+import type { HalfDay } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days of the week, in the order of Date.getUTCDay()
+ */
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Working week used when the calendars file does not set one
+ */
+export const DEFAULT_WORKING_WEEK: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Longest range whose working days are listed or counted, in days (ten years)
+ */
+const MAX_RANGE_DAYS = 3660;
+
+const HolidayEntrySchema = z.object({
+  date: z.string().regex(DATE_PATTERN, 'Use YYYY-MM-DD'),
+  name: z.string().optional(),
+  half_day: z.boolean().optional(),
+});
+
+const CalendarSettingsSchema = z.object({
+  working_week: z.array(z.enum(WEEKDAYS)).min(1).optional(),
+  /** Use Factorial's company holidays (default true) */
+  factorial_holidays: z.boolean().optional(),
+  /** ICS or JSON holiday files, relative to the calendars file */
+  files: z.array(z.string()).optional(),
+  holidays: z.array(HolidayEntrySchema).optional(),
+});
+
+const CalendarsFileSchema = z.object({
+  default: CalendarSettingsSchema.optional(),
+  locations: z
+    .record(z.string().regex(/^\d+$/, 'Use a location ID'), CalendarSettingsSchema)
+    .optional(),
+});
+
+const HolidayFileSchema = z.union([
+  z.array(HolidayEntrySchema),
+  z.object({ holidays: z.array(HolidayEntrySchema) }),
+]);
+
+/**
+ * A day off in a calendar
+ */
+export interface Holiday {
+  date: string;
+  name: string;
+  half_day: boolean;
+  /** Factorial, a holiday file, or the calendars file itself */
+  source: string;
+}
+
+/**
+ * A holiday repeating every year on the same day, from an ICS yearly rule
+ */
+export interface RecurringHoliday {
+  /** MM-DD */
+  month_day: string;
+  name: string;
+  /** First occurrence */
+  from: string;
+  /** Last possible occurrence */
+  until?: string;
+  source: string;
+}
+
+/**
+ * Working week and holidays of a location
+ */
+export interface WorkCalendar {
+  location_id: number | null;
+  working_week: Weekday[];
+  holidays: Map<string, Holiday>;
+  recurring: RecurringHoliday[];
+  /** Holiday sources that could not be read */
+  warnings: string[];
+}
+
+/**
+ * Calendar settings with their holiday files read
+ */
+interface LoadedSettings {
+  working_week?: Weekday[];
+  factorial_holidays?: boolean;
+  holidays: Holiday[];
+  recurring: RecurringHoliday[];
+}
+
+/**
+ * Calendars file, cached by path
+ */
+let loadedCalendars:
+  | { path: string; default: LoadedSettings; locations: Map<number, LoadedSettings> }
+  | undefined;
+
+/**
+ * Unescape an ICS text value
+ */
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? ' ' : char
+  );
+}
+
+/**
+ * Convert an ICS date or date-time (20260501 or 20260501T000000Z) to YYYY-MM-DD
+ */
+function icsDate(value: string): string | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+/**
+ * Add days to a date (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Read the holidays of an ICS calendar
+ *
+ * Each event is a holiday on every day from DTSTART up to DTEND (exclusive),
+ * or on DTSTART only. Yearly rules (RRULE:FREQ=YEARLY, with COUNT or UNTIL)
+ * become recurring holidays; events with other rules and cancelled events are
+ * skipped.
+ */
+export function parseIcsHolidays(
+  text: string,
+  source = 'ics'
+): { holidays: Holiday[]; recurring: RecurringHoliday[] } {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(line => line.trimEnd());
+  const holidays: Holiday[] = [];
+  const recurring: RecurringHoliday[] = [];
+
+  let event: Record<string, string> | undefined;
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const start = icsDate(event.DTSTART ?? '');
+      const name = unescapeIcsText(event.SUMMARY ?? 'Holiday');
+      if (start && event.STATUS !== 'CANCELLED') {
+        if (event.RRULE) {
+          const rule = Object.fromEntries(
+            event.RRULE.split(';').map(part => part.split('=') as [string, string])
+          );
+          const onlyYearly = Object.keys(rule).every(key =>
+            ['FREQ', 'COUNT', 'UNTIL'].includes(key)
+          );
+          if (rule.FREQ === 'YEARLY' && onlyYearly) {
+            recurring.push({
+              month_day: start.slice(5),
+              name,
+              from: start,
+              until: rule.UNTIL
+                ? icsDate(rule.UNTIL)
+                : rule.COUNT
+                  ? `${Number(start.slice(0, 4)) + Number(rule.COUNT) - 1}${start.slice(4)}`
+                  : undefined,
+              source,
+            });
+          }
+        } else {
+          const end = icsDate(event.DTEND ?? '');
+          const last = end && end > start && !event.DTEND.includes('T') ? addDays(end, -1) : start;
+          for (let date = start; date <= last; date = addDays(date, 1)) {
+            holidays.push({ date, name, half_day: false, source });
+          }
+        }
+      }
+      event = undefined;
+      continue;
+    }
+    if (event) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        event[line.slice(0, colon).split(';')[0].toUpperCase()] = line.slice(colon + 1);
+      }
+    }
+  }
+
+  return { holidays, recurring };
+}
+
+/**
+ * Read a holiday file: ICS (.ics) or a JSON list of `{ date, name?, half_day? }`
+ *
+ * @throws ConfigurationError if the file cannot be read or is invalid
+ */
+function readHolidayFile(path: string): { holidays: Holiday[]; recurring: RecurringHoliday[] } {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigurationError(
+      `Cannot read holiday file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  if (extname(path).toLowerCase() === '.ics') {
+    return parseIcsHolidays(text, path);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigurationError(
+      `Invalid holiday file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const parsed = HolidayFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+      .join('; ');
+    throw new ConfigurationError(`Invalid holiday file ${path}: ${issues}`);
+  }
+
+  const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.holidays;
+  return {
+    holidays: entries.map(entry => ({
+      date: entry.date,
+      name: entry.name ?? 'Holiday',
+      half_day: entry.half_day ?? false,
+      source: path,
+    })),
+    recurring: [],
+  };
+}
+
+/**
+ * Read the holiday files of calendar settings
+ */
+function loadSettings(
+  settings: z.infer<typeof CalendarSettingsSchema>,
+  baseDir: string,
+  path: string
+): LoadedSettings {
+  const files = (settings.files ?? []).map(file => readHolidayFile(resolve(baseDir, file)));
+  return {
+    working_week: settings.working_week,
+    factorial_holidays: settings.factorial_holidays,
+    holidays: [
+      ...(settings.holidays ?? []).map(entry => ({
+        date: entry.date,
+        name: entry.name ?? 'Holiday',
+        half_day: entry.half_day ?? false,
+        source: path,
+      })),
+      ...files.flatMap(file => file.holidays),
+    ],
+    recurring: files.flatMap(file => file.recurring),
+  };
+}
+
+/**
+ * Load the calendars file and its holiday files, if any
+ *
+ * Called at startup so an invalid file stops the server instead of failing
+ * on the first leave.
+ *
+ * @throws ConfigurationError if a file cannot be read or is invalid
+ */
+export function loadWorkCalendars(): NonNullable<typeof loadedCalendars> {
+  const path = process.env.FACTORIAL_CALENDARS_PATH
+    ? resolve(process.env.FACTORIAL_CALENDARS_PATH)
+    : '';
+  if (loadedCalendars?.path === path) {
+    return loadedCalendars;
+  }
+
+  let file: z.infer<typeof CalendarsFileSchema> = {};
+  if (path) {
+    let raw: unknown;
+    try {
+      const text = readFileSync(path, 'utf8');
+      raw = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Cannot read calendars from ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const parsed = CalendarsFileSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      throw new ConfigurationError(`Invalid calendars file ${path}: ${issues}`);
+    }
+    file = parsed.data;
+  }
+
+  const baseDir = path ? dirname(path) : process.cwd();
+  loadedCalendars = {
+    path,
+    default: loadSettings(file.default ?? {}, baseDir, path),
+    locations: new Map(
+      Object.entries(file.locations ?? {}).map(([id, settings]) => [
+        Number(id),
+        loadSettings(settings, baseDir, path),
+      ])
+    ),
+  };
+  if (path) {
+    debug(`Loaded calendars for ${loadedCalendars.locations.size} locations from ${path}`);
+  }
+  return loadedCalendars;
+}
+
+/**
+ * Get the calendar of a location, or the default calendar for null
+ *
+ * Factorial's company holidays are optional: when they cannot be read, the
+ * calendar is built without them and carries a warning.
+ */
+export async function getWorkCalendar(locationId: number | null): Promise<WorkCalendar> {
+  const calendars = loadWorkCalendars();
+  const own = locationId !== null ? calendars.locations.get(locationId) : undefined;
+  const calendar: WorkCalendar = {
+    location_id: locationId,
+    working_week: own?.working_week ?? calendars.default.working_week ?? DEFAULT_WORKING_WEEK,
+    holidays: new Map(),
+    recurring: [...calendars.default.recurring, ...(own?.recurring ?? [])],
+    warnings: [],
+  };
+
+  // A full-day holiday wins over a half-day one on the same date
+  const add = (holiday: Holiday) => {
+    const existing = calendar.holidays.get(holiday.date);
+    if (!existing || (existing.half_day && !holiday.half_day)) {
+      calendar.holidays.set(holiday.date, holiday);
+    }
+  };
+
+  if (own?.factorial_holidays ?? calendars.default.factorial_holidays ?? true) {
+    try {
+      for (const holiday of await listCompanyHolidays()) {
+        if (holiday.location_id === null || holiday.location_id === locationId) {
+          add({
+            date: holiday.date.slice(0, 10),
+            name: holiday.summary ?? 'Holiday',
+            half_day: Boolean(holiday.half_day),
+            source: 'factorial',
+          });
+        }
+      }
+    } catch (error) {
+      calendar.warnings.push(
+        `Company holidays could not be read from Factorial, so only the calendars file was used: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  [...calendars.default.holidays, ...(own?.holidays ?? [])].forEach(add);
+
+  return calendar;
+}
+
+/**
+ * Get the calendar of an employee's location
+ */
+export async function getEmployeeCalendar(employeeId: number): Promise<WorkCalendar> {
+  const employee = await getEmployee(employeeId);
+  return getWorkCalendar(employee.location_id);
+}
+
+/**
+ * Check that a date is a valid YYYY-MM-DD date
+ *
+ * @throws Error if it is not
+ */
+function assertDate(date: string): void {
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(`${date}T00:00:00Z`))) {
+    throw new Error(`Invalid date "${date}". Use YYYY-MM-DD.`);
+  }
+}
+
+/**
+ * Get the holiday of a calendar on a date, if any
+ */
+export function getHoliday(calendar: WorkCalendar, date: string): Holiday | undefined {
+  const holiday = calendar.holidays.get(date);
+  if (holiday) {
+    return holiday;
+  }
+  const yearly = calendar.recurring.find(
+    rule =>
+      rule.month_day === date.slice(5) &&
+      rule.from <= date &&
+      (rule.until === undefined || date <= rule.until)
+  );
+  return yearly ? { date, name: yearly.name, half_day: false, source: yearly.source } : undefined;
+}
+
+/**
+ * Share of a working day a date counts for: 0, 0.5 for half-day holidays, or 1
+ */
+export function workingDayFraction(calendar: WorkCalendar, date: string): number {
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  if (!calendar.working_week.includes(weekday)) {
+    return 0;
+  }
+  const holiday = getHoliday(calendar, date);
+  return holiday ? (holiday.half_day ? 0.5 : 0) : 1;
+}
+
+/**
+ * Check whether a date is a working day, half-day holidays included
+ */
+export function isWorkingDay(calendar: WorkCalendar, date: string): boolean {
+  return workingDayFraction(calendar, date) > 0;
+}
+
+/**
+ * Explain why a date is not a working day
+ *
+ * @returns The reason, or undefined for working days
+ */
+export function describeDayOff(calendar: WorkCalendar, date: string): string | undefined {
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+  if (!calendar.working_week.includes(weekday)) {
+    return `${date} is not a working day (${weekday})`;
+  }
+  const holiday = getHoliday(calendar, date);
+  if (holiday) {
+    return `${date} is ${holiday.half_day ? 'a half-day holiday' : 'a holiday'} (${holiday.name})`;
+  }
+  return undefined;
+}
+
+/**
+ * Check that a range is short enough to walk day by day
+ *
+ * @throws Error if the range covers more than MAX_RANGE_DAYS days
+ */
+function assertRangeLength(startOn: string, finishOn: string): void {
+  const days =
+    (Date.parse(`${finishOn}T00:00:00Z`) - Date.parse(`${startOn}T00:00:00Z`)) / DAY_MS + 1;
+  if (days > MAX_RANGE_DAYS) {
+    throw new Error(
+      `The range covers ${days} days; the maximum is ${MAX_RANGE_DAYS} (about ten years).`
+    );
+  }
+}
+
+/**
+ * Working days between two dates, both included, half-day holidays included
+ *
+ * @throws Error if a date is invalid or the range is longer than ten years
+ */
+export function listWorkingDays(
+  calendar: WorkCalendar,
+  startOn: string,
+  finishOn: string
+): string[] {
+  assertDate(startOn);
+  assertDate(finishOn);
+  assertRangeLength(startOn, finishOn);
+  const days: string[] = [];
+  for (let date = startOn; date <= finishOn; date = addDays(date, 1)) {
+    if (isWorkingDay(calendar, date)) days.push(date);
+  }
+  return days;
+}
+
+/**
+ * Count the working days between two dates, both included
+ *
+ * Half-day holidays count as half a day. A half-day leave on the first
+ * ('start') or last ('finish') day counts that day as at most half a day.
+ *
+ * @throws Error if a date is invalid or the range is longer than ten years
+ */
+export function countWorkingDays(
+  calendar: WorkCalendar,
+  startOn: string,
+  finishOn: string,
+  halfDay?: HalfDay | null
+): number {
+  assertDate(startOn);
+  assertDate(finishOn);
+  assertRangeLength(startOn, finishOn);
+  const halfDate = halfDay === 'start' ? startOn : halfDay === 'finish' ? finishOn : undefined;
+
+  let days = 0;
+  for (let date = startOn; date <= finishOn; date = addDays(date, 1)) {
+    const fraction = workingDayFraction(calendar, date);
+    days += date === halfDate ? Math.min(fraction, 0.5) : fraction;
+  }
+  return days;
+}
+
+/**
+ * Get the working day a number of working days after a date
+ *
+ * With 0 days, returns the date itself when it is a working day, otherwise
+ * the next one. Negative days count backwards.
+ *
+ * @throws Error if the date is invalid or no working day is found within ten years
+ */
+export function nextWorkingDay(calendar: WorkCalendar, date: string, days = 1): string {
+  assertDate(date);
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  let current = date;
+  if (remaining === 0 && isWorkingDay(calendar, current)) {
+    return current;
+  }
+
+  for (let i = 0; i < 3660; i++) {
+    current = addDays(current, step);
+    if (isWorkingDay(calendar, current) && --remaining <= 0) {
+      return current;
+    }
+  }
+  throw new Error(`No working day found within ten years of ${date}.`);
+}
+
+/**
+ * List the holidays of a calendar between two dates, both included
+ */
+export function listHolidays(calendar: WorkCalendar, from: string, to: string): Holiday[] {
+  assertDate(from);
+  assertDate(to);
+  const holidays = [...calendar.holidays.values()].filter(
+    holiday => holiday.date >= from && holiday.date <= to
+  );
+
+  const dates = new Set(holidays.map(holiday => holiday.date));
+  for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+    for (const rule of calendar.recurring) {
+      const date = `${year}-${rule.month_day}`;
+      const occurs = rule.from <= date && (rule.until === undefined || date <= rule.until);
+      if (occurs && date >= from && date <= to && !dates.has(date)) {
+        dates.add(date);
+        holidays.push({ date, name: rule.name, half_day: false, source: rule.source });
+      }
+    }
+  }
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -2,9 +2,22 @@
  * Write operation safety and risk classification
  *
  * Provides risk levels and policies for write operations to help
- * determine which operations require confirmation or special handling.
+ * determine which operations require confirmation or special handling,
+ * and a rate guard enforcing their cooldowns and batch limits.
+ *
+ * The built-in policies can be overridden with a YAML or JSON policy file
+ * (FACTORIAL_POLICY_PATH), which can also add conditional rules that apply
+ * to a call depending on its arguments (e.g., require confirmation for
+ * update_employee when manager_id changes).
  */
 
+import { readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { debug, getActiveCompany } from './config.js';
+import { ConfigurationError, OperationRateLimitError } from './errors.js';
+
 /**
  * Risk levels for write operations
  */
@@ -29,12 +42,16 @@ export interface OperationPolicy {
   requiresConfirmation: boolean;
   /** Whether to show a preview before executing */
   requiresPreview: boolean;
-  /** Maximum number of records that can be affected in batch */
+  /** Maximum number of executions within a batch window (BATCH_WINDOW_MS) */
   maxBatchSize?: number;
+  /** Argument listing the items of a bulk operation; each item counts as one execution */
+  batchArgument?: string;
   /** Cooldown period in ms between repeated operations */
   cooldownMs?: number;
   /** Human-readable description of the operation's impact */
   impactDescription?: string;
+  /** Refuse the call outright; meant for conditional rules */
+  blocked?: boolean;
 }
 
 /**
@@ -59,6 +76,30 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Terminates employee, revoking access and removing from active lists',
+    maxBatchSize: 3,
+    cooldownMs: 30 * 1000,
+  },
+  onboard_employee: {
+    risk: OperationRisk.MEDIUM,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription: 'Creates an employee and adds them to teams, projects, trainings and shifts',
+  },
+  hire_candidate: {
+    risk: OperationRisk.MEDIUM,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription:
+      'Creates an employee from a candidate, marks the application hired and may close the job posting',
+  },
+  offboard_employee: {
+    risk: OperationRisk.HIGH,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription:
+      'Cancels later leaves, removes project, training and team assignments, moves direct reports and terminates the employee',
+    maxBatchSize: 3,
+    cooldownMs: 30 * 1000,
   },
 
   // Team operations
@@ -79,6 +120,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Deletes the team and removes all member associations',
+    maxBatchSize: 5,
   },
   add_team_member: {
     risk: OperationRisk.LOW,
@@ -92,6 +134,12 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresPreview: false,
     impactDescription: 'Removes an employee from the team',
   },
+  assign_team_lead: {
+    risk: OperationRisk.MEDIUM,
+    requiresConfirmation: false,
+    requiresPreview: true,
+    impactDescription: 'Makes an employee a team lead, replacing the current leads on transfer',
+  },
 
   // Location operations
   create_location: {
@@ -111,6 +159,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Deletes the location and removes employee associations',
+    maxBatchSize: 5,
   },
 
   // Leave operations
@@ -131,6 +180,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Cancels the leave request',
+    maxBatchSize: 10,
   },
   approve_leave: {
     risk: OperationRisk.MEDIUM,
@@ -143,6 +193,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Rejects the leave request',
+    maxBatchSize: 10,
   },
 
   // Shift operations
@@ -163,6 +214,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Deletes the shift record',
+    maxBatchSize: 10,
   },
 
   // Document operations
@@ -183,6 +235,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Permanently deletes the document',
+    maxBatchSize: 5,
   },
 
   // Project operations
@@ -203,6 +256,7 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Deletes the project and all associated tasks/time records',
+    maxBatchSize: 5,
   },
 
   // ATS operations
@@ -217,12 +271,44 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Deletes the job posting and all applications',
+    maxBatchSize: 5,
+  },
+  move_application_to_stage: {
+    risk: OperationRisk.MEDIUM,
+    requiresConfirmation: false,
+    requiresPreview: true,
+    impactDescription: 'Moves the application to another hiring stage',
+  },
+  reject_applications: {
+    risk: OperationRisk.MEDIUM,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription: 'Rejects every listed application with the given reason',
+    maxBatchSize: 50,
+    batchArgument: 'application_ids',
+  },
+  delete_application: {
+    risk: OperationRisk.HIGH,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription: 'Permanently deletes the application and its hiring history',
+    maxBatchSize: 5,
   },
   delete_candidate: {
     risk: OperationRisk.HIGH,
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Permanently deletes the candidate record',
+    maxBatchSize: 5,
+  },
+  merge_candidates: {
+    risk: OperationRisk.HIGH,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription:
+      'Moves applications onto the surviving candidate, fills in its empty fields and deletes the duplicates',
+    maxBatchSize: 10,
+    batchArgument: 'duplicate_ids',
   },
 
   // Training operations
@@ -231,41 +317,459 @@ export const OPERATION_POLICIES: Record<string, OperationPolicy> = {
     requiresConfirmation: true,
     requiresPreview: true,
     impactDescription: 'Deletes the training program and all enrollments',
+    maxBatchSize: 5,
+  },
+
+  // Audit operations
+  revert_operation: {
+    risk: OperationRisk.HIGH,
+    requiresConfirmation: true,
+    requiresPreview: true,
+    impactDescription: 'Restores previous values or recreates a deleted entity from the audit log',
+    maxBatchSize: 5,
   },
 };
 
 /**
- * Get the policy for an operation
+ * Window in which executions count towards an operation's maxBatchSize
+ */
+export const BATCH_WINDOW_MS = 60 * 1000;
+
+/**
+ * Arguments identifying the entity a call acts on, in order of preference
+ */
+const ENTITY_ARGUMENTS = ['id', 'employee_id'];
+
+/**
+ * Rate guard for write operations
+ *
+ * Enforces the cooldownMs and maxBatchSize of operation policies, so a looping
+ * agent cannot run dozens of destructive operations in a row. The batch limit
+ * counts executions per operation, the cooldown per operation and entity (so
+ * terminating one employee does not hold up terminating another). Both are
+ * kept per company.
+ */
+export class OperationRateGuard {
+  private executions = new Map<string, number[]>();
+  /** Time each operation and entity leaves its cooldown */
+  private cooldowns = new Map<string, number>();
+
+  private key(operationName: string): string {
+    return `${getActiveCompany() ?? ''}::${operationName}`;
+  }
+
+  /**
+   * Key of the cooldown of an operation on the entity of a call
+   */
+  private cooldownKey(operationName: string, context?: Record<string, unknown>): string {
+    const argument = ENTITY_ARGUMENTS.find(name => context?.[name] !== undefined);
+    return `${this.key(operationName)}::${argument ? String(context?.[argument]) : ''}`;
+  }
+
+  /**
+   * Number of executions a call counts for (the items of a bulk operation)
+   */
+  private count(operationName: string, context?: Record<string, unknown>): number {
+    const { batchArgument } = getOperationPolicy(operationName, context);
+    const items = batchArgument ? context?.[batchArgument] : undefined;
+    return Array.isArray(items) ? items.length : 1;
+  }
+
+  /**
+   * Ensure an operation may run now
+   *
+   * @param context - Arguments of the call, for conditional policy rules
+   * @throws OperationRateLimitError with the time of the next allowed call
+   */
+  check(operationName: string, context?: Record<string, unknown>): void {
+    const { cooldownMs, maxBatchSize } = getOperationPolicy(operationName, context);
+    const now = Date.now();
+
+    const cooldownEnds = this.cooldowns.get(this.cooldownKey(operationName, context));
+    if (cooldownMs && cooldownEnds !== undefined && now < cooldownEnds) {
+      throw new OperationRateLimitError(
+        operationName,
+        `it already ran on this record less than ${Math.round(cooldownMs / 1000)}s ago`,
+        new Date(cooldownEnds)
+      );
+    }
+
+    if (maxBatchSize) {
+      const count = this.count(operationName, context);
+      if (count > maxBatchSize) {
+        throw new OperationRateLimitError(
+          operationName,
+          `${count} items exceed the limit of ${maxBatchSize} per ${BATCH_WINDOW_MS / 1000}s. Split them into smaller calls`
+        );
+      }
+      const key = this.key(operationName);
+      const inBatch = (this.executions.get(key) ?? []).filter(time => now - time < BATCH_WINDOW_MS);
+      this.executions.set(key, inBatch);
+      if (inBatch.length + count > maxBatchSize) {
+        throw new OperationRateLimitError(
+          operationName,
+          `it already ran ${inBatch.length} times in the last ${BATCH_WINDOW_MS / 1000}s (limit ${maxBatchSize})` +
+            (count > 1 ? ` and this call has ${count} items` : ''),
+          new Date(inBatch[inBatch.length + count - maxBatchSize - 1] + BATCH_WINDOW_MS)
+        );
+      }
+    }
+  }
+
+  /**
+   * Record an execution of an operation
+   *
+   * @param context - Arguments of the call; each item of a bulk operation is recorded
+   */
+  record(operationName: string, context?: Record<string, unknown>): void {
+    const { cooldownMs, maxBatchSize } = getOperationPolicy(operationName, context);
+    const now = Date.now();
+
+    if (maxBatchSize) {
+      const key = this.key(operationName);
+      const times = Array<number>(this.count(operationName, context)).fill(now);
+      this.executions.set(key, [...(this.executions.get(key) ?? []), ...times]);
+    }
+
+    if (cooldownMs) {
+      for (const [key, ends] of this.cooldowns) {
+        if (ends <= now) this.cooldowns.delete(key);
+      }
+      this.cooldowns.set(this.cooldownKey(operationName, context), now + cooldownMs);
+    }
+  }
+
+  /**
+   * Forget all executions (useful for testing)
+   */
+  clear(): void {
+    this.executions.clear();
+    this.cooldowns.clear();
+  }
+}
+
+// Singleton instance
+export const operationRateGuard = new OperationRateGuard();
+
+/**
+ * Tool name prefixes of operations that modify data
  */
-export function getOperationPolicy(operationName: string): OperationPolicy {
+const WRITE_OPERATION_PREFIXES = [
+  'create_',
+  'update_',
+  'delete_',
+  'terminate_',
+  'cancel_',
+  'approve_',
+  'reject_',
+  'archive_',
+  'unarchive_',
+  'assign_',
+  'remove_',
+  'add_',
+  'enroll_',
+  'unenroll_',
+  'advance_',
+  'upload_',
+  'revert_',
+];
+
+/**
+ * Check if a tool modifies data in FactorialHR
+ */
+export function isWriteOperation(toolName: string): boolean {
   return (
-    OPERATION_POLICIES[operationName] ?? {
-      risk: OperationRisk.MEDIUM,
-      requiresConfirmation: false,
-      requiresPreview: true,
-      impactDescription: 'Modifies data in FactorialHR',
+    toolName in OPERATION_POLICIES ||
+    WRITE_OPERATION_PREFIXES.some(prefix => toolName.startsWith(prefix))
+  );
+}
+
+/**
+ * Policy used for operations without a built-in policy
+ */
+const DEFAULT_OPERATION_POLICY: OperationPolicy = {
+  risk: OperationRisk.MEDIUM,
+  requiresConfirmation: false,
+  requiresPreview: true,
+  impactDescription: 'Modifies data in FactorialHR',
+};
+
+/**
+ * Condition of a policy rule
+ *
+ * Checked against the call's arguments and the facts the tool gathers about
+ * it (e.g., `days` for approve_leave). All given checks must hold.
+ */
+export interface PolicyCondition {
+  /** Any of these arguments is provided */
+  changes?: string[];
+  /** Argument or fact compared by the operators below */
+  field?: string;
+  equals?: string | number | boolean;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/**
+ * Conditional rule from the policy file
+ */
+export interface PolicyRule {
+  operation: string;
+  when: PolicyCondition;
+  /** Why the rule applies, shown in confirmation previews */
+  description?: string;
+  /** Policy fields that apply when the condition holds */
+  policy: Partial<OperationPolicy>;
+}
+
+const PolicyOverrideShape = {
+  risk: z.nativeEnum(OperationRisk).optional(),
+  requiresConfirmation: z.boolean().optional(),
+  requiresPreview: z.boolean().optional(),
+  maxBatchSize: z.number().int().positive().optional(),
+  cooldownMs: z.number().int().nonnegative().optional(),
+  impactDescription: z.string().optional(),
+  blocked: z.boolean().optional(),
+};
+
+const PolicyConditionSchema = z
+  .object({
+    changes: z.array(z.string()).min(1).optional(),
+    field: z.string().optional(),
+    equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    gt: z.number().optional(),
+    gte: z.number().optional(),
+    lt: z.number().optional(),
+    lte: z.number().optional(),
+  })
+  .strict()
+  .refine(when => when.changes !== undefined || when.field !== undefined, {
+    message: 'a condition needs "changes" or "field"',
+  })
+  .refine(
+    when =>
+      when.field === undefined ||
+      [when.equals, when.gt, when.gte, when.lt, when.lte].some(check => check !== undefined),
+    { message: '"field" needs an operator (equals, gt, gte, lt, lte)' }
+  );
+
+const PolicyFileSchema = z
+  .object({
+    operations: z.record(z.object(PolicyOverrideShape).strict()).optional(),
+    rules: z
+      .array(
+        z
+          .object({
+            operation: z.string(),
+            when: PolicyConditionSchema,
+            description: z.string().optional(),
+            ...PolicyOverrideShape,
+          })
+          .strict()
+      )
+      .optional(),
+    coverage: z
+      .object({
+        min_available: z.number().int().nonnegative().optional(),
+        teams: z.record(z.number().int().nonnegative()).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Minimum number of team members that must stay available during a leave
+ */
+export interface CoveragePolicy {
+  /** Minimum for teams without their own */
+  min_available: number;
+  /** Minimum per team ID */
+  teams: Record<string, number>;
+}
+
+/**
+ * Coverage minimum used when the policy file does not set one
+ */
+export const DEFAULT_MIN_AVAILABLE = 1;
+
+/**
+ * Policies merged with the policy file, cached by path
+ */
+let loadedPolicies:
+  | {
+      path: string;
+      operations: Record<string, OperationPolicy>;
+      rules: PolicyRule[];
+      coverage: CoveragePolicy;
     }
+  | undefined;
+
+/**
+ * Load the built-in policies merged with the policy file, if any
+ *
+ * Called at startup so an invalid file stops the server instead of failing
+ * on the first write.
+ *
+ * @throws ConfigurationError if the file cannot be read or is invalid
+ */
+export function loadOperationPolicies(): NonNullable<typeof loadedPolicies> {
+  const path = process.env.FACTORIAL_POLICY_PATH ? resolve(process.env.FACTORIAL_POLICY_PATH) : '';
+  if (loadedPolicies?.path === path) {
+    return loadedPolicies;
+  }
+
+  let file: z.infer<typeof PolicyFileSchema> = {};
+  if (path) {
+    let raw: unknown;
+    try {
+      const text = readFileSync(path, 'utf8');
+      raw = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+    } catch (error) {
+      throw new ConfigurationError(
+        `Cannot read operation policies from ${path}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const parsed = PolicyFileSchema.safeParse(raw ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+        .join('; ');
+      throw new ConfigurationError(`Invalid policy file ${path}: ${issues}`);
+    }
+    file = parsed.data;
+  }
+
+  const operations = { ...OPERATION_POLICIES };
+  for (const [name, override] of Object.entries(file.operations ?? {})) {
+    operations[name] = { ...(operations[name] ?? DEFAULT_OPERATION_POLICY), ...override };
+  }
+  const rules = (file.rules ?? []).map(
+    ({ operation, when, description, ...policy }): PolicyRule => ({
+      operation,
+      when,
+      description,
+      policy,
+    })
+  );
+
+  const unknown = [...Object.keys(operations), ...rules.map(rule => rule.operation)].filter(
+    name => !isWriteOperation(name)
+  );
+  if (unknown.length > 0) {
+    throw new ConfigurationError(
+      `Invalid policy file ${path}: "${unknown[0]}" is not a write operation`
+    );
+  }
+
+  const coverage = {
+    min_available: file.coverage?.min_available ?? DEFAULT_MIN_AVAILABLE,
+    teams: file.coverage?.teams ?? {},
+  };
+
+  loadedPolicies = { path, operations, rules, coverage };
+  if (path) {
+    debug(`Loaded operation policies from ${path}`);
+  }
+  return loadedPolicies;
+}
+
+/**
+ * Check whether a rule condition holds for a call
+ */
+function matchesCondition(when: PolicyCondition, context: Record<string, unknown>): boolean {
+  if (when.changes && !when.changes.some(field => context[field] !== undefined)) {
+    return false;
+  }
+  if (when.field === undefined) {
+    return true;
+  }
+
+  const value = context[when.field];
+  if (when.equals !== undefined && value !== when.equals) {
+    return false;
+  }
+  const bounds = [when.gt, when.gte, when.lt, when.lte];
+  if (bounds.every(bound => bound === undefined)) {
+    return true;
+  }
+  return (
+    typeof value === 'number' &&
+    (when.gt === undefined || value > when.gt) &&
+    (when.gte === undefined || value >= when.gte) &&
+    (when.lt === undefined || value < when.lt) &&
+    (when.lte === undefined || value <= when.lte)
+  );
+}
+
+/**
+ * Find the policy file rules that apply to a call
+ *
+ * @param context - Arguments of the call and facts about it
+ */
+export function getMatchingPolicyRules(
+  operationName: string,
+  context: Record<string, unknown>
+): PolicyRule[] {
+  return loadOperationPolicies().rules.filter(
+    rule => rule.operation === operationName && matchesCondition(rule.when, context)
   );
 }
 
+/**
+ * Get the policy for an operation
+ *
+ * @param context - Arguments of the call and facts about it; when given, the
+ * matching conditional rules are applied in file order
+ */
+export function getOperationPolicy(
+  operationName: string,
+  context?: Record<string, unknown>
+): OperationPolicy {
+  let policy = loadOperationPolicies().operations[operationName] ?? DEFAULT_OPERATION_POLICY;
+  if (context) {
+    for (const rule of getMatchingPolicyRules(operationName, context)) {
+      policy = { ...policy, ...rule.policy };
+    }
+  }
+  return policy;
+}
+
+/**
+ * Get the minimum number of members of a team that must stay available
+ */
+export function getCoverageMinimum(teamId: number): number {
+  const { coverage } = loadOperationPolicies();
+  return coverage.teams[String(teamId)] ?? coverage.min_available;
+}
+
 /**
  * Check if an operation requires confirmation
  */
-export function requiresConfirmation(operationName: string): boolean {
-  return getOperationPolicy(operationName).requiresConfirmation;
+export function requiresConfirmation(
+  operationName: string,
+  context?: Record<string, unknown>
+): boolean {
+  return getOperationPolicy(operationName, context).requiresConfirmation;
 }
 
 /**
  * Get a warning message for high-risk operations
  */
-export function getWarningMessage(operationName: string): string | null {
-  const policy = getOperationPolicy(operationName);
+export function getWarningMessage(
+  operationName: string,
+  context?: Record<string, unknown>
+): string | null {
+  const policy = getOperationPolicy(operationName, context);
 
   if (policy.risk === OperationRisk.HIGH || policy.risk === OperationRisk.CRITICAL) {
     return (
       `**Warning:** This is a ${policy.risk}-risk operation. ${policy.impactDescription}. ` +
       (policy.requiresConfirmation
-        ? 'Please confirm by setting `confirm: true`.'
+        ? 'Review the preview, then call the tool again with its `confirmation_token` to proceed.'
         : 'Please review carefully before proceeding.')
     );
   }
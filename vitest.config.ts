@@ -22,7 +22,8 @@ export default defineConfig({
         '**/*.test.ts',
         '**/*.config.*',
         'src/__tests__/fixtures/**',
-        'src/index.ts', // MCP server registration - complex to test, low value
+        'src/index.ts', // Entry point - transport selection and process lifecycle
+        'src/server.ts', // MCP server registration - complex to test, low value
         'src/schemas.ts', // Zod schema definitions - type definitions
         'src/types.ts', // Type re-exports only
       ],